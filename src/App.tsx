@@ -3,11 +3,17 @@ import { MultiTrackView } from "./components/MultiTrackView";
 import { Toolbar } from "./components/Toolbar";
 import { ToastContainer } from "./components/Toast";
 import { KeyboardShortcuts } from "./components/KeyboardShortcuts";
+import { HistoryPanel } from "./components/HistoryPanel";
+import { EffectChainsPanel } from "./components/EffectChainsPanel";
+import { LoudnessPanel } from "./components/LoudnessPanel";
+import { AnalysisPanel } from "./components/AnalysisPanel";
+import { SilencePanel } from "./components/SilencePanel";
+import { RecordingSettingsPanel } from "./components/RecordingSettingsPanel";
 import { ConfirmationDialog } from "./components/ConfirmationDialog";
 import { Spinner } from "./components/Spinner";
 import { MobileBlocker } from "./components/MobileBlocker";
 import { useAudioStore, initializeStore } from "./stores/audioStore";
-import { useAudioRecorder } from "./hooks/useAudioRecorder";
+import { useAudioRecorder, type RecordingTransport } from "./hooks/useAudioRecorder";
 import { useKeyboardShortcuts } from "./hooks/useKeyboardShortcuts";
 import { useFileImport } from "./hooks/useFileImport";
 import { useAudioOperations } from "./hooks/useAudioOperations";
@@ -16,7 +22,8 @@ import { audioOperations } from "./utils/audioOperations";
 import { getErrorMessage } from "./utils/error";
 import type { useWaveform } from "./hooks/useWaveform";
 import { useWaveformManager } from "./hooks/useWaveformManager";
-import { prepareExportBuffer } from "./utils/export";
+import { prepareExportBuffer, type LoudnessTarget } from "./utils/export";
+import { formatDuration } from "./utils/time";
 
 export default function App() {
   const {
@@ -32,6 +39,7 @@ export default function App() {
     saveProject,
     loadProject,
     getCurrentTrack,
+    setSelection,
   } = useAudioStore();
   const recorder = useAudioRecorder();
   const [waveformRef, setWaveformRef] = createSignal<ReturnType<typeof useWaveform> | null>(null);
@@ -42,6 +50,12 @@ export default function App() {
   const [isInitialized, setIsInitialized] = createSignal(false);
   const [showResetDialog, setShowResetDialog] = createSignal(false);
   const [showShortcuts, setShowShortcuts] = createSignal(false);
+  const [showHistory, setShowHistory] = createSignal(false);
+  const [showChains, setShowChains] = createSignal(false);
+  const [showLoudness, setShowLoudness] = createSignal(false);
+  const [showAnalysis, setShowAnalysis] = createSignal(false);
+  const [showSilence, setShowSilence] = createSignal(false);
+  const [showRecordingSettings, setShowRecordingSettings] = createSignal(false);
   const [isExporting, setIsExporting] = createSignal(false);
   const [isDragging, setIsDragging] = createSignal(false);
   const [isMobile, setIsMobile] = createSignal(false);
@@ -109,10 +123,8 @@ export default function App() {
 
     try {
       stopAllTracks();
-      waveformRef()?.stop();
       waveformRef()?.clearSelection();
       waveformMap().forEach((waveform) => {
-        waveform.stop();
         waveform.clearSelection();
       });
 
@@ -175,7 +187,7 @@ export default function App() {
 
   const handleResetConfirm = async () => {
     setShowResetDialog(false);
-    waveformRef()?.stop();
+    stopAllTracks();
     waveformRef()?.clearSelection();
     waveformRef()?.clearAudio();
     await resetStore();
@@ -184,7 +196,8 @@ export default function App() {
   const handleExport = async (
     format: "wav" | "mp3" | "ogg",
     quality: string,
-    scope: "all" | "current" | "selection"
+    scope: "all" | "current" | "selection",
+    loudness: LoudnessTarget | null
   ) => {
     const projectName = store.projectName.trim();
     if (!projectName) {
@@ -200,7 +213,9 @@ export default function App() {
         getCurrentTrack(),
         store.selection,
         projectName,
-        format
+        format,
+        store.master,
+        loudness
       );
 
       if (!result) {
@@ -235,6 +250,22 @@ export default function App() {
   const waveformManager = useWaveformManager(waveformMap);
   const { playAllTracks, pauseAllTracks, stopAllTracks, seekAllTracks } = waveformManager;
 
+  const recordingTransport: RecordingTransport = {
+    play: async (time) => {
+      seekAllTracks(time);
+      await playAllTracks();
+    },
+    stop: pauseAllTracks,
+  };
+
+  createEffect(() => {
+    const error = recorder.error();
+    if (error) {
+      toast.addToast(error);
+      recorder.clearError();
+    }
+  });
+
   const createOperationHandler = (operation: () => Promise<void>, errorMessage: string) => () =>
     handleOperation(operation, errorMessage);
 
@@ -244,8 +275,11 @@ export default function App() {
     onCopy: createOperationHandler(() => audioOps.handleCopy(waveformRef), "Failed to copy"),
     onPaste: createOperationHandler(() => audioOps.handlePaste(waveformRef), "Failed to paste"),
     onDelete: createOperationHandler(() => audioOps.handleDelete(waveformRef), "Failed to delete"),
+    onSplit: createOperationHandler(() => audioOps.handleSplit(), "Failed to split clip"),
+    onTrim: createOperationHandler(() => audioOps.handleTrim(waveformRef), "Failed to trim"),
     onUndo: () => undo(),
     onRedo: () => redo(),
+    onToggleHistory: () => setShowHistory((open) => !open),
     onPlayPause: () => {
       if (store.isPlaying) {
         pauseAllTracks();
@@ -279,7 +313,16 @@ export default function App() {
 
     if (!mobile) {
       setIsInitialized(true);
-      initializeStore().catch(() => {});
+      initializeStore()
+        .catch(() => {})
+        .then(() => recorder.recoverRecordings())
+        .then((count) => {
+          if (count > 0) {
+            toast.addToast(
+              `Recovered ${count} unfinished recording${count > 1 ? "s" : ""} as new track${count > 1 ? "s" : ""}`
+            );
+          }
+        });
     }
   });
 
@@ -294,30 +337,8 @@ export default function App() {
     }
   });
 
-  const [lastCurrentTime, setLastCurrentTime] = createSignal(store.currentTime);
-  createEffect(() => {
-    const repeatRegion = store.repeatRegion;
-    const isPlaying = store.isPlaying;
-    const currentTime = store.currentTime;
-
-    if (repeatRegion && isPlaying) {
-      const { start, end } = repeatRegion;
-      const prevTime = lastCurrentTime();
-
-      const wasWithinRepeat = prevTime >= start - 0.01 && prevTime <= end + 0.01;
-      const isWithinRepeat = currentTime >= start - 0.01 && currentTime <= end + 0.01;
-
-      if (wasWithinRepeat && isWithinRepeat && currentTime >= end - 0.01 && prevTime < end - 0.01) {
-        seekAllTracks(start);
-      }
-
-      setLastCurrentTime(currentTime);
-    } else {
-      setLastCurrentTime(currentTime);
-    }
-  });
-
   const isLoading = () => fileImport.isLoading() || audioOps.isLoading();
+  const effectPercent = () => Math.round((audioOps.effectProgress() ?? 0) * 100);
 
   return (
     <main
@@ -381,6 +402,8 @@ export default function App() {
                 });
               }}
               onSeekAll={seekAllTracks}
+              inputAnalysers={recorder.isRecording() ? recorder.inputAnalysers() : null}
+              livePeaks={recorder.livePeaks()}
               onSelectionCreated={(trackId) => {
                 const map = waveformMap();
                 map.forEach((waveform, id) => {
@@ -393,9 +416,9 @@ export default function App() {
           </div>
         </Show>
         <Toolbar
-          waveform={waveformRef() ?? undefined}
           onPlayAll={playAllTracks}
           onPauseAll={pauseAllTracks}
+          onNotify={(message) => toast.addToast(message)}
           onStopAll={stopAllTracks}
           onSeekAll={seekAllTracks}
           onImportClick={handleImportClick}
@@ -403,19 +426,19 @@ export default function App() {
           onReset={handleReset}
           onUndo={() => undo()}
           onRedo={() => redo()}
-          onRecordClick={async () => {
+          onHistoryClick={() => setShowHistory(true)}
+          onChainsClick={() => setShowChains(true)}
+          onLoudnessClick={() => setShowLoudness(true)}
+          onAnalysisClick={() => setShowAnalysis(true)}
+          onSilenceClick={() => setShowSilence(true)}
+          onRecordClick={() => {
             if (recorder.isRecording()) {
               recorder.stopRecording();
             } else {
-              try {
-                await recorder.startRecording();
-              } catch (err) {
-                const error = recorder.error() || getErrorMessage(err, "Failed to start recording");
-                toast.addToast(error);
-                recorder.clearError();
-              }
+              recorder.startRecording(recordingTransport).catch(() => {});
             }
           }}
+          onRecordingSettingsClick={() => setShowRecordingSettings(true)}
           canUndo={canUndo()}
           canRedo={canRedo()}
           isExporting={isExporting()}
@@ -428,6 +451,18 @@ export default function App() {
               "Failed to normalize"
             )
           }
+          onLoudnessNormalize={(target, truePeak, scope) =>
+            handleOperation(
+              () =>
+                audioOps.handleLoudnessNormalize(
+                  scope,
+                  (trackId) => waveformMap().get(trackId) || null,
+                  target,
+                  truePeak
+                ),
+              "Failed to normalize loudness"
+            )
+          }
           onAmplify={(gain, scope) =>
             handleOperation(
               () =>
@@ -475,6 +510,22 @@ export default function App() {
               "Failed to apply reverb"
             )
           }
+          onConvolutionReverb={(impulse, preDelay, decay, lowCut, highCut, mix, scope) =>
+            handleOperation(
+              () =>
+                audioOps.handleConvolutionReverb(
+                  scope,
+                  (trackId) => waveformMap().get(trackId) || null,
+                  impulse,
+                  preDelay,
+                  decay,
+                  lowCut,
+                  highCut,
+                  mix
+                ),
+              "Failed to apply convolution reverb"
+            )
+          }
           onDelay={(delayTime, feedback, wetLevel, scope) =>
             handleOperation(
               () =>
@@ -488,17 +539,26 @@ export default function App() {
               "Failed to apply delay"
             )
           }
-          onNoiseReduction={(reductionAmount, scope) =>
+          onNoiseReduction={(reductionDb, sensitivityDb, smoothingBands, scope) =>
             handleOperation(
               () =>
                 audioOps.handleNoiseReduction(
                   scope,
                   (trackId) => waveformMap().get(trackId) || null,
-                  reductionAmount
+                  reductionDb,
+                  sensitivityDb,
+                  smoothingBands
                 ),
               "Failed to apply noise reduction"
             )
           }
+          onGetNoiseProfile={() =>
+            handleOperation(async () => {
+              if (await audioOps.handleGetNoiseProfile()) {
+                toast.addToast("Noise profile captured");
+              }
+            }, "Failed to get noise profile")
+          }
           onChangeSpeed={(speedFactor, scope) =>
             handleOperation(
               () =>
@@ -510,15 +570,27 @@ export default function App() {
               "Failed to change speed"
             )
           }
-          onChangePitch={(pitchFactor, scope) =>
+          onTimeStretch={(tempo, scope) =>
+            handleOperation(
+              () =>
+                audioOps.handleTimeStretch(
+                  scope,
+                  (trackId) => waveformMap().get(trackId) || null,
+                  tempo
+                ),
+              "Failed to apply time stretch"
+            )
+          }
+          onPitchShift={(semitones, cents, scope) =>
             handleOperation(
               () =>
-                audioOps.handleChangePitch(
+                audioOps.handlePitchShift(
                   scope,
                   (trackId) => waveformMap().get(trackId) || null,
-                  pitchFactor
+                  semitones,
+                  cents
                 ),
-              "Failed to change pitch"
+              "Failed to apply pitch shift"
             )
           }
           onCompressor={(threshold, ratio, attack, release, knee, scope) =>
@@ -548,16 +620,10 @@ export default function App() {
               "Failed to apply limiter"
             )
           }
-          onEq={(frequency, gain, q, scope) =>
+          onEq={(bands, scope) =>
             handleOperation(
               () =>
-                audioOps.handleEq(
-                  scope,
-                  (trackId) => waveformMap().get(trackId) || null,
-                  frequency,
-                  gain,
-                  q
-                ),
+                audioOps.handleEq(scope, (trackId) => waveformMap().get(trackId) || null, bands),
               "Failed to apply EQ"
             )
           }
@@ -593,15 +659,79 @@ export default function App() {
             () => audioOps.handleDelete(waveformRef),
             "Failed to delete"
           )}
+          onSplit={createOperationHandler(() => audioOps.handleSplit(), "Failed to split clip")}
+          onTrim={createOperationHandler(() => audioOps.handleTrim(waveformRef), "Failed to trim")}
           onHelpClick={() => setShowShortcuts(true)}
           onSaveProject={handleSaveProject}
           onLoadProject={handleLoadProject}
         />
         <ToastContainer toasts={toast.toasts()} onDismiss={toast.removeToast} />
         <KeyboardShortcuts isOpen={showShortcuts()} onClose={() => setShowShortcuts(false)} />
+        <HistoryPanel isOpen={showHistory()} onClose={() => setShowHistory(false)} />
+        <EffectChainsPanel
+          isOpen={showChains()}
+          onClose={() => setShowChains(false)}
+          onNotify={(message) => toast.addToast(message)}
+        />
+        <LoudnessPanel isOpen={showLoudness()} onClose={() => setShowLoudness(false)} />
+        <AnalysisPanel
+          isOpen={showAnalysis()}
+          onClose={() => setShowAnalysis(false)}
+          onSelectRegion={(start, end) => {
+            setSelection({ start, end });
+            seekAllTracks(start);
+          }}
+        />
+        <RecordingSettingsPanel
+          isOpen={showRecordingSettings()}
+          onClose={() => setShowRecordingSettings(false)}
+        />
+        <SilencePanel
+          isOpen={showSilence()}
+          onClose={() => setShowSilence(false)}
+          onSelectRegion={(start, end) => {
+            setSelection({ start, end });
+            seekAllTracks(start);
+          }}
+          onTruncate={async (regions, maxLength) => {
+            const removed = await audioOps.handleTruncateSilence(regions, maxLength, waveformRef);
+            setShowSilence(false);
+            toast.addToast(
+              removed > 0
+                ? `Removed ${formatDuration(removed)} of silence`
+                : "No silence longer than the truncate length"
+            );
+          }}
+          onSplit={async (regions, target) => {
+            const parts = await audioOps.handleSplitOnSilence(regions, target, waveformRef);
+            setShowSilence(false);
+            toast.addToast(
+              `Split into ${parts} ${target === "clips" ? "clip" : "track"}${parts === 1 ? "" : "s"}`
+            );
+          }}
+        />
         <Show when={isLoading()}>
           <div class="fixed inset-0 bg-black/50 z-[1500] flex items-center justify-center backdrop-blur-[2px]">
-            <Spinner size="large" />
+            <div class="flex flex-col items-center gap-3">
+              <Spinner size="large" />
+              <Show when={audioOps.effectProgress() !== null}>
+                <>
+                  <div class="w-48 h-1.5 rounded-full bg-[var(--color-bg-secondary)] overflow-hidden">
+                    <div
+                      class="h-full bg-[var(--color-primary)] transition-[width] duration-100"
+                      style={{ width: `${effectPercent()}%` }}
+                    />
+                  </div>
+                  <span class="text-sm text-white tabular-nums">Processing {effectPercent()}%</span>
+                  <button
+                    class="py-1.5 px-4 rounded-md text-sm font-medium cursor-pointer transition-all duration-200 border border-[var(--color-border)] bg-[var(--color-bg-elevated)] text-[var(--color-text)] hover:bg-[var(--color-hover)] hover:border-[var(--color-border-hover)] active:scale-[0.98] focus:outline-none"
+                    onClick={() => audioOps.cancelEffect()}
+                  >
+                    Cancel
+                  </button>
+                </>
+              </Show>
+            </div>
           </div>
         </Show>
         <ConfirmationDialog
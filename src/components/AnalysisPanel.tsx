@@ -0,0 +1,335 @@
+import { Component, For, Index, Show, createEffect, createSignal, on, onCleanup } from "solid-js";
+import { renderPendingTracks, useAudioStore } from "../stores/audioStore";
+import {
+  SPECTRUM_SIZES,
+  SPECTRUM_WINDOWS,
+  type ClippingReport,
+  type SpectrumWindow,
+} from "../utils/analysisDsp";
+import { analyzeClipping, analyzeLevels, analyzeSpectrum } from "../utils/audioBuffer";
+import { audioOperations } from "../utils/audioOperations";
+import { getErrorMessage, isAbortError } from "../utils/error";
+import type { ChannelLevels } from "../utils/mixDsp";
+import { formatTime } from "../utils/time";
+import { SpectrumPlot } from "./SpectrumPlot";
+
+interface AnalysisPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSelectRegion: (start: number, end: number) => void;
+}
+
+interface AnalysisSource {
+  buffer: AudioBuffer;
+  offset: number;
+  label: string;
+}
+
+const formatDb = (value: number) => (value > 0 ? (20 * Math.log10(value)).toFixed(1) : "-∞");
+
+const formatPosition = (seconds: number) =>
+  `${formatTime(seconds)}.${String(Math.floor((seconds % 1) * 1000)).padStart(3, "0")}`;
+
+const channelName = (channel: number, channels: number) => {
+  if (channels === 1) return "Mono";
+  if (channels === 2) return channel === 0 ? "Left" : "Right";
+  return `Channel ${channel + 1}`;
+};
+
+export const AnalysisPanel: Component<AnalysisPanelProps> = (props) => {
+  const { store, getCurrentTrack } = useAudioStore();
+  const [size, setSize] = createSignal(4096);
+  const [windowType, setWindowType] = createSignal<SpectrumWindow>("hann");
+  const [source, setSource] = createSignal<AnalysisSource | null>(null);
+  const [levels, setLevels] = createSignal<ChannelLevels | null>(null);
+  const [clipping, setClipping] = createSignal<ClippingReport | null>(null);
+  const [spectrum, setSpectrum] = createSignal<Float32Array | null>(null);
+  const [progress, setProgress] = createSignal<number | null>(null);
+  const [error, setError] = createSignal<string | null>(null);
+  let controller: AbortController | null = null;
+
+  const cancel = () => {
+    controller?.abort();
+    controller = null;
+  };
+
+  const runSpectrum = async (current: AnalysisSource) => {
+    cancel();
+    const task = new AbortController();
+    controller = task;
+    setProgress(0);
+    try {
+      const result = await analyzeSpectrum(current.buffer, size(), windowType(), {
+        signal: task.signal,
+        onProgress: setProgress,
+      });
+      if (controller === task) {
+        setSpectrum(result);
+      }
+    } catch (err) {
+      if (!isAbortError(err)) {
+        setError(getErrorMessage(err, "Failed to compute spectrum"));
+      }
+    } finally {
+      if (controller === task) {
+        controller = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  const handleAnalyze = async () => {
+    cancel();
+    setError(null);
+    setSource(null);
+    setLevels(null);
+    setClipping(null);
+    setSpectrum(null);
+    setProgress(0);
+
+    await renderPendingTracks(store.currentTrackId ? [store.currentTrackId] : []);
+    const track = getCurrentTrack();
+    if (!track?.audioBuffer) {
+      setProgress(null);
+      setError("No current track to analyze");
+      return;
+    }
+
+    try {
+      const selection = store.selection;
+      const current: AnalysisSource = selection
+        ? {
+            buffer: await audioOperations.copy(track.audioBuffer, selection.start, selection.end),
+            offset: selection.start,
+            label: `Selection of ${track.name}`,
+          }
+        : { buffer: track.audioBuffer, offset: 0, label: track.name };
+      setSource(current);
+      const [channelLevels, report] = await Promise.all([
+        analyzeLevels(current.buffer),
+        analyzeClipping(current.buffer),
+      ]);
+      if (source() !== current) return;
+      setLevels(channelLevels);
+      setClipping(report);
+      await runSpectrum(current);
+    } catch (err) {
+      setProgress(null);
+      setError(getErrorMessage(err, "Failed to analyze audio"));
+    }
+  };
+
+  createEffect(
+    on(
+      () => props.isOpen,
+      (open) => {
+        if (open) {
+          void handleAnalyze();
+        } else {
+          cancel();
+          setProgress(null);
+          setSource(null);
+        }
+      }
+    )
+  );
+
+  createEffect(
+    on(
+      [size, windowType],
+      () => {
+        const current = source();
+        if (current && levels()) {
+          void runSpectrum(current);
+        }
+      },
+      { defer: true }
+    )
+  );
+
+  onCleanup(cancel);
+
+  const selectClass =
+    "py-1.5 px-2 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-[var(--color-text)] text-[0.8125rem] cursor-pointer focus:outline-none focus:border-[var(--color-primary)]";
+
+  return (
+    <Show when={props.isOpen}>
+      <div
+        class="fixed inset-0 flex items-center justify-center backdrop-blur-sm bg-black/50 z-[2000]"
+        onClick={props.onClose}
+      >
+        <div
+          class="bg-[var(--color-bg-elevated)] border border-[var(--color-border)] rounded-lg sm:rounded-xl max-w-[560px] w-[95%] sm:w-[90%] max-h-[85vh] sm:max-h-[80vh] overflow-hidden flex flex-col"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div class="flex items-center justify-between py-4 sm:py-6 px-4 sm:px-6 border-b border-[var(--color-border)]">
+            <h2 class="m-0 text-lg sm:text-xl font-semibold text-[var(--color-text)]">Analysis</h2>
+            <button
+              class="flex-shrink-0 bg-none border-0 text-[var(--color-text-secondary)] cursor-pointer p-2 flex items-center justify-center rounded-md transition-all duration-150 hover:bg-[var(--color-border)] hover:text-[var(--color-text)]"
+              onClick={props.onClose}
+              aria-label="Close"
+            >
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
+                <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" />
+              </svg>
+            </button>
+          </div>
+          <div class="flex-1 overflow-y-auto p-4 sm:p-6 flex flex-col gap-4">
+            <div class="flex items-center justify-between gap-3">
+              <span class="text-[0.8125rem] text-[var(--color-text-secondary)] truncate">
+                {source()?.label ?? "—"}
+              </span>
+              <button
+                type="button"
+                class="flex-shrink-0 py-1.5 px-3 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-[var(--color-text)] text-[0.8125rem] cursor-pointer transition-all duration-150 hover:bg-[var(--color-hover)] hover:border-[var(--color-border-hover)] disabled:opacity-50 disabled:cursor-wait"
+                onClick={handleAnalyze}
+                disabled={progress() !== null}
+              >
+                Refresh
+              </button>
+            </div>
+
+            <section class="flex flex-col gap-2">
+              <div class="flex items-center justify-between gap-2 flex-wrap">
+                <h3 class="m-0 text-sm font-semibold text-[var(--color-text)]">Spectrum</h3>
+                <div class="flex items-center gap-2">
+                  <select
+                    value={size()}
+                    onChange={(e) => setSize(parseInt(e.currentTarget.value, 10))}
+                    class={selectClass}
+                    aria-label="FFT size"
+                  >
+                    <For each={SPECTRUM_SIZES}>
+                      {(value) => <option value={value}>{value} pt</option>}
+                    </For>
+                  </select>
+                  <select
+                    value={windowType()}
+                    onChange={(e) => setWindowType(e.currentTarget.value as SpectrumWindow)}
+                    class={selectClass}
+                    aria-label="Window"
+                  >
+                    <For each={Object.entries(SPECTRUM_WINDOWS)}>
+                      {([value, label]) => <option value={value}>{label}</option>}
+                    </For>
+                  </select>
+                </div>
+              </div>
+              <Show
+                when={spectrum() && source()}
+                fallback={
+                  <div class="h-[180px] flex items-center justify-center bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-xs text-[var(--color-text-secondary)]">
+                    {progress() !== null
+                      ? `Analyzing ${Math.round(progress()! * 100)}%`
+                      : "No spectrum"}
+                  </div>
+                }
+              >
+                <SpectrumPlot spectrum={spectrum()!} sampleRate={source()!.buffer.sampleRate} />
+              </Show>
+            </section>
+
+            <Show when={levels()}>
+              {(result) => (
+                <section class="flex flex-col gap-2">
+                  <h3 class="m-0 text-sm font-semibold text-[var(--color-text)]">Statistics</h3>
+                  <table class="w-full text-sm border-collapse">
+                    <thead>
+                      <tr class="text-[var(--color-text-secondary)] text-xs">
+                        <th class="text-left font-normal pb-1">Channel</th>
+                        <th class="text-right font-normal pb-1">Peak</th>
+                        <th class="text-right font-normal pb-1">RMS</th>
+                        <th class="text-right font-normal pb-1">DC offset</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      <Index each={result().peak}>
+                        {(peak, channel) => (
+                          <tr class="text-[var(--color-text)] tabular-nums">
+                            <td class="py-0.5">{channelName(channel, result().peak.length)}</td>
+                            <td class="py-0.5 text-right">{formatDb(peak())} dBFS</td>
+                            <td class="py-0.5 text-right">
+                              {formatDb(result().rms[channel] ?? 0)} dBFS
+                            </td>
+                            <td class="py-0.5 text-right">
+                              {((result().dcOffset[channel] ?? 0) * 100).toFixed(3)}%
+                            </td>
+                          </tr>
+                        )}
+                      </Index>
+                    </tbody>
+                  </table>
+                </section>
+              )}
+            </Show>
+
+            <Show when={clipping()}>
+              {(report) => (
+                <section class="flex flex-col gap-2">
+                  <h3 class="m-0 text-sm font-semibold text-[var(--color-text)]">
+                    Clipping
+                    <Show when={report().regions.length > 0}>
+                      <span class="ml-2 font-normal text-xs text-[var(--color-danger)]">
+                        {report().clippedSamples} samples in {report().regions.length}
+                        {report().truncated ? "+" : ""} regions
+                      </span>
+                    </Show>
+                  </h3>
+                  <Show
+                    when={report().regions.length > 0}
+                    fallback={
+                      <div class="text-xs text-[var(--color-text-secondary)]">
+                        No clipping found
+                      </div>
+                    }
+                  >
+                    <div class="max-h-[160px] overflow-y-auto flex flex-col border border-[var(--color-border)] rounded">
+                      <For each={report().regions}>
+                        {(region) => (
+                          <button
+                            type="button"
+                            class="flex items-center justify-between gap-3 py-1.5 px-2.5 bg-transparent border-0 border-b border-[var(--color-border)] last:border-b-0 text-left text-[0.8125rem] text-[var(--color-text)] cursor-pointer tabular-nums hover:bg-[var(--color-hover)]"
+                            onClick={() => {
+                              const offset = source()?.offset ?? 0;
+                              props.onSelectRegion(offset + region.start, offset + region.end);
+                            }}
+                          >
+                            <span>
+                              {formatPosition((source()?.offset ?? 0) + region.start)} –{" "}
+                              {formatPosition((source()?.offset ?? 0) + region.end)}
+                            </span>
+                            <span class="text-xs text-[var(--color-text-secondary)]">
+                              {region.channels
+                                .map((channel) =>
+                                  channelName(channel, source()?.buffer.numberOfChannels ?? 1)
+                                )
+                                .join(", ")}{" "}
+                              · {region.samples} samples
+                            </span>
+                          </button>
+                        )}
+                      </For>
+                    </div>
+                    <Show when={report().truncated}>
+                      <div class="text-xs text-[var(--color-text-secondary)]">
+                        Only the first {report().regions.length} regions are listed
+                      </div>
+                    </Show>
+                  </Show>
+                </section>
+              )}
+            </Show>
+
+            <Show when={error()}>
+              <div class="text-xs text-[var(--color-danger)]">{error()}</div>
+            </Show>
+          </div>
+          <div class="px-4 sm:px-6 py-3 border-t border-[var(--color-border)] text-xs text-[var(--color-text-secondary)]">
+            Analyzes the selection, or the whole current track when nothing is selected. Click a
+            clipped region to select it in the waveform.
+          </div>
+        </div>
+      </div>
+    </Show>
+  );
+};
@@ -0,0 +1,449 @@
+import { Component, For, Index, Show, createEffect, createSignal, on } from "solid-js";
+import { useEffectChains } from "../hooks/useEffectChains";
+import { useBatchProcessor } from "../hooks/useBatchProcessor";
+import { isAudioFile } from "../hooks/useFileImport";
+import { useImpulseResponses } from "../hooks/useImpulseResponses";
+import {
+  CHAIN_STEPS,
+  DEFAULT_FILENAME_PATTERN,
+  createChainStep,
+  isFactoryChain,
+  type ChainStep,
+  type ChainStepType,
+  type EffectChain,
+} from "../utils/effectChains";
+import { formatEffectParam, getEffectParamDefinitions } from "../utils/trackEffects";
+import { getErrorMessage } from "../utils/error";
+
+interface EffectChainsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onNotify: (message: string) => void;
+}
+
+const stepTypes = Object.keys(CHAIN_STEPS) as ChainStepType[];
+
+const iconButtonClass =
+  "p-1 rounded bg-transparent border-0 text-[var(--color-text-secondary)] cursor-pointer transition-colors hover:bg-[var(--color-border)] hover:text-[var(--color-text)] disabled:opacity-40 disabled:cursor-not-allowed flex items-center justify-center";
+
+const fieldClass =
+  "py-1.5 px-2 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-[var(--color-text)] text-[0.8125rem] focus:outline-none focus:border-[var(--color-primary)]";
+
+const secondaryButtonClass =
+  "py-1.5 px-3 bg-[var(--color-bg)] text-[var(--color-text)] border border-[var(--color-border)] rounded text-[0.8125rem] font-medium cursor-pointer transition-all duration-150 hover:bg-[var(--color-hover)] disabled:opacity-50 disabled:cursor-not-allowed";
+
+const primaryButtonClass =
+  "py-1.5 px-3 bg-[var(--color-primary)] text-white border-0 rounded text-[0.8125rem] font-medium cursor-pointer transition-all duration-150 hover:bg-[var(--color-primary-hover)] disabled:opacity-50 disabled:cursor-not-allowed";
+
+export const EffectChainsPanel: Component<EffectChainsPanelProps> = (props) => {
+  const effectChains = useEffectChains();
+  const batch = useBatchProcessor();
+  const [selectedId, setSelectedId] = createSignal(effectChains.chains()[0]?.id ?? "");
+  const [draft, setDraft] = createSignal<EffectChain>({ id: "", name: "", steps: [] });
+  const { impulseResponses } = useImpulseResponses();
+  const [files, setFiles] = createSignal<File[]>([]);
+  const [format, setFormat] = createSignal<"wav" | "mp3" | "ogg">("wav");
+  const [filenamePattern, setFilenamePattern] = createSignal(DEFAULT_FILENAME_PATTERN);
+  let fileInputRef: HTMLInputElement | undefined;
+  let folderInputRef: HTMLInputElement | undefined;
+
+  createEffect(
+    on(selectedId, (id) => {
+      const chain = effectChains.chains().find((c) => c.id === id);
+      setDraft(
+        chain
+          ? {
+              ...chain,
+              steps: chain.steps.map((step) => ({ ...step, params: { ...step.params } })),
+            }
+          : { id: crypto.randomUUID(), name: "New chain", steps: [] }
+      );
+    })
+  );
+
+  const updateSteps = (updater: (steps: ChainStep[]) => ChainStep[]) => {
+    setDraft((prev) => ({ ...prev, steps: updater(prev.steps) }));
+  };
+
+  const moveStep = (from: number, to: number) => {
+    updateSteps((steps) => {
+      if (to < 0 || to >= steps.length) return steps;
+      const next = [...steps];
+      const [step] = next.splice(from, 1);
+      next.splice(to, 0, step!);
+      return next;
+    });
+  };
+
+  const handleSave = () => {
+    const name = draft().name.trim();
+    if (!name) return;
+    const saved = effectChains.saveChain({ ...draft(), name });
+    setSelectedId(saved.id);
+    props.onNotify(`Saved chain "${name}"`);
+  };
+
+  const handleDelete = () => {
+    effectChains.deleteChain(draft().id);
+    setSelectedId(effectChains.chains()[0]?.id ?? "");
+  };
+
+  const handleToggleRecording = () => {
+    if (!effectChains.isRecording()) {
+      effectChains.startRecording();
+      props.onNotify("Recording: effects you apply from the Effects menu are added to the chain");
+      return;
+    }
+    const recorded = effectChains.stopRecording();
+    updateSteps((steps) => [...steps, ...recorded]);
+  };
+
+  const handleFilesSelected = (e: Event) => {
+    const input = e.target as HTMLInputElement;
+    setFiles(Array.from(input.files ?? []).filter(isAudioFile));
+    input.value = "";
+  };
+
+  const handleRun = async () => {
+    if (files().length === 0 || draft().steps.length === 0 || batch.isRunning()) return;
+    try {
+      const count = await batch.runBatch(files(), draft(), {
+        format: format(),
+        filenamePattern: filenamePattern(),
+      });
+      props.onNotify(`Processed ${count} file${count === 1 ? "" : "s"}`);
+      setFiles([]);
+    } catch (err) {
+      props.onNotify(getErrorMessage(err, "Batch processing failed"));
+    }
+  };
+
+  const StepCard = (cardProps: { step: ChainStep; index: number }) => {
+    const definition = () => CHAIN_STEPS[cardProps.step.type];
+    const params = () =>
+      getEffectParamDefinitions(cardProps.step.type, cardProps.step.params, definition().params);
+    const setParam = (key: string, value: number) =>
+      updateSteps((steps) =>
+        steps.map((s) =>
+          s.id === cardProps.step.id ? { ...s, params: { ...s.params, [key]: value } } : s
+        )
+      );
+    return (
+      <li class="border border-[var(--color-border)] rounded-md bg-[var(--color-bg)]">
+        <div
+          class="flex items-center gap-2 px-3 py-2"
+          classList={{ "border-b border-[var(--color-border)]": params().length > 0 }}
+        >
+          <span class="w-5 text-xs tabular-nums text-[var(--color-text-secondary)]">
+            {cardProps.index + 1}
+          </span>
+          <span class="flex-1 min-w-0 truncate text-sm font-medium text-[var(--color-text)]">
+            {definition().label}
+          </span>
+          <button
+            type="button"
+            class={iconButtonClass}
+            onClick={() => moveStep(cardProps.index, cardProps.index - 1)}
+            disabled={cardProps.index === 0}
+            aria-label="Move up"
+          >
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor">
+              <path d="M7.41 15.41L12 10.83l4.59 4.58L18 14l-6-6-6 6z" />
+            </svg>
+          </button>
+          <button
+            type="button"
+            class={iconButtonClass}
+            onClick={() => moveStep(cardProps.index, cardProps.index + 1)}
+            disabled={cardProps.index === draft().steps.length - 1}
+            aria-label="Move down"
+          >
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor">
+              <path d="M7.41 8.59L12 13.17l4.59-4.58L18 10l-6 6-6-6z" />
+            </svg>
+          </button>
+          <button
+            type="button"
+            class={`${iconButtonClass} hover:text-[var(--color-danger)]`}
+            onClick={() => updateSteps((steps) => steps.filter((s) => s.id !== cardProps.step.id))}
+            aria-label="Remove step"
+          >
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor">
+              <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" />
+            </svg>
+          </button>
+        </div>
+        <Show when={params().length > 0}>
+          <div class="px-3 py-2 flex flex-col gap-2">
+            <For each={params()}>
+              {(param) => {
+                const value = () => cardProps.step.params[param.key] ?? param.defaultValue;
+                return (
+                  <label class="flex flex-col gap-1">
+                    <span class="flex items-center justify-between text-[0.75rem] text-[var(--color-text-secondary)]">
+                      <span>{param.label}</span>
+                      <Show when={param.kind !== "impulseResponse"}>
+                        <span class="tabular-nums text-[var(--color-text)]">
+                          {formatEffectParam(param, value())}
+                        </span>
+                      </Show>
+                    </span>
+                    <Show
+                      when={param.kind === "impulseResponse"}
+                      fallback={
+                        <input
+                          type="range"
+                          min={param.min}
+                          max={param.max}
+                          step={param.step}
+                          value={value()}
+                          onInput={(e) => setParam(param.key, parseFloat(e.currentTarget.value))}
+                          class="w-full accent-[var(--color-primary)] cursor-pointer"
+                        />
+                      }
+                    >
+                      <select
+                        value={value()}
+                        onChange={(e) => setParam(param.key, parseInt(e.currentTarget.value, 10))}
+                        class={`${fieldClass} w-full cursor-pointer`}
+                      >
+                        <For each={impulseResponses()}>
+                          {(ir) => <option value={ir.id}>{ir.name}</option>}
+                        </For>
+                      </select>
+                    </Show>
+                  </label>
+                );
+              }}
+            </For>
+          </div>
+        </Show>
+      </li>
+    );
+  };
+
+  return (
+    <Show when={props.isOpen}>
+      <div
+        class="fixed inset-0 flex items-center justify-center backdrop-blur-sm bg-black/50 z-[2000]"
+        onClick={props.onClose}
+      >
+        <div
+          class="bg-[var(--color-bg-elevated)] border border-[var(--color-border)] rounded-lg sm:rounded-xl max-w-[520px] w-[95%] sm:w-[90%] max-h-[85vh] sm:max-h-[80vh] overflow-hidden flex flex-col"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div class="flex items-center justify-between py-4 sm:py-6 px-4 sm:px-6 border-b border-[var(--color-border)]">
+            <h2 class="m-0 text-lg sm:text-xl font-semibold text-[var(--color-text)]">
+              Effect Chains
+            </h2>
+            <button
+              class="flex-shrink-0 bg-none border-0 text-[var(--color-text-secondary)] cursor-pointer p-2 flex items-center justify-center rounded-md transition-all duration-150 hover:bg-[var(--color-border)] hover:text-[var(--color-text)]"
+              onClick={props.onClose}
+              aria-label="Close"
+            >
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
+                <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" />
+              </svg>
+            </button>
+          </div>
+          <div class="flex-1 overflow-y-auto p-3 sm:p-4 flex flex-col gap-4">
+            <div class="flex items-center gap-2">
+              <select
+                class={`${fieldClass} flex-1 min-w-0 cursor-pointer`}
+                value={selectedId()}
+                onChange={(e) => setSelectedId(e.currentTarget.value)}
+                aria-label="Chain"
+              >
+                <For each={effectChains.chains()}>
+                  {(chain) => <option value={chain.id}>{chain.name}</option>}
+                </For>
+                <option value="">New chain...</option>
+              </select>
+              <button
+                type="button"
+                class={secondaryButtonClass}
+                onClick={handleDelete}
+                disabled={
+                  isFactoryChain(draft().id) ||
+                  !effectChains.chains().some((chain) => chain.id === draft().id)
+                }
+              >
+                Delete
+              </button>
+            </div>
+            <label class="flex flex-col gap-1">
+              <span class="text-[0.75rem] font-medium text-[var(--color-text-secondary)]">
+                Name
+              </span>
+              <input
+                type="text"
+                class={fieldClass}
+                value={draft().name}
+                onInput={(e) => {
+                  const name = e.currentTarget.value;
+                  setDraft((prev) => ({ ...prev, name }));
+                }}
+              />
+            </label>
+            <Show
+              when={draft().steps.length > 0}
+              fallback={
+                <p class="m-0 py-4 text-center text-sm text-[var(--color-text-secondary)]">
+                  No steps yet. Add steps below, or record the effects you apply from the Effects
+                  menu.
+                </p>
+              }
+            >
+              <ol class="m-0 p-0 list-none flex flex-col gap-2">
+                <Index each={draft().steps}>
+                  {(step, index) => <StepCard step={step()} index={index} />}
+                </Index>
+              </ol>
+            </Show>
+            <div class="flex flex-wrap gap-1.5">
+              <For each={stepTypes}>
+                {(type) => (
+                  <button
+                    type="button"
+                    class="px-2 py-1 rounded text-[0.75rem] font-medium border border-[var(--color-border)] bg-[var(--color-bg)] text-[var(--color-text)] cursor-pointer transition-colors duration-150 hover:bg-[var(--color-hover)] hover:border-[var(--color-border-hover)]"
+                    onClick={() => updateSteps((steps) => [...steps, createChainStep(type)])}
+                  >
+                    + {CHAIN_STEPS[type].label}
+                  </button>
+                )}
+              </For>
+            </div>
+            <div class="flex items-center gap-2">
+              <button
+                type="button"
+                class={secondaryButtonClass}
+                classList={{
+                  "!border-[var(--color-recording)] !text-[var(--color-recording)]":
+                    effectChains.isRecording(),
+                }}
+                onClick={handleToggleRecording}
+                aria-pressed={effectChains.isRecording()}
+              >
+                {effectChains.isRecording()
+                  ? `Stop recording (${effectChains.recordedSteps().length})`
+                  : "Record"}
+              </button>
+              <div class="flex-1" />
+              <button
+                type="button"
+                class={primaryButtonClass}
+                onClick={handleSave}
+                disabled={!draft().name.trim() || draft().steps.length === 0}
+              >
+                {isFactoryChain(draft().id) ? "Save as copy" : "Save chain"}
+              </button>
+            </div>
+            <div class="pt-4 border-t border-[var(--color-border)] flex flex-col gap-3">
+              <h3 class="m-0 text-sm font-semibold text-[var(--color-text)]">Batch process</h3>
+              <div class="flex items-center gap-2">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="audio/*"
+                  multiple
+                  class="hidden"
+                  onChange={handleFilesSelected}
+                />
+                <input
+                  ref={(el) => {
+                    folderInputRef = el;
+                    el.webkitdirectory = true;
+                  }}
+                  type="file"
+                  class="hidden"
+                  onChange={handleFilesSelected}
+                />
+                <button
+                  type="button"
+                  class={secondaryButtonClass}
+                  onClick={() => fileInputRef?.click()}
+                  disabled={batch.isRunning()}
+                >
+                  Choose files...
+                </button>
+                <button
+                  type="button"
+                  class={secondaryButtonClass}
+                  onClick={() => folderInputRef?.click()}
+                  disabled={batch.isRunning()}
+                >
+                  Choose folder...
+                </button>
+                <span class="text-xs text-[var(--color-text-secondary)]">
+                  {files().length} audio file{files().length === 1 ? "" : "s"}
+                </span>
+              </div>
+              <div class="flex items-end gap-2">
+                <label class="flex flex-col gap-1 flex-1 min-w-0">
+                  <span class="text-[0.75rem] font-medium text-[var(--color-text-secondary)]">
+                    File name
+                  </span>
+                  <input
+                    type="text"
+                    class={fieldClass}
+                    value={filenamePattern()}
+                    onInput={(e) => setFilenamePattern(e.currentTarget.value)}
+                    placeholder={DEFAULT_FILENAME_PATTERN}
+                  />
+                </label>
+                <label class="flex flex-col gap-1">
+                  <span class="text-[0.75rem] font-medium text-[var(--color-text-secondary)]">
+                    Format
+                  </span>
+                  <select
+                    class={`${fieldClass} cursor-pointer`}
+                    value={format()}
+                    onChange={(e) => setFormat(e.currentTarget.value as "wav" | "mp3" | "ogg")}
+                  >
+                    <option value="wav">WAV</option>
+                    <option value="mp3">MP3</option>
+                    <option value="ogg">OGG</option>
+                  </select>
+                </label>
+              </div>
+              <p class="m-0 text-xs text-[var(--color-text-secondary)]">
+                Use {"{name}"}, {"{index}"}, {"{chain}"} and {"{date}"} in the file name.
+              </p>
+              <Show when={batch.progress()}>
+                {(progress) => (
+                  <div class="flex flex-col gap-1">
+                    <div class="h-1.5 rounded-full bg-[var(--color-border)] overflow-hidden">
+                      <div
+                        class="h-full bg-[var(--color-primary)] transition-[width] duration-200"
+                        style={{
+                          width: `${(progress().completed / Math.max(1, progress().total)) * 100}%`,
+                        }}
+                      />
+                    </div>
+                    <span class="text-xs text-[var(--color-text-secondary)] truncate">
+                      {progress().completed} / {progress().total}
+                      {progress().currentFile ? ` - ${progress().currentFile}` : ""}
+                    </span>
+                  </div>
+                )}
+              </Show>
+            </div>
+          </div>
+          <div class="px-4 sm:px-6 py-3 border-t border-[var(--color-border)] flex items-center justify-between gap-3">
+            <span class="text-xs text-[var(--color-text-secondary)]">
+              Each file is processed with the chain above and downloaded.
+            </span>
+            <button
+              type="button"
+              class={`${primaryButtonClass} flex-shrink-0`}
+              onClick={handleRun}
+              disabled={batch.isRunning() || files().length === 0 || draft().steps.length === 0}
+            >
+              {batch.isRunning() ? "Processing..." : "Run batch"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </Show>
+  );
+};
@@ -1,22 +1,76 @@
-import { Component, createSignal, Show, onMount, onCleanup, createEffect, For } from "solid-js";
+import {
+  Component,
+  createSignal,
+  Show,
+  onMount,
+  onCleanup,
+  createEffect,
+  For,
+  Index,
+  on,
+} from "solid-js";
 import { Portal } from "solid-js/web";
 import { useAudioStore } from "../stores/audioStore";
+import { useEffectPreview } from "../hooks/useEffectPreview";
+import { useEffectPresets } from "../hooks/useEffectPresets";
+import { useImpulseResponses } from "../hooks/useImpulseResponses";
+import { audioEffects } from "../utils/audioEffects";
+import type { EffectPreset, PresetEffectType } from "../utils/effectPresets";
+import { getErrorMessage } from "../utils/error";
+import { BUILT_IN_IMPULSE_RESPONSES, DEFAULT_IMPULSE_RESPONSE_ID } from "../utils/impulseResponses";
+import type { PreviewProcessor } from "../utils/effectPreview";
+import {
+  EQ_BAND_LABELS,
+  EQ_BAND_TYPES,
+  EQ_MAX_FREQUENCY,
+  EQ_MAX_GAIN,
+  EQ_MAX_Q,
+  EQ_MIN_FREQUENCY,
+  EQ_MIN_Q,
+  EQ_SLOPES,
+  MAX_EQ_BANDS,
+  bandHasGain,
+  bandHasSlope,
+  createEqBand,
+  decodeEqBands,
+  encodeEqBands,
+  type EqBand,
+  type EqBandType,
+} from "../utils/parametricEq";
+import { EqGraph } from "./EqGraph";
 import { Tooltip } from "./Tooltip";
 
 type EffectScope = "all" | "track" | "selection";
 
 interface EffectsMenuProps {
   onNormalize: (scope: EffectScope) => void;
+  onLoudnessNormalize: (target: number, truePeak: number, scope: EffectScope) => void;
   onAmplify: (gain: number, scope: EffectScope) => void;
   onSilence: (scope: EffectScope) => void;
   onReverse: (scope: EffectScope) => void;
   onFadeIn: (scope: EffectScope) => void;
   onFadeOut: (scope: EffectScope) => void;
   onReverb: (roomSize: number, wetLevel: number, scope: EffectScope) => void;
+  onConvolutionReverb: (
+    impulse: number,
+    preDelay: number,
+    decay: number,
+    lowCut: number,
+    highCut: number,
+    mix: number,
+    scope: EffectScope
+  ) => void;
   onDelay: (delayTime: number, feedback: number, wetLevel: number, scope: EffectScope) => void;
-  onNoiseReduction: (reductionAmount: number, scope: EffectScope) => void;
+  onNoiseReduction: (
+    reductionDb: number,
+    sensitivityDb: number,
+    smoothingBands: number,
+    scope: EffectScope
+  ) => void;
+  onGetNoiseProfile?: () => void;
   onChangeSpeed: (speedFactor: number, scope: EffectScope) => void;
-  onChangePitch: (pitchFactor: number, scope: EffectScope) => void;
+  onTimeStretch: (tempo: number, scope: EffectScope) => void;
+  onPitchShift: (semitones: number, cents: number, scope: EffectScope) => void;
   onCompressor: (
     threshold: number,
     ratio: number,
@@ -26,9 +80,11 @@ interface EffectsMenuProps {
     scope: EffectScope
   ) => void;
   onLimiter: (threshold: number, release: number, scope: EffectScope) => void;
-  onEq: (frequency: number, gain: number, q: number, scope: EffectScope) => void;
+  onEq: (bands: EqBand[], scope: EffectScope) => void;
   onHighPassFilter: (cutoffFrequency: number, scope: EffectScope) => void;
   onLowPassFilter: (cutoffFrequency: number, scope: EffectScope) => void;
+  onPreviewStart?: () => void;
+  onNotify?: (message: string) => void;
   disabled?: boolean;
 }
 
@@ -47,13 +103,19 @@ interface EffectItem {
 }
 
 export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
-  const { store, getCurrentTrack } = useAudioStore();
+  const { store, getCurrentTrack, setNoiseProfile } = useAudioStore();
+  const preview = useEffectPreview();
+  const presets = useEffectPresets();
+  const impulseResponses = useImpulseResponses();
   const [isOpen, setIsOpen] = createSignal(false);
+  const [showLoudnessDialog, setShowLoudnessDialog] = createSignal(false);
   const [showAmplifyDialog, setShowAmplifyDialog] = createSignal(false);
   const [showReverbDialog, setShowReverbDialog] = createSignal(false);
+  const [showConvolutionDialog, setShowConvolutionDialog] = createSignal(false);
   const [showDelayDialog, setShowDelayDialog] = createSignal(false);
   const [showNoiseReductionDialog, setShowNoiseReductionDialog] = createSignal(false);
   const [showSpeedDialog, setShowSpeedDialog] = createSignal(false);
+  const [showStretchDialog, setShowStretchDialog] = createSignal(false);
   const [showPitchDialog, setShowPitchDialog] = createSignal(false);
   const [showCompressorDialog, setShowCompressorDialog] = createSignal(false);
   const [showLimiterDialog, setShowLimiterDialog] = createSignal(false);
@@ -63,12 +125,26 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
   const [amplifyValue, setAmplifyValue] = createSignal("1.5");
   const [reverbRoomSize, setReverbRoomSize] = createSignal("2.0");
   const [reverbWetLevel, setReverbWetLevel] = createSignal("0.5");
+  const [loudnessTarget, setLoudnessTarget] = createSignal("-16");
+  const [loudnessTruePeak, setLoudnessTruePeak] = createSignal("-1");
+  const [convolutionImpulse, setConvolutionImpulse] = createSignal(
+    String(DEFAULT_IMPULSE_RESPONSE_ID)
+  );
+  const [convolutionPreDelay, setConvolutionPreDelay] = createSignal("0.02");
+  const [convolutionDecay, setConvolutionDecay] = createSignal("100");
+  const [convolutionLowCut, setConvolutionLowCut] = createSignal("20");
+  const [convolutionHighCut, setConvolutionHighCut] = createSignal("20000");
+  const [convolutionMix, setConvolutionMix] = createSignal("0.3");
   const [delayTime, setDelayTime] = createSignal("0.3");
   const [delayFeedback, setDelayFeedback] = createSignal("0.4");
   const [delayWetLevel, setDelayWetLevel] = createSignal("0.5");
-  const [noiseReductionAmount, setNoiseReductionAmount] = createSignal("0.5");
+  const [noiseReductionDb, setNoiseReductionDb] = createSignal("12");
+  const [noiseSensitivity, setNoiseSensitivity] = createSignal("6");
+  const [noiseSmoothing, setNoiseSmoothing] = createSignal("3");
   const [speedFactor, setSpeedFactor] = createSignal("1.0");
-  const [pitchFactor, setPitchFactor] = createSignal("1.0");
+  const [tempoFactor, setTempoFactor] = createSignal("1.0");
+  const [pitchSemitones, setPitchSemitones] = createSignal("0");
+  const [pitchCents, setPitchCents] = createSignal("0");
   const [compressorThreshold, setCompressorThreshold] = createSignal("-12");
   const [compressorRatio, setCompressorRatio] = createSignal("4");
   const [compressorAttack, setCompressorAttack] = createSignal("0.003");
@@ -76,13 +152,15 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
   const [compressorKnee, setCompressorKnee] = createSignal("2");
   const [limiterThreshold, setLimiterThreshold] = createSignal("-1");
   const [limiterRelease, setLimiterRelease] = createSignal("0.01");
-  const [eqFrequency, setEqFrequency] = createSignal("1000");
-  const [eqGain, setEqGain] = createSignal("0");
-  const [eqQ, setEqQ] = createSignal("1");
+  const [eqBands, setEqBands] = createSignal<EqBand[]>([createEqBand("bell", 1000)]);
+  const [selectedEqBand, setSelectedEqBand] = createSignal(0);
   const [highPassCutoff, setHighPassCutoff] = createSignal("200");
   const [lowPassCutoff, setLowPassCutoff] = createSignal("5000");
   const [scope, setScope] = createSignal<EffectScope>("track");
+  const [presetName, setPresetName] = createSignal<string | null>(null);
   let containerRef: HTMLDivElement | undefined;
+  let presetInputRef: HTMLInputElement | undefined;
+  let impulseInputRef: HTMLInputElement | undefined;
   let buttonRef: HTMLButtonElement | undefined;
   let portalRef: HTMLDivElement | undefined;
   const [menuPosition, setMenuPosition] = createSignal({ top: 0, right: 0 });
@@ -100,11 +178,14 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
 
   const closeAll = () => {
     setIsOpen(false);
+    setShowLoudnessDialog(false);
     setShowAmplifyDialog(false);
     setShowReverbDialog(false);
+    setShowConvolutionDialog(false);
     setShowDelayDialog(false);
     setShowNoiseReductionDialog(false);
     setShowSpeedDialog(false);
+    setShowStretchDialog(false);
     setShowPitchDialog(false);
     setShowCompressorDialog(false);
     setShowLimiterDialog(false);
@@ -127,11 +208,14 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
     const isInsideContainer = containerRef?.contains(target);
     const isInsidePortal = portalRef?.contains(target);
     const hasDialogOpen =
+      showLoudnessDialog() ||
       showAmplifyDialog() ||
       showReverbDialog() ||
+      showConvolutionDialog() ||
       showDelayDialog() ||
       showNoiseReductionDialog() ||
       showSpeedDialog() ||
+      showStretchDialog() ||
       showPitchDialog() ||
       showCompressorDialog() ||
       showLimiterDialog() ||
@@ -148,11 +232,14 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
     if (e.key === "Escape") {
       const wasOpen =
         isOpen() ||
+        showLoudnessDialog() ||
         showAmplifyDialog() ||
         showReverbDialog() ||
+        showConvolutionDialog() ||
         showDelayDialog() ||
         showNoiseReductionDialog() ||
         showSpeedDialog() ||
+        showStretchDialog() ||
         showPitchDialog() ||
         showCompressorDialog() ||
         showLimiterDialog() ||
@@ -227,6 +314,15 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
     closeAll();
   };
 
+  const handleLoudnessNormalize = () => {
+    const target = parseFloat(loudnessTarget());
+    const truePeak = parseFloat(loudnessTruePeak());
+    if (isNaN(target) || target < -40 || target > -5) return;
+    if (isNaN(truePeak) || truePeak < -9 || truePeak > 0) return;
+    props.onLoudnessNormalize(target, truePeak, getEffectiveScope());
+    closeAll();
+  };
+
   const handleAmplify = () => {
     const gain = parseFloat(amplifyValue());
     if (isNaN(gain) || gain <= 0) return;
@@ -273,6 +369,65 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
     closeAll();
   };
 
+  const handleConvolutionReverb = () => {
+    const impulse = parseInt(convolutionImpulse(), 10);
+    const preDelay = parseFloat(convolutionPreDelay());
+    const decay = parseFloat(convolutionDecay());
+    const lowCut = parseFloat(convolutionLowCut());
+    const highCut = parseFloat(convolutionHighCut());
+    const mix = parseFloat(convolutionMix());
+    if (
+      !impulseResponses.impulseResponses().some((ir) => ir.id === impulse) ||
+      isNaN(preDelay) ||
+      preDelay < 0 ||
+      preDelay > 0.5 ||
+      isNaN(decay) ||
+      decay < 10 ||
+      decay > 100 ||
+      isNaN(lowCut) ||
+      lowCut < 20 ||
+      lowCut > 2000 ||
+      isNaN(highCut) ||
+      highCut < 1000 ||
+      highCut > 20000 ||
+      isNaN(mix) ||
+      mix < 0 ||
+      mix > 1
+    ) {
+      return;
+    }
+    props.onConvolutionReverb(impulse, preDelay, decay, lowCut, highCut, mix, getEffectiveScope());
+    closeAll();
+  };
+
+  const handleImportImpulse = async (e: Event) => {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+    try {
+      const imported = await impulseResponses.importFile(file);
+      setConvolutionImpulse(String(imported.id));
+      props.onNotify?.(`Imported impulse response "${imported.name}"`);
+    } catch (err) {
+      props.onNotify?.(getErrorMessage(err, "Failed to import impulse response"));
+    } finally {
+      input.value = "";
+    }
+  };
+
+  const handleDeleteImpulse = async () => {
+    const id = parseInt(convolutionImpulse(), 10);
+    try {
+      await impulseResponses.remove(id);
+      setConvolutionImpulse(String(DEFAULT_IMPULSE_RESPONSE_ID));
+    } catch (err) {
+      props.onNotify?.(getErrorMessage(err, "Failed to delete impulse response"));
+    }
+  };
+
+  const isUserImpulse = () =>
+    impulseResponses.userImpulseResponses().some((ir) => `${ir.id}` === convolutionImpulse());
+
   const handleDelay = () => {
     const delay = parseFloat(delayTime());
     const feedback = parseFloat(delayFeedback());
@@ -295,11 +450,23 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
   };
 
   const handleNoiseReduction = () => {
-    const reduction = parseFloat(noiseReductionAmount());
-    if (isNaN(reduction) || reduction < 0 || reduction > 1) {
+    const reduction = parseFloat(noiseReductionDb());
+    const sensitivity = parseFloat(noiseSensitivity());
+    const smoothing = parseFloat(noiseSmoothing());
+    if (
+      isNaN(reduction) ||
+      reduction < 0 ||
+      reduction > 48 ||
+      isNaN(sensitivity) ||
+      sensitivity < 0 ||
+      sensitivity > 24 ||
+      isNaN(smoothing) ||
+      smoothing < 0 ||
+      smoothing > 12
+    ) {
       return;
     }
-    props.onNoiseReduction(reduction, getEffectiveScope());
+    props.onNoiseReduction(reduction, sensitivity, smoothing, getEffectiveScope());
     closeAll();
   };
 
@@ -312,12 +479,29 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
     closeAll();
   };
 
-  const handleChangePitch = () => {
-    const pitch = parseFloat(pitchFactor());
-    if (isNaN(pitch) || pitch <= 0 || pitch > 4) {
+  const handleTimeStretch = () => {
+    const tempo = parseFloat(tempoFactor());
+    if (isNaN(tempo) || tempo < 0.25 || tempo > 4) {
       return;
     }
-    props.onChangePitch(pitch, getEffectiveScope());
+    props.onTimeStretch(tempo, getEffectiveScope());
+    closeAll();
+  };
+
+  const handlePitchShift = () => {
+    const semitones = parseFloat(pitchSemitones());
+    const cents = parseFloat(pitchCents());
+    if (
+      isNaN(semitones) ||
+      semitones < -24 ||
+      semitones > 24 ||
+      isNaN(cents) ||
+      cents < -100 ||
+      cents > 100
+    ) {
+      return;
+    }
+    props.onPitchShift(semitones, cents, getEffectiveScope());
     closeAll();
   };
 
@@ -368,26 +552,31 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
   };
 
   const handleEq = () => {
-    const frequency = parseFloat(eqFrequency());
-    const gain = parseFloat(eqGain());
-    const q = parseFloat(eqQ());
-    if (
-      isNaN(frequency) ||
-      frequency < 20 ||
-      frequency > 20000 ||
-      isNaN(gain) ||
-      gain < -20 ||
-      gain > 20 ||
-      isNaN(q) ||
-      q < 0.1 ||
-      q > 30
-    ) {
+    if (eqBands().length === 0) {
       return;
     }
-    props.onEq(frequency, gain, q, getEffectiveScope());
+    props.onEq(eqBands(), getEffectiveScope());
     closeAll();
   };
 
+  const updateEqBand = (index: number, changes: Partial<EqBand>) => {
+    setEqBands((bands) => bands.map((band, i) => (i === index ? { ...band, ...changes } : band)));
+  };
+
+  const addEqBand = (frequency: number, gain = 0) => {
+    if (eqBands().length >= MAX_EQ_BANDS) return;
+    setEqBands((bands) => [...bands, createEqBand("bell", frequency, gain)]);
+    setSelectedEqBand(eqBands().length - 1);
+  };
+
+  const removeEqBand = (index: number) => {
+    if (eqBands().length <= 1) return;
+    setEqBands((bands) => bands.filter((_, i) => i !== index));
+    setSelectedEqBand((selected) => Math.min(selected, eqBands().length - 1));
+  };
+
+  const eqSampleRate = () => getCurrentTrack()?.audioBuffer?.sampleRate ?? 44100;
+
   const handleHighPassFilter = () => {
     const cutoff = parseFloat(highPassCutoff());
     if (isNaN(cutoff) || cutoff < 20 || cutoff > 20000) {
@@ -406,6 +595,370 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
     closeAll();
   };
 
+  const getPreviewProcessor = (): PreviewProcessor | null => {
+    const values = (...inputs: string[]) => {
+      const numbers = inputs.map((input) => parseFloat(input));
+      return numbers.every((n) => !isNaN(n)) ? numbers : null;
+    };
+
+    if (showLoudnessDialog()) {
+      const params = values(loudnessTarget(), loudnessTruePeak());
+      return params
+        ? (buffer) => audioEffects.loudnessNormalizeFull(buffer, params[0]!, params[1]!)
+        : null;
+    }
+    if (showAmplifyDialog()) {
+      const [gain] = values(amplifyValue()) ?? [];
+      return gain !== undefined && gain > 0
+        ? (buffer) => audioEffects.amplifyFull(buffer, gain)
+        : null;
+    }
+    if (showReverbDialog()) {
+      const params = values(reverbRoomSize(), reverbWetLevel());
+      return params ? (buffer) => audioEffects.reverbFull(buffer, params[0]!, params[1]!) : null;
+    }
+    if (showConvolutionDialog()) {
+      const params = values(
+        convolutionImpulse(),
+        convolutionPreDelay(),
+        convolutionDecay(),
+        convolutionLowCut(),
+        convolutionHighCut(),
+        convolutionMix()
+      );
+      return params
+        ? (buffer) =>
+            audioEffects.convolutionReverbFull(
+              buffer,
+              params[0]!,
+              params[1]!,
+              params[2]!,
+              params[3]!,
+              params[4]!,
+              params[5]!
+            )
+        : null;
+    }
+    if (showDelayDialog()) {
+      const params = values(delayTime(), delayFeedback(), delayWetLevel());
+      return params
+        ? (buffer) => audioEffects.delayFull(buffer, params[0]!, params[1]!, params[2]!)
+        : null;
+    }
+    if (showNoiseReductionDialog()) {
+      const params = values(noiseReductionDb(), noiseSensitivity(), noiseSmoothing());
+      const profile = store.noiseProfile;
+      return params
+        ? (buffer) =>
+            audioEffects.noiseReductionFull(buffer, params[0]!, params[1]!, params[2]!, profile)
+        : null;
+    }
+    if (showSpeedDialog()) {
+      const [speed] = values(speedFactor()) ?? [];
+      return speed !== undefined && speed > 0
+        ? (buffer) => audioEffects.changeSpeedFull(buffer, speed)
+        : null;
+    }
+    if (showStretchDialog()) {
+      const [tempo] = values(tempoFactor()) ?? [];
+      return tempo !== undefined && tempo > 0
+        ? (buffer) => audioEffects.timeStretchFull(buffer, tempo)
+        : null;
+    }
+    if (showPitchDialog()) {
+      const params = values(pitchSemitones(), pitchCents());
+      return params
+        ? (buffer) => audioEffects.pitchShiftFull(buffer, params[0]!, params[1]!)
+        : null;
+    }
+    if (showCompressorDialog()) {
+      const params = values(
+        compressorThreshold(),
+        compressorRatio(),
+        compressorAttack(),
+        compressorRelease(),
+        compressorKnee()
+      );
+      return params
+        ? (buffer) =>
+            audioEffects.compressorFull(
+              buffer,
+              params[0]!,
+              params[1]!,
+              params[2]!,
+              params[3]!,
+              params[4]!
+            )
+        : null;
+    }
+    if (showLimiterDialog()) {
+      const params = values(limiterThreshold(), limiterRelease());
+      return params ? (buffer) => audioEffects.limiterFull(buffer, params[0]!, params[1]!) : null;
+    }
+    if (showEqDialog()) {
+      const bands = eqBands();
+      return bands.length > 0 ? (buffer) => audioEffects.eqFull(buffer, bands) : null;
+    }
+    if (showHighPassDialog()) {
+      const params = values(highPassCutoff());
+      return params ? (buffer) => audioEffects.highPassFilterFull(buffer, params[0]!) : null;
+    }
+    if (showLowPassDialog()) {
+      const params = values(lowPassCutoff());
+      return params ? (buffer) => audioEffects.lowPassFilterFull(buffer, params[0]!) : null;
+    }
+    return null;
+  };
+
+  createEffect(
+    on(
+      getPreviewProcessor,
+      (processor) => {
+        if (processor) {
+          preview.updatePreview(processor);
+        } else {
+          preview.stopPreview();
+        }
+      },
+      { defer: true }
+    )
+  );
+
+  createEffect(() => {
+    if (store.isPlaying) {
+      preview.stopPreview();
+    }
+  });
+
+  const handleTogglePreview = async () => {
+    if (preview.isPreviewing()) {
+      preview.stopPreview();
+      return;
+    }
+    const processor = getPreviewProcessor();
+    if (!processor) return;
+    props.onPreviewStart?.();
+    try {
+      await preview.startPreview(getEffectiveScope(), processor);
+    } catch (err) {
+      console.error("Failed to preview effect:", err);
+    }
+  };
+
+  const previewButton = () => (
+    <Tooltip
+      label={
+        preview.isPreviewing()
+          ? "Stop preview"
+          : `Preview on ${getScopeLabel().toLowerCase()} without applying`
+      }
+    >
+      <button
+        type="button"
+        class="py-1.5 px-3 border rounded text-[0.8125rem] font-medium cursor-pointer transition-all duration-150"
+        classList={{
+          "bg-[var(--color-primary)]/20 text-[var(--color-primary)] border-[var(--color-primary)]":
+            preview.isPreviewing(),
+          "bg-[var(--color-bg)] text-[var(--color-text)] border-[var(--color-border)] hover:bg-[var(--color-hover)]":
+            !preview.isPreviewing(),
+        }}
+        onClick={handleTogglePreview}
+        aria-pressed={preview.isPreviewing()}
+      >
+        {preview.isPreviewing() ? "Stop" : "Preview"}
+      </button>
+    </Tooltip>
+  );
+
+  const presetFields: Record<
+    Exclude<PresetEffectType, "eq">,
+    Record<string, [() => string, (value: string) => void]>
+  > = {
+    loudnessNormalize: {
+      target: [loudnessTarget, setLoudnessTarget],
+      truePeak: [loudnessTruePeak, setLoudnessTruePeak],
+    },
+    amplify: { gain: [amplifyValue, setAmplifyValue] },
+    reverb: {
+      roomSize: [reverbRoomSize, setReverbRoomSize],
+      wetLevel: [reverbWetLevel, setReverbWetLevel],
+    },
+    convolutionReverb: {
+      impulse: [convolutionImpulse, setConvolutionImpulse],
+      preDelay: [convolutionPreDelay, setConvolutionPreDelay],
+      decay: [convolutionDecay, setConvolutionDecay],
+      lowCut: [convolutionLowCut, setConvolutionLowCut],
+      highCut: [convolutionHighCut, setConvolutionHighCut],
+      mix: [convolutionMix, setConvolutionMix],
+    },
+    delay: {
+      delayTime: [delayTime, setDelayTime],
+      feedback: [delayFeedback, setDelayFeedback],
+      wetLevel: [delayWetLevel, setDelayWetLevel],
+    },
+    noiseReduction: {
+      reduction: [noiseReductionDb, setNoiseReductionDb],
+      sensitivity: [noiseSensitivity, setNoiseSensitivity],
+      smoothing: [noiseSmoothing, setNoiseSmoothing],
+    },
+    changeSpeed: { factor: [speedFactor, setSpeedFactor] },
+    timeStretch: { factor: [tempoFactor, setTempoFactor] },
+    pitchShift: {
+      semitones: [pitchSemitones, setPitchSemitones],
+      cents: [pitchCents, setPitchCents],
+    },
+    compressor: {
+      threshold: [compressorThreshold, setCompressorThreshold],
+      ratio: [compressorRatio, setCompressorRatio],
+      attack: [compressorAttack, setCompressorAttack],
+      release: [compressorRelease, setCompressorRelease],
+      knee: [compressorKnee, setCompressorKnee],
+    },
+    limiter: {
+      threshold: [limiterThreshold, setLimiterThreshold],
+      release: [limiterRelease, setLimiterRelease],
+    },
+    highPassFilter: { cutoff: [highPassCutoff, setHighPassCutoff] },
+    lowPassFilter: { cutoff: [lowPassCutoff, setLowPassCutoff] },
+  };
+
+  const getDialogParams = (effect: PresetEffectType): Record<string, number> | null => {
+    if (effect === "eq") return encodeEqBands(eqBands());
+    const params = Object.fromEntries(
+      Object.entries(presetFields[effect]).map(([key, [value]]) => [key, parseFloat(value())])
+    );
+    return Object.values(params).every((v) => isFinite(v)) ? params : null;
+  };
+
+  const getMatchingPreset = (effect: PresetEffectType): EffectPreset | undefined => {
+    const params = getDialogParams(effect);
+    if (!params) return undefined;
+    return presets
+      .getPresets(effect)
+      .find((preset) => Object.entries(params).every(([key, v]) => preset.params[key] === v));
+  };
+
+  const applyPreset = (preset: EffectPreset) => {
+    if (preset.effect === "eq") {
+      setEqBands(decodeEqBands((key) => preset.params[key]));
+      setSelectedEqBand(0);
+      return;
+    }
+    Object.entries(presetFields[preset.effect]).forEach(([key, [, setValue]]) => {
+      const value = preset.params[key];
+      if (value !== undefined) setValue(String(value));
+    });
+  };
+
+  const handleSavePreset = (effect: PresetEffectType) => {
+    const name = presetName()?.trim();
+    const params = getDialogParams(effect);
+    if (!name || !params) return;
+    presets.savePreset(effect, name, params);
+    setPresetName(null);
+    props.onNotify?.(`Saved preset "${name}"`);
+  };
+
+  const handleImportPresets = async (e: Event) => {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+    try {
+      const count = await presets.importPack(file);
+      props.onNotify?.(`Imported ${count} preset${count === 1 ? "" : "s"}`);
+    } catch (err) {
+      props.onNotify?.(getErrorMessage(err, "Failed to import presets"));
+    } finally {
+      input.value = "";
+    }
+  };
+
+  const presetBar = (effect: PresetEffectType) => {
+    const matching = () => getMatchingPreset(effect);
+    const factoryPresets = () => presets.getPresets(effect).filter((p) => p.builtIn);
+    const userPresets = () => presets.getPresets(effect).filter((p) => !p.builtIn);
+    onCleanup(() => setPresetName(null));
+    const smallButtonClass =
+      "py-1 px-2 bg-[var(--color-bg)] text-[var(--color-text)] border border-[var(--color-border)] rounded text-[0.75rem] font-medium cursor-pointer transition-all duration-150 hover:bg-[var(--color-hover)] disabled:opacity-50 disabled:cursor-not-allowed";
+
+    return (
+      <div class="mb-3 flex flex-col gap-1.5">
+        <div class="flex items-center gap-1.5">
+          <select
+            class="flex-1 min-w-0 py-1 px-1.5 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-[var(--color-text)] text-[0.75rem] cursor-pointer focus:outline-none focus:border-[var(--color-primary)]"
+            value={matching()?.id ?? ""}
+            onChange={(e) => {
+              const preset = presets.getPresets(effect).find((p) => p.id === e.currentTarget.value);
+              if (preset) applyPreset(preset);
+            }}
+            aria-label="Preset"
+          >
+            <option value="">Custom settings</option>
+            <optgroup label="Factory presets">
+              <For each={factoryPresets()}>
+                {(preset) => <option value={preset.id}>{preset.name}</option>}
+              </For>
+            </optgroup>
+            <Show when={userPresets().length > 0}>
+              <optgroup label="My presets">
+                <For each={userPresets()}>
+                  {(preset) => <option value={preset.id}>{preset.name}</option>}
+                </For>
+              </optgroup>
+            </Show>
+          </select>
+          <Tooltip label="Save current values as a preset">
+            <button
+              type="button"
+              class={smallButtonClass}
+              onClick={() => setPresetName(presetName() === null ? (matching()?.name ?? "") : null)}
+              disabled={!getDialogParams(effect)}
+            >
+              Save
+            </button>
+          </Tooltip>
+          <Show when={matching() && !matching()!.builtIn}>
+            <Tooltip label="Delete preset">
+              <button
+                type="button"
+                class={`${smallButtonClass} hover:text-[var(--color-danger)]`}
+                onClick={() => presets.deletePreset(matching()!.id)}
+                aria-label="Delete preset"
+              >
+                Delete
+              </button>
+            </Tooltip>
+          </Show>
+        </div>
+        <Show when={presetName() !== null}>
+          <form
+            class="flex items-center gap-1.5"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSavePreset(effect);
+            }}
+          >
+            <input
+              type="text"
+              placeholder="Preset name"
+              value={presetName() ?? ""}
+              onInput={(e) => setPresetName(e.currentTarget.value)}
+              class="flex-1 min-w-0 py-1 px-1.5 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-[var(--color-text)] text-[0.75rem] focus:outline-none focus:border-[var(--color-primary)]"
+              autofocus
+            />
+            <button
+              type="submit"
+              class="py-1 px-2 bg-[var(--color-primary)] text-white border-0 rounded text-[0.75rem] font-medium cursor-pointer transition-all duration-150 hover:bg-[var(--color-primary-hover)] disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={!presetName()?.trim()}
+            >
+              OK
+            </button>
+          </form>
+        </Show>
+      </div>
+    );
+  };
+
   const amplifyPercent = () => {
     const gain = parseFloat(amplifyValue());
     if (isNaN(gain)) return "";
@@ -415,6 +968,7 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
 
   const effectItems: EffectItem[] = [
     { label: "Normalize", onClick: handleNormalize },
+    { label: "Loudness Normalize...", onClick: () => setShowLoudnessDialog(true) },
     { label: "Amplify...", onClick: () => setShowAmplifyDialog(true) },
     {
       label: "Silence",
@@ -426,10 +980,12 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
     { label: "Fade In", onClick: handleFadeIn },
     { label: "Fade Out", onClick: handleFadeOut },
     { label: "Reverb...", onClick: () => setShowReverbDialog(true) },
+    { label: "Convolution Reverb...", onClick: () => setShowConvolutionDialog(true) },
     { label: "Delay...", onClick: () => setShowDelayDialog(true) },
     { label: "Noise Reduction...", onClick: () => setShowNoiseReductionDialog(true) },
     { label: "Change Speed...", onClick: () => setShowSpeedDialog(true) },
-    { label: "Change Pitch...", onClick: () => setShowPitchDialog(true) },
+    { label: "Time Stretch...", onClick: () => setShowStretchDialog(true) },
+    { label: "Pitch Shift...", onClick: () => setShowPitchDialog(true) },
     { label: "Compressor...", onClick: () => setShowCompressorDialog(true) },
     { label: "Limiter...", onClick: () => setShowLimiterDialog(true) },
     { label: "EQ...", onClick: () => setShowEqDialog(true) },
@@ -442,6 +998,20 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
 
   return (
     <div ref={containerRef} class="relative inline-block">
+      <input
+        ref={presetInputRef}
+        type="file"
+        accept=".json,application/json"
+        class="hidden"
+        onChange={handleImportPresets}
+      />
+      <input
+        ref={impulseInputRef}
+        type="file"
+        accept=".wav,audio/wav,audio/x-wav"
+        class="hidden"
+        onChange={handleImportImpulse}
+      />
       <Tooltip label="Effects">
         <button
           ref={buttonRef}
@@ -493,11 +1063,14 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
           >
             <Show
               when={
+                !showLoudnessDialog() &&
                 !showAmplifyDialog() &&
                 !showReverbDialog() &&
+                !showConvolutionDialog() &&
                 !showDelayDialog() &&
                 !showNoiseReductionDialog() &&
                 !showSpeedDialog() &&
+                !showStretchDialog() &&
                 !showPitchDialog() &&
                 !showCompressorDialog() &&
                 !showLimiterDialog() &&
@@ -585,6 +1158,97 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
                   );
                 }}
               </For>
+              <div class="flex gap-1 px-2 py-1.5 border-t border-[var(--color-border)] bg-[var(--color-bg-secondary)]">
+                <Tooltip label="Import a preset pack (.json)">
+                  <button
+                    type="button"
+                    class="flex-1 py-1 px-2 bg-transparent border-0 rounded text-[var(--color-text-secondary)] text-[0.75rem] font-medium cursor-pointer transition-colors duration-150 hover:bg-[var(--color-hover)] hover:text-[var(--color-text)]"
+                    onClick={() => presetInputRef?.click()}
+                  >
+                    Import presets...
+                  </button>
+                </Tooltip>
+                <Tooltip label="Download your saved presets as a preset pack">
+                  <button
+                    type="button"
+                    class="flex-1 py-1 px-2 bg-transparent border-0 rounded text-[var(--color-text-secondary)] text-[0.75rem] font-medium cursor-pointer transition-colors duration-150 hover:bg-[var(--color-hover)] hover:text-[var(--color-text)] disabled:opacity-50 disabled:cursor-not-allowed"
+                    onClick={presets.exportPack}
+                    disabled={presets.userPresets().length === 0}
+                  >
+                    Export presets
+                  </button>
+                </Tooltip>
+              </div>
+            </Show>
+            <Show when={showLoudnessDialog()}>
+              <div
+                class="p-3 border-b border-[var(--color-border)]"
+                onClick={(e) => e.stopPropagation()}
+              >
+                <div class="mb-2 px-1.5 py-1 bg-[var(--color-bg-secondary)] rounded text-[0.625rem] text-[var(--color-text-secondary)]">
+                  Applying to: <span class="font-medium">{getScopeLabel()}</span>
+                </div>
+                {presetBar("loudnessNormalize")}
+                <label class="block text-[0.75rem] font-medium text-[var(--color-text-secondary)] mb-1.5">
+                  Target Loudness (LUFS, -40 to -5)
+                </label>
+                <input
+                  type="number"
+                  min="-40"
+                  max="-5"
+                  step="0.5"
+                  value={loudnessTarget()}
+                  onInput={(e) => {
+                    const val = e.currentTarget.value;
+                    const num = parseFloat(val);
+                    if (val === "" || (!isNaN(num) && num >= -40 && num <= -5)) {
+                      setLoudnessTarget(val);
+                    }
+                  }}
+                  class="w-full py-1.5 px-2 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-[var(--color-text)] text-[0.8125rem] focus:outline-none focus:border-[var(--color-primary)] mb-3"
+                />
+                <label class="block text-[0.75rem] font-medium text-[var(--color-text-secondary)] mb-1.5">
+                  True Peak Ceiling (dBTP, -9 to 0)
+                </label>
+                <input
+                  type="number"
+                  min="-9"
+                  max="0"
+                  step="0.1"
+                  value={loudnessTruePeak()}
+                  onInput={(e) => {
+                    const val = e.currentTarget.value;
+                    const num = parseFloat(val);
+                    if (val === "" || (!isNaN(num) && num >= -9 && num <= 0)) {
+                      setLoudnessTruePeak(val);
+                    }
+                  }}
+                  class="w-full py-1.5 px-2 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-[var(--color-text)] text-[0.8125rem] focus:outline-none focus:border-[var(--color-primary)]"
+                />
+                <div class="mt-2 text-[0.625rem] text-[var(--color-text-secondary)]">
+                  Note: Integrated loudness is measured per ITU-R BS.1770. Peaks above the ceiling
+                  are limited
+                </div>
+              </div>
+              <div class="flex gap-2 p-2">
+                <Tooltip label={`Apply loudness normalize to ${getScopeLabel().toLowerCase()}`}>
+                  <button
+                    type="button"
+                    class="flex-1 py-1.5 px-3 bg-[var(--color-primary)] text-white border-0 rounded text-[0.8125rem] font-medium cursor-pointer transition-all duration-150 hover:bg-[var(--color-primary-hover)]"
+                    onClick={handleLoudnessNormalize}
+                  >
+                    Apply
+                  </button>
+                </Tooltip>
+                {previewButton()}
+                <button
+                  type="button"
+                  class="py-1.5 px-4 bg-[var(--color-bg)] text-[var(--color-text)] border border-[var(--color-border)] rounded text-[0.8125rem] font-medium cursor-pointer transition-all duration-150 hover:bg-[var(--color-hover)]"
+                  onClick={() => setShowLoudnessDialog(false)}
+                >
+                  Cancel
+                </button>
+              </div>
             </Show>
             <Show when={showAmplifyDialog()}>
               <div
@@ -594,6 +1258,7 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
                 <div class="mb-2 px-1.5 py-1 bg-[var(--color-bg-secondary)] rounded text-[0.625rem] text-[var(--color-text-secondary)]">
                   Applying to: <span class="font-medium">{getScopeLabel()}</span>
                 </div>
+                {presetBar("amplify")}
                 <label class="block text-[0.75rem] font-medium text-[var(--color-text-secondary)] mb-1.5">
                   Gain Multiplier
                 </label>
@@ -621,6 +1286,7 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
                     Apply
                   </button>
                 </Tooltip>
+                {previewButton()}
                 <button
                   type="button"
                   class="py-1.5 px-4 bg-[var(--color-bg)] text-[var(--color-text)] border border-[var(--color-border)] rounded text-[0.8125rem] font-medium cursor-pointer transition-all duration-150 hover:bg-[var(--color-hover)]"
@@ -638,6 +1304,7 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
                 <div class="mb-2 px-1.5 py-1 bg-[var(--color-bg-secondary)] rounded text-[0.625rem] text-[var(--color-text-secondary)]">
                   Applying to: <span class="font-medium">{getScopeLabel()}</span>
                 </div>
+                {presetBar("reverb")}
                 <label class="block text-[0.75rem] font-medium text-[var(--color-text-secondary)] mb-1.5">
                   Room Size (seconds)
                 </label>
@@ -686,6 +1353,7 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
                     Apply
                   </button>
                 </Tooltip>
+                {previewButton()}
                 <button
                   type="button"
                   class="py-1.5 px-4 bg-[var(--color-bg)] text-[var(--color-text)] border border-[var(--color-border)] rounded text-[0.8125rem] font-medium cursor-pointer transition-all duration-150 hover:bg-[var(--color-hover)]"
@@ -698,6 +1366,175 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
                 </button>
               </div>
             </Show>
+            <Show when={showConvolutionDialog()}>
+              <div
+                class="p-3 border-b border-[var(--color-border)]"
+                onClick={(e) => e.stopPropagation()}
+              >
+                <div class="mb-2 px-1.5 py-1 bg-[var(--color-bg-secondary)] rounded text-[0.625rem] text-[var(--color-text-secondary)]">
+                  Applying to: <span class="font-medium">{getScopeLabel()}</span>
+                </div>
+                {presetBar("convolutionReverb")}
+                <label class="block text-[0.75rem] font-medium text-[var(--color-text-secondary)] mb-1.5">
+                  Impulse Response
+                </label>
+                <div class="flex items-center gap-1.5 mb-3">
+                  <select
+                    value={convolutionImpulse()}
+                    onChange={(e) => setConvolutionImpulse(e.currentTarget.value)}
+                    class="flex-1 min-w-0 py-1.5 px-2 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-[var(--color-text)] text-[0.8125rem] cursor-pointer focus:outline-none focus:border-[var(--color-primary)]"
+                  >
+                    <optgroup label="Built-in">
+                      <For each={BUILT_IN_IMPULSE_RESPONSES}>
+                        {(ir) => <option value={ir.id}>{ir.name}</option>}
+                      </For>
+                    </optgroup>
+                    <Show when={impulseResponses.userImpulseResponses().length > 0}>
+                      <optgroup label="My impulse responses">
+                        <For each={impulseResponses.userImpulseResponses()}>
+                          {(ir) => <option value={ir.id}>{ir.name}</option>}
+                        </For>
+                      </optgroup>
+                    </Show>
+                  </select>
+                  <Tooltip label="Import a WAV impulse response">
+                    <button
+                      type="button"
+                      class="py-1 px-2 bg-[var(--color-bg)] text-[var(--color-text)] border border-[var(--color-border)] rounded text-[0.75rem] font-medium cursor-pointer transition-all duration-150 hover:bg-[var(--color-hover)]"
+                      onClick={() => impulseInputRef?.click()}
+                    >
+                      Import
+                    </button>
+                  </Tooltip>
+                  <Show when={isUserImpulse()}>
+                    <Tooltip label="Delete impulse response">
+                      <button
+                        type="button"
+                        class="py-1 px-2 bg-[var(--color-bg)] text-[var(--color-text)] border border-[var(--color-border)] rounded text-[0.75rem] font-medium cursor-pointer transition-all duration-150 hover:bg-[var(--color-hover)] hover:text-[var(--color-danger)]"
+                        onClick={handleDeleteImpulse}
+                      >
+                        Delete
+                      </button>
+                    </Tooltip>
+                  </Show>
+                </div>
+                <label class="block text-[0.75rem] font-medium text-[var(--color-text-secondary)] mb-1.5">
+                  Pre-delay (seconds, 0-0.5)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="0.5"
+                  step="0.005"
+                  value={convolutionPreDelay()}
+                  onInput={(e) => {
+                    const val = e.currentTarget.value;
+                    const num = parseFloat(val);
+                    if (val === "" || (!isNaN(num) && num >= 0 && num <= 0.5)) {
+                      setConvolutionPreDelay(val);
+                    }
+                  }}
+                  class="w-full py-1.5 px-2 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-[var(--color-text)] text-[0.8125rem] focus:outline-none focus:border-[var(--color-primary)] mb-3"
+                />
+                <label class="block text-[0.75rem] font-medium text-[var(--color-text-secondary)] mb-1.5">
+                  Decay (% of impulse length, 10-100)
+                </label>
+                <input
+                  type="number"
+                  min="10"
+                  max="100"
+                  step="1"
+                  value={convolutionDecay()}
+                  onInput={(e) => {
+                    const val = e.currentTarget.value;
+                    const num = parseFloat(val);
+                    if (val === "" || (!isNaN(num) && num >= 10 && num <= 100)) {
+                      setConvolutionDecay(val);
+                    }
+                  }}
+                  class="w-full py-1.5 px-2 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-[var(--color-text)] text-[0.8125rem] focus:outline-none focus:border-[var(--color-primary)] mb-3"
+                />
+                <label class="block text-[0.75rem] font-medium text-[var(--color-text-secondary)] mb-1.5">
+                  Wet Low Cut (Hz, 20-2000)
+                </label>
+                <input
+                  type="number"
+                  min="20"
+                  max="2000"
+                  step="1"
+                  value={convolutionLowCut()}
+                  onInput={(e) => {
+                    const val = e.currentTarget.value;
+                    const num = parseFloat(val);
+                    if (val === "" || (!isNaN(num) && num >= 20 && num <= 2000)) {
+                      setConvolutionLowCut(val);
+                    }
+                  }}
+                  class="w-full py-1.5 px-2 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-[var(--color-text)] text-[0.8125rem] focus:outline-none focus:border-[var(--color-primary)] mb-3"
+                />
+                <label class="block text-[0.75rem] font-medium text-[var(--color-text-secondary)] mb-1.5">
+                  Wet High Cut (Hz, 1000-20000)
+                </label>
+                <input
+                  type="number"
+                  min="1000"
+                  max="20000"
+                  step="1"
+                  value={convolutionHighCut()}
+                  onInput={(e) => {
+                    const val = e.currentTarget.value;
+                    const num = parseFloat(val);
+                    if (val === "" || (!isNaN(num) && num >= 1000 && num <= 20000)) {
+                      setConvolutionHighCut(val);
+                    }
+                  }}
+                  class="w-full py-1.5 px-2 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-[var(--color-text)] text-[0.8125rem] focus:outline-none focus:border-[var(--color-primary)] mb-3"
+                />
+                <label class="block text-[0.75rem] font-medium text-[var(--color-text-secondary)] mb-1.5">
+                  Mix (0 dry - 1 wet)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  value={convolutionMix()}
+                  onInput={(e) => {
+                    const val = e.currentTarget.value;
+                    const num = parseFloat(val);
+                    if (val === "" || (!isNaN(num) && num >= 0 && num <= 1)) {
+                      setConvolutionMix(val);
+                    }
+                  }}
+                  class="w-full py-1.5 px-2 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-[var(--color-text)] text-[0.8125rem] focus:outline-none focus:border-[var(--color-primary)]"
+                />
+                <div class="mt-2 text-[0.625rem] text-[var(--color-text-secondary)]">
+                  Note: The reverb tail extends the audio by the length of the impulse response
+                </div>
+              </div>
+              <div class="flex gap-2 p-2">
+                <Tooltip label={`Apply convolution reverb to ${getScopeLabel().toLowerCase()}`}>
+                  <button
+                    type="button"
+                    class="flex-1 py-1.5 px-3 bg-[var(--color-primary)] text-white border-0 rounded text-[0.8125rem] font-medium cursor-pointer transition-all duration-150 hover:bg-[var(--color-primary-hover)]"
+                    onClick={handleConvolutionReverb}
+                  >
+                    Apply
+                  </button>
+                </Tooltip>
+                {previewButton()}
+                <button
+                  type="button"
+                  class="py-1.5 px-4 bg-[var(--color-bg)] text-[var(--color-text)] border border-[var(--color-border)] rounded text-[0.8125rem] font-medium cursor-pointer transition-all duration-150 hover:bg-[var(--color-hover)]"
+                  onClick={() => {
+                    setShowConvolutionDialog(false);
+                    requestAnimationFrame(updateMenuPosition);
+                  }}
+                >
+                  Cancel
+                </button>
+              </div>
+            </Show>
             <Show when={showDelayDialog()}>
               <div
                 class="p-3 border-b border-[var(--color-border)]"
@@ -706,6 +1543,7 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
                 <div class="mb-2 px-1.5 py-1 bg-[var(--color-bg-secondary)] rounded text-[0.625rem] text-[var(--color-text-secondary)]">
                   Applying to: <span class="font-medium">{getScopeLabel()}</span>
                 </div>
+                {presetBar("delay")}
                 <label class="block text-[0.75rem] font-medium text-[var(--color-text-secondary)] mb-1.5">
                   Delay Time (seconds)
                 </label>
@@ -772,6 +1610,7 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
                     Apply
                   </button>
                 </Tooltip>
+                {previewButton()}
                 <button
                   type="button"
                   class="py-1.5 px-4 bg-[var(--color-bg)] text-[var(--color-text)] border border-[var(--color-border)] rounded text-[0.8125rem] font-medium cursor-pointer transition-all duration-150 hover:bg-[var(--color-hover)]"
@@ -792,32 +1631,100 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
                 <div class="mb-2 px-1.5 py-1 bg-[var(--color-bg-secondary)] rounded text-[0.625rem] text-[var(--color-text-secondary)]">
                   Applying to: <span class="font-medium">{getScopeLabel()}</span>
                 </div>
+                <div class="mb-3 p-2 border border-[var(--color-border)] rounded">
+                  <div class="flex items-center justify-between gap-2">
+                    <span class="text-[0.75rem] font-medium text-[var(--color-text)]">
+                      Noise Profile
+                    </span>
+                    <div class="flex gap-1">
+                      <Tooltip label="Learn the noise from the selected noise-only region">
+                        <button
+                          type="button"
+                          class="py-1 px-2 bg-[var(--color-bg)] text-[var(--color-text)] border border-[var(--color-border)] rounded text-[0.6875rem] font-medium cursor-pointer transition-all duration-150 hover:bg-[var(--color-hover)] disabled:opacity-50 disabled:cursor-not-allowed"
+                          disabled={!hasSelection() || !props.onGetNoiseProfile}
+                          onClick={() => props.onGetNoiseProfile?.()}
+                        >
+                          Get Noise Profile
+                        </button>
+                      </Tooltip>
+                      <Show when={store.noiseProfile}>
+                        <button
+                          type="button"
+                          class="py-1 px-2 bg-[var(--color-bg)] text-[var(--color-text-secondary)] border border-[var(--color-border)] rounded text-[0.6875rem] cursor-pointer transition-all duration-150 hover:bg-[var(--color-hover)]"
+                          onClick={() => setNoiseProfile(null)}
+                        >
+                          Clear
+                        </button>
+                      </Show>
+                    </div>
+                  </div>
+                  <div class="mt-1.5 text-[0.6875rem] text-[var(--color-text-secondary)]">
+                    <Show
+                      when={store.noiseProfile}
+                      fallback="No profile: select a noise-only region and click Get Noise Profile, or the quietest parts of the audio are used."
+                    >
+                      {(profile) =>
+                        `Profile learned from ${profile().duration.toFixed(2)}s of noise, saved with the project.`
+                      }
+                    </Show>
+                  </div>
+                </div>
+                {presetBar("noiseReduction")}
                 <label class="block text-[0.75rem] font-medium text-[var(--color-text-secondary)] mb-1.5">
-                  Reduction Amount (0-1)
+                  Noise Reduction (dB, 0-48)
                 </label>
                 <input
                   type="number"
                   min="0"
-                  max="1"
-                  step="0.05"
-                  value={noiseReductionAmount()}
+                  max="48"
+                  step="1"
+                  value={noiseReductionDb()}
                   onInput={(e) => {
                     const val = e.currentTarget.value;
                     const num = parseFloat(val);
-                    if (val === "" || (!isNaN(num) && num >= 0 && num <= 1)) {
-                      setNoiseReductionAmount(val);
+                    if (val === "" || (!isNaN(num) && num >= 0 && num <= 48)) {
+                      setNoiseReductionDb(val);
                     }
                   }}
-                  class="w-full py-1.5 px-2 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-[var(--color-text)] text-[0.8125rem] focus:outline-none focus:border-[var(--color-primary)]"
+                  class="w-full py-1.5 px-2 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-[var(--color-text)] text-[0.8125rem] focus:outline-none focus:border-[var(--color-primary)] mb-3"
                   autofocus
                 />
-                <div class="mt-1.5 text-[0.75rem] text-[var(--color-text-secondary)]">
-                  {(() => {
-                    const reduction = parseFloat(noiseReductionAmount());
-                    if (isNaN(reduction)) return "";
-                    return `${(reduction * 100).toFixed(0)}% reduction`;
-                  })()}
-                </div>
+                <label class="block text-[0.75rem] font-medium text-[var(--color-text-secondary)] mb-1.5">
+                  Sensitivity (dB, 0-24)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="24"
+                  step="0.5"
+                  value={noiseSensitivity()}
+                  onInput={(e) => {
+                    const val = e.currentTarget.value;
+                    const num = parseFloat(val);
+                    if (val === "" || (!isNaN(num) && num >= 0 && num <= 24)) {
+                      setNoiseSensitivity(val);
+                    }
+                  }}
+                  class="w-full py-1.5 px-2 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-[var(--color-text)] text-[0.8125rem] focus:outline-none focus:border-[var(--color-primary)] mb-3"
+                />
+                <label class="block text-[0.75rem] font-medium text-[var(--color-text-secondary)] mb-1.5">
+                  Frequency Smoothing (bands, 0-12)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="12"
+                  step="1"
+                  value={noiseSmoothing()}
+                  onInput={(e) => {
+                    const val = e.currentTarget.value;
+                    const num = parseFloat(val);
+                    if (val === "" || (!isNaN(num) && num >= 0 && num <= 12)) {
+                      setNoiseSmoothing(val);
+                    }
+                  }}
+                  class="w-full py-1.5 px-2 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-[var(--color-text)] text-[0.8125rem] focus:outline-none focus:border-[var(--color-primary)]"
+                />
               </div>
               <div class="flex gap-2 p-2">
                 <Tooltip label={`Apply noise reduction to ${getScopeLabel().toLowerCase()}`}>
@@ -829,6 +1736,7 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
                     Apply
                   </button>
                 </Tooltip>
+                {previewButton()}
                 <button
                   type="button"
                   class="py-1.5 px-4 bg-[var(--color-bg)] text-[var(--color-text)] border border-[var(--color-border)] rounded text-[0.8125rem] font-medium cursor-pointer transition-all duration-150 hover:bg-[var(--color-hover)]"
@@ -849,6 +1757,7 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
                 <div class="mb-2 px-1.5 py-1 bg-[var(--color-bg-secondary)] rounded text-[0.625rem] text-[var(--color-text-secondary)]">
                   Applying to: <span class="font-medium">{getScopeLabel()}</span>
                 </div>
+                {presetBar("changeSpeed")}
                 <label class="block text-[0.75rem] font-medium text-[var(--color-text-secondary)] mb-1.5">
                   Speed Factor (0.25-4.0)
                 </label>
@@ -891,6 +1800,7 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
                     Apply
                   </button>
                 </Tooltip>
+                {previewButton()}
                 <button
                   type="button"
                   class="py-1.5 px-4 bg-[var(--color-bg)] text-[var(--color-text)] border border-[var(--color-border)] rounded text-[0.8125rem] font-medium cursor-pointer transition-all duration-150 hover:bg-[var(--color-hover)]"
@@ -903,7 +1813,7 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
                 </button>
               </div>
             </Show>
-            <Show when={showPitchDialog()}>
+            <Show when={showStretchDialog()}>
               <div
                 class="p-3 border-b border-[var(--color-border)]"
                 onClick={(e) => e.stopPropagation()}
@@ -911,20 +1821,21 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
                 <div class="mb-2 px-1.5 py-1 bg-[var(--color-bg-secondary)] rounded text-[0.625rem] text-[var(--color-text-secondary)]">
                   Applying to: <span class="font-medium">{getScopeLabel()}</span>
                 </div>
+                {presetBar("timeStretch")}
                 <label class="block text-[0.75rem] font-medium text-[var(--color-text-secondary)] mb-1.5">
-                  Pitch Factor (0.25-4.0)
+                  Tempo Factor (0.25-4.0)
                 </label>
                 <input
                   type="number"
                   min="0.25"
                   max="4"
                   step="0.05"
-                  value={pitchFactor()}
+                  value={tempoFactor()}
                   onInput={(e) => {
                     const val = e.currentTarget.value;
                     const num = parseFloat(val);
                     if (val === "" || (!isNaN(num) && num >= 0.25 && num <= 4)) {
-                      setPitchFactor(val);
+                      setTempoFactor(val);
                     }
                   }}
                   class="w-full py-1.5 px-2 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-[var(--color-text)] text-[0.8125rem] focus:outline-none focus:border-[var(--color-primary)]"
@@ -932,13 +1843,91 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
                 />
                 <div class="mt-1.5 text-[0.75rem] text-[var(--color-text-secondary)]">
                   {(() => {
-                    const pitch = parseFloat(pitchFactor());
-                    if (isNaN(pitch)) return "";
-                    const semitones = (12 * Math.log2(pitch)).toFixed(1);
-                    if (pitch === 1) return "Normal pitch";
-                    return pitch > 1
-                      ? `+${semitones} semitones (higher)`
-                      : `${semitones} semitones (lower)`;
+                    const tempo = parseFloat(tempoFactor());
+                    if (isNaN(tempo) || tempo <= 0) return "";
+                    if (tempo === 1) return "Original tempo";
+                    return `${Math.round(tempo * 100)}% tempo, ${(100 / tempo).toFixed(0)}% length`;
+                  })()}
+                </div>
+                <div class="mt-2 text-[0.625rem] text-[var(--color-text-secondary)]">
+                  Note: This changes tempo and duration without changing pitch
+                </div>
+              </div>
+              <div class="flex gap-2 p-2">
+                <Tooltip label={`Time stretch ${getScopeLabel().toLowerCase()}`}>
+                  <button
+                    type="button"
+                    class="flex-1 py-1.5 px-3 bg-[var(--color-primary)] text-white border-0 rounded text-[0.8125rem] font-medium cursor-pointer transition-all duration-150 hover:bg-[var(--color-primary-hover)]"
+                    onClick={handleTimeStretch}
+                  >
+                    Apply
+                  </button>
+                </Tooltip>
+                {previewButton()}
+                <button
+                  type="button"
+                  class="py-1.5 px-4 bg-[var(--color-bg)] text-[var(--color-text)] border border-[var(--color-border)] rounded text-[0.8125rem] font-medium cursor-pointer transition-all duration-150 hover:bg-[var(--color-hover)]"
+                  onClick={() => {
+                    setShowStretchDialog(false);
+                    requestAnimationFrame(updateMenuPosition);
+                  }}
+                >
+                  Cancel
+                </button>
+              </div>
+            </Show>
+            <Show when={showPitchDialog()}>
+              <div
+                class="p-3 border-b border-[var(--color-border)]"
+                onClick={(e) => e.stopPropagation()}
+              >
+                <div class="mb-2 px-1.5 py-1 bg-[var(--color-bg-secondary)] rounded text-[0.625rem] text-[var(--color-text-secondary)]">
+                  Applying to: <span class="font-medium">{getScopeLabel()}</span>
+                </div>
+                {presetBar("pitchShift")}
+                <label class="block text-[0.75rem] font-medium text-[var(--color-text-secondary)] mb-1.5">
+                  Semitones (-24 to 24)
+                </label>
+                <input
+                  type="number"
+                  min="-24"
+                  max="24"
+                  step="1"
+                  value={pitchSemitones()}
+                  onInput={(e) => {
+                    const val = e.currentTarget.value;
+                    const num = parseFloat(val);
+                    if (val === "" || (!isNaN(num) && num >= -24 && num <= 24)) {
+                      setPitchSemitones(val);
+                    }
+                  }}
+                  class="w-full py-1.5 px-2 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-[var(--color-text)] text-[0.8125rem] focus:outline-none focus:border-[var(--color-primary)] mb-3"
+                  autofocus
+                />
+                <label class="block text-[0.75rem] font-medium text-[var(--color-text-secondary)] mb-1.5">
+                  Cents (-100 to 100)
+                </label>
+                <input
+                  type="number"
+                  min="-100"
+                  max="100"
+                  step="1"
+                  value={pitchCents()}
+                  onInput={(e) => {
+                    const val = e.currentTarget.value;
+                    const num = parseFloat(val);
+                    if (val === "" || (!isNaN(num) && num >= -100 && num <= 100)) {
+                      setPitchCents(val);
+                    }
+                  }}
+                  class="w-full py-1.5 px-2 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-[var(--color-text)] text-[0.8125rem] focus:outline-none focus:border-[var(--color-primary)]"
+                />
+                <div class="mt-1.5 text-[0.75rem] text-[var(--color-text-secondary)]">
+                  {(() => {
+                    const shift = parseFloat(pitchSemitones()) + parseFloat(pitchCents()) / 100;
+                    if (isNaN(shift)) return "";
+                    if (shift === 0) return "Original pitch";
+                    return `${shift > 0 ? "+" : ""}${shift.toFixed(2)} semitones (${shift > 0 ? "higher" : "lower"})`;
                   })()}
                 </div>
                 <div class="mt-2 text-[0.625rem] text-[var(--color-text-secondary)]">
@@ -946,15 +1935,16 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
                 </div>
               </div>
               <div class="flex gap-2 p-2">
-                <Tooltip label={`Change pitch for ${getScopeLabel().toLowerCase()}`}>
+                <Tooltip label={`Shift pitch for ${getScopeLabel().toLowerCase()}`}>
                   <button
                     type="button"
                     class="flex-1 py-1.5 px-3 bg-[var(--color-primary)] text-white border-0 rounded text-[0.8125rem] font-medium cursor-pointer transition-all duration-150 hover:bg-[var(--color-primary-hover)]"
-                    onClick={handleChangePitch}
+                    onClick={handlePitchShift}
                   >
                     Apply
                   </button>
                 </Tooltip>
+                {previewButton()}
                 <button
                   type="button"
                   class="py-1.5 px-4 bg-[var(--color-bg)] text-[var(--color-text)] border border-[var(--color-border)] rounded text-[0.8125rem] font-medium cursor-pointer transition-all duration-150 hover:bg-[var(--color-hover)]"
@@ -975,6 +1965,7 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
                 <div class="mb-2 px-1.5 py-1 bg-[var(--color-bg-secondary)] rounded text-[0.625rem] text-[var(--color-text-secondary)]">
                   Applying to: <span class="font-medium">{getScopeLabel()}</span>
                 </div>
+                {presetBar("compressor")}
                 <label class="block text-[0.75rem] font-medium text-[var(--color-text-secondary)] mb-1.5">
                   Threshold (dB, -60 to 0)
                 </label>
@@ -1077,6 +2068,7 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
                     Apply
                   </button>
                 </Tooltip>
+                {previewButton()}
                 <button
                   type="button"
                   class="py-1.5 px-4 bg-[var(--color-bg)] text-[var(--color-text)] border border-[var(--color-border)] rounded text-[0.8125rem] font-medium cursor-pointer transition-all duration-150 hover:bg-[var(--color-hover)]"
@@ -1097,6 +2089,7 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
                 <div class="mb-2 px-1.5 py-1 bg-[var(--color-bg-secondary)] rounded text-[0.625rem] text-[var(--color-text-secondary)]">
                   Applying to: <span class="font-medium">{getScopeLabel()}</span>
                 </div>
+                {presetBar("limiter")}
                 <label class="block text-[0.75rem] font-medium text-[var(--color-text-secondary)] mb-1.5">
                   Threshold (dB, -60 to 0)
                 </label>
@@ -1148,6 +2141,7 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
                     Apply
                   </button>
                 </Tooltip>
+                {previewButton()}
                 <button
                   type="button"
                   class="py-1.5 px-4 bg-[var(--color-bg)] text-[var(--color-text)] border border-[var(--color-border)] rounded text-[0.8125rem] font-medium cursor-pointer transition-all duration-150 hover:bg-[var(--color-hover)]"
@@ -1162,69 +2156,170 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
             </Show>
             <Show when={showEqDialog()}>
               <div
-                class="p-3 border-b border-[var(--color-border)]"
+                class="p-3 border-b border-[var(--color-border)] w-[340px] max-w-full"
                 onClick={(e) => e.stopPropagation()}
               >
                 <div class="mb-2 px-1.5 py-1 bg-[var(--color-bg-secondary)] rounded text-[0.625rem] text-[var(--color-text-secondary)]">
                   Applying to: <span class="font-medium">{getScopeLabel()}</span>
                 </div>
-                <label class="block text-[0.75rem] font-medium text-[var(--color-text-secondary)] mb-1.5">
-                  Frequency (Hz, 20-20000)
-                </label>
-                <input
-                  type="number"
-                  min="20"
-                  max="20000"
-                  step="1"
-                  value={eqFrequency()}
-                  onInput={(e) => {
-                    const val = e.currentTarget.value;
-                    const num = parseFloat(val);
-                    if (val === "" || (!isNaN(num) && num >= 20 && num <= 20000)) {
-                      setEqFrequency(val);
-                    }
-                  }}
-                  class="w-full py-1.5 px-2 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-[var(--color-text)] text-[0.8125rem] focus:outline-none focus:border-[var(--color-primary)] mb-3"
-                  autofocus
-                />
-                <label class="block text-[0.75rem] font-medium text-[var(--color-text-secondary)] mb-1.5">
-                  Gain (dB, -20 to +20)
-                </label>
-                <input
-                  type="number"
-                  min="-20"
-                  max="20"
-                  step="0.1"
-                  value={eqGain()}
-                  onInput={(e) => {
-                    const val = e.currentTarget.value;
-                    const num = parseFloat(val);
-                    if (val === "" || (!isNaN(num) && num >= -20 && num <= 20)) {
-                      setEqGain(val);
-                    }
-                  }}
-                  class="w-full py-1.5 px-2 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-[var(--color-text)] text-[0.8125rem] focus:outline-none focus:border-[var(--color-primary)] mb-3"
-                />
-                <label class="block text-[0.75rem] font-medium text-[var(--color-text-secondary)] mb-1.5">
-                  Q (0.1-30)
-                </label>
-                <input
-                  type="number"
-                  min="0.1"
-                  max="30"
-                  step="0.1"
-                  value={eqQ()}
-                  onInput={(e) => {
-                    const val = e.currentTarget.value;
-                    const num = parseFloat(val);
-                    if (val === "" || (!isNaN(num) && num >= 0.1 && num <= 30)) {
-                      setEqQ(val);
-                    }
-                  }}
-                  class="w-full py-1.5 px-2 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-[var(--color-text)] text-[0.8125rem] focus:outline-none focus:border-[var(--color-primary)]"
+                {presetBar("eq")}
+                <EqGraph
+                  bands={eqBands()}
+                  sampleRate={eqSampleRate()}
+                  selected={selectedEqBand()}
+                  onSelect={setSelectedEqBand}
+                  onChange={updateEqBand}
+                  onAdd={addEqBand}
                 />
+                <div class="mt-2 flex items-center gap-1 flex-wrap">
+                  <Index each={eqBands()}>
+                    {(band, index) => (
+                      <button
+                        type="button"
+                        class="py-0.5 px-2 border rounded text-[0.75rem] cursor-pointer transition-colors duration-150"
+                        classList={{
+                          "bg-[var(--color-primary)]/20 text-[var(--color-primary)] border-[var(--color-primary)]":
+                            selectedEqBand() === index,
+                          "bg-[var(--color-bg)] text-[var(--color-text)] border-[var(--color-border)] hover:bg-[var(--color-hover)]":
+                            selectedEqBand() !== index,
+                        }}
+                        onClick={() => setSelectedEqBand(index)}
+                        title={EQ_BAND_LABELS[band().type]}
+                      >
+                        {index + 1}
+                      </button>
+                    )}
+                  </Index>
+                  <Tooltip label="Add a band">
+                    <button
+                      type="button"
+                      class="py-0.5 px-2 bg-[var(--color-bg)] text-[var(--color-text)] border border-[var(--color-border)] rounded text-[0.75rem] cursor-pointer transition-colors duration-150 hover:bg-[var(--color-hover)] disabled:opacity-50 disabled:cursor-not-allowed"
+                      onClick={() => addEqBand(1000)}
+                      disabled={eqBands().length >= MAX_EQ_BANDS}
+                    >
+                      + Band
+                    </button>
+                  </Tooltip>
+                </div>
+                <Show when={eqBands()[selectedEqBand()]}>
+                  {(band) => (
+                    <div class="mt-2 grid grid-cols-2 gap-2">
+                      <div>
+                        <label class="block text-[0.6875rem] font-medium text-[var(--color-text-secondary)] mb-1">
+                          Type
+                        </label>
+                        <select
+                          value={band().type}
+                          onChange={(e) => {
+                            const type = e.currentTarget.value as EqBandType;
+                            updateEqBand(selectedEqBand(), {
+                              type,
+                              gain: bandHasGain(type) ? band().gain : 0,
+                            });
+                          }}
+                          class="w-full py-1 px-1.5 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-[var(--color-text)] text-[0.8125rem] focus:outline-none focus:border-[var(--color-primary)] cursor-pointer"
+                        >
+                          <For each={EQ_BAND_TYPES}>
+                            {(type) => <option value={type}>{EQ_BAND_LABELS[type]}</option>}
+                          </For>
+                        </select>
+                      </div>
+                      <div>
+                        <label class="block text-[0.6875rem] font-medium text-[var(--color-text-secondary)] mb-1">
+                          Frequency (Hz)
+                        </label>
+                        <input
+                          type="number"
+                          min={EQ_MIN_FREQUENCY}
+                          max={EQ_MAX_FREQUENCY}
+                          step="1"
+                          value={band().frequency}
+                          onInput={(e) => {
+                            const num = parseFloat(e.currentTarget.value);
+                            if (!isNaN(num) && num >= EQ_MIN_FREQUENCY && num <= EQ_MAX_FREQUENCY) {
+                              updateEqBand(selectedEqBand(), { frequency: num });
+                            }
+                          }}
+                          class="w-full py-1 px-1.5 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-[var(--color-text)] text-[0.8125rem] focus:outline-none focus:border-[var(--color-primary)]"
+                        />
+                      </div>
+                      <Show when={bandHasGain(band().type)}>
+                        <div>
+                          <label class="block text-[0.6875rem] font-medium text-[var(--color-text-secondary)] mb-1">
+                            Gain (dB)
+                          </label>
+                          <input
+                            type="number"
+                            min={-EQ_MAX_GAIN}
+                            max={EQ_MAX_GAIN}
+                            step="0.1"
+                            value={band().gain}
+                            onInput={(e) => {
+                              const num = parseFloat(e.currentTarget.value);
+                              if (!isNaN(num) && num >= -EQ_MAX_GAIN && num <= EQ_MAX_GAIN) {
+                                updateEqBand(selectedEqBand(), { gain: num });
+                              }
+                            }}
+                            class="w-full py-1 px-1.5 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-[var(--color-text)] text-[0.8125rem] focus:outline-none focus:border-[var(--color-primary)]"
+                          />
+                        </div>
+                      </Show>
+                      <div>
+                        <label class="block text-[0.6875rem] font-medium text-[var(--color-text-secondary)] mb-1">
+                          Q
+                        </label>
+                        <input
+                          type="number"
+                          min={EQ_MIN_Q}
+                          max={EQ_MAX_Q}
+                          step="0.01"
+                          value={band().q}
+                          onInput={(e) => {
+                            const num = parseFloat(e.currentTarget.value);
+                            if (!isNaN(num) && num >= EQ_MIN_Q && num <= EQ_MAX_Q) {
+                              updateEqBand(selectedEqBand(), { q: num });
+                            }
+                          }}
+                          class="w-full py-1 px-1.5 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-[var(--color-text)] text-[0.8125rem] focus:outline-none focus:border-[var(--color-primary)]"
+                        />
+                      </div>
+                      <Show when={bandHasSlope(band().type)}>
+                        <div>
+                          <label class="block text-[0.6875rem] font-medium text-[var(--color-text-secondary)] mb-1">
+                            Slope
+                          </label>
+                          <select
+                            value={band().slope}
+                            onChange={(e) =>
+                              updateEqBand(selectedEqBand(), {
+                                slope: parseInt(e.currentTarget.value, 10),
+                              })
+                            }
+                            class="w-full py-1 px-1.5 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-[var(--color-text)] text-[0.8125rem] focus:outline-none focus:border-[var(--color-primary)] cursor-pointer"
+                          >
+                            <For each={EQ_SLOPES}>
+                              {(slope) => <option value={slope}>{slope} dB/oct</option>}
+                            </For>
+                          </select>
+                        </div>
+                      </Show>
+                      <div class="col-span-2">
+                        <button
+                          type="button"
+                          class="w-full py-1 px-2 bg-[var(--color-bg)] text-[var(--color-text)] border border-[var(--color-border)] rounded text-[0.75rem] font-medium cursor-pointer transition-all duration-150 hover:bg-[var(--color-hover)] hover:text-[var(--color-danger)] disabled:opacity-50 disabled:cursor-not-allowed"
+                          onClick={() => removeEqBand(selectedEqBand())}
+                          disabled={eqBands().length <= 1}
+                        >
+                          Remove band {selectedEqBand() + 1}
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </Show>
                 <div class="mt-2 text-[0.625rem] text-[var(--color-text-secondary)]">
-                  Note: Boosts or cuts a specific frequency range
+                  Drag points to set frequency and gain, scroll over a point to change Q and
+                  double-click the graph to add a band. The spectrum shows while previewing or
+                  playing.
                 </div>
               </div>
               <div class="flex gap-2 p-2">
@@ -1237,6 +2332,7 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
                     Apply
                   </button>
                 </Tooltip>
+                {previewButton()}
                 <button
                   type="button"
                   class="py-1.5 px-4 bg-[var(--color-bg)] text-[var(--color-text)] border border-[var(--color-border)] rounded text-[0.8125rem] font-medium cursor-pointer transition-all duration-150 hover:bg-[var(--color-hover)]"
@@ -1257,6 +2353,7 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
                 <div class="mb-2 px-1.5 py-1 bg-[var(--color-bg-secondary)] rounded text-[0.625rem] text-[var(--color-text-secondary)]">
                   Applying to: <span class="font-medium">{getScopeLabel()}</span>
                 </div>
+                {presetBar("highPassFilter")}
                 <label class="block text-[0.75rem] font-medium text-[var(--color-text-secondary)] mb-1.5">
                   Cutoff Frequency (Hz, 20-20000)
                 </label>
@@ -1290,6 +2387,7 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
                     Apply
                   </button>
                 </Tooltip>
+                {previewButton()}
                 <button
                   type="button"
                   class="py-1.5 px-4 bg-[var(--color-bg)] text-[var(--color-text)] border border-[var(--color-border)] rounded text-[0.8125rem] font-medium cursor-pointer transition-all duration-150 hover:bg-[var(--color-hover)]"
@@ -1310,6 +2408,7 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
                 <div class="mb-2 px-1.5 py-1 bg-[var(--color-bg-secondary)] rounded text-[0.625rem] text-[var(--color-text-secondary)]">
                   Applying to: <span class="font-medium">{getScopeLabel()}</span>
                 </div>
+                {presetBar("lowPassFilter")}
                 <label class="block text-[0.75rem] font-medium text-[var(--color-text-secondary)] mb-1.5">
                   Cutoff Frequency (Hz, 20-20000)
                 </label>
@@ -1343,6 +2442,7 @@ export const EffectsMenu: Component<EffectsMenuProps> = (props) => {
                     Apply
                   </button>
                 </Tooltip>
+                {previewButton()}
                 <button
                   type="button"
                   class="py-1.5 px-4 bg-[var(--color-bg)] text-[var(--color-text)] border border-[var(--color-border)] rounded text-[0.8125rem] font-medium cursor-pointer transition-all duration-150 hover:bg-[var(--color-hover)]"
@@ -0,0 +1,241 @@
+import { Component, For, Index, Show, createMemo } from "solid-js";
+import { useSpectrum } from "../hooks/useSpectrum";
+import { playbackEngine } from "../utils/playbackEngine";
+import {
+  EQ_BAND_LABELS,
+  EQ_MAX_FREQUENCY,
+  EQ_MAX_GAIN,
+  EQ_MAX_Q,
+  EQ_MIN_FREQUENCY,
+  EQ_MIN_Q,
+  bandHasGain,
+  getEqResponse,
+  type EqBand,
+} from "../utils/parametricEq";
+
+interface EqGraphProps {
+  bands: EqBand[];
+  sampleRate: number;
+  selected: number;
+  onSelect: (index: number) => void;
+  onChange: (index: number, changes: Partial<EqBand>) => void;
+  onAdd: (frequency: number, gain: number) => void;
+}
+
+const WIDTH = 320;
+const HEIGHT = 160;
+const GRAPH_RANGE_DB = 24;
+const SPECTRUM_FLOOR_DB = -100;
+const SPECTRUM_CEILING_DB = -20;
+const RESPONSE_POINTS = 160;
+const LOG_RANGE = Math.log(EQ_MAX_FREQUENCY / EQ_MIN_FREQUENCY);
+const FREQUENCY_GRID = [50, 100, 200, 500, 1000, 2000, 5000, 10000];
+const FREQUENCY_LABELS: Record<number, string> = { 100: "100", 1000: "1k", 10000: "10k" };
+const GAIN_GRID = [-12, 0, 12];
+
+const frequencyToX = (frequency: number) =>
+  (Math.log(frequency / EQ_MIN_FREQUENCY) / LOG_RANGE) * WIDTH;
+const xToFrequency = (x: number) => EQ_MIN_FREQUENCY * Math.exp((x / WIDTH) * LOG_RANGE);
+const gainToY = (gain: number) => HEIGHT / 2 - (gain / GRAPH_RANGE_DB) * (HEIGHT / 2);
+const yToGain = (y: number) => ((HEIGHT / 2 - y) / (HEIGHT / 2)) * GRAPH_RANGE_DB;
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const RESPONSE_FREQUENCIES = Array.from({ length: RESPONSE_POINTS }, (_, i) =>
+  xToFrequency((i / (RESPONSE_POINTS - 1)) * WIDTH)
+);
+
+export const EqGraph: Component<EqGraphProps> = (props) => {
+  const { spectrum } = useSpectrum(playbackEngine.getMasterAnalysers, () => true);
+  let svgRef: SVGSVGElement | undefined;
+  let dragIndex: number | null = null;
+
+  const responsePath = createMemo(() => {
+    const response = getEqResponse(props.bands, props.sampleRate, RESPONSE_FREQUENCIES);
+    return response
+      .map((gain, i) => {
+        const x = (i / (RESPONSE_POINTS - 1)) * WIDTH;
+        const y = clamp(gainToY(gain), 0, HEIGHT);
+        return `${i === 0 ? "M" : "L"}${x.toFixed(1)},${y.toFixed(1)}`;
+      })
+      .join(" ");
+  });
+
+  const spectrumPath = () => {
+    const current = spectrum();
+    if (!current) return null;
+    const nyquist = current.sampleRate / 2;
+    const binCount = current.magnitudes.length;
+    const points: string[] = [`M0,${HEIGHT}`];
+    for (let x = 0; x <= WIDTH; x += 2) {
+      const bin = Math.min(binCount - 1, Math.round((xToFrequency(x) / nyquist) * binCount));
+      const db = current.magnitudes[bin] ?? -Infinity;
+      const level = isFinite(db)
+        ? clamp((db - SPECTRUM_FLOOR_DB) / (SPECTRUM_CEILING_DB - SPECTRUM_FLOOR_DB), 0, 1)
+        : 0;
+      points.push(`L${x},${(HEIGHT * (1 - level)).toFixed(1)}`);
+    }
+    points.push(`L${WIDTH},${HEIGHT} Z`);
+    return points.join(" ");
+  };
+
+  const toGraphPoint = (e: PointerEvent | MouseEvent) => {
+    const rect = svgRef!.getBoundingClientRect();
+    return {
+      frequency: Math.round(
+        clamp(
+          xToFrequency(((e.clientX - rect.left) / rect.width) * WIDTH),
+          EQ_MIN_FREQUENCY,
+          EQ_MAX_FREQUENCY
+        )
+      ),
+      gain:
+        Math.round(
+          clamp(
+            yToGain(((e.clientY - rect.top) / rect.height) * HEIGHT),
+            -EQ_MAX_GAIN,
+            EQ_MAX_GAIN
+          ) * 10
+        ) / 10,
+    };
+  };
+
+  const handlePointerMove = (e: PointerEvent) => {
+    if (dragIndex === null) return;
+    const band = props.bands[dragIndex];
+    if (!band) return;
+    const { frequency, gain } = toGraphPoint(e);
+    props.onChange(dragIndex, bandHasGain(band.type) ? { frequency, gain } : { frequency });
+  };
+
+  const endDrag = (e: PointerEvent) => {
+    if (dragIndex === null) return;
+    dragIndex = null;
+    svgRef?.releasePointerCapture(e.pointerId);
+  };
+
+  const adjustQ = (index: number, factor: number) => {
+    const band = props.bands[index];
+    if (!band) return;
+    props.onChange(index, {
+      q: Math.round(clamp(band.q * factor, EQ_MIN_Q, EQ_MAX_Q) * 100) / 100,
+    });
+  };
+
+  const handleNodeKeyDown = (index: number, e: KeyboardEvent) => {
+    const band = props.bands[index];
+    if (!band) return;
+    const step = e.shiftKey ? 1.01 : 1.05;
+    if (e.key === "ArrowLeft" || e.key === "ArrowRight") {
+      const factor = e.key === "ArrowRight" ? step : 1 / step;
+      props.onChange(index, {
+        frequency: Math.round(clamp(band.frequency * factor, EQ_MIN_FREQUENCY, EQ_MAX_FREQUENCY)),
+      });
+    } else if ((e.key === "ArrowUp" || e.key === "ArrowDown") && bandHasGain(band.type)) {
+      const delta = (e.key === "ArrowUp" ? 1 : -1) * (e.shiftKey ? 0.1 : 0.5);
+      props.onChange(index, {
+        gain: Math.round(clamp(band.gain + delta, -EQ_MAX_GAIN, EQ_MAX_GAIN) * 10) / 10,
+      });
+    } else {
+      return;
+    }
+    e.preventDefault();
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      class="w-full h-auto bg-[var(--color-bg)] border border-[var(--color-border)] rounded select-none touch-none"
+      onPointerMove={handlePointerMove}
+      onPointerUp={endDrag}
+      onPointerCancel={endDrag}
+      onDblClick={(e) => {
+        const { frequency, gain } = toGraphPoint(e);
+        props.onAdd(frequency, gain);
+      }}
+      role="img"
+      aria-label="EQ frequency response"
+    >
+      <For each={FREQUENCY_GRID}>
+        {(frequency) => (
+          <>
+            <line
+              x1={frequencyToX(frequency)}
+              x2={frequencyToX(frequency)}
+              y1={0}
+              y2={HEIGHT}
+              stroke="var(--color-border)"
+              stroke-width="0.5"
+            />
+            <Show when={FREQUENCY_LABELS[frequency]}>
+              <text
+                x={frequencyToX(frequency) + 2}
+                y={HEIGHT - 3}
+                font-size="8"
+                fill="var(--color-text-secondary)"
+              >
+                {FREQUENCY_LABELS[frequency]}
+              </text>
+            </Show>
+          </>
+        )}
+      </For>
+      <For each={GAIN_GRID}>
+        {(gain) => (
+          <>
+            <line
+              x1={0}
+              x2={WIDTH}
+              y1={gainToY(gain)}
+              y2={gainToY(gain)}
+              stroke="var(--color-border)"
+              stroke-width={gain === 0 ? 1 : 0.5}
+            />
+            <text x={2} y={gainToY(gain) - 2} font-size="8" fill="var(--color-text-secondary)">
+              {gain > 0 ? `+${gain}` : gain} dB
+            </text>
+          </>
+        )}
+      </For>
+      <Show when={spectrumPath()}>
+        {(path) => <path d={path()} fill="var(--color-text-secondary)" fill-opacity="0.2" />}
+      </Show>
+      <path d={responsePath()} fill="none" stroke="var(--color-primary)" stroke-width="2" />
+      <Index each={props.bands}>
+        {(band, index) => {
+          const isSelected = () => props.selected === index;
+          return (
+            <circle
+              cx={frequencyToX(clamp(band().frequency, EQ_MIN_FREQUENCY, EQ_MAX_FREQUENCY))}
+              cy={gainToY(bandHasGain(band().type) ? band().gain : 0)}
+              r={isSelected() ? 7 : 5.5}
+              fill={isSelected() ? "var(--color-primary)" : "var(--color-bg-elevated)"}
+              stroke="var(--color-primary)"
+              stroke-width="1.5"
+              class="cursor-grab focus:outline-none"
+              tabindex="0"
+              role="slider"
+              aria-label={`Band ${index + 1} ${EQ_BAND_LABELS[band().type]}`}
+              aria-valuenow={band().frequency}
+              aria-valuetext={`${band().frequency} Hz${bandHasGain(band().type) ? `, ${band().gain} dB` : ""}`}
+              onPointerDown={(e) => {
+                e.stopPropagation();
+                props.onSelect(index);
+                dragIndex = index;
+                svgRef?.setPointerCapture(e.pointerId);
+              }}
+              onDblClick={(e) => e.stopPropagation()}
+              onWheel={(e) => {
+                e.preventDefault();
+                props.onSelect(index);
+                adjustQ(index, e.deltaY < 0 ? 1.1 : 1 / 1.1);
+              }}
+              onFocus={() => props.onSelect(index)}
+              onKeyDown={(e) => handleNodeKeyDown(index, e)}
+            />
+          );
+        }}
+      </Index>
+    </svg>
+  );
+};
@@ -1,6 +1,7 @@
 import { Component, createSignal, Show, onMount, onCleanup, For, createEffect } from "solid-js";
 import { Portal } from "solid-js/web";
 import { useAudioStore } from "../stores/audioStore";
+import { LOUDNESS_TARGETS, type LoudnessTarget } from "../utils/export";
 import { Tooltip } from "./Tooltip";
 
 type ExportFormat = "wav" | "mp3" | "ogg";
@@ -8,7 +9,12 @@ type ExportQuality = string;
 type ExportScope = "all" | "current" | "selection";
 
 interface ExportMenuProps {
-  onExport: (format: ExportFormat, quality: ExportQuality, scope: ExportScope) => void;
+  onExport: (
+    format: ExportFormat,
+    quality: ExportQuality,
+    scope: ExportScope,
+    loudness: LoudnessTarget | null
+  ) => void;
   disabled?: boolean;
   isExporting?: boolean;
 }
@@ -67,12 +73,28 @@ const scopeOptions: ScopeOption[] = [
   { value: "selection", label: "Selection Only", description: "Export selected region" },
 ];
 
+interface LoudnessOption {
+  value: LoudnessTarget | null;
+  label: string;
+  description?: string;
+}
+
+const loudnessOptions: LoudnessOption[] = [
+  { value: null, label: "Unchanged", description: "Export at the mix level" },
+  ...LOUDNESS_TARGETS.map((target) => ({
+    value: target,
+    label: `${target.label} (${target.integrated} LUFS)`,
+    description: `Normalize with a ${target.truePeak} dBTP true peak ceiling`,
+  })),
+];
+
 export const ExportMenu: Component<ExportMenuProps> = (props) => {
   const { store, getCurrentTrack } = useAudioStore();
   const [isOpen, setIsOpen] = createSignal(false);
   const [format, setFormat] = createSignal<ExportFormat>("wav");
   const [quality, setQuality] = createSignal<ExportQuality>("16");
   const [scope, setScope] = createSignal<ExportScope>("all");
+  const [loudness, setLoudness] = createSignal<LoudnessTarget | null>(null);
   let containerRef: HTMLDivElement | undefined;
   let buttonRef: HTMLButtonElement | undefined;
   const [menuPosition, setMenuPosition] = createSignal({ top: 0, right: 0 });
@@ -153,7 +175,7 @@ export const ExportMenu: Component<ExportMenuProps> = (props) => {
     if (exportScope === "current" && !hasTrack()) {
       return;
     }
-    props.onExport(format(), quality(), exportScope);
+    props.onExport(format(), quality(), exportScope, loudness());
     closeAll();
   };
 
@@ -390,6 +412,64 @@ export const ExportMenu: Component<ExportMenuProps> = (props) => {
                 </For>
               </div>
             </div>
+            <div class="px-3 py-2 border-b border-[var(--color-border)] bg-[var(--color-bg-secondary)]">
+              <div class="text-[0.75rem] font-medium text-[var(--color-text-secondary)] mb-2">
+                Loudness:
+              </div>
+              <div class="flex flex-col gap-1">
+                <For each={loudnessOptions}>
+                  {(option) => {
+                    const isSelected = () => loudness() === option.value;
+
+                    return (
+                      <button
+                        type="button"
+                        class="flex items-center gap-2 px-2 py-1.5 rounded text-[0.8125rem] text-left transition-colors cursor-pointer"
+                        classList={{
+                          "bg-[var(--color-primary)]/20 text-[var(--color-primary)]": isSelected(),
+                          "bg-transparent text-[var(--color-text)] hover:bg-[var(--color-hover)]":
+                            !isSelected(),
+                        }}
+                        onClick={() => setLoudness(option.value)}
+                      >
+                        <div
+                          class="w-3 h-3 rounded border-2 flex-shrink-0"
+                          classList={{
+                            "bg-[var(--color-primary)] border-[var(--color-primary)]": isSelected(),
+                            "border-[var(--color-border)]": !isSelected(),
+                          }}
+                        >
+                          {isSelected() && (
+                            <svg
+                              class="w-full h-full text-white"
+                              fill="currentColor"
+                              viewBox="0 0 12 12"
+                            >
+                              <path
+                                d="M10 3L4.5 8.5 2 6"
+                                stroke="currentColor"
+                                stroke-width="2"
+                                stroke-linecap="round"
+                                stroke-linejoin="round"
+                                fill="none"
+                              />
+                            </svg>
+                          )}
+                        </div>
+                        <div class="flex flex-col">
+                          <span>{option.label}</span>
+                          {option.description && (
+                            <span class="text-[0.625rem] text-[var(--color-text-secondary)]">
+                              {option.description}
+                            </span>
+                          )}
+                        </div>
+                      </button>
+                    );
+                  }}
+                </For>
+              </div>
+            </div>
             <div class="p-2 flex justify-end">
               <Tooltip
                 label={
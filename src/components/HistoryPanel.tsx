@@ -0,0 +1,89 @@
+import { Component, For, Show, createSignal } from "solid-js";
+import { useAudioStore } from "../stores/audioStore";
+
+interface HistoryPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export const HistoryPanel: Component<HistoryPanelProps> = (props) => {
+  const { store, jumpToHistory } = useAudioStore();
+  const [isJumping, setIsJumping] = createSignal(false);
+
+  const entries = () => [
+    "Start of history",
+    ...store.undoLabels,
+    ...[...store.redoLabels].reverse(),
+  ];
+  const currentPosition = () => store.undoStackLength;
+
+  const handleJump = async (position: number) => {
+    if (isJumping() || position === currentPosition()) return;
+    setIsJumping(true);
+    try {
+      await jumpToHistory(position);
+    } finally {
+      setIsJumping(false);
+    }
+  };
+
+  return (
+    <Show when={props.isOpen}>
+      <div
+        class="fixed inset-0 flex items-center justify-center backdrop-blur-sm bg-black/50 z-[2000]"
+        onClick={props.onClose}
+      >
+        <div
+          class="bg-[var(--color-bg-elevated)] border border-[var(--color-border)] rounded-lg sm:rounded-xl max-w-[420px] w-[95%] sm:w-[90%] max-h-[85vh] sm:max-h-[80vh] overflow-hidden flex flex-col"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div class="flex items-center justify-between py-4 sm:py-6 px-4 sm:px-6 border-b border-[var(--color-border)]">
+            <h2 class="m-0 text-lg sm:text-xl font-semibold text-[var(--color-text)]">History</h2>
+            <button
+              class="flex-shrink-0 bg-none border-0 text-[var(--color-text-secondary)] cursor-pointer p-2 flex items-center justify-center rounded-md transition-all duration-150 hover:bg-[var(--color-border)] hover:text-[var(--color-text)]"
+              onClick={props.onClose}
+              aria-label="Close"
+            >
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
+                <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" />
+              </svg>
+            </button>
+          </div>
+          <div class="flex-1 overflow-y-auto p-2 sm:p-3">
+            <ol class="m-0 p-0 list-none flex flex-col gap-0.5">
+              <For each={entries()}>
+                {(label, index) => (
+                  <li>
+                    <button
+                      class="w-full flex items-center gap-3 px-3 py-2 rounded-md text-left text-sm border-0 cursor-pointer transition-colors duration-150 disabled:cursor-wait"
+                      classList={{
+                        "bg-[var(--color-primary)]/20 text-[var(--color-text)] font-medium":
+                          index() === currentPosition(),
+                        "bg-transparent text-[var(--color-text)] hover:bg-[var(--color-border)]":
+                          index() < currentPosition(),
+                        "bg-transparent text-[var(--color-text-secondary)] opacity-60 hover:bg-[var(--color-border)] hover:opacity-100":
+                          index() > currentPosition(),
+                      }}
+                      onClick={() => handleJump(index())}
+                      disabled={isJumping()}
+                      aria-current={index() === currentPosition() ? "step" : undefined}
+                    >
+                      <span class="w-6 flex-shrink-0 text-xs tabular-nums text-[var(--color-text-secondary)]">
+                        {index()}
+                      </span>
+                      <span class="flex-1 min-w-0 truncate">{label}</span>
+                    </button>
+                  </li>
+                )}
+              </For>
+            </ol>
+          </div>
+          <div class="px-4 sm:px-6 py-3 border-t border-[var(--color-border)] text-xs text-[var(--color-text-secondary)]">
+            Click an entry to jump to that point. Later entries stay available for redo until you
+            make a new edit.
+          </div>
+        </div>
+      </div>
+    </Show>
+  );
+};
@@ -17,9 +17,12 @@ export const KeyboardShortcuts: Component<KeyboardShortcutsProps> = (props) => {
     { keys: ["Ctrl", "V"], description: "Paste at cursor", mac: ["Cmd", "V"] },
     { keys: ["Delete"], description: "Delete selection" },
     { keys: ["Backspace"], description: "Delete selection" },
+    { keys: ["S"], description: "Split clip at cursor" },
+    { keys: ["T"], description: "Trim track to selection" },
     { keys: ["Ctrl", "Z"], description: "Undo", mac: ["Cmd", "Z"] },
     { keys: ["Ctrl", "Shift", "Z"], description: "Redo", mac: ["Cmd", "Shift", "Z"] },
     { keys: ["Ctrl", "Y"], description: "Redo", mac: ["Cmd", "Y"] },
+    { keys: ["H"], description: "Show/hide edit history" },
     { keys: ["Escape"], description: "Clear selection" },
     { keys: ["R"], description: "Toggle repeat region" },
     { keys: ["M"], description: "Add marker at current time" },
@@ -102,7 +105,39 @@ export const KeyboardShortcuts: Component<KeyboardShortcutsProps> = (props) => {
                   <h3 class="text-base font-semibold mb-2">Recording Audio</h3>
                   <p class="text-sm text-[var(--color-text-secondary)] mb-2">
                     Click the record button in the toolbar to start recording. Click again to stop.
-                    The recorded audio will be automatically added as a new track.
+                    The recorded audio will be automatically added as a new track. The settings
+                    button next to it picks the input device, mono or stereo, the sample rate, and
+                    whether the browser applies echo cancellation, automatic gain control and noise
+                    suppression; turn these off when recording music.
+                  </p>
+                  <p class="text-sm text-[var(--color-text-secondary)] mb-2">
+                    To overdub, arm a track with the circle button in its header, place the playhead
+                    and press record: the other tracks play back while you record, and the take
+                    replaces that part of the armed track. Set Punch In/Out to Selection in the
+                    recording settings to keep only that range; recording stops shortly after the
+                    punch-out point. The take is shifted by the device latency plus the latency
+                    offset so it lines up with what you heard.
+                  </p>
+                  <p class="text-sm text-[var(--color-text-secondary)] mb-2">
+                    With a loop region set, recording into an armed track keeps every pass of the
+                    loop as a separate take until you stop. The takes appear stacked over the loop
+                    region: press play on a take to audition it, click a take to use it whole, or
+                    drag across part of a take to use that part in the comp. Comp boundaries get
+                    short crossfades. The list button in the track header hides the takes, and
+                    Flatten keeps the comp and discards the takes.
+                  </p>
+                  <p class="text-sm text-[var(--color-text-secondary)] mb-2">
+                    Recordings are captured as uncompressed audio, and the waveform is drawn live
+                    below the tracks while you record. The audio is saved in the browser as it
+                    arrives, so if the page closes mid-take the recording is restored as a new track
+                    the next time the editor opens.
+                  </p>
+                  <p class="text-sm text-[var(--color-text-secondary)] mb-2">
+                    The bars button next to the record controls tests input levels without
+                    recording, so you can set the gain first. An input meter with peak hold and a
+                    clip light appears in the toolbar while testing or recording, and a warning
+                    shows if a take clips. Turn on monitoring in the recording settings to hear the
+                    input at the chosen volume; use headphones to avoid feedback.
                   </p>
                 </div>
                 <div>
@@ -148,7 +183,10 @@ export const KeyboardShortcuts: Component<KeyboardShortcutsProps> = (props) => {
                 <div>
                   <h3 class="text-base font-semibold mb-2">Editing Operations</h3>
                   <p class="text-sm text-[var(--color-text-secondary)] mb-2">
-                    Cut, copy, paste, and delete selections. All operations support undo/redo.
+                    Cut, copy, paste, and delete selections, split clips at the cursor, or trim a
+                    track to the selection. Edits only rearrange clips, so the original audio is
+                    never rewritten. All operations support undo/redo, and the History panel lists
+                    every step so you can jump straight back to any of them.
                   </p>
                 </div>
                 <div>
@@ -156,8 +194,112 @@ export const KeyboardShortcuts: Component<KeyboardShortcutsProps> = (props) => {
                   <p class="text-sm text-[var(--color-text-secondary)] mb-2">
                     Apply effects from the Effects menu. Effects can be applied to the current
                     selection, current track, or all tracks. Available effects include normalize,
-                    amplify, silence, reverse, fade in/out, reverb, delay, noise reduction, speed
-                    change, pitch change, compressor, limiter, EQ, and filters.
+                    loudness normalize, amplify, silence, reverse, fade in/out, reverb, convolution
+                    reverb, delay, noise reduction, speed change, time stretch (tempo without
+                    pitch), pitch shift (semitones and cents without changing duration), compressor,
+                    limiter, multiband parametric EQ, and filters. Press Preview in any effect
+                    dialog to loop up to ten seconds of the selection, or of the track from the
+                    playhead, through the effect. The preview follows your changes, so you can dial
+                    in settings before applying them.
+                  </p>
+                </div>
+                <div>
+                  <h3 class="text-base font-semibold mb-2">Noise Reduction</h3>
+                  <p class="text-sm text-[var(--color-text-secondary)] mb-2">
+                    Select a stretch of audio that contains only background noise, open Noise
+                    Reduction, and click Get Noise Profile. Then select what you want to clean up
+                    and apply. Reduction sets how far the noise is turned down, Sensitivity how much
+                    louder than the noise a sound must be to pass untouched, and Frequency Smoothing
+                    softens the result. The profile is saved with the project; without one the
+                    quietest parts of the audio are used.
+                  </p>
+                </div>
+                <div>
+                  <h3 class="text-base font-semibold mb-2">Parametric EQ</h3>
+                  <p class="text-sm text-[var(--color-text-secondary)] mb-2">
+                    The EQ dialog holds up to eight bands, each a bell, low or high shelf, notch, or
+                    high-pass/low-pass filter with a 12 to 48 dB/oct slope. Drag a point on the
+                    graph to move its frequency and gain, scroll over it to change Q, or use the
+                    arrow keys once it has focus. Double-click the graph to add a band. While
+                    previewing or playing, the live spectrum is drawn behind the curve.
+                  </p>
+                </div>
+                <div>
+                  <h3 class="text-base font-semibold mb-2">Loudness</h3>
+                  <p class="text-sm text-[var(--color-text-secondary)] mb-2">
+                    The loudness button in the toolbar measures the selection, current track, or
+                    full mix as you would export it, reporting integrated, short-term and momentary
+                    loudness in LUFS, loudness range, and true peak. Loudness Normalize in the
+                    Effects menu brings audio to a target such as -16 LUFS while limiting true peaks
+                    to a ceiling, and the Loudness option in the export menu does the same to the
+                    exported file.
+                  </p>
+                </div>
+                <div>
+                  <h3 class="text-base font-semibold mb-2">Analysis</h3>
+                  <p class="text-sm text-[var(--color-text-secondary)] mb-2">
+                    The analysis button in the toolbar inspects the selection, or the whole current
+                    track when nothing is selected. It plots the average spectrum with a choice of
+                    FFT size and window, lists peak, RMS and DC offset for each channel, and finds
+                    clipped passages. Click a clipped region to select it in the waveform.
+                  </p>
+                </div>
+                <div>
+                  <h3 class="text-base font-semibold mb-2">Silence</h3>
+                  <p class="text-sm text-[var(--color-text-secondary)] mb-2">
+                    The silence button in the toolbar finds pauses in the current track that stay
+                    below the threshold for at least the minimum duration. Click a pause to select
+                    it, truncate every pause to a maximum length, or split the sound between pauses
+                    into separate clips or new tracks. Each action can be undone.
+                  </p>
+                </div>
+                <div>
+                  <h3 class="text-base font-semibold mb-2">Convolution Reverb</h3>
+                  <p class="text-sm text-[var(--color-text-secondary)] mb-2">
+                    Convolution Reverb places audio in a real or modelled space. Pick one of the
+                    built-in rooms, or click Import to add your own WAV impulse response; imported
+                    responses are kept in the browser and can be used in effect chains. Pre-delay
+                    holds back the reverb, Decay shortens the tail, and the wet low and high cut
+                    filters shape only the reverb.
+                  </p>
+                </div>
+                <div>
+                  <h3 class="text-base font-semibold mb-2">Track Effects</h3>
+                  <p class="text-sm text-[var(--color-text-secondary)] mb-2">
+                    Click the effects icon on a track to build an insert chain. Inserts run in order
+                    during playback and export without touching the recorded audio, and each one can
+                    be bypassed, reordered, or removed at any time. Freeze renders the active
+                    inserts into the track when you are happy with the sound.
+                  </p>
+                </div>
+                <div>
+                  <h3 class="text-base font-semibold mb-2">Effect Presets</h3>
+                  <p class="text-sm text-[var(--color-text-secondary)] mb-2">
+                    Pick a factory preset such as "Podcast voice" or "Small room" at the top of any
+                    effect dialog, or save the current values under your own name. Saved presets are
+                    kept in this browser and also show up on track inserts. Use Import presets and
+                    Export presets at the bottom of the Effects menu to share preset packs as JSON
+                    files.
+                  </p>
+                </div>
+                <div>
+                  <h3 class="text-base font-semibold mb-2">Effect Chains & Batch</h3>
+                  <p class="text-sm text-[var(--color-text-secondary)] mb-2">
+                    Open Effect chains from the toolbar to build a reusable sequence of effects, or
+                    press Record and apply effects from the Effects menu to capture them as steps.
+                    Pick a set of files or a whole folder to run the chain on each one; every result
+                    is downloaded using the file name pattern you choose.
+                  </p>
+                </div>
+                <div>
+                  <h3 class="text-base font-semibold mb-2">Master Bus</h3>
+                  <p class="text-sm text-[var(--color-text-secondary)] mb-2">
+                    Every track is mixed into the master bus. Open it from the toolbar to set the
+                    master volume, mute the output, or enable the master EQ and limiter. These
+                    settings apply to playback and exports alike. The meter next to it shows the
+                    left and right output level and lights up red when the output clips. Each track
+                    has its own meter under its controls, and a meter for the microphone appears
+                    while recording. Click any meter to reset its clip indicator.
                   </p>
                 </div>
                 <div>
@@ -0,0 +1,85 @@
+import { Component, For } from "solid-js";
+import { useLevelMeter } from "../hooks/useLevelMeter";
+import { Tooltip } from "./Tooltip";
+
+interface LevelMeterProps {
+  label: string;
+  analysers: () => readonly AnalyserNode[] | null;
+  active: boolean;
+  bordered?: boolean;
+}
+
+const METER_FLOOR_DB = -60;
+
+const toPercent = (amplitude: number) => {
+  if (amplitude <= 0) return 0;
+  const db = 20 * Math.log10(amplitude);
+  return Math.max(0, Math.min(100, ((db - METER_FLOOR_DB) / -METER_FLOOR_DB) * 100));
+};
+
+const formatDb = (amplitude: number) =>
+  amplitude > 0 ? `${Math.max(METER_FLOOR_DB, 20 * Math.log10(amplitude)).toFixed(1)} dB` : "-∞";
+
+export const LevelMeter: Component<LevelMeterProps> = (props) => {
+  const meter = useLevelMeter(props.analysers, () => props.active);
+
+  const tooltipLabel = () => {
+    const peaks = meter
+      .levels()
+      .map((level) => formatDb(level.hold))
+      .join(" / ");
+    return meter.clipped()
+      ? `${props.label} ${peaks} - clipped, click to reset`
+      : `${props.label} ${peaks}`;
+  };
+
+  return (
+    <Tooltip label={tooltipLabel()}>
+      <button
+        type="button"
+        class="flex items-center gap-1.5 w-full cursor-pointer bg-transparent border-0 p-0"
+        classList={{
+          "h-8 sm:h-9 px-2 bg-[var(--color-bg-elevated)] border border-solid border-[var(--color-border)] rounded-md transition-colors duration-200 hover:border-[var(--color-border-hover)]":
+            props.bordered,
+        }}
+        onClick={(e) => {
+          e.stopPropagation();
+          meter.resetClip();
+        }}
+        aria-label={`${props.label} level`}
+      >
+        <div class="flex flex-col gap-0.5 flex-1 min-w-16">
+          <For each={meter.levels()}>
+            {(level) => (
+              <div class="relative h-1.5 bg-[var(--color-bg-secondary)] rounded-sm overflow-hidden">
+                <div
+                  class="absolute inset-y-0 left-0 bg-[var(--color-primary)]/40"
+                  style={{ width: `${toPercent(level.peak)}%` }}
+                />
+                <div
+                  class="absolute inset-y-0 left-0 bg-[var(--color-primary)]"
+                  style={{ width: `${toPercent(level.rms)}%` }}
+                />
+                <div
+                  class="absolute inset-y-0 w-px"
+                  classList={{
+                    "bg-[var(--color-recording)]": level.hold >= 1,
+                    "bg-[var(--color-text)]": level.hold < 1,
+                  }}
+                  style={{ left: `calc(${toPercent(level.hold)}% - 1px)` }}
+                />
+              </div>
+            )}
+          </For>
+        </div>
+        <span
+          class="w-2 h-2 rounded-full flex-shrink-0 transition-colors duration-150"
+          classList={{
+            "bg-[var(--color-recording)]": meter.clipped(),
+            "bg-[var(--color-border)]": !meter.clipped(),
+          }}
+        />
+      </button>
+    </Tooltip>
+  );
+};
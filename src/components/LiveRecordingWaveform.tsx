@@ -0,0 +1,39 @@
+import { Component, createMemo } from "solid-js";
+
+interface LiveRecordingWaveformProps {
+  peaks: number[];
+}
+
+const VISIBLE_PEAKS = 600;
+const HEIGHT = 32;
+
+export const LiveRecordingWaveform: Component<LiveRecordingWaveformProps> = (props) => {
+  const path = createMemo(() => {
+    const visible = props.peaks.slice(-VISIBLE_PEAKS);
+    if (visible.length === 0) return "";
+    const mid = HEIGHT / 2;
+    const top = visible.map((peak, x) => `${x},${mid - Math.min(1, peak) * mid}`);
+    const bottom = visible.map((peak, x) => `${x},${mid + Math.min(1, peak) * mid}`).reverse();
+    return `M${top.join("L")}L${bottom.join("L")}Z`;
+  });
+
+  return (
+    <svg
+      viewBox={`0 0 ${VISIBLE_PEAKS} ${HEIGHT}`}
+      preserveAspectRatio="none"
+      class="w-full h-8 block"
+      aria-label="Live recording waveform"
+    >
+      <line
+        x1="0"
+        y1={HEIGHT / 2}
+        x2={VISIBLE_PEAKS}
+        y2={HEIGHT / 2}
+        stroke="var(--color-border)"
+        stroke-width="1"
+        vector-effect="non-scaling-stroke"
+      />
+      <path d={path()} fill="var(--color-recording)" />
+    </svg>
+  );
+};
@@ -0,0 +1,225 @@
+import { Component, For, Show, createEffect, createSignal, on, onCleanup } from "solid-js";
+import { useAudioStore } from "../stores/audioStore";
+import { audioEffects } from "../utils/audioEffects";
+import { getErrorMessage, isAbortError } from "../utils/error";
+import { LOUDNESS_TARGETS, renderExportBuffer, type ExportScope } from "../utils/export";
+import type { LoudnessStats } from "../utils/loudnessDsp";
+
+interface LoudnessPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const scopeOptions: Array<{ value: ExportScope; label: string }> = [
+  { value: "selection", label: "Selection" },
+  { value: "current", label: "Current Track" },
+  { value: "all", label: "Full Mix" },
+];
+
+const emptyMessages: Record<ExportScope, string> = {
+  selection: "Select a region to measure",
+  current: "No current track to measure",
+  all: "No audio tracks to measure",
+};
+
+const formatLevel = (value: number) => (isFinite(value) ? value.toFixed(1) : "—");
+
+export const LoudnessPanel: Component<LoudnessPanelProps> = (props) => {
+  const { store, getCurrentTrack } = useAudioStore();
+  const [scope, setScope] = createSignal<ExportScope>("all");
+  const [targetIndex, setTargetIndex] = createSignal(0);
+  const [stats, setStats] = createSignal<LoudnessStats | null>(null);
+  const [progress, setProgress] = createSignal<number | null>(null);
+  const [error, setError] = createSignal<string | null>(null);
+  let controller: AbortController | null = null;
+
+  const isDisabled = (value: ExportScope) =>
+    (value === "selection" && !store.selection) || (value === "current" && !getCurrentTrack());
+
+  const target = () => LOUDNESS_TARGETS[targetIndex()] ?? LOUDNESS_TARGETS[0]!;
+
+  const cancel = () => {
+    controller?.abort();
+    controller = null;
+  };
+
+  const handleMeasure = async () => {
+    cancel();
+    const current = new AbortController();
+    controller = current;
+    setError(null);
+    setStats(null);
+    setProgress(0);
+    try {
+      const buffer = await renderExportBuffer(
+        scope(),
+        store.tracks,
+        getCurrentTrack(),
+        store.selection,
+        store.master
+      );
+      if (!buffer) {
+        setError(emptyMessages[scope()]);
+        return;
+      }
+      const result = await audioEffects
+        .withOptions({ signal: current.signal, onProgress: setProgress })
+        .measureLoudness(buffer);
+      if (controller === current) {
+        setStats(result);
+      }
+    } catch (err) {
+      if (!isAbortError(err)) {
+        setError(getErrorMessage(err, "Failed to measure loudness"));
+      }
+    } finally {
+      if (controller === current) {
+        controller = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  createEffect(
+    on(
+      () => props.isOpen,
+      (open) => {
+        if (open) {
+          setScope(store.selection ? "selection" : "all");
+          setStats(null);
+          setError(null);
+        } else {
+          cancel();
+          setProgress(null);
+        }
+      }
+    )
+  );
+
+  onCleanup(cancel);
+
+  const rows = (result: LoudnessStats) => [
+    { label: "Integrated", value: `${formatLevel(result.integrated)} LUFS` },
+    { label: "Short-term max", value: `${formatLevel(result.shortTermMax)} LUFS` },
+    { label: "Momentary max", value: `${formatLevel(result.momentaryMax)} LUFS` },
+    { label: "Loudness range", value: `${formatLevel(result.loudnessRange)} LU` },
+    { label: "True peak", value: `${formatLevel(result.truePeak)} dBTP` },
+  ];
+
+  const loudnessVerdict = (result: LoudnessStats) => {
+    if (!isFinite(result.integrated)) return "Too short or too quiet to gate";
+    const difference = result.integrated - target().integrated;
+    if (Math.abs(difference) < 0.5) return `On target for ${target().label}`;
+    return `${Math.abs(difference).toFixed(1)} LU ${difference > 0 ? "above" : "below"} the ${target().label} target`;
+  };
+
+  return (
+    <Show when={props.isOpen}>
+      <div
+        class="fixed inset-0 flex items-center justify-center backdrop-blur-sm bg-black/50 z-[2000]"
+        onClick={props.onClose}
+      >
+        <div
+          class="bg-[var(--color-bg-elevated)] border border-[var(--color-border)] rounded-lg sm:rounded-xl max-w-[420px] w-[95%] sm:w-[90%] max-h-[85vh] sm:max-h-[80vh] overflow-hidden flex flex-col"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div class="flex items-center justify-between py-4 sm:py-6 px-4 sm:px-6 border-b border-[var(--color-border)]">
+            <h2 class="m-0 text-lg sm:text-xl font-semibold text-[var(--color-text)]">Loudness</h2>
+            <button
+              class="flex-shrink-0 bg-none border-0 text-[var(--color-text-secondary)] cursor-pointer p-2 flex items-center justify-center rounded-md transition-all duration-150 hover:bg-[var(--color-border)] hover:text-[var(--color-text)]"
+              onClick={props.onClose}
+              aria-label="Close"
+            >
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
+                <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" />
+              </svg>
+            </button>
+          </div>
+          <div class="flex-1 overflow-y-auto p-4 sm:p-6 flex flex-col gap-4">
+            <div class="flex gap-1 p-1 bg-[var(--color-bg)] border border-[var(--color-border)] rounded-md">
+              <For each={scopeOptions}>
+                {(option) => (
+                  <button
+                    type="button"
+                    class="flex-1 py-1.5 px-2 rounded text-[0.8125rem] border-0 cursor-pointer transition-colors duration-150 disabled:opacity-50 disabled:cursor-not-allowed"
+                    classList={{
+                      "bg-[var(--color-primary)]/20 text-[var(--color-primary)] font-medium":
+                        scope() === option.value,
+                      "bg-transparent text-[var(--color-text)] hover:bg-[var(--color-hover)]":
+                        scope() !== option.value,
+                    }}
+                    onClick={() => {
+                      setScope(option.value);
+                      setStats(null);
+                      setError(null);
+                    }}
+                    disabled={isDisabled(option.value) || progress() !== null}
+                  >
+                    {option.label}
+                  </button>
+                )}
+              </For>
+            </div>
+            <label class="flex items-center justify-between gap-3 text-[0.8125rem] text-[var(--color-text-secondary)]">
+              <span>Target</span>
+              <select
+                value={targetIndex()}
+                onChange={(e) => setTargetIndex(parseInt(e.currentTarget.value, 10))}
+                class="py-1.5 px-2 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-[var(--color-text)] text-[0.8125rem] cursor-pointer focus:outline-none focus:border-[var(--color-primary)]"
+              >
+                <For each={LOUDNESS_TARGETS}>
+                  {(option, index) => (
+                    <option value={index()}>
+                      {option.label} ({option.integrated} LUFS, {option.truePeak} dBTP)
+                    </option>
+                  )}
+                </For>
+              </select>
+            </label>
+            <Show when={stats()}>
+              {(result) => (
+                <div class="flex flex-col gap-2">
+                  <dl class="m-0 grid grid-cols-2 gap-x-4 gap-y-1.5 text-sm">
+                    <For each={rows(result())}>
+                      {(row) => (
+                        <>
+                          <dt class="text-[var(--color-text-secondary)]">{row.label}</dt>
+                          <dd class="m-0 text-right tabular-nums text-[var(--color-text)]">
+                            {row.value}
+                          </dd>
+                        </>
+                      )}
+                    </For>
+                  </dl>
+                  <div class="text-xs text-[var(--color-text-secondary)]">
+                    {loudnessVerdict(result())}
+                  </div>
+                  <Show when={result().truePeak > target().truePeak}>
+                    <div class="text-xs text-[var(--color-danger)]">
+                      True peak is over the {target().truePeak} dBTP ceiling
+                    </div>
+                  </Show>
+                </div>
+              )}
+            </Show>
+            <Show when={error()}>
+              <div class="text-xs text-[var(--color-danger)]">{error()}</div>
+            </Show>
+            <button
+              type="button"
+              class="py-1.5 px-3 bg-[var(--color-primary)] text-white border-0 rounded text-[0.8125rem] font-medium cursor-pointer transition-all duration-150 hover:bg-[var(--color-primary-hover)] disabled:opacity-50 disabled:cursor-wait"
+              onClick={handleMeasure}
+              disabled={progress() !== null || isDisabled(scope())}
+            >
+              {progress() !== null ? `Measuring ${Math.round(progress()! * 100)}%` : "Measure"}
+            </button>
+          </div>
+          <div class="px-4 sm:px-6 py-3 border-t border-[var(--color-border)] text-xs text-[var(--color-text-secondary)]">
+            Measured per ITU-R BS.1770 after track effects and the master bus. Use Loudness
+            Normalize in the Effects menu or the export loudness option to hit the target.
+          </div>
+        </div>
+      </div>
+    </Show>
+  );
+};
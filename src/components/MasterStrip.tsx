@@ -0,0 +1,285 @@
+import { Component, JSX, Show, createEffect, createSignal, onCleanup, onMount } from "solid-js";
+import { Portal } from "solid-js/web";
+import { useAudioStore } from "../stores/audioStore";
+import { playbackEngine } from "../utils/playbackEngine";
+import { LevelMeter } from "./LevelMeter";
+import { Tooltip } from "./Tooltip";
+
+interface SliderProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+  onChange: (value: number) => void;
+  disabled?: boolean;
+}
+
+const Slider: Component<SliderProps> = (props) => (
+  <label class="flex flex-col gap-1" classList={{ "opacity-50": props.disabled }}>
+    <span class="flex items-center justify-between text-[0.75rem] text-[var(--color-text-secondary)]">
+      <span>{props.label}</span>
+      <span class="tabular-nums text-[var(--color-text)]">{props.format(props.value)}</span>
+    </span>
+    <input
+      type="range"
+      min={props.min}
+      max={props.max}
+      step={props.step}
+      value={props.value}
+      disabled={props.disabled}
+      onInput={(e) => props.onChange(parseFloat(e.currentTarget.value))}
+      class="w-full accent-[var(--color-primary)] cursor-pointer disabled:cursor-not-allowed"
+    />
+  </label>
+);
+
+const Section: Component<{
+  title: string;
+  enabled: boolean;
+  onToggle: () => void;
+  children: JSX.Element;
+}> = (props) => (
+  <div class="px-3 py-2 border-b border-[var(--color-border)] flex flex-col gap-2">
+    <div class="flex items-center justify-between">
+      <span class="text-[0.75rem] font-medium text-[var(--color-text-secondary)]">
+        {props.title}
+      </span>
+      <button
+        type="button"
+        class="px-2 py-0.5 rounded text-[0.6875rem] font-medium border cursor-pointer transition-colors duration-150"
+        classList={{
+          "bg-[var(--color-primary)] text-white border-[var(--color-primary)]": props.enabled,
+          "bg-transparent text-[var(--color-text-secondary)] border-[var(--color-border)] hover:bg-[var(--color-hover)]":
+            !props.enabled,
+        }}
+        onClick={props.onToggle}
+        aria-pressed={props.enabled}
+      >
+        {props.enabled ? "On" : "Off"}
+      </button>
+    </div>
+    {props.children}
+  </div>
+);
+
+export const MasterStrip: Component = () => {
+  const { store, updateMaster } = useAudioStore();
+  const [isOpen, setIsOpen] = createSignal(false);
+  const [menuPosition, setMenuPosition] = createSignal({ top: 0, right: 0 });
+  let containerRef: HTMLDivElement | undefined;
+  let menuRef: HTMLDivElement | undefined;
+  let buttonRef: HTMLButtonElement | undefined;
+
+  const updateMenuPosition = () => {
+    if (!buttonRef) return;
+    const rect = buttonRef.getBoundingClientRect();
+    setMenuPosition({
+      top: rect.top - 4,
+      right: window.innerWidth - rect.right,
+    });
+  };
+
+  const handleClickOutside = (e: MouseEvent) => {
+    const target = e.target as Node;
+    if (containerRef?.contains(target) || menuRef?.contains(target)) return;
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.key === "Escape" && isOpen()) {
+      e.stopPropagation();
+      setIsOpen(false);
+    }
+  };
+
+  createEffect(() => {
+    if (!isOpen()) return;
+    updateMenuPosition();
+    window.addEventListener("scroll", updateMenuPosition, true);
+    window.addEventListener("resize", updateMenuPosition);
+    onCleanup(() => {
+      window.removeEventListener("scroll", updateMenuPosition, true);
+      window.removeEventListener("resize", updateMenuPosition);
+    });
+  });
+
+  onMount(() => {
+    document.addEventListener("mousedown", handleClickOutside);
+    document.addEventListener("keydown", handleKeyDown);
+  });
+
+  onCleanup(() => {
+    document.removeEventListener("mousedown", handleClickOutside);
+    document.removeEventListener("keydown", handleKeyDown);
+  });
+
+  const formatGain = (volume: number) =>
+    volume > 0 ? `${(20 * Math.log10(volume)).toFixed(1)} dB` : "-∞";
+
+  return (
+    <div ref={containerRef} class="relative flex items-center gap-1 sm:gap-1.5">
+      <div class="w-24 sm:w-28">
+        <LevelMeter
+          label="Master"
+          analysers={playbackEngine.getMasterAnalysers}
+          active={store.isPlaying}
+          bordered
+        />
+      </div>
+      <Tooltip label="Master Bus">
+        <button
+          ref={buttonRef}
+          type="button"
+          class="flex items-center justify-center rounded-md border border-[var(--color-border)] bg-[var(--color-bg)] text-[var(--color-text)] cursor-pointer transition-all duration-200 p-0 hover:bg-[var(--color-hover)] hover:border-[var(--color-border-hover)] hover:-translate-y-px active:translate-y-0 w-8 h-8 sm:w-9 sm:h-9"
+          classList={{
+            "border-[var(--color-primary)]": isOpen(),
+            "text-[var(--color-recording)]": store.master.muted,
+          }}
+          onClick={() => setIsOpen(!isOpen())}
+          aria-haspopup="dialog"
+          aria-expanded={isOpen()}
+          aria-label="Master Bus"
+        >
+          <svg
+            width="16"
+            height="16"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            stroke-width="2"
+            stroke-linecap="round"
+            stroke-linejoin="round"
+          >
+            <line x1="6" y1="3" x2="6" y2="21" />
+            <line x1="12" y1="3" x2="12" y2="21" />
+            <line x1="18" y1="3" x2="18" y2="21" />
+            <rect x="4" y="13" width="4" height="3" fill="currentColor" />
+            <rect x="10" y="7" width="4" height="3" fill="currentColor" />
+            <rect x="16" y="15" width="4" height="3" fill="currentColor" />
+          </svg>
+        </button>
+      </Tooltip>
+      <Show when={isOpen()}>
+        <Portal>
+          <div
+            ref={menuRef}
+            class="fixed bg-[var(--color-bg-elevated)] border border-[var(--color-border)] rounded-md overflow-hidden z-[1000] w-[calc(100vw-3rem)] sm:w-[260px] max-w-[280px]"
+            style={{
+              top: `${menuPosition().top}px`,
+              right: `${menuPosition().right}px`,
+              animation: "dropdownSlideUp 0.15s ease-out forwards",
+            }}
+            role="dialog"
+            aria-label="Master Bus"
+          >
+            <div class="px-3 py-2 border-b border-[var(--color-border)] bg-[var(--color-bg-secondary)] flex flex-col gap-2">
+              <div class="flex items-center justify-between">
+                <span class="text-[0.8125rem] font-medium text-[var(--color-text)]">Master</span>
+                <button
+                  type="button"
+                  class="px-2 py-0.5 rounded text-[0.6875rem] font-medium border cursor-pointer transition-colors duration-150"
+                  classList={{
+                    "bg-[var(--color-recording)] text-white border-[var(--color-recording)]":
+                      store.master.muted,
+                    "bg-transparent text-[var(--color-text-secondary)] border-[var(--color-border)] hover:bg-[var(--color-hover)]":
+                      !store.master.muted,
+                  }}
+                  onClick={() => updateMaster({ muted: !store.master.muted })}
+                  aria-pressed={store.master.muted}
+                >
+                  Mute
+                </button>
+              </div>
+              <Slider
+                label="Volume"
+                value={store.master.volume}
+                min={0}
+                max={1}
+                step={0.01}
+                format={formatGain}
+                onChange={(volume) => updateMaster({ volume })}
+              />
+            </div>
+            <Section
+              title="EQ"
+              enabled={store.master.eq.enabled}
+              onToggle={() =>
+                updateMaster({ eq: { ...store.master.eq, enabled: !store.master.eq.enabled } })
+              }
+            >
+              <Slider
+                label="Frequency"
+                value={store.master.eq.frequency}
+                min={20}
+                max={20000}
+                step={1}
+                format={(value) => `${Math.round(value)} Hz`}
+                onChange={(frequency) => updateMaster({ eq: { ...store.master.eq, frequency } })}
+                disabled={!store.master.eq.enabled}
+              />
+              <Slider
+                label="Gain"
+                value={store.master.eq.gain}
+                min={-20}
+                max={20}
+                step={0.1}
+                format={(value) => `${value.toFixed(1)} dB`}
+                onChange={(gain) => updateMaster({ eq: { ...store.master.eq, gain } })}
+                disabled={!store.master.eq.enabled}
+              />
+              <Slider
+                label="Q"
+                value={store.master.eq.q}
+                min={0.1}
+                max={30}
+                step={0.1}
+                format={(value) => value.toFixed(1)}
+                onChange={(q) => updateMaster({ eq: { ...store.master.eq, q } })}
+                disabled={!store.master.eq.enabled}
+              />
+            </Section>
+            <Section
+              title="Limiter"
+              enabled={store.master.limiter.enabled}
+              onToggle={() =>
+                updateMaster({
+                  limiter: { ...store.master.limiter, enabled: !store.master.limiter.enabled },
+                })
+              }
+            >
+              <Slider
+                label="Threshold"
+                value={store.master.limiter.threshold}
+                min={-30}
+                max={0}
+                step={0.1}
+                format={(value) => `${value.toFixed(1)} dB`}
+                onChange={(threshold) =>
+                  updateMaster({ limiter: { ...store.master.limiter, threshold } })
+                }
+                disabled={!store.master.limiter.enabled}
+              />
+              <Slider
+                label="Release"
+                value={store.master.limiter.release}
+                min={0.01}
+                max={1}
+                step={0.01}
+                format={(value) => `${Math.round(value * 1000)} ms`}
+                onChange={(release) =>
+                  updateMaster({ limiter: { ...store.master.limiter, release } })
+                }
+                disabled={!store.master.limiter.enabled}
+              />
+            </Section>
+            <div class="px-3 py-2 text-[0.625rem] text-[var(--color-text-secondary)]">
+              Applied to playback and to every export.
+            </div>
+          </div>
+        </Portal>
+      </Show>
+    </div>
+  );
+};
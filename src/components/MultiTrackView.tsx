@@ -8,12 +8,24 @@ import {
   createEffect,
   createMemo,
 } from "solid-js";
-import { useAudioStore, type WaveformRenderer } from "../stores/audioStore";
+import {
+  isTrackStale,
+  scheduleTrackRender,
+  useAudioStore,
+  type WaveformRenderer,
+} from "../stores/audioStore";
 import { useWaveform } from "../hooks/useWaveform";
 import { useViewportTracks } from "../hooks/useViewportTracks";
 import { TimeRuler } from "./TimeRuler";
+import { TrackClips } from "./TrackClips";
 import { Tooltip } from "./Tooltip";
+import { LevelMeter } from "./LevelMeter";
+import { LiveRecordingWaveform } from "./LiveRecordingWaveform";
+import { TakeLanes } from "./TakeLanes";
+import { TrackEffectsPanel } from "./TrackEffectsPanel";
 import { formatTime } from "../utils/time";
+import { playbackEngine } from "../utils/playbackEngine";
+import { hasActiveEffects } from "../utils/trackEffects";
 
 interface TrackRowProps {
   track: import("../stores/audioStore").AudioTrack;
@@ -27,6 +39,7 @@ interface TrackRowProps {
   onPanChange?: (pan: number) => void;
   onMuteToggle?: () => void;
   onSoloToggle?: () => void;
+  onArmToggle?: () => void;
   canDelete: boolean;
   onDragStart?: (trackId: string) => void;
   onDragEnd?: () => void;
@@ -51,12 +64,16 @@ const TrackRow: Component<TrackRowPropsWithCallback> = (props) => {
   const [isEditing, setIsEditing] = createSignal(false);
   const [editName, setEditName] = createSignal(props.track.name);
   const [showColorPicker, setShowColorPicker] = createSignal(false);
+  const [showEffects, setShowEffects] = createSignal(false);
+  const [showTakes, setShowTakes] = createSignal(true);
   const [isDraggingVolume, setIsDraggingVolume] = createSignal(false);
   const [isDraggingPan, setIsDraggingPan] = createSignal(false);
   const [editingVolume, setEditingVolume] = createSignal<string | null>(null);
   const [editingPan, setEditingPan] = createSignal<string | null>(null);
   const { store, setAudioStore } = useAudioStore();
   const [containerWidth, setContainerWidth] = createSignal(0);
+  const [isVisible, setIsVisible] = createSignal(false);
+  const isArmed = () => store.armedTrackId === props.track.id;
 
   const cycleWaveformRenderer = () => {
     const renderers: WaveformRenderer[] = ["bars", "line", "spectrogram"];
@@ -103,14 +120,18 @@ const TrackRow: Component<TrackRowPropsWithCallback> = (props) => {
     return max;
   });
 
-  const trackWidth = createMemo(() => {
+  const pixelsPerSecond = createMemo(() => {
     const maxDur = maxDuration();
-    if (maxDur <= 0 || props.track.duration <= 0) return "100%";
     const width = containerWidth();
-    if (width <= 0) return "100%";
+    if (maxDur <= 0 || width <= 0) return 0;
+    return (width / maxDur) * (store.zoom / 100);
+  });
+
+  const trackWidth = createMemo(() => {
+    const pps = pixelsPerSecond();
+    if (pps <= 0 || props.track.duration <= 0) return "100%";
 
-    const pixelsPerSecond = (width / maxDur) * (store.zoom / 100);
-    const trackWidthPx = props.track.duration * pixelsPerSecond;
+    const trackWidthPx = props.track.duration * pps;
     const maxWidth = 1000000;
     const finalWidth = Math.min(trackWidthPx, maxWidth);
     return `${Math.floor(finalWidth)}px`;
@@ -181,6 +202,22 @@ const TrackRow: Component<TrackRowPropsWithCallback> = (props) => {
     }
   });
 
+  onMount(() => {
+    if (!containerRef) return;
+    const observer = new IntersectionObserver(
+      (entries) => setIsVisible(entries[0]?.isIntersecting ?? false),
+      { rootMargin: "200px" }
+    );
+    observer.observe(containerRef);
+    onCleanup(() => observer.disconnect());
+  });
+
+  createEffect(() => {
+    if (isTrackStale(props.track.id) && (props.isCurrent || isVisible())) {
+      scheduleTrackRender(props.track.id);
+    }
+  });
+
   const handleContainerRef = (el: HTMLDivElement) => {
     containerRef = el;
     if (el) {
@@ -1061,10 +1098,108 @@ const TrackRow: Component<TrackRowPropsWithCallback> = (props) => {
                 </svg>
               </button>
             </Tooltip>
+            <Tooltip label={isArmed() ? "Disarm Recording" : "Arm for Recording"}>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  props.onArmToggle?.();
+                }}
+                class="p-1 rounded hover:bg-[var(--color-bg)] text-[var(--color-text)] transition-colors flex items-center justify-center cursor-pointer w-full aspect-square"
+                classList={{
+                  "text-[var(--color-recording)]": isArmed(),
+                }}
+                aria-label={isArmed() ? "Disarm Recording" : "Arm for Recording"}
+                aria-pressed={isArmed()}
+              >
+                <svg
+                  width="14"
+                  height="14"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  stroke-width="2"
+                >
+                  <circle cx="12" cy="12" r="7" fill={isArmed() ? "currentColor" : "none"} />
+                </svg>
+              </button>
+            </Tooltip>
+            <Tooltip
+              label={
+                props.track.effects.length > 0
+                  ? `Effects (${props.track.effects.length})`
+                  : "Effects"
+              }
+            >
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setShowEffects(true);
+                }}
+                class="p-1 rounded hover:bg-[var(--color-bg)] text-[var(--color-text)] transition-colors flex items-center justify-center cursor-pointer w-full aspect-square"
+                classList={{
+                  "text-[var(--color-primary)]": hasActiveEffects(props.track.effects),
+                }}
+                aria-label="Effects"
+              >
+                <svg
+                  width="14"
+                  height="14"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  stroke-width="2"
+                >
+                  <path d="M12 2L2 7l10 5 10-5-10-5z" />
+                  <path d="M2 17l10 5 10-5" />
+                  <path d="M2 12l10 5 10-5" />
+                </svg>
+              </button>
+            </Tooltip>
+            <Show when={props.track.takeLane}>
+              {(lane) => (
+                <Tooltip label={`${showTakes() ? "Hide" : "Show"} Takes (${lane().takes.length})`}>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setShowTakes(!showTakes());
+                    }}
+                    class="p-1 rounded hover:bg-[var(--color-bg)] text-[var(--color-text)] transition-colors flex items-center justify-center cursor-pointer w-full aspect-square"
+                    classList={{
+                      "text-[var(--color-primary)]": showTakes(),
+                    }}
+                    aria-label="Takes"
+                    aria-pressed={showTakes()}
+                  >
+                    <svg
+                      width="14"
+                      height="14"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      stroke-width="2"
+                    >
+                      <path d="M4 6h16M4 12h10M4 18h13" />
+                    </svg>
+                  </button>
+                </Tooltip>
+              )}
+            </Show>
+            <TrackEffectsPanel
+              trackId={props.track.id}
+              isOpen={showEffects()}
+              onClose={() => setShowEffects(false)}
+            />
           </div>
         </div>
+        <div class="mt-auto pt-1.5">
+          <LevelMeter
+            label={props.track.name}
+            analysers={() => playbackEngine.getTrackAnalysers(props.track.id)}
+            active={store.isPlaying}
+          />
+        </div>
       </div>
-      <div class="flex-1 overflow-x-auto overflow-y-hidden [&::-webkit-scrollbar]:h-2 [&::-webkit-scrollbar]:w-2 [&::-webkit-scrollbar-track]:bg-[var(--color-bg)] [&::-webkit-scrollbar-track]:rounded [&::-webkit-scrollbar-thumb]:bg-[var(--color-border)] [&::-webkit-scrollbar-thumb]:rounded [&::-webkit-scrollbar-thumb]:border [&::-webkit-scrollbar-thumb]:border-[var(--color-bg)] [&::-webkit-scrollbar-thumb]:hover:bg-[var(--color-border-hover)]">
+      <div class="flex-1 relative overflow-x-auto overflow-y-hidden [&::-webkit-scrollbar]:h-2 [&::-webkit-scrollbar]:w-2 [&::-webkit-scrollbar-track]:bg-[var(--color-bg)] [&::-webkit-scrollbar-track]:rounded [&::-webkit-scrollbar-thumb]:bg-[var(--color-border)] [&::-webkit-scrollbar-thumb]:rounded [&::-webkit-scrollbar-thumb]:border [&::-webkit-scrollbar-thumb]:border-[var(--color-bg)] [&::-webkit-scrollbar-thumb]:hover:bg-[var(--color-border-hover)]">
         <div
           ref={handleContainerRef}
           class="min-h-[150px] sm:min-h-[180px] md:min-h-[200px] flex-shrink-0 [&_wave]:cursor-pointer"
@@ -1078,6 +1213,12 @@ const TrackRow: Component<TrackRowPropsWithCallback> = (props) => {
             props.onSelect();
           }}
         />
+        <TrackClips track={props.track} pixelsPerSecond={pixelsPerSecond()} />
+        <Show when={showTakes() && props.track.takeLane}>
+          {(lane) => (
+            <TakeLanes trackId={props.track.id} lane={lane()} pixelsPerSecond={pixelsPerSecond()} />
+          )}
+        </Show>
       </div>
     </div>
   );
@@ -1087,6 +1228,8 @@ interface MultiTrackViewProps {
   onWaveformReady?: (waveform: ReturnType<typeof useWaveform>, trackId: string) => void;
   onSeekAll?: (time: number) => void;
   onSelectionCreated?: (trackId: string) => void;
+  inputAnalysers?: readonly AnalyserNode[] | null;
+  livePeaks?: number[];
 }
 
 export const MultiTrackView: Component<MultiTrackViewProps> = (props) => {
@@ -1098,6 +1241,7 @@ export const MultiTrackView: Component<MultiTrackViewProps> = (props) => {
     setAudioStore,
     reorderTracks,
     removeMarker,
+    setArmedTrack,
   } = useAudioStore();
   const [mainContainerRef, setMainContainerRef] = createSignal<HTMLDivElement | undefined>(
     undefined
@@ -1298,6 +1442,10 @@ export const MultiTrackView: Component<MultiTrackViewProps> = (props) => {
     );
   };
 
+  const handleTrackArmToggle = (trackId: string) => {
+    setArmedTrack(store.armedTrackId === trackId ? null : trackId);
+  };
+
   const handleTrackSoloToggle = (trackId: string) => {
     setAudioStore("tracks", (tracks) => {
       const track = tracks.find((t) => t.id === trackId);
@@ -1314,7 +1462,7 @@ export const MultiTrackView: Component<MultiTrackViewProps> = (props) => {
   return (
     <div class="w-full h-full relative flex flex-col overflow-hidden">
       <Show when={store.tracks.length > 0}>
-        <div class="w-full h-full bg-[var(--color-bg-elevated)] border border-[var(--color-border)] rounded-lg relative flex flex-col overflow-hidden">
+        <div class="w-full flex-1 min-h-0 bg-[var(--color-bg-elevated)] border border-[var(--color-border)] rounded-lg relative flex flex-col overflow-hidden">
           <div class="flex border-b border-[var(--color-border)] flex-shrink-0 relative">
             <div class="w-48 sm:w-56 md:w-64 border-r border-[var(--color-border)] bg-[var(--color-bg-elevated)] flex-shrink-0 flex items-center px-2 py-1">
               <input
@@ -1454,6 +1602,7 @@ export const MultiTrackView: Component<MultiTrackViewProps> = (props) => {
                           onPanChange={(pan) => handleTrackPanChange(track.id, pan)}
                           onMuteToggle={() => handleTrackMuteToggle(track.id)}
                           onSoloToggle={() => handleTrackSoloToggle(track.id)}
+                          onArmToggle={() => handleTrackArmToggle(track.id)}
                           canDelete={store.tracks.length > 1}
                           onWaveformReady={props.onWaveformReady}
                           onContainerRef={handleContainerRef}
@@ -1493,6 +1642,22 @@ export const MultiTrackView: Component<MultiTrackViewProps> = (props) => {
           </div>
         </div>
       </Show>
+      <Show when={props.inputAnalysers}>
+        {(analysers) => (
+          <div class="flex items-center gap-3 mt-2 px-3 py-2 bg-[var(--color-bg-elevated)] border border-[var(--color-recording)] rounded-lg flex-shrink-0">
+            <span class="w-2 h-2 rounded-full bg-[var(--color-recording)] animate-pulse flex-shrink-0" />
+            <span class="text-xs font-medium text-[var(--color-text)] whitespace-nowrap">
+              Recording input
+            </span>
+            <div class="flex-1 min-w-0">
+              <LiveRecordingWaveform peaks={props.livePeaks ?? []} />
+            </div>
+            <div class="flex-1 max-w-64">
+              <LevelMeter label="Input" analysers={analysers} active={true} />
+            </div>
+          </div>
+        )}
+      </Show>
       <Show when={store.tracks.length === 0}>
         <div class="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 text-center text-[var(--color-text-secondary)] pointer-events-none text-xs sm:text-sm md:text-[0.9375rem] p-3 sm:p-4 md:p-6 lg:p-8 opacity-70 max-w-[90%]">
           <p>Import an audio file or start recording to begin editing</p>
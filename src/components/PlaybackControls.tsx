@@ -4,11 +4,10 @@ import { formatTime } from "../utils/time";
 import { Button } from "./Button";
 
 interface PlaybackControlsProps {
-  waveform?: ReturnType<typeof import("../hooks/useWaveform").useWaveform>;
-  onPlayAll?: () => void;
-  onPauseAll?: () => void;
-  onStopAll?: () => void;
-  onSeekAll?: (time: number) => void;
+  onPlayAll: () => void;
+  onPauseAll: () => void;
+  onStopAll: () => void;
+  onSeekAll: (time: number) => void;
 }
 
 export const PlaybackControls: Component<PlaybackControlsProps> = (props) => {
@@ -16,26 +15,14 @@ export const PlaybackControls: Component<PlaybackControlsProps> = (props) => {
 
   const handlePlayPause = () => {
     if (store.isPlaying) {
-      if (props.onPauseAll) {
-        props.onPauseAll();
-      } else if (props.waveform) {
-        props.waveform.pause();
-      }
+      props.onPauseAll();
     } else {
-      if (props.onPlayAll) {
-        props.onPlayAll();
-      } else if (props.waveform) {
-        props.waveform.play();
-      }
+      props.onPlayAll();
     }
   };
 
   const handleStop = () => {
-    if (props.onStopAll) {
-      props.onStopAll();
-    } else if (props.waveform) {
-      props.waveform.stop();
-    }
+    props.onStopAll();
   };
 
   let seekbarRef: HTMLDivElement | undefined;
@@ -50,16 +37,7 @@ export const PlaybackControls: Component<PlaybackControlsProps> = (props) => {
     const maxDuration = Math.max(...store.tracks.map((t) => t.duration));
     const newTime = progress * maxDuration;
     setCurrentTime(newTime);
-
-    if (props.onSeekAll) {
-      props.onSeekAll(newTime);
-    } else if (props.waveform) {
-      const currentTrack = store.tracks.find((t) => t.id === store.currentTrackId);
-      const duration = currentTrack?.duration || maxDuration;
-      if (duration > 0) {
-        props.waveform.seekTo(newTime / duration);
-      }
-    }
+    props.onSeekAll(newTime);
   };
 
   const handleSeek = (e: MouseEvent) => {
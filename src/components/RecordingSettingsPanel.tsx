@@ -0,0 +1,253 @@
+import { Component, For, Show, createEffect, createSignal, on } from "solid-js";
+import { useRecordingSettings } from "../hooks/useRecordingSettings";
+import { getErrorMessage } from "../utils/error";
+import {
+  MAX_LATENCY_OFFSET_MS,
+  PUNCH_RANGES,
+  RECORDING_SAMPLE_RATES,
+  type PunchRange,
+} from "../utils/recordingSettings";
+
+interface RecordingSettingsPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const channelOptions: Array<{ value: 1 | 2; label: string }> = [
+  { value: 1, label: "Mono" },
+  { value: 2, label: "Stereo" },
+];
+
+const processingOptions: Array<{
+  key: "echoCancellation" | "autoGainControl" | "noiseSuppression";
+  label: string;
+}> = [
+  { key: "echoCancellation", label: "Echo cancellation" },
+  { key: "autoGainControl", label: "Automatic gain control" },
+  { key: "noiseSuppression", label: "Noise suppression" },
+];
+
+export const RecordingSettingsPanel: Component<RecordingSettingsPanelProps> = (props) => {
+  const { settings, devices, updateSettings, refreshDevices, requestDeviceLabels } =
+    useRecordingSettings();
+  const [error, setError] = createSignal<string | null>(null);
+
+  const needsLabels = () => devices().some((device) => device.label === "");
+
+  createEffect(
+    on(
+      () => props.isOpen,
+      (open) => {
+        if (open) {
+          setError(null);
+          void refreshDevices();
+        }
+      }
+    )
+  );
+
+  const handleRequestLabels = async () => {
+    setError(null);
+    try {
+      await requestDeviceLabels();
+    } catch (err) {
+      setError(getErrorMessage(err, "Microphone access was denied"));
+    }
+  };
+
+  const selectClass =
+    "w-full py-1.5 px-2 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-[var(--color-text)] text-[0.8125rem] cursor-pointer focus:outline-none focus:border-[var(--color-primary)]";
+  const labelClass = "block text-[0.75rem] font-medium text-[var(--color-text-secondary)] mb-1.5";
+
+  return (
+    <Show when={props.isOpen}>
+      <div
+        class="fixed inset-0 flex items-center justify-center backdrop-blur-sm bg-black/50 z-[2000]"
+        onClick={props.onClose}
+      >
+        <div
+          class="bg-[var(--color-bg-elevated)] border border-[var(--color-border)] rounded-lg sm:rounded-xl max-w-[420px] w-[95%] sm:w-[90%] max-h-[85vh] sm:max-h-[80vh] overflow-hidden flex flex-col"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div class="flex items-center justify-between py-4 sm:py-6 px-4 sm:px-6 border-b border-[var(--color-border)]">
+            <h2 class="m-0 text-lg sm:text-xl font-semibold text-[var(--color-text)]">
+              Recording Settings
+            </h2>
+            <button
+              class="flex-shrink-0 bg-none border-0 text-[var(--color-text-secondary)] cursor-pointer p-2 flex items-center justify-center rounded-md transition-all duration-150 hover:bg-[var(--color-border)] hover:text-[var(--color-text)]"
+              onClick={props.onClose}
+              aria-label="Close"
+            >
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
+                <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" />
+              </svg>
+            </button>
+          </div>
+          <div class="flex-1 overflow-y-auto p-4 sm:p-6 flex flex-col gap-4">
+            <div>
+              <label class={labelClass}>Input Device</label>
+              <select
+                value={settings().deviceId ?? ""}
+                onChange={(e) => updateSettings({ deviceId: e.currentTarget.value || null })}
+                class={selectClass}
+              >
+                <option value="">System default</option>
+                <For each={devices()}>
+                  {(device, index) => (
+                    <option value={device.deviceId}>
+                      {device.label || `Input ${index() + 1}`}
+                    </option>
+                  )}
+                </For>
+                <Show
+                  when={
+                    settings().deviceId &&
+                    !devices().some((device) => device.deviceId === settings().deviceId)
+                  }
+                >
+                  <option value={settings().deviceId!}>Unavailable device</option>
+                </Show>
+              </select>
+              <Show when={needsLabels()}>
+                <button
+                  type="button"
+                  class="mt-2 p-0 bg-transparent border-0 text-xs text-[var(--color-primary)] cursor-pointer hover:underline"
+                  onClick={handleRequestLabels}
+                >
+                  Allow microphone access to show device names
+                </button>
+              </Show>
+            </div>
+            <div>
+              <label class={labelClass}>Channels</label>
+              <div class="flex gap-1 p-1 bg-[var(--color-bg)] border border-[var(--color-border)] rounded-md">
+                <For each={channelOptions}>
+                  {(option) => (
+                    <button
+                      type="button"
+                      class="flex-1 py-1.5 px-2 rounded text-[0.8125rem] border-0 cursor-pointer transition-colors duration-150"
+                      classList={{
+                        "bg-[var(--color-primary)]/20 text-[var(--color-primary)] font-medium":
+                          settings().channelCount === option.value,
+                        "bg-transparent text-[var(--color-text)] hover:bg-[var(--color-hover)]":
+                          settings().channelCount !== option.value,
+                      }}
+                      onClick={() => updateSettings({ channelCount: option.value })}
+                    >
+                      {option.label}
+                    </button>
+                  )}
+                </For>
+              </div>
+            </div>
+            <div>
+              <label class={labelClass}>Sample Rate</label>
+              <select
+                value={settings().sampleRate ?? ""}
+                onChange={(e) =>
+                  updateSettings({
+                    sampleRate: e.currentTarget.value ? parseInt(e.currentTarget.value, 10) : null,
+                  })
+                }
+                class={selectClass}
+              >
+                <option value="">Device default</option>
+                <For each={RECORDING_SAMPLE_RATES}>
+                  {(rate) => <option value={rate}>{(rate / 1000).toFixed(1)} kHz</option>}
+                </For>
+              </select>
+            </div>
+            <div class="flex flex-col gap-2">
+              <label class={labelClass}>Browser Processing</label>
+              <For each={processingOptions}>
+                {(option) => (
+                  <label class="flex items-center gap-2 text-[0.8125rem] text-[var(--color-text)] cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={settings()[option.key]}
+                      onChange={(e) => updateSettings({ [option.key]: e.currentTarget.checked })}
+                      class="accent-[var(--color-primary)] cursor-pointer"
+                    />
+                    {option.label}
+                  </label>
+                )}
+              </For>
+            </div>
+            <div class="grid grid-cols-2 gap-3">
+              <div>
+                <label class={labelClass}>Punch In/Out</label>
+                <select
+                  value={settings().punchRange}
+                  onChange={(e) =>
+                    updateSettings({ punchRange: e.currentTarget.value as PunchRange })
+                  }
+                  class={selectClass}
+                >
+                  <For each={Object.entries(PUNCH_RANGES)}>
+                    {([value, label]) => <option value={value}>{label}</option>}
+                  </For>
+                </select>
+              </div>
+              <div>
+                <label class={labelClass}>Latency Offset (ms)</label>
+                <input
+                  type="number"
+                  min={-MAX_LATENCY_OFFSET_MS}
+                  max={MAX_LATENCY_OFFSET_MS}
+                  step="1"
+                  value={settings().latencyOffsetMs}
+                  onInput={(e) => {
+                    const num = parseFloat(e.currentTarget.value);
+                    if (!isNaN(num) && Math.abs(num) <= MAX_LATENCY_OFFSET_MS) {
+                      updateSettings({ latencyOffsetMs: num });
+                    }
+                  }}
+                  class="w-full py-1.5 px-2 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-[var(--color-text)] text-[0.8125rem] focus:outline-none focus:border-[var(--color-primary)]"
+                />
+              </div>
+            </div>
+            <div class="flex flex-col gap-2">
+              <label class={labelClass}>Monitoring</label>
+              <label class="flex items-center gap-2 text-[0.8125rem] text-[var(--color-text)] cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={settings().monitoring}
+                  onChange={(e) => updateSettings({ monitoring: e.currentTarget.checked })}
+                  class="accent-[var(--color-primary)] cursor-pointer"
+                />
+                Play the input through the speakers
+              </label>
+              <div class="flex items-center gap-2">
+                <input
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.01"
+                  value={settings().monitoringVolume}
+                  disabled={!settings().monitoring}
+                  onInput={(e) =>
+                    updateSettings({ monitoringVolume: parseFloat(e.currentTarget.value) })
+                  }
+                  class="flex-1 accent-[var(--color-primary)] cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                  aria-label="Monitoring volume"
+                />
+                <span class="w-10 text-right text-xs tabular-nums text-[var(--color-text-secondary)]">
+                  {Math.round(settings().monitoringVolume * 100)}%
+                </span>
+              </div>
+            </div>
+            <Show when={error()}>
+              <div class="text-xs text-[var(--color-danger)]">{error()}</div>
+            </Show>
+          </div>
+          <div class="px-4 sm:px-6 py-3 border-t border-[var(--color-border)] text-xs text-[var(--color-text-secondary)]">
+            Settings apply to the next recording and are remembered in this browser. Turn off
+            browser processing when recording music or through an audio interface. Arm a track to
+            record over it in time with playback; the latency offset is added to the measured device
+            latency to line takes up.
+          </div>
+        </div>
+      </div>
+    </Show>
+  );
+};
@@ -0,0 +1,299 @@
+import { Component, For, Show, createEffect, createSignal, on, onCleanup } from "solid-js";
+import { renderPendingTracks, useAudioStore } from "../stores/audioStore";
+import type { SilentRegion } from "../utils/analysisDsp";
+import { audioEffects } from "../utils/audioEffects";
+import { invertRanges } from "../utils/clips";
+import { getErrorMessage, isAbortError } from "../utils/error";
+import { formatDuration, formatTime } from "../utils/time";
+
+interface SilencePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSelectRegion: (start: number, end: number) => void;
+  onTruncate: (regions: SilentRegion[], maxLength: number) => Promise<void>;
+  onSplit: (regions: SilentRegion[], target: "clips" | "tracks") => Promise<void>;
+}
+
+const MAX_SPLIT_TRACKS = 32;
+
+const formatPosition = (seconds: number) =>
+  `${formatTime(seconds)}.${String(Math.floor((seconds % 1) * 10))}`;
+
+export const SilencePanel: Component<SilencePanelProps> = (props) => {
+  const { store, getCurrentTrack } = useAudioStore();
+  const [threshold, setThreshold] = createSignal("-45");
+  const [minDuration, setMinDuration] = createSignal("0.5");
+  const [maxLength, setMaxLength] = createSignal("0.5");
+  const [regions, setRegions] = createSignal<SilentRegion[] | null>(null);
+  const [progress, setProgress] = createSignal<number | null>(null);
+  const [isApplying, setIsApplying] = createSignal(false);
+  const [error, setError] = createSignal<string | null>(null);
+  let controller: AbortController | null = null;
+
+  const cancel = () => {
+    controller?.abort();
+    controller = null;
+  };
+
+  const segmentCount = () => {
+    const track = getCurrentTrack();
+    return track ? invertRanges(regions() ?? [], track.duration).length : 0;
+  };
+
+  const totalSilence = () =>
+    (regions() ?? []).reduce((total, { start, end }) => total + end - start, 0);
+
+  const handleDetect = async () => {
+    await renderPendingTracks(store.currentTrackId ? [store.currentTrackId] : []);
+    const track = getCurrentTrack();
+    const thresholdDb = parseFloat(threshold());
+    const duration = parseFloat(minDuration());
+    if (!track?.audioBuffer) {
+      setError("No current track to scan");
+      return;
+    }
+    if (isNaN(thresholdDb) || isNaN(duration)) return;
+
+    cancel();
+    const current = new AbortController();
+    controller = current;
+    setError(null);
+    setRegions(null);
+    setProgress(0);
+    try {
+      const result = await audioEffects
+        .withOptions({ signal: current.signal, onProgress: setProgress })
+        .detectSilence(track.audioBuffer, thresholdDb, duration);
+      if (controller === current) {
+        setRegions(result);
+      }
+    } catch (err) {
+      if (!isAbortError(err)) {
+        setError(getErrorMessage(err, "Failed to detect silence"));
+      }
+    } finally {
+      if (controller === current) {
+        controller = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  const runAction = async (action: (found: SilentRegion[]) => Promise<void>) => {
+    const found = regions();
+    if (!found || found.length === 0) return;
+    setIsApplying(true);
+    setError(null);
+    try {
+      await action(found);
+    } catch (err) {
+      setError(getErrorMessage(err, "Failed to edit track"));
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  createEffect(
+    on(
+      () => props.isOpen,
+      (open) => {
+        if (open) {
+          setRegions(null);
+          setError(null);
+        } else {
+          cancel();
+          setProgress(null);
+        }
+      }
+    )
+  );
+
+  onCleanup(cancel);
+
+  const inputClass =
+    "w-full py-1.5 px-2 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-[var(--color-text)] text-[0.8125rem] focus:outline-none focus:border-[var(--color-primary)]";
+  const labelClass = "block text-[0.75rem] font-medium text-[var(--color-text-secondary)] mb-1.5";
+  const actionClass =
+    "py-1.5 px-3 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-[var(--color-text)] text-[0.8125rem] cursor-pointer transition-all duration-150 hover:bg-[var(--color-hover)] hover:border-[var(--color-border-hover)] disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <Show when={props.isOpen}>
+      <div
+        class="fixed inset-0 flex items-center justify-center backdrop-blur-sm bg-black/50 z-[2000]"
+        onClick={props.onClose}
+      >
+        <div
+          class="bg-[var(--color-bg-elevated)] border border-[var(--color-border)] rounded-lg sm:rounded-xl max-w-[460px] w-[95%] sm:w-[90%] max-h-[85vh] sm:max-h-[80vh] overflow-hidden flex flex-col"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div class="flex items-center justify-between py-4 sm:py-6 px-4 sm:px-6 border-b border-[var(--color-border)]">
+            <h2 class="m-0 text-lg sm:text-xl font-semibold text-[var(--color-text)]">Silence</h2>
+            <button
+              class="flex-shrink-0 bg-none border-0 text-[var(--color-text-secondary)] cursor-pointer p-2 flex items-center justify-center rounded-md transition-all duration-150 hover:bg-[var(--color-border)] hover:text-[var(--color-text)]"
+              onClick={props.onClose}
+              aria-label="Close"
+            >
+              <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
+                <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" />
+              </svg>
+            </button>
+          </div>
+          <div class="flex-1 overflow-y-auto p-4 sm:p-6 flex flex-col gap-4">
+            <div class="text-[0.8125rem] text-[var(--color-text-secondary)] truncate">
+              {getCurrentTrack()?.name ?? "No current track"}
+            </div>
+            <div class="grid grid-cols-2 gap-3">
+              <div>
+                <label class={labelClass}>Threshold (dB, -90 to -10)</label>
+                <input
+                  type="number"
+                  min="-90"
+                  max="-10"
+                  step="1"
+                  value={threshold()}
+                  onInput={(e) => {
+                    const val = e.currentTarget.value;
+                    const num = parseFloat(val);
+                    if (val === "" || (!isNaN(num) && num >= -90 && num <= -10)) {
+                      setThreshold(val);
+                    }
+                  }}
+                  class={inputClass}
+                />
+              </div>
+              <div>
+                <label class={labelClass}>Minimum Duration (s, 0.05 to 10)</label>
+                <input
+                  type="number"
+                  min="0.05"
+                  max="10"
+                  step="0.05"
+                  value={minDuration()}
+                  onInput={(e) => {
+                    const val = e.currentTarget.value;
+                    const num = parseFloat(val);
+                    if (val === "" || (!isNaN(num) && num >= 0.05 && num <= 10)) {
+                      setMinDuration(val);
+                    }
+                  }}
+                  class={inputClass}
+                />
+              </div>
+            </div>
+            <button
+              type="button"
+              class="py-1.5 px-3 bg-[var(--color-primary)] text-white border-0 rounded text-[0.8125rem] font-medium cursor-pointer transition-all duration-150 hover:bg-[var(--color-primary-hover)] disabled:opacity-50 disabled:cursor-wait"
+              onClick={handleDetect}
+              disabled={progress() !== null || isApplying() || !getCurrentTrack()?.audioBuffer}
+            >
+              {progress() !== null
+                ? `Detecting ${Math.round(progress()! * 100)}%`
+                : "Detect Silence"}
+            </button>
+
+            <Show when={regions()}>
+              {(found) => (
+                <Show
+                  when={found().length > 0}
+                  fallback={
+                    <div class="text-xs text-[var(--color-text-secondary)]">
+                      No silence found. Try a higher threshold or a shorter minimum duration.
+                    </div>
+                  }
+                >
+                  <div class="flex flex-col gap-2">
+                    <div class="text-xs text-[var(--color-text-secondary)]">
+                      {found().length} silent region{found().length === 1 ? "" : "s"},{" "}
+                      {formatDuration(totalSilence())} in total
+                    </div>
+                    <div class="max-h-[160px] overflow-y-auto flex flex-col border border-[var(--color-border)] rounded">
+                      <For each={found()}>
+                        {(region) => (
+                          <button
+                            type="button"
+                            class="flex items-center justify-between gap-3 py-1.5 px-2.5 bg-transparent border-0 border-b border-[var(--color-border)] last:border-b-0 text-left text-[0.8125rem] text-[var(--color-text)] cursor-pointer tabular-nums hover:bg-[var(--color-hover)]"
+                            onClick={() => props.onSelectRegion(region.start, region.end)}
+                          >
+                            <span>
+                              {formatPosition(region.start)} – {formatPosition(region.end)}
+                            </span>
+                            <span class="text-xs text-[var(--color-text-secondary)]">
+                              {formatDuration(region.end - region.start)}
+                            </span>
+                          </button>
+                        )}
+                      </For>
+                    </div>
+                  </div>
+
+                  <div class="flex flex-col gap-2 pt-2 border-t border-[var(--color-border)]">
+                    <label class={labelClass}>Truncate To (s, 0 to 5)</label>
+                    <div class="flex gap-2">
+                      <input
+                        type="number"
+                        min="0"
+                        max="5"
+                        step="0.1"
+                        value={maxLength()}
+                        onInput={(e) => {
+                          const val = e.currentTarget.value;
+                          const num = parseFloat(val);
+                          if (val === "" || (!isNaN(num) && num >= 0 && num <= 5)) {
+                            setMaxLength(val);
+                          }
+                        }}
+                        class={inputClass}
+                      />
+                      <button
+                        type="button"
+                        class={`${actionClass} flex-shrink-0`}
+                        onClick={() =>
+                          runAction((found) => props.onTruncate(found, parseFloat(maxLength())))
+                        }
+                        disabled={isApplying() || isNaN(parseFloat(maxLength()))}
+                      >
+                        Truncate Silence
+                      </button>
+                    </div>
+                    <div class="flex gap-2">
+                      <button
+                        type="button"
+                        class={`${actionClass} flex-1`}
+                        onClick={() => runAction((found) => props.onSplit(found, "clips"))}
+                        disabled={isApplying()}
+                      >
+                        Split into Clips
+                      </button>
+                      <button
+                        type="button"
+                        class={`${actionClass} flex-1`}
+                        onClick={() => runAction((found) => props.onSplit(found, "tracks"))}
+                        disabled={isApplying() || segmentCount() > MAX_SPLIT_TRACKS}
+                      >
+                        Split into {segmentCount()} Tracks
+                      </button>
+                    </div>
+                    <Show when={segmentCount() > MAX_SPLIT_TRACKS}>
+                      <div class="text-xs text-[var(--color-text-secondary)]">
+                        Splitting into tracks is limited to {MAX_SPLIT_TRACKS} parts. Raise the
+                        minimum duration to find fewer silences.
+                      </div>
+                    </Show>
+                  </div>
+                </Show>
+              )}
+            </Show>
+
+            <Show when={error()}>
+              <div class="text-xs text-[var(--color-danger)]">{error()}</div>
+            </Show>
+          </div>
+          <div class="px-4 sm:px-6 py-3 border-t border-[var(--color-border)] text-xs text-[var(--color-text-secondary)]">
+            Scans the current track. Click a region to select it, shorten long pauses to the
+            truncate length, or split the sound between silences into clips or new tracks.
+          </div>
+        </div>
+      </div>
+    </Show>
+  );
+};
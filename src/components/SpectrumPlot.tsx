@@ -0,0 +1,151 @@
+import { Component, For, Show, createMemo, createSignal } from "solid-js";
+
+interface SpectrumPlotProps {
+  spectrum: Float32Array;
+  sampleRate: number;
+}
+
+const WIDTH = 400;
+const HEIGHT = 180;
+const MIN_FREQUENCY = 20;
+const MIN_DB = -120;
+const FREQUENCY_GRID = [50, 100, 200, 500, 1000, 2000, 5000, 10000, 20000];
+const FREQUENCY_LABELS: Record<number, string> = { 100: "100", 1000: "1k", 10000: "10k" };
+const DB_GRID = [-20, -40, -60, -80, -100];
+
+const formatFrequency = (frequency: number) =>
+  frequency >= 1000 ? `${(frequency / 1000).toFixed(2)} kHz` : `${Math.round(frequency)} Hz`;
+
+export const SpectrumPlot: Component<SpectrumPlotProps> = (props) => {
+  const [hoverX, setHoverX] = createSignal<number | null>(null);
+  let svgRef: SVGSVGElement | undefined;
+
+  const maxFrequency = () => props.sampleRate / 2;
+  const logRange = () => Math.log(maxFrequency() / MIN_FREQUENCY);
+  const frequencyToX = (frequency: number) =>
+    (Math.log(frequency / MIN_FREQUENCY) / logRange()) * WIDTH;
+  const xToFrequency = (x: number) => MIN_FREQUENCY * Math.exp((x / WIDTH) * logRange());
+  const dbToY = (db: number) => Math.min(HEIGHT, (db / MIN_DB) * HEIGHT);
+  const frequencyToBin = (frequency: number) =>
+    Math.min(
+      props.spectrum.length - 1,
+      Math.round((frequency / maxFrequency()) * (props.spectrum.length - 1))
+    );
+
+  const levelAt = (x0: number, x1: number) => {
+    const first = frequencyToBin(xToFrequency(x0));
+    const last = Math.max(first, frequencyToBin(xToFrequency(x1)));
+    let level = -Infinity;
+    for (let bin = first; bin <= last; bin++) {
+      level = Math.max(level, props.spectrum[bin]!);
+    }
+    return level;
+  };
+
+  const path = createMemo(() => {
+    const points: string[] = [];
+    for (let x = 0; x <= WIDTH; x += 2) {
+      const y = dbToY(levelAt(x, x + 2));
+      points.push(`${x === 0 ? "M" : "L"}${x},${y.toFixed(1)}`);
+    }
+    return `${points.join(" ")} L${WIDTH},${HEIGHT} L0,${HEIGHT} Z`;
+  });
+
+  const peak = createMemo(() => {
+    let best = 1;
+    for (let bin = 2; bin < props.spectrum.length; bin++) {
+      if (props.spectrum[bin]! > props.spectrum[best]!) best = bin;
+    }
+    return {
+      frequency: (best / (props.spectrum.length - 1)) * maxFrequency(),
+      level: props.spectrum[best]!,
+    };
+  });
+
+  const readout = () => {
+    const x = hoverX();
+    if (x === null) {
+      return `Peak ${formatFrequency(peak().frequency)} at ${peak().level.toFixed(1)} dB`;
+    }
+    return `${formatFrequency(xToFrequency(x))}: ${levelAt(x, x + 1).toFixed(1)} dB`;
+  };
+
+  return (
+    <div class="flex flex-col gap-1">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        class="w-full h-auto bg-[var(--color-bg)] border border-[var(--color-border)] rounded select-none"
+        onPointerMove={(e) => {
+          const rect = svgRef!.getBoundingClientRect();
+          setHoverX(Math.max(0, Math.min(WIDTH, ((e.clientX - rect.left) / rect.width) * WIDTH)));
+        }}
+        onPointerLeave={() => setHoverX(null)}
+        role="img"
+        aria-label="Frequency spectrum"
+      >
+        <For each={FREQUENCY_GRID.filter((frequency) => frequency < maxFrequency())}>
+          {(frequency) => (
+            <>
+              <line
+                x1={frequencyToX(frequency)}
+                x2={frequencyToX(frequency)}
+                y1={0}
+                y2={HEIGHT}
+                stroke="var(--color-border)"
+                stroke-width="0.5"
+              />
+              <Show when={FREQUENCY_LABELS[frequency]}>
+                <text
+                  x={frequencyToX(frequency) + 2}
+                  y={HEIGHT - 3}
+                  font-size="8"
+                  fill="var(--color-text-secondary)"
+                >
+                  {FREQUENCY_LABELS[frequency]}
+                </text>
+              </Show>
+            </>
+          )}
+        </For>
+        <For each={DB_GRID}>
+          {(db) => (
+            <>
+              <line
+                x1={0}
+                x2={WIDTH}
+                y1={dbToY(db)}
+                y2={dbToY(db)}
+                stroke="var(--color-border)"
+                stroke-width="0.5"
+              />
+              <text x={2} y={dbToY(db) - 2} font-size="8" fill="var(--color-text-secondary)">
+                {db} dB
+              </text>
+            </>
+          )}
+        </For>
+        <path
+          d={path()}
+          fill="var(--color-primary)"
+          fill-opacity="0.25"
+          stroke="var(--color-primary)"
+          stroke-width="1"
+        />
+        <Show when={hoverX()}>
+          {(x) => (
+            <line
+              x1={x()}
+              x2={x()}
+              y1={0}
+              y2={HEIGHT}
+              stroke="var(--color-text-secondary)"
+              stroke-width="0.5"
+            />
+          )}
+        </Show>
+      </svg>
+      <div class="text-xs tabular-nums text-[var(--color-text-secondary)]">{readout()}</div>
+    </div>
+  );
+};
@@ -0,0 +1,260 @@
+import { Component, For, Show, createEffect, createSignal, onCleanup } from "solid-js";
+import { useAudioStore, type AudioClip, type TakeLane } from "../stores/audioStore";
+import { getAudioContext } from "../utils/audioContext";
+import { getClipDuration, getClipEnd } from "../utils/clips";
+import { playbackEngine } from "../utils/playbackEngine";
+
+interface TakeLanesProps {
+  trackId: string;
+  lane: TakeLane;
+  pixelsPerSecond: number;
+}
+
+interface CompDrag {
+  takeId: string;
+  rect: DOMRect;
+  originX: number;
+  from: number;
+  to: number;
+}
+
+const PEAK_BINS = 200;
+const CLICK_TOLERANCE_PX = 3;
+
+const getTakePath = (take: AudioClip, lane: TakeLane) => {
+  if (!take.buffer) return "";
+  const data = take.buffer.getChannelData(0);
+  const sampleRate = take.buffer.sampleRate;
+  const laneDuration = lane.end - lane.start;
+  const top: string[] = [];
+  const bottom: string[] = [];
+  for (let bin = 0; bin < PEAK_BINS; bin++) {
+    const binStart = lane.start + (bin / PEAK_BINS) * laneDuration;
+    const binEnd = lane.start + ((bin + 1) / PEAK_BINS) * laneDuration;
+    const from = Math.max(binStart, take.start);
+    const to = Math.min(binEnd, getClipEnd(take));
+    let peak = 0;
+    if (to > from) {
+      const first = Math.floor((from - take.start + take.trimStart) * sampleRate);
+      const last = Math.min(
+        data.length,
+        Math.ceil((to - take.start + take.trimStart) * sampleRate)
+      );
+      for (let i = first; i < last; i++) {
+        peak = Math.max(peak, Math.abs(data[i]!));
+      }
+    }
+    top.push(`${bin},${50 - Math.min(1, peak) * 50}`);
+    bottom.push(`${bin},${50 + Math.min(1, peak) * 50}`);
+  }
+  return `M${top.join("L")}L${bottom.reverse().join("L")}Z`;
+};
+
+export const TakeLanes: Component<TakeLanesProps> = (props) => {
+  const { setCompTake, deleteTake, flattenTakes } = useAudioStore();
+  const [drag, setDrag] = createSignal<CompDrag | null>(null);
+  const [auditioning, setAuditioning] = createSignal<string | null>(null);
+  let auditionSource: AudioBufferSourceNode | null = null;
+
+  const laneDuration = () => props.lane.end - props.lane.start;
+  const toPx = (time: number) => (time - props.lane.start) * props.pixelsPerSecond;
+
+  const timeAt = (rect: DOMRect, clientX: number) =>
+    props.lane.start +
+    Math.max(0, Math.min(laneDuration(), (clientX - rect.left) / props.pixelsPerSecond));
+
+  const stopAudition = () => {
+    if (auditionSource) {
+      try {
+        auditionSource.stop();
+      } catch {}
+      auditionSource.disconnect();
+      auditionSource = null;
+    }
+    setAuditioning(null);
+  };
+
+  const toggleAudition = (take: AudioClip) => {
+    const wasAuditioning = auditioning() === take.id;
+    stopAudition();
+    if (wasAuditioning || !take.buffer) return;
+
+    const source = getAudioContext().createBufferSource();
+    source.buffer = take.buffer;
+    source.connect(playbackEngine.getMasterBus());
+    source.onended = () => {
+      if (auditionSource === source) {
+        auditionSource = null;
+        setAuditioning(null);
+      }
+    };
+    source.start(0, take.trimStart, getClipDuration(take));
+    auditionSource = source;
+    setAuditioning(take.id);
+  };
+
+  const handleMouseDown = (e: MouseEvent, takeId: string) => {
+    if (props.pixelsPerSecond <= 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const rect = (e.currentTarget as HTMLElement).getBoundingClientRect();
+    const time = timeAt(rect, e.clientX);
+    setDrag({ takeId, rect, originX: e.clientX, from: time, to: time });
+  };
+
+  createEffect(() => {
+    const current = drag();
+    if (!current) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      e.preventDefault();
+      setDrag({ ...current, to: timeAt(current.rect, e.clientX) });
+    };
+
+    const handleMouseUp = (e: MouseEvent) => {
+      setDrag(null);
+      const isClick = Math.abs(e.clientX - current.originX) < CLICK_TOLERANCE_PX;
+      const to = timeAt(current.rect, e.clientX);
+      const start = isClick ? props.lane.start : Math.min(current.from, to);
+      const end = isClick ? props.lane.end : Math.max(current.from, to);
+      setCompTake(props.trackId, current.takeId, start, end).catch(console.error);
+    };
+
+    document.addEventListener("mousemove", handleMouseMove, { passive: false });
+    document.addEventListener("mouseup", handleMouseUp);
+
+    onCleanup(() => {
+      document.removeEventListener("mousemove", handleMouseMove);
+      document.removeEventListener("mouseup", handleMouseUp);
+    });
+  });
+
+  onCleanup(stopAudition);
+
+  return (
+    <Show when={props.pixelsPerSecond > 0}>
+      <div
+        class="absolute top-4 bottom-0 z-[13] flex flex-col bg-[var(--color-bg)]/90 border-x border-[var(--color-primary)]/60 select-none"
+        style={{
+          left: `${props.lane.start * props.pixelsPerSecond}px`,
+          width: `${laneDuration() * props.pixelsPerSecond}px`,
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div class="flex items-center gap-1 h-5 px-1 flex-shrink-0 border-b border-[var(--color-border)] text-[0.625rem] text-[var(--color-text-secondary)]">
+          <span class="flex-1 min-w-0 truncate">
+            Takes · drag over a take to comp it, click to use it whole
+          </span>
+          <button
+            type="button"
+            class="px-1.5 py-0.5 rounded bg-transparent border border-[var(--color-border)] text-[var(--color-text)] cursor-pointer hover:bg-[var(--color-hover)] flex-shrink-0"
+            onClick={() => flattenTakes(props.trackId).catch(console.error)}
+            title="Keep the current comp and discard the takes"
+          >
+            Flatten
+          </button>
+        </div>
+        <For each={props.lane.takes}>
+          {(take, index) => {
+            const segments = () => props.lane.comp.filter((segment) => segment.takeId === take.id);
+            const dragRange = () => {
+              const current = drag();
+              return current?.takeId === take.id
+                ? {
+                    start: Math.min(current.from, current.to),
+                    end: Math.max(current.from, current.to),
+                  }
+                : null;
+            };
+
+            return (
+              <div
+                class="relative flex-1 min-h-3 border-b border-[var(--color-border)] cursor-crosshair overflow-hidden"
+                onMouseDown={(e) => handleMouseDown(e, take.id)}
+              >
+                <For each={segments()}>
+                  {(segment) => (
+                    <div
+                      class="absolute inset-y-0 bg-[var(--color-primary)]/25"
+                      style={{
+                        left: `${toPx(segment.start)}px`,
+                        width: `${(segment.end - segment.start) * props.pixelsPerSecond}px`,
+                      }}
+                    />
+                  )}
+                </For>
+                <Show when={dragRange()}>
+                  {(range) => (
+                    <div
+                      class="absolute inset-y-0 bg-[var(--color-primary)]/40 border-x border-[var(--color-primary)]"
+                      style={{
+                        left: `${toPx(range().start)}px`,
+                        width: `${(range().end - range().start) * props.pixelsPerSecond}px`,
+                      }}
+                    />
+                  )}
+                </Show>
+                <svg
+                  viewBox={`0 0 ${PEAK_BINS} 100`}
+                  preserveAspectRatio="none"
+                  class="absolute inset-0 w-full h-full pointer-events-none"
+                >
+                  <path
+                    d={getTakePath(take, props.lane)}
+                    fill={
+                      segments().length > 0 ? "var(--color-primary)" : "var(--color-text-secondary)"
+                    }
+                  />
+                </svg>
+                <div class="absolute top-0 left-0 flex items-center gap-0.5 h-full max-h-5 pl-0.5">
+                  <button
+                    type="button"
+                    class="flex items-center justify-center w-4 h-4 rounded bg-[var(--color-bg-elevated)]/80 border-0 p-0 cursor-pointer text-[var(--color-text)] hover:text-[var(--color-primary)]"
+                    classList={{ "text-[var(--color-primary)]": auditioning() === take.id }}
+                    onMouseDown={(e) => e.stopPropagation()}
+                    onClick={() => toggleAudition(take)}
+                    aria-label={
+                      auditioning() === take.id ? "Stop audition" : `Audition take ${index() + 1}`
+                    }
+                    title={auditioning() === take.id ? "Stop audition" : "Audition take"}
+                  >
+                    <Show
+                      when={auditioning() === take.id}
+                      fallback={
+                        <svg width="8" height="8" viewBox="0 0 24 24" fill="currentColor">
+                          <path d="M8 5v14l11-7z" />
+                        </svg>
+                      }
+                    >
+                      <svg width="8" height="8" viewBox="0 0 24 24" fill="currentColor">
+                        <rect x="6" y="6" width="12" height="12" />
+                      </svg>
+                    </Show>
+                  </button>
+                  <span class="text-[0.625rem] text-[var(--color-text)] tabular-nums pointer-events-none">
+                    Take {index() + 1}
+                  </span>
+                  <button
+                    type="button"
+                    class="flex items-center justify-center w-4 h-4 rounded bg-[var(--color-bg-elevated)]/80 border-0 p-0 cursor-pointer text-[var(--color-text-secondary)] hover:text-[var(--color-danger)]"
+                    onMouseDown={(e) => e.stopPropagation()}
+                    onClick={() => {
+                      if (auditioning() === take.id) stopAudition();
+                      deleteTake(props.trackId, take.id).catch(console.error);
+                    }}
+                    aria-label={`Delete take ${index() + 1}`}
+                    title="Delete take"
+                  >
+                    <svg width="8" height="8" viewBox="0 0 24 24" fill="currentColor">
+                      <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" />
+                    </svg>
+                  </button>
+                </div>
+              </div>
+            );
+          }}
+        </For>
+      </div>
+    </Show>
+  );
+};
@@ -4,48 +4,81 @@ import { PlaybackControls } from "./PlaybackControls";
 import { ZoomControls } from "./ZoomControls";
 import { EffectsMenu } from "./EffectsMenu";
 import { ExportMenu } from "./ExportMenu";
+import { MasterStrip } from "./MasterStrip";
+import { LevelMeter } from "./LevelMeter";
 import { Tooltip } from "./Tooltip";
 import { useAudioStore } from "../stores/audioStore";
 import { useAudioRecorder } from "../hooks/useAudioRecorder";
+import { useEffectChains } from "../hooks/useEffectChains";
 import { formatTime } from "../utils/time";
+import type { LoudnessTarget } from "../utils/export";
+import type { EqBand } from "../utils/parametricEq";
 
 interface ToolbarProps {
-  waveform?: ReturnType<typeof import("../hooks/useWaveform").useWaveform>;
   onImportClick: () => void;
   onExport: (
     format: "wav" | "mp3" | "ogg",
     quality: string,
-    scope: "all" | "current" | "selection"
+    scope: "all" | "current" | "selection",
+    loudness: LoudnessTarget | null
   ) => void;
   onReset: () => void;
   onUndo: () => void;
   onRedo: () => void;
+  onHistoryClick?: () => void;
+  onChainsClick?: () => void;
+  onLoudnessClick?: () => void;
+  onAnalysisClick?: () => void;
+  onSilenceClick?: () => void;
   onRecordClick: () => void;
+  onRecordingSettingsClick?: () => void;
   canUndo: boolean;
   canRedo: boolean;
   isExporting: boolean;
   hasSelection: boolean;
   recorder: ReturnType<typeof useAudioRecorder>;
-  onPlayAll?: () => void;
-  onPauseAll?: () => void;
-  onStopAll?: () => void;
-  onSeekAll?: (normalizedPosition: number) => void;
+  onPlayAll: () => void;
+  onPauseAll: () => void;
+  onNotify?: (message: string) => void;
+  onStopAll: () => void;
+  onSeekAll: (time: number) => void;
   onNormalize: (scope: "all" | "track" | "selection") => void;
+  onLoudnessNormalize: (
+    target: number,
+    truePeak: number,
+    scope: "all" | "track" | "selection"
+  ) => void;
   onAmplify: (gain: number, scope: "all" | "track" | "selection") => void;
   onSilence: (scope: "all" | "track" | "selection") => void;
   onReverse: (scope: "all" | "track" | "selection") => void;
   onFadeIn: (scope: "all" | "track" | "selection") => void;
   onFadeOut: (scope: "all" | "track" | "selection") => void;
   onReverb: (roomSize: number, wetLevel: number, scope: "all" | "track" | "selection") => void;
+  onConvolutionReverb: (
+    impulse: number,
+    preDelay: number,
+    decay: number,
+    lowCut: number,
+    highCut: number,
+    mix: number,
+    scope: "all" | "track" | "selection"
+  ) => void;
   onDelay: (
     delayTime: number,
     feedback: number,
     wetLevel: number,
     scope: "all" | "track" | "selection"
   ) => void;
-  onNoiseReduction: (reductionAmount: number, scope: "all" | "track" | "selection") => void;
+  onNoiseReduction: (
+    reductionDb: number,
+    sensitivityDb: number,
+    smoothingBands: number,
+    scope: "all" | "track" | "selection"
+  ) => void;
+  onGetNoiseProfile?: () => void;
   onChangeSpeed: (speedFactor: number, scope: "all" | "track" | "selection") => void;
-  onChangePitch: (pitchFactor: number, scope: "all" | "track" | "selection") => void;
+  onTimeStretch: (tempo: number, scope: "all" | "track" | "selection") => void;
+  onPitchShift: (semitones: number, cents: number, scope: "all" | "track" | "selection") => void;
   onCompressor: (
     threshold: number,
     ratio: number,
@@ -55,13 +88,15 @@ interface ToolbarProps {
     scope: "all" | "track" | "selection"
   ) => void;
   onLimiter: (threshold: number, release: number, scope: "all" | "track" | "selection") => void;
-  onEq: (frequency: number, gain: number, q: number, scope: "all" | "track" | "selection") => void;
+  onEq: (bands: EqBand[], scope: "all" | "track" | "selection") => void;
   onHighPassFilter: (cutoffFrequency: number, scope: "all" | "track" | "selection") => void;
   onLowPassFilter: (cutoffFrequency: number, scope: "all" | "track" | "selection") => void;
   onCut: () => void;
   onCopy: () => void;
   onPaste: () => void;
   onDelete: () => void;
+  onSplit: () => void;
+  onTrim: () => void;
   onHelpClick?: () => void;
   onSaveProject?: () => void;
   onLoadProject?: () => void;
@@ -69,6 +104,7 @@ interface ToolbarProps {
 
 export const Toolbar: Component<ToolbarProps> = (props) => {
   const { getCurrentTrack, store } = useAudioStore();
+  const effectChains = useEffectChains();
 
   const hasSelection = () => store.selection !== null;
   const hasClipboard = () => store.clipboard !== null;
@@ -123,6 +159,30 @@ export const Toolbar: Component<ToolbarProps> = (props) => {
             disabled={!props.canRedo}
             variant="secondary"
           />
+          <Show when={props.onHistoryClick}>
+            <Button
+              icon={
+                <svg
+                  width="16"
+                  height="16"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  stroke-width="2"
+                  stroke-linecap="round"
+                  stroke-linejoin="round"
+                >
+                  <path d="M3 12a9 9 0 1 0 3-6.7L3 8" />
+                  <path d="M3 3v5h5" />
+                  <path d="M12 7v5l4 2" />
+                </svg>
+              }
+              label="History"
+              onClick={props.onHistoryClick!}
+              disabled={!props.canUndo && !props.canRedo}
+              variant="secondary"
+            />
+          </Show>
         </div>
 
         <Separator />
@@ -172,6 +232,50 @@ export const Toolbar: Component<ToolbarProps> = (props) => {
             disabled={!hasSelection()}
             variant="secondary"
           />
+          <Button
+            icon={
+              <svg
+                width="16"
+                height="16"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                stroke-width="2"
+                stroke-linecap="round"
+                stroke-linejoin="round"
+              >
+                <path d="M12 2v20" />
+                <path d="M8 6H3v12h5" />
+                <path d="M16 6h5v12h-5" />
+              </svg>
+            }
+            label="Split at Cursor"
+            onClick={props.onSplit}
+            disabled={!getCurrentTrack()}
+            variant="secondary"
+          />
+          <Button
+            icon={
+              <svg
+                width="16"
+                height="16"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                stroke-width="2"
+                stroke-linecap="round"
+                stroke-linejoin="round"
+              >
+                <path d="M6 3v18" />
+                <path d="M18 3v18" />
+                <path d="M6 12h12" />
+              </svg>
+            }
+            label="Trim to Selection"
+            onClick={props.onTrim}
+            disabled={!hasSelection()}
+            variant="secondary"
+          />
         </div>
 
         <Separator />
@@ -207,13 +311,56 @@ export const Toolbar: Component<ToolbarProps> = (props) => {
               </span>
             </button>
           </Tooltip>
+          <Show when={props.onRecordingSettingsClick}>
+            <Button
+              icon={
+                <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
+                  <path d="M3 17v2h6v-2H3zM3 5v2h10V5H3zm10 16v-2h8v-2h-8v-2h-2v6h2zM7 9v2H3v2h4v2h2V9H7zm14 4v-2H11v2h10zm-6-4h2V7h4V5h-4V3h-2v6z" />
+                </svg>
+              }
+              label="Recording settings"
+              onClick={props.onRecordingSettingsClick!}
+              disabled={props.recorder.isRecording()}
+              variant="secondary"
+            />
+          </Show>
+          <Button
+            icon={
+              <svg width="16" height="16" viewBox="0 0 24 24" fill="currentColor">
+                <path d="M4 20h3V10H4v10zm6.5 0h3V4h-3v16zM17 20h3v-7h-3v7z" />
+              </svg>
+            }
+            label={props.recorder.isTestingLevels() ? "Stop level test" : "Test input levels"}
+            onClick={() =>
+              props.recorder.isTestingLevels()
+                ? props.recorder.stopLevelTest()
+                : void props.recorder.startLevelTest()
+            }
+            disabled={props.recorder.isRecording()}
+            variant="secondary"
+            classList={{
+              "border-[var(--color-primary)] text-[var(--color-primary)]":
+                props.recorder.isTestingLevels(),
+            }}
+          />
+          <Show when={props.recorder.inputAnalysers()}>
+            {(analysers) => (
+              <div class="w-24 sm:w-28">
+                <LevelMeter label="Input" analysers={analysers} active={true} bordered />
+              </div>
+            )}
+          </Show>
           <Show when={props.recorder.isRecording()}>
             <span class="text-[var(--color-recording)] text-xs sm:text-sm font-medium tabular-nums whitespace-nowrap">
               {formatTime(props.recorder.recordingDuration())}
             </span>
           </Show>
+          <Show when={props.recorder.isRecording() && props.recorder.inputClipped()}>
+            <span class="text-[var(--color-danger)] text-xs font-medium whitespace-nowrap">
+              Input clipping
+            </span>
+          </Show>
           <PlaybackControls
-            waveform={props.waveform}
             onPlayAll={props.onPlayAll}
             onPauseAll={props.onPauseAll}
             onStopAll={props.onStopAll}
@@ -223,6 +370,12 @@ export const Toolbar: Component<ToolbarProps> = (props) => {
 
         <Separator />
 
+        <div class="flex items-center gap-1 sm:gap-1.5 md:gap-2 flex-shrink-0">
+          <MasterStrip />
+        </div>
+
+        <Separator />
+
         <div class="hidden md:flex items-center gap-1 sm:gap-1.5 md:gap-2">
           <ZoomControls />
         </div>
@@ -232,23 +385,130 @@ export const Toolbar: Component<ToolbarProps> = (props) => {
         <div class="flex items-center gap-1 sm:gap-1.5 md:gap-2 flex-shrink-0">
           <EffectsMenu
             onNormalize={props.onNormalize}
+            onLoudnessNormalize={props.onLoudnessNormalize}
             onAmplify={props.onAmplify}
             onSilence={props.onSilence}
             onReverse={props.onReverse}
             onFadeIn={props.onFadeIn}
             onFadeOut={props.onFadeOut}
             onReverb={props.onReverb}
+            onConvolutionReverb={props.onConvolutionReverb}
             onDelay={props.onDelay}
             onNoiseReduction={props.onNoiseReduction}
+            onGetNoiseProfile={props.onGetNoiseProfile}
             onChangeSpeed={props.onChangeSpeed}
-            onChangePitch={props.onChangePitch}
+            onTimeStretch={props.onTimeStretch}
+            onPitchShift={props.onPitchShift}
             onCompressor={props.onCompressor}
             onLimiter={props.onLimiter}
             onEq={props.onEq}
             onHighPassFilter={props.onHighPassFilter}
             onLowPassFilter={props.onLowPassFilter}
+            onPreviewStart={props.onPauseAll}
+            onNotify={props.onNotify}
             disabled={props.isExporting || !getCurrentTrack()}
           />
+          <Show when={props.onChainsClick}>
+            <Button
+              icon={
+                <svg
+                  width="16"
+                  height="16"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  stroke-width="2"
+                  stroke-linecap="round"
+                  stroke-linejoin="round"
+                >
+                  <path d="M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71" />
+                  <path d="M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71" />
+                </svg>
+              }
+              label="Effect chains & batch processing"
+              onClick={props.onChainsClick!}
+              disabled={props.isExporting}
+              classList={{
+                "!border-[var(--color-recording)] !text-[var(--color-recording)]":
+                  effectChains.isRecording(),
+              }}
+              variant="secondary"
+            />
+          </Show>
+          <Show when={props.onLoudnessClick}>
+            <Button
+              icon={
+                <svg
+                  width="16"
+                  height="16"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  stroke-width="2"
+                  stroke-linecap="round"
+                  stroke-linejoin="round"
+                >
+                  <path d="M4 20V14" />
+                  <path d="M9 20V8" />
+                  <path d="M14 20V11" />
+                  <path d="M19 20V4" />
+                </svg>
+              }
+              label="Loudness analysis"
+              onClick={props.onLoudnessClick!}
+              disabled={store.tracks.length === 0 || props.isExporting}
+              variant="secondary"
+            />
+          </Show>
+          <Show when={props.onAnalysisClick}>
+            <Button
+              icon={
+                <svg
+                  width="16"
+                  height="16"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  stroke-width="2"
+                  stroke-linecap="round"
+                  stroke-linejoin="round"
+                >
+                  <path d="M3 3v18h18" />
+                  <path d="M7 16c2-8 4-8 6-2s4 2 6-6" />
+                </svg>
+              }
+              label="Spectrum and clipping analysis"
+              onClick={props.onAnalysisClick!}
+              disabled={store.tracks.length === 0 || props.isExporting}
+              variant="secondary"
+            />
+          </Show>
+          <Show when={props.onSilenceClick}>
+            <Button
+              icon={
+                <svg
+                  width="16"
+                  height="16"
+                  viewBox="0 0 24 24"
+                  fill="none"
+                  stroke="currentColor"
+                  stroke-width="2"
+                  stroke-linecap="round"
+                  stroke-linejoin="round"
+                >
+                  <path d="M3 12h2" />
+                  <path d="M7 8v8" />
+                  <path d="M11 12h4" />
+                  <path d="M17 6v12" />
+                  <path d="M19 12h2" />
+                </svg>
+              }
+              label="Silence detection"
+              onClick={props.onSilenceClick!}
+              disabled={!getCurrentTrack()?.audioBuffer || props.isExporting}
+              variant="secondary"
+            />
+          </Show>
         </div>
 
         <Separator />
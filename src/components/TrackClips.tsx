@@ -0,0 +1,129 @@
+import { Component, For, Show, createEffect, createSignal } from "solid-js";
+import { useAudioStore, type AudioClip, type AudioTrack } from "../stores/audioStore";
+import { clampClip, getClipDuration } from "../utils/clips";
+import { formatTime } from "../utils/time";
+
+interface TrackClipsProps {
+  track: AudioTrack;
+  pixelsPerSecond: number;
+}
+
+type ClipDragMode = "move" | "trimStart" | "trimEnd";
+
+interface ClipDrag {
+  clipId: string;
+  mode: ClipDragMode;
+  originX: number;
+  clip: AudioClip;
+}
+
+export const TrackClips: Component<TrackClipsProps> = (props) => {
+  const { updateClip } = useAudioStore();
+  const [drag, setDrag] = createSignal<ClipDrag | null>(null);
+  const [preview, setPreview] = createSignal<AudioClip | null>(null);
+
+  const getDraggedClip = (drag: ClipDrag, clientX: number): AudioClip => {
+    const delta = (clientX - drag.originX) / props.pixelsPerSecond;
+    const { clip } = drag;
+
+    if (drag.mode === "move") {
+      return clampClip({ ...clip, start: clip.start + delta });
+    }
+    if (drag.mode === "trimStart") {
+      const shift = Math.max(-clip.start, delta);
+      const trimmed = clampClip({ ...clip, trimStart: clip.trimStart + shift });
+      return { ...trimmed, start: clip.start + (trimmed.trimStart - clip.trimStart) };
+    }
+    return clampClip({ ...clip, trimEnd: clip.trimEnd + delta });
+  };
+
+  const handleMouseDown = (e: MouseEvent, clip: AudioClip, mode: ClipDragMode) => {
+    if (props.pixelsPerSecond <= 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setDrag({ clipId: clip.id, mode, originX: e.clientX, clip: { ...clip } });
+    setPreview({ ...clip });
+  };
+
+  createEffect(() => {
+    const current = drag();
+    if (!current) return;
+
+    const handleMouseMove = (e: MouseEvent) => {
+      e.preventDefault();
+      setPreview(getDraggedClip(current, e.clientX));
+    };
+
+    const handleMouseUp = (e: MouseEvent) => {
+      const result = getDraggedClip(current, e.clientX);
+      setDrag(null);
+      setPreview(null);
+      if (
+        result.start !== current.clip.start ||
+        result.trimStart !== current.clip.trimStart ||
+        result.trimEnd !== current.clip.trimEnd
+      ) {
+        updateClip(props.track.id, current.clipId, {
+          start: result.start,
+          trimStart: result.trimStart,
+          trimEnd: result.trimEnd,
+        }).catch(console.error);
+      }
+    };
+
+    document.addEventListener("mousemove", handleMouseMove, { passive: false });
+    document.addEventListener("mouseup", handleMouseUp);
+
+    return () => {
+      document.removeEventListener("mousemove", handleMouseMove);
+      document.removeEventListener("mouseup", handleMouseUp);
+    };
+  });
+
+  return (
+    <Show when={props.pixelsPerSecond > 0}>
+      <For each={props.track.clips}>
+        {(clip) => {
+          const displayed = () => {
+            const p = preview();
+            return p && p.id === clip.id ? p : clip;
+          };
+          const gainDb = () => 20 * Math.log10(Math.max(displayed().gain, 0.0001));
+
+          return (
+            <div
+              class="absolute top-0 bottom-0 border-x border-[var(--color-primary)]/60 z-[12] pointer-events-none"
+              classList={{
+                "bg-[var(--color-primary)]/10": drag()?.clipId === clip.id,
+              }}
+              style={{
+                left: `${displayed().start * props.pixelsPerSecond}px`,
+                width: `${getClipDuration(displayed()) * props.pixelsPerSecond}px`,
+              }}
+            >
+              <div
+                class="absolute top-0 left-0 right-0 h-4 flex items-center bg-[var(--color-primary)]/30 pointer-events-auto cursor-grab active:cursor-grabbing select-none"
+                onMouseDown={(e) => handleMouseDown(e, clip, "move")}
+                onClick={(e) => e.stopPropagation()}
+                title="Drag to move clip, drag the edges to trim"
+              >
+                <div
+                  class="h-full w-1.5 flex-shrink-0 cursor-ew-resize bg-[var(--color-primary)]/60 hover:bg-[var(--color-primary)]"
+                  onMouseDown={(e) => handleMouseDown(e, clip, "trimStart")}
+                />
+                <span class="flex-1 min-w-0 px-1 truncate text-[0.625rem] text-[var(--color-text)] tabular-nums">
+                  {formatTime(displayed().start)}
+                  <Show when={displayed().gain !== 1}> · {gainDb().toFixed(1)} dB</Show>
+                </span>
+                <div
+                  class="h-full w-1.5 flex-shrink-0 cursor-ew-resize bg-[var(--color-primary)]/60 hover:bg-[var(--color-primary)]"
+                  onMouseDown={(e) => handleMouseDown(e, clip, "trimEnd")}
+                />
+              </div>
+            </div>
+          );
+        }}
+      </For>
+    </Show>
+  );
+};
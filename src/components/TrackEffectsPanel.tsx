@@ -0,0 +1,260 @@
+import { Component, For, Index, Show, createSignal } from "solid-js";
+import { Portal } from "solid-js/web";
+import { useAudioStore } from "../stores/audioStore";
+import { useEffectPresets } from "../hooks/useEffectPresets";
+import {
+  TRACK_EFFECTS,
+  formatEffectParam,
+  getEffectParamDefinitions,
+  hasActiveEffects,
+  type TrackEffect,
+  type TrackEffectType,
+} from "../utils/trackEffects";
+
+interface TrackEffectsPanelProps {
+  trackId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const effectTypes = Object.keys(TRACK_EFFECTS) as TrackEffectType[];
+
+const iconButtonClass =
+  "p-1 rounded bg-transparent border-0 text-[var(--color-text-secondary)] cursor-pointer transition-colors hover:bg-[var(--color-border)] hover:text-[var(--color-text)] disabled:opacity-40 disabled:cursor-not-allowed flex items-center justify-center";
+
+export const TrackEffectsPanel: Component<TrackEffectsPanelProps> = (props) => {
+  const {
+    store,
+    addTrackEffect,
+    updateTrackEffect,
+    removeTrackEffect,
+    moveTrackEffect,
+    freezeTrackEffects,
+  } = useAudioStore();
+  const presets = useEffectPresets();
+  const [isFreezing, setIsFreezing] = createSignal(false);
+
+  const track = () => store.tracks.find((t) => t.id === props.trackId);
+  const effects = () => track()?.effects ?? [];
+
+  const handleFreeze = async () => {
+    if (isFreezing()) return;
+    setIsFreezing(true);
+    try {
+      await freezeTrackEffects(props.trackId);
+    } finally {
+      setIsFreezing(false);
+    }
+  };
+
+  const EffectCard = (cardProps: { effect: TrackEffect; index: number }) => {
+    const definition = () => TRACK_EFFECTS[cardProps.effect.type];
+    const params = () =>
+      getEffectParamDefinitions(
+        cardProps.effect.type,
+        cardProps.effect.params,
+        definition().params
+      );
+    const effectPresets = () => presets.getPresets(cardProps.effect.type);
+    const matchingPreset = () =>
+      effectPresets().find((preset) =>
+        params().every(
+          (param) =>
+            preset.params[param.key] === (cardProps.effect.params[param.key] ?? param.defaultValue)
+        )
+      );
+    return (
+      <li
+        class="border border-[var(--color-border)] rounded-md bg-[var(--color-bg)]"
+        classList={{ "opacity-60": cardProps.effect.bypass }}
+      >
+        <div class="flex items-center gap-2 px-3 py-2 border-b border-[var(--color-border)]">
+          <span class="w-5 text-xs tabular-nums text-[var(--color-text-secondary)]">
+            {cardProps.index + 1}
+          </span>
+          <span class="flex-1 min-w-0 truncate text-sm font-medium text-[var(--color-text)]">
+            {definition().label}
+          </span>
+          <button
+            type="button"
+            class="px-2 py-0.5 rounded text-[0.6875rem] font-medium border cursor-pointer transition-colors duration-150"
+            classList={{
+              "bg-[var(--color-primary)] text-white border-[var(--color-primary)]":
+                !cardProps.effect.bypass,
+              "bg-transparent text-[var(--color-text-secondary)] border-[var(--color-border)] hover:bg-[var(--color-hover)]":
+                cardProps.effect.bypass,
+            }}
+            onClick={() =>
+              updateTrackEffect(props.trackId, cardProps.effect.id, {
+                bypass: !cardProps.effect.bypass,
+              })
+            }
+            aria-pressed={!cardProps.effect.bypass}
+            title={cardProps.effect.bypass ? "Bypassed" : "Active"}
+          >
+            {cardProps.effect.bypass ? "Off" : "On"}
+          </button>
+          <button
+            type="button"
+            class={iconButtonClass}
+            onClick={() => moveTrackEffect(props.trackId, cardProps.index, cardProps.index - 1)}
+            disabled={cardProps.index === 0}
+            aria-label="Move up"
+          >
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor">
+              <path d="M7.41 15.41L12 10.83l4.59 4.58L18 14l-6-6-6 6z" />
+            </svg>
+          </button>
+          <button
+            type="button"
+            class={iconButtonClass}
+            onClick={() => moveTrackEffect(props.trackId, cardProps.index, cardProps.index + 1)}
+            disabled={cardProps.index === effects().length - 1}
+            aria-label="Move down"
+          >
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor">
+              <path d="M7.41 8.59L12 13.17l4.59-4.58L18 10l-6 6-6-6z" />
+            </svg>
+          </button>
+          <button
+            type="button"
+            class={`${iconButtonClass} hover:text-[var(--color-danger)]`}
+            onClick={() => removeTrackEffect(props.trackId, cardProps.effect.id)}
+            aria-label="Remove effect"
+          >
+            <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor">
+              <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" />
+            </svg>
+          </button>
+        </div>
+        <div class="px-3 py-2 flex flex-col gap-2">
+          <Show when={effectPresets().length > 0}>
+            <select
+              class="w-full py-1 px-1.5 bg-[var(--color-bg)] border border-[var(--color-border)] rounded text-[var(--color-text)] text-[0.75rem] cursor-pointer focus:outline-none focus:border-[var(--color-primary)]"
+              value={matchingPreset()?.id ?? ""}
+              onChange={(e) => {
+                const preset = effectPresets().find((p) => p.id === e.currentTarget.value);
+                if (preset) {
+                  updateTrackEffect(props.trackId, cardProps.effect.id, { params: preset.params });
+                }
+              }}
+              aria-label="Preset"
+            >
+              <option value="">Custom settings</option>
+              <For each={effectPresets()}>
+                {(preset) => <option value={preset.id}>{preset.name}</option>}
+              </For>
+            </select>
+          </Show>
+          <For each={params()}>
+            {(param) => {
+              const value = () => cardProps.effect.params[param.key] ?? param.defaultValue;
+              return (
+                <label class="flex flex-col gap-1">
+                  <span class="flex items-center justify-between text-[0.75rem] text-[var(--color-text-secondary)]">
+                    <span>{param.label}</span>
+                    <span class="tabular-nums text-[var(--color-text)]">
+                      {formatEffectParam(param, value())}
+                    </span>
+                  </span>
+                  <input
+                    type="range"
+                    min={param.min}
+                    max={param.max}
+                    step={param.step}
+                    value={value()}
+                    onInput={(e) =>
+                      updateTrackEffect(props.trackId, cardProps.effect.id, {
+                        params: { [param.key]: parseFloat(e.currentTarget.value) },
+                      })
+                    }
+                    class="w-full accent-[var(--color-primary)] cursor-pointer"
+                  />
+                </label>
+              );
+            }}
+          </For>
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <Show when={props.isOpen && track()}>
+      <Portal>
+        <div
+          class="fixed inset-0 flex items-center justify-center backdrop-blur-sm bg-black/50 z-[2000]"
+          onClick={(e) => {
+            e.stopPropagation();
+            props.onClose();
+          }}
+        >
+          <div
+            class="bg-[var(--color-bg-elevated)] border border-[var(--color-border)] rounded-lg sm:rounded-xl max-w-[480px] w-[95%] sm:w-[90%] max-h-[85vh] sm:max-h-[80vh] overflow-hidden flex flex-col"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div class="flex items-center justify-between py-4 sm:py-6 px-4 sm:px-6 border-b border-[var(--color-border)]">
+              <h2 class="m-0 text-lg sm:text-xl font-semibold text-[var(--color-text)] truncate">
+                Effects on {track()?.name}
+              </h2>
+              <button
+                class="flex-shrink-0 bg-none border-0 text-[var(--color-text-secondary)] cursor-pointer p-2 flex items-center justify-center rounded-md transition-all duration-150 hover:bg-[var(--color-border)] hover:text-[var(--color-text)]"
+                onClick={props.onClose}
+                aria-label="Close"
+              >
+                <svg width="20" height="20" viewBox="0 0 24 24" fill="currentColor">
+                  <path d="M19 6.41L17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" />
+                </svg>
+              </button>
+            </div>
+            <div class="flex-1 overflow-y-auto p-3 sm:p-4">
+              <Show
+                when={effects().length > 0}
+                fallback={
+                  <p class="m-0 py-6 text-center text-sm text-[var(--color-text-secondary)]">
+                    No effects yet. Add one below; it is applied live during playback and export
+                    without changing the recorded audio.
+                  </p>
+                }
+              >
+                <ol class="m-0 p-0 list-none flex flex-col gap-2">
+                  <Index each={effects()}>
+                    {(effect, index) => <EffectCard effect={effect()} index={index} />}
+                  </Index>
+                </ol>
+              </Show>
+            </div>
+            <div class="px-4 sm:px-6 py-3 border-t border-[var(--color-border)] flex flex-col gap-3">
+              <div class="flex flex-wrap gap-1.5">
+                <For each={effectTypes}>
+                  {(type) => (
+                    <button
+                      type="button"
+                      class="px-2 py-1 rounded text-[0.75rem] font-medium border border-[var(--color-border)] bg-[var(--color-bg)] text-[var(--color-text)] cursor-pointer transition-colors duration-150 hover:bg-[var(--color-hover)] hover:border-[var(--color-border-hover)]"
+                      onClick={() => addTrackEffect(props.trackId, type)}
+                    >
+                      + {TRACK_EFFECTS[type].label}
+                    </button>
+                  )}
+                </For>
+              </div>
+              <div class="flex items-center justify-between gap-3">
+                <span class="text-xs text-[var(--color-text-secondary)]">
+                  Freeze renders the active effects into the track audio.
+                </span>
+                <button
+                  type="button"
+                  class="flex-shrink-0 py-1.5 px-3 bg-[var(--color-primary)] text-white border-0 rounded text-[0.8125rem] font-medium cursor-pointer transition-all duration-150 hover:bg-[var(--color-primary-hover)] disabled:opacity-50 disabled:cursor-not-allowed"
+                  onClick={handleFreeze}
+                  disabled={isFreezing() || !hasActiveEffects(effects())}
+                >
+                  {isFreezing() ? "Freezing..." : "Freeze"}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      </Portal>
+    </Show>
+  );
+};
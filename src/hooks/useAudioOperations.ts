@@ -1,208 +1,337 @@
 import { createSignal } from "solid-js";
-import { useAudioStore } from "../stores/audioStore";
-import { audioOperations } from "../utils/audioOperations";
-import { mergeAudioBuffers } from "../utils/audioBuffer";
+import { renderPendingTracks, useAudioStore } from "../stores/audioStore";
 import { audioEffects } from "../utils/audioEffects";
+import type { ChainStepType } from "../utils/effectChains";
+import { encodeEqBands, type EqBand } from "../utils/parametricEq";
+import { useEffectChains } from "./useEffectChains";
+import { formatDuration } from "../utils/time";
+import { isAbortError } from "../utils/error";
+import type { SilentRegion } from "../utils/analysisDsp";
+import { encodeNoiseProfile } from "../utils/spectralDsp";
+import { createTrackFromClips } from "../utils/trackHelpers";
+import {
+  clearClipRange,
+  createClip,
+  getClipsDuration,
+  insertClips,
+  invertRanges,
+  layoutClipsOnBuffer,
+  removeClipRange,
+  renderClips,
+  sliceClips,
+  splitClipsAt,
+  trimClipsToRange,
+} from "../utils/clips";
 
 export const useAudioOperations = () => {
-  const { store, getCurrentTrack, setSelection, setClipboard, setAudioStore, saveToHistory } =
-    useAudioStore();
+  const {
+    store,
+    getCurrentTrack,
+    addTracks,
+    setSelection,
+    setClipboard,
+    saveToHistory,
+    setTrackClips,
+    setNoiseProfile,
+  } = useAudioStore();
+  const { recordStep } = useEffectChains();
   const [isLoading, setIsLoading] = createSignal(false);
+  const [effectProgress, setEffectProgress] = createSignal<number | null>(null);
+  let effectController: AbortController | null = null;
 
-  const updateTrackAfterOperation = async (
-    trackId: string,
-    newBuffer: AudioBuffer,
+  const handleCut = async (
     waveformRef: () => ReturnType<typeof import("./useWaveform").useWaveform> | null
   ) => {
-    const trackIndex = store.tracks.findIndex((t) => t.id === trackId);
-    if (trackIndex === -1) return;
-
-    const track = store.tracks[trackIndex];
-    if (!track) return;
-
-    const oldUrl = track.audioUrl;
-    const blob = await audioOperations.audioBufferToBlob(newBuffer);
-    const newUrl = URL.createObjectURL(blob);
-
-    setAudioStore("tracks", (tracks) => {
-      const newTracks = [...tracks];
-      newTracks[trackIndex] = {
-        ...track,
-        audioBuffer: newBuffer,
-        audioUrl: newUrl,
-        duration: newBuffer.duration,
-      };
-      return newTracks;
-    });
+    const currentTrack = getCurrentTrack();
+    if (!currentTrack || !store.selection) return;
+
+    setIsLoading(true);
+    try {
+      const { start, end } = store.selection;
+      await saveToHistory(`Cut ${formatDuration(end - start)} from ${currentTrack.name}`, [
+        currentTrack.id,
+      ]);
 
-    if (oldUrl) {
-      URL.revokeObjectURL(oldUrl);
+      setClipboard(sliceClips(currentTrack.clips, start, end));
+      setTrackClips(currentTrack.id, removeClipRange(currentTrack.clips, start, end));
+
+      setSelection(null);
+      waveformRef()?.clearSelection();
+    } finally {
+      setIsLoading(false);
     }
+  };
+
+  const handleCopy = async (
+    waveformRef: () => ReturnType<typeof import("./useWaveform").useWaveform> | null
+  ) => {
+    const currentTrack = getCurrentTrack();
+    if (!currentTrack || !store.selection) return;
 
+    setClipboard(sliceClips(currentTrack.clips, store.selection.start, store.selection.end));
     setSelection(null);
     waveformRef()?.clearSelection();
   };
 
-  const handleCut = async (
+  const handlePaste = async (
     waveformRef: () => ReturnType<typeof import("./useWaveform").useWaveform> | null
   ) => {
     const currentTrack = getCurrentTrack();
-    if (!currentTrack?.audioBuffer || !store.selection) return;
+    if (!currentTrack || !store.clipboard?.length) return;
 
     setIsLoading(true);
     try {
-      await saveToHistory();
-      setClipboard(null);
-
-      const copiedBuffer = await audioOperations.copy(
-        currentTrack.audioBuffer,
-        store.selection.start,
-        store.selection.end
+      await saveToHistory(
+        `Paste ${formatDuration(getClipsDuration(store.clipboard))} into ${currentTrack.name}`,
+        [currentTrack.id]
       );
-      setClipboard(copiedBuffer);
 
-      const { before, after } = await audioOperations.cut(
-        currentTrack.audioBuffer,
-        store.selection.start,
-        store.selection.end
+      setTrackClips(
+        currentTrack.id,
+        insertClips(currentTrack.clips, store.clipboard, store.currentTime)
       );
 
-      const newBuffer = await mergeAudioBuffers(
-        before,
-        after,
-        currentTrack.audioBuffer.numberOfChannels,
-        currentTrack.audioBuffer.sampleRate
-      );
-
-      await updateTrackAfterOperation(currentTrack.id, newBuffer, waveformRef);
+      setSelection(null);
+      waveformRef()?.clearSelection();
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleCopy = async (
+  const handleDelete = async (
     waveformRef: () => ReturnType<typeof import("./useWaveform").useWaveform> | null
   ) => {
     const currentTrack = getCurrentTrack();
-    if (!currentTrack?.audioBuffer || !store.selection) return;
+    if (!currentTrack || !store.selection) return;
 
-    const copiedBuffer = await audioOperations.copy(
-      currentTrack.audioBuffer,
-      store.selection.start,
-      store.selection.end
-    );
+    setIsLoading(true);
+    try {
+      const { start, end } = store.selection;
+      await saveToHistory(`Delete ${formatDuration(end - start)} from ${currentTrack.name}`, [
+        currentTrack.id,
+      ]);
 
-    setClipboard(copiedBuffer);
-    setSelection(null);
-    waveformRef()?.clearSelection();
+      setTrackClips(currentTrack.id, removeClipRange(currentTrack.clips, start, end));
+
+      setSelection(null);
+      waveformRef()?.clearSelection();
+    } finally {
+      setIsLoading(false);
+    }
   };
 
-  const handlePaste = async (
+  const handleSplit = async () => {
+    const currentTrack = getCurrentTrack();
+    if (!currentTrack) return;
+
+    const clips = splitClipsAt(currentTrack.clips, store.currentTime);
+    if (clips.length === currentTrack.clips.length) return;
+
+    await saveToHistory(`Split clip in ${currentTrack.name}`, [currentTrack.id]);
+    setTrackClips(currentTrack.id, clips);
+  };
+
+  const handleTrim = async (
     waveformRef: () => ReturnType<typeof import("./useWaveform").useWaveform> | null
   ) => {
     const currentTrack = getCurrentTrack();
-    if (!currentTrack?.audioBuffer || !store.clipboard) return;
+    if (!currentTrack || !store.selection) return;
 
     setIsLoading(true);
     try {
-      const trackId = currentTrack.id;
-      await saveToHistory();
-
-      const insertTime = store.currentTime;
-      const newBuffer = await audioOperations.paste(
-        currentTrack.audioBuffer,
-        store.clipboard,
-        insertTime
+      await saveToHistory(`Trim ${currentTrack.name} to selection`, [currentTrack.id]);
+
+      setTrackClips(
+        currentTrack.id,
+        trimClipsToRange(currentTrack.clips, store.selection.start, store.selection.end)
       );
 
-      await updateTrackAfterOperation(trackId, newBuffer, waveformRef);
+      setSelection(null);
+      waveformRef()?.clearSelection();
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleDelete = async (
+  const handleTruncateSilence = async (
+    regions: SilentRegion[],
+    maxLength: number,
     waveformRef: () => ReturnType<typeof import("./useWaveform").useWaveform> | null
-  ) => {
+  ): Promise<number> => {
     const currentTrack = getCurrentTrack();
-    if (!currentTrack?.audioBuffer || !store.selection) return;
+    const truncated = regions.filter(({ start, end }) => end - start > maxLength);
+    if (!currentTrack || truncated.length === 0) return 0;
+
+    await saveToHistory(`Truncate silence in ${currentTrack.name}`, [currentTrack.id]);
+    setTrackClips(
+      currentTrack.id,
+      truncated.reduceRight(
+        (clips, { start, end }) =>
+          removeClipRange(clips, start + maxLength / 2, end - maxLength / 2),
+        currentTrack.clips
+      )
+    );
 
-    setIsLoading(true);
-    try {
-      await saveToHistory();
+    setSelection(null);
+    waveformRef()?.clearSelection();
+    return truncated.reduce((total, { start, end }) => total + end - start - maxLength, 0);
+  };
 
-      const { before, after } = await audioOperations.cut(
-        currentTrack.audioBuffer,
-        store.selection.start,
-        store.selection.end
-      );
+  const handleSplitOnSilence = async (
+    regions: SilentRegion[],
+    target: "clips" | "tracks",
+    waveformRef: () => ReturnType<typeof import("./useWaveform").useWaveform> | null
+  ): Promise<number> => {
+    const currentTrack = getCurrentTrack();
+    if (!currentTrack || regions.length === 0) return 0;
 
-      const newBuffer = await mergeAudioBuffers(
-        before,
-        after,
-        currentTrack.audioBuffer.numberOfChannels,
-        currentTrack.audioBuffer.sampleRate
-      );
+    const segments = invertRanges(regions, currentTrack.duration);
+    let count = segments.length;
+    setIsLoading(true);
+    try {
+      if (target === "clips") {
+        await saveToHistory(`Split ${currentTrack.name} at silences`, [currentTrack.id]);
+        setTrackClips(
+          currentTrack.id,
+          regions.reduce(
+            (clips, { start, end }) => clearClipRange(clips, start, end),
+            currentTrack.clips
+          )
+        );
+      } else {
+        const tracks = segments.flatMap(({ start, end }, index) => {
+          const clips = trimClipsToRange(currentTrack.clips, start, end)
+            .filter((clip) => clip.buffer !== null)
+            .map((clip) => ({ ...clip, id: crypto.randomUUID() }));
+          return clips.length > 0
+            ? [createTrackFromClips(clips, `${currentTrack.name} ${index + 1}`, currentTrack)]
+            : [];
+        });
+        await addTracks(tracks, `Split ${currentTrack.name} into ${tracks.length} tracks`);
+        count = tracks.length;
+      }
 
-      await updateTrackAfterOperation(currentTrack.id, newBuffer, waveformRef);
+      setSelection(null);
+      waveformRef()?.clearSelection();
+      return count;
     } finally {
       setIsLoading(false);
     }
   };
 
   const applyEffect = async (
+    effectName: string,
     scope: "all" | "track" | "selection",
     waveformRef: (trackId: string) => ReturnType<typeof import("./useWaveform").useWaveform> | null,
-    effectFn: (buffer: AudioBuffer, startTime?: number, endTime?: number) => Promise<AudioBuffer>
+    effectFn: (
+      effects: typeof audioEffects,
+      buffer: AudioBuffer,
+      startTime?: number,
+      endTime?: number
+    ) => Promise<AudioBuffer>,
+    step?: { type: ChainStepType; params?: Record<string, number> }
   ) => {
+    const targetTrackIds =
+      scope === "all"
+        ? store.tracks.map((t) => t.id)
+        : store.currentTrackId
+          ? [store.currentTrackId]
+          : [];
+    const targets = targetTrackIds.flatMap((trackId) => {
+      const track = store.tracks.find((t) => t.id === trackId);
+      const waveform = waveformRef(trackId);
+      return track && track.clips.length > 0 && waveform
+        ? [{ trackId, waveform, clips: track.clips }]
+        : [];
+    });
+    if (targets.length === 0) return;
+
+    const controller = new AbortController();
+    effectController = controller;
     setIsLoading(true);
+    setEffectProgress(0);
     try {
-      await saveToHistory();
+      const selection = scope === "selection" ? store.selection : null;
+      const progress = targets.map(() => 0);
+      const results = await Promise.all(
+        targets.map(async ({ clips }, index) => {
+          const source = renderClips(clips);
+          if (!source) return clips;
+
+          const effects = audioEffects.withOptions({
+            signal: controller.signal,
+            onProgress: (value) => {
+              progress[index] = value;
+              setEffectProgress(progress.reduce((sum, p) => sum + p, 0) / targets.length);
+            },
+          });
+          const result = selection
+            ? await effectFn(effects, source, selection.start, selection.end)
+            : await effectFn(effects, source);
+          const keepsLayout = step?.type !== "reverse" && result.length === source.length;
+          return keepsLayout ? layoutClipsOnBuffer(clips, result) : [createClip(result)];
+        })
+      );
 
-      if (scope === "all") {
-        for (const track of store.tracks) {
-          if (!track.audioBuffer) continue;
-          const waveform = waveformRef(track.id);
-          if (!waveform) continue;
+      const targetName =
+        scope === "all"
+          ? "All Tracks"
+          : `${scope === "selection" ? "selection in " : ""}${getCurrentTrack()?.name ?? "track"}`;
+      await saveToHistory(
+        `${effectName} on ${targetName}`,
+        targets.map((t) => t.trackId)
+      );
 
-          const newBuffer = await effectFn(track.audioBuffer);
-          await updateTrackAfterOperation(track.id, newBuffer, () => waveform);
-        }
-      } else {
-        const targetTrackId =
-          scope === "selection" && store.selection ? store.currentTrackId : store.currentTrackId;
-        if (!targetTrackId) return;
-
-        const targetTrack = store.tracks.find((t) => t.id === targetTrackId);
-        if (!targetTrack?.audioBuffer) return;
-
-        const waveform = waveformRef(targetTrackId);
-        if (!waveform) return;
-
-        let newBuffer: AudioBuffer;
-        if (scope === "selection" && store.selection) {
-          newBuffer = await effectFn(
-            targetTrack.audioBuffer,
-            store.selection.start,
-            store.selection.end
-          );
-        } else {
-          newBuffer = await effectFn(targetTrack.audioBuffer);
-        }
-
-        await updateTrackAfterOperation(targetTrackId, newBuffer, () => waveform);
+      for (const [index, { trackId, waveform }] of targets.entries()) {
+        setTrackClips(trackId, results[index]!);
+        waveform.clearSelection();
       }
+      setSelection(null);
+
+      if (step) {
+        recordStep(step.type, step.params);
+      }
+    } catch (error) {
+      if (!isAbortError(error)) throw error;
     } finally {
+      if (effectController === controller) {
+        effectController = null;
+      }
+      setEffectProgress(null);
       setIsLoading(false);
     }
   };
 
+  const cancelEffect = () => {
+    effectController?.abort();
+  };
+
   const handleNormalize = async (
     scope: "all" | "track" | "selection",
     waveformRef: (trackId: string) => ReturnType<typeof import("./useWaveform").useWaveform> | null
   ) => {
-    await applyEffect(scope, waveformRef, (buffer, start, end) =>
-      audioEffects.normalize(buffer, start, end)
+    await applyEffect(
+      "Normalize",
+      scope,
+      waveformRef,
+      (effects, buffer, start, end) => effects.normalize(buffer, start, end),
+      { type: "normalize" }
+    );
+  };
+
+  const handleLoudnessNormalize = async (
+    scope: "all" | "track" | "selection",
+    waveformRef: (trackId: string) => ReturnType<typeof import("./useWaveform").useWaveform> | null,
+    target: number,
+    truePeak: number
+  ) => {
+    await applyEffect(
+      "Loudness Normalize",
+      scope,
+      waveformRef,
+      (effects, buffer, start, end) =>
+        effects.loudnessNormalize(buffer, target, truePeak, start, end),
+      { type: "loudnessNormalize", params: { target, truePeak } }
     );
   };
 
@@ -211,8 +340,12 @@ export const useAudioOperations = () => {
     waveformRef: (trackId: string) => ReturnType<typeof import("./useWaveform").useWaveform> | null,
     gain: number
   ) => {
-    await applyEffect(scope, waveformRef, (buffer, start, end) =>
-      audioEffects.amplify(buffer, gain, start, end)
+    await applyEffect(
+      "Amplify",
+      scope,
+      waveformRef,
+      (effects, buffer, start, end) => effects.amplify(buffer, gain, start, end),
+      { type: "amplify", params: { gain } }
     );
   };
 
@@ -221,8 +354,8 @@ export const useAudioOperations = () => {
     waveformRef: (trackId: string) => ReturnType<typeof import("./useWaveform").useWaveform> | null
   ) => {
     if (scope !== "selection" || !store.selection) return;
-    await applyEffect(scope, waveformRef, (buffer, start, end) =>
-      audioEffects.silence(buffer, start!, end!)
+    await applyEffect("Silence", scope, waveformRef, (effects, buffer, start, end) =>
+      effects.silence(buffer, start!, end!)
     );
   };
 
@@ -230,8 +363,12 @@ export const useAudioOperations = () => {
     scope: "all" | "track" | "selection",
     waveformRef: (trackId: string) => ReturnType<typeof import("./useWaveform").useWaveform> | null
   ) => {
-    await applyEffect(scope, waveformRef, (buffer, start, end) =>
-      audioEffects.reverse(buffer, start, end)
+    await applyEffect(
+      "Reverse",
+      scope,
+      waveformRef,
+      (effects, buffer, start, end) => effects.reverse(buffer, start, end),
+      { type: "reverse" }
     );
   };
 
@@ -240,8 +377,15 @@ export const useAudioOperations = () => {
     waveformRef: (trackId: string) => ReturnType<typeof import("./useWaveform").useWaveform> | null,
     fadeDuration?: number
   ) => {
-    await applyEffect(scope, waveformRef, (buffer, start, end) =>
-      audioEffects.fadeIn(buffer, fadeDuration, start, end)
+    await applyEffect(
+      "Fade In",
+      scope,
+      waveformRef,
+      (effects, buffer, start, end) => effects.fadeIn(buffer, fadeDuration, start, end),
+      {
+        type: "fadeIn",
+        params: fadeDuration !== undefined ? { duration: fadeDuration } : undefined,
+      }
     );
   };
 
@@ -250,8 +394,15 @@ export const useAudioOperations = () => {
     waveformRef: (trackId: string) => ReturnType<typeof import("./useWaveform").useWaveform> | null,
     fadeDuration?: number
   ) => {
-    await applyEffect(scope, waveformRef, (buffer, start, end) =>
-      audioEffects.fadeOut(buffer, fadeDuration, start, end)
+    await applyEffect(
+      "Fade Out",
+      scope,
+      waveformRef,
+      (effects, buffer, start, end) => effects.fadeOut(buffer, fadeDuration, start, end),
+      {
+        type: "fadeOut",
+        params: fadeDuration !== undefined ? { duration: fadeDuration } : undefined,
+      }
     );
   };
 
@@ -261,8 +412,42 @@ export const useAudioOperations = () => {
     roomSize: number,
     wetLevel: number
   ) => {
-    await applyEffect(scope, waveformRef, (buffer, start, end) =>
-      audioEffects.reverb(buffer, roomSize, wetLevel, start, end)
+    await applyEffect(
+      "Reverb",
+      scope,
+      waveformRef,
+      (effects, buffer, start, end) => effects.reverb(buffer, roomSize, wetLevel, start, end),
+      { type: "reverb", params: { roomSize, wetLevel } }
+    );
+  };
+
+  const handleConvolutionReverb = async (
+    scope: "all" | "track" | "selection",
+    waveformRef: (trackId: string) => ReturnType<typeof import("./useWaveform").useWaveform> | null,
+    impulse: number,
+    preDelay: number,
+    decay: number,
+    lowCut: number,
+    highCut: number,
+    mix: number
+  ) => {
+    await applyEffect(
+      "Convolution Reverb",
+      scope,
+      waveformRef,
+      (effects, buffer, start, end) =>
+        effects.convolutionReverb(
+          buffer,
+          impulse,
+          preDelay,
+          decay,
+          lowCut,
+          highCut,
+          mix,
+          start,
+          end
+        ),
+      { type: "convolutionReverb", params: { impulse, preDelay, decay, lowCut, highCut, mix } }
     );
   };
 
@@ -273,38 +458,105 @@ export const useAudioOperations = () => {
     feedback: number,
     wetLevel: number
   ) => {
-    await applyEffect(scope, waveformRef, (buffer, start, end) =>
-      audioEffects.delay(buffer, delayTime, feedback, wetLevel, start, end)
+    await applyEffect(
+      "Delay",
+      scope,
+      waveformRef,
+      (effects, buffer, start, end) =>
+        effects.delay(buffer, delayTime, feedback, wetLevel, start, end),
+      { type: "delay", params: { delayTime, feedback, wetLevel } }
     );
   };
 
   const handleNoiseReduction = async (
     scope: "all" | "track" | "selection",
     waveformRef: (trackId: string) => ReturnType<typeof import("./useWaveform").useWaveform> | null,
-    reductionAmount: number
+    reductionDb: number,
+    sensitivityDb: number,
+    smoothingBands: number
   ) => {
-    await applyEffect(scope, waveformRef, (buffer, start, end) =>
-      audioEffects.noiseReduction(buffer, reductionAmount, start, end)
+    const profile = store.noiseProfile;
+    await applyEffect(
+      "Noise Reduction",
+      scope,
+      waveformRef,
+      (effects, buffer, start, end) =>
+        effects.noiseReduction(
+          buffer,
+          reductionDb,
+          sensitivityDb,
+          smoothingBands,
+          profile,
+          start,
+          end
+        ),
+      {
+        type: "noiseReduction",
+        params: {
+          reduction: reductionDb,
+          sensitivity: sensitivityDb,
+          smoothing: smoothingBands,
+          ...(profile ? encodeNoiseProfile(profile) : {}),
+        },
+      }
     );
   };
 
+  const handleGetNoiseProfile = async (): Promise<boolean> => {
+    await renderPendingTracks(store.currentTrackId ? [store.currentTrackId] : []);
+    const currentTrack = getCurrentTrack();
+    if (!currentTrack?.audioBuffer || !store.selection) return false;
+
+    setIsLoading(true);
+    try {
+      const { start, end } = store.selection;
+      setNoiseProfile(await audioEffects.learnNoiseProfile(currentTrack.audioBuffer, start, end));
+      return true;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleChangeSpeed = async (
     scope: "all" | "track" | "selection",
     waveformRef: (trackId: string) => ReturnType<typeof import("./useWaveform").useWaveform> | null,
     speedFactor: number
   ) => {
-    await applyEffect(scope, waveformRef, (buffer, start, end) =>
-      audioEffects.changeSpeed(buffer, speedFactor, start, end)
+    await applyEffect(
+      "Change Speed",
+      scope,
+      waveformRef,
+      (effects, buffer, start, end) => effects.changeSpeed(buffer, speedFactor, start, end),
+      { type: "changeSpeed", params: { factor: speedFactor } }
+    );
+  };
+
+  const handleTimeStretch = async (
+    scope: "all" | "track" | "selection",
+    waveformRef: (trackId: string) => ReturnType<typeof import("./useWaveform").useWaveform> | null,
+    tempo: number
+  ) => {
+    await applyEffect(
+      "Time Stretch",
+      scope,
+      waveformRef,
+      (effects, buffer, start, end) => effects.timeStretch(buffer, tempo, start, end),
+      { type: "timeStretch", params: { factor: tempo } }
     );
   };
 
-  const handleChangePitch = async (
+  const handlePitchShift = async (
     scope: "all" | "track" | "selection",
     waveformRef: (trackId: string) => ReturnType<typeof import("./useWaveform").useWaveform> | null,
-    pitchFactor: number
+    semitones: number,
+    cents: number
   ) => {
-    await applyEffect(scope, waveformRef, (buffer, start, end) =>
-      audioEffects.changePitch(buffer, pitchFactor, start, end)
+    await applyEffect(
+      "Pitch Shift",
+      scope,
+      waveformRef,
+      (effects, buffer, start, end) => effects.pitchShift(buffer, semitones, cents, start, end),
+      { type: "pitchShift", params: { semitones, cents } }
     );
   };
 
@@ -317,8 +569,13 @@ export const useAudioOperations = () => {
     release: number,
     knee: number
   ) => {
-    await applyEffect(scope, waveformRef, (buffer, start, end) =>
-      audioEffects.compressor(buffer, threshold, ratio, attack, release, knee, start, end)
+    await applyEffect(
+      "Compressor",
+      scope,
+      waveformRef,
+      (effects, buffer, start, end) =>
+        effects.compressor(buffer, threshold, ratio, attack, release, knee, start, end),
+      { type: "compressor", params: { threshold, ratio, attack, release, knee } }
     );
   };
 
@@ -328,20 +585,26 @@ export const useAudioOperations = () => {
     threshold: number,
     release: number
   ) => {
-    await applyEffect(scope, waveformRef, (buffer, start, end) =>
-      audioEffects.limiter(buffer, threshold, release, start, end)
+    await applyEffect(
+      "Limiter",
+      scope,
+      waveformRef,
+      (effects, buffer, start, end) => effects.limiter(buffer, threshold, release, start, end),
+      { type: "limiter", params: { threshold, release } }
     );
   };
 
   const handleEq = async (
     scope: "all" | "track" | "selection",
     waveformRef: (trackId: string) => ReturnType<typeof import("./useWaveform").useWaveform> | null,
-    frequency: number,
-    gain: number,
-    q: number
+    bands: EqBand[]
   ) => {
-    await applyEffect(scope, waveformRef, (buffer, start, end) =>
-      audioEffects.eq(buffer, frequency, gain, q, start, end)
+    await applyEffect(
+      "EQ",
+      scope,
+      waveformRef,
+      (effects, buffer, start, end) => effects.eq(buffer, bands, start, end),
+      { type: "eq", params: encodeEqBands(bands) }
     );
   };
 
@@ -350,8 +613,12 @@ export const useAudioOperations = () => {
     waveformRef: (trackId: string) => ReturnType<typeof import("./useWaveform").useWaveform> | null,
     cutoffFrequency: number
   ) => {
-    await applyEffect(scope, waveformRef, (buffer, start, end) =>
-      audioEffects.highPassFilter(buffer, cutoffFrequency, start, end)
+    await applyEffect(
+      "High-Pass Filter",
+      scope,
+      waveformRef,
+      (effects, buffer, start, end) => effects.highPassFilter(buffer, cutoffFrequency, start, end),
+      { type: "highPassFilter", params: { cutoff: cutoffFrequency } }
     );
   };
 
@@ -360,8 +627,12 @@ export const useAudioOperations = () => {
     waveformRef: (trackId: string) => ReturnType<typeof import("./useWaveform").useWaveform> | null,
     cutoffFrequency: number
   ) => {
-    await applyEffect(scope, waveformRef, (buffer, start, end) =>
-      audioEffects.lowPassFilter(buffer, cutoffFrequency, start, end)
+    await applyEffect(
+      "Low-Pass Filter",
+      scope,
+      waveformRef,
+      (effects, buffer, start, end) => effects.lowPassFilter(buffer, cutoffFrequency, start, end),
+      { type: "lowPassFilter", params: { cutoff: cutoffFrequency } }
     );
   };
 
@@ -370,22 +641,32 @@ export const useAudioOperations = () => {
     handleCopy,
     handlePaste,
     handleDelete,
+    handleSplit,
+    handleTrim,
+    handleTruncateSilence,
+    handleSplitOnSilence,
     handleNormalize,
+    handleLoudnessNormalize,
     handleAmplify,
     handleSilence,
     handleReverse,
     handleFadeIn,
     handleFadeOut,
     handleReverb,
+    handleConvolutionReverb,
     handleDelay,
     handleNoiseReduction,
+    handleGetNoiseProfile,
     handleChangeSpeed,
-    handleChangePitch,
+    handleTimeStretch,
+    handlePitchShift,
     handleCompressor,
     handleLimiter,
     handleEq,
     handleHighPassFilter,
     handleLowPassFilter,
     isLoading,
+    effectProgress,
+    cancelEffect,
   };
 };
@@ -1,9 +1,48 @@
-import { createSignal, onCleanup } from "solid-js";
-import { useAudioStore } from "../stores/audioStore";
+import { createEffect, createSignal, onCleanup } from "solid-js";
+import { useAudioStore, type Selection } from "../stores/audioStore";
 import { getErrorMessage } from "../utils/error";
 import { formatDateForFilename } from "../utils/date";
 import { getAudioContext } from "../utils/audioContext";
-import { createTrackFromBuffer } from "../utils/trackHelpers";
+import {
+  clearClipRange,
+  createClip,
+  getClipEnd,
+  MIN_CLIP_DURATION,
+  trimClipsToRange,
+} from "../utils/clips";
+import {
+  createStereoAnalysers,
+  playbackEngine,
+  type PlaybackSchedule,
+} from "../utils/playbackEngine";
+import { getRecordingLatency, openRecordingStream } from "../utils/recordingSettings";
+import {
+  deleteRecordingSession,
+  loadUnfinishedRecordings,
+  startPcmCapture,
+  type PcmCapture,
+} from "../utils/pcmCapture";
+import { MIN_TAKE_SECONDS } from "../utils/takes";
+import { createTrackFromBufferWithUrl } from "../utils/trackHelpers";
+import { useRecordingSettings } from "./useRecordingSettings";
+
+export interface RecordingTransport {
+  play: (time: number) => Promise<void>;
+  stop: () => void;
+}
+
+interface OverdubTake {
+  trackId: string;
+  punch: Selection | null;
+  loop: boolean;
+  start: number;
+  latency: number;
+  schedules: PlaybackSchedule[];
+}
+
+const PUNCH_OUT_TAIL_SECONDS = 0.25;
+const CLIP_LEVEL = 0.999;
+const MONITOR_SMOOTHING_SECONDS = 0.01;
 
 function stopMediaStream(stream: MediaStream): void {
   stream.getTracks().forEach((track) => track.stop());
@@ -13,13 +52,169 @@ export const useAudioRecorder = () => {
   const [isRecording, setIsRecording] = createSignal(false);
   const [error, setError] = createSignal<string | null>(null);
   const [recordingDuration, setRecordingDuration] = createSignal(0);
-  let mediaRecorder: MediaRecorder | null = null;
-  let audioChunks: Blob[] = [];
+  const [inputAnalysers, setInputAnalysers] = createSignal<readonly AnalyserNode[] | null>(null);
+  const [isTestingLevels, setIsTestingLevels] = createSignal(false);
+  const [inputClipped, setInputClipped] = createSignal(false);
+  const [livePeaks, setLivePeaks] = createSignal<number[]>([], { equals: false });
+  let capture: PcmCapture | null = null;
+  let activeStream: MediaStream | null = null;
+  let activeTake: OverdubTake | null = null;
   let recordingStartTime = 0;
   let durationInterval: ReturnType<typeof setInterval> | null = null;
-  const { addTrack } = useAudioStore();
+  let inputSource: MediaStreamAudioSourceNode | null = null;
+  let monitorGain: GainNode | null = null;
+  let testStream: MediaStream | null = null;
+  let activeTransport: RecordingTransport | null = null;
+  const { store, addTrack, addTakes, saveToHistory, setTrackClips } = useAudioStore();
+  const { settings } = useRecordingSettings();
+
+  const getMonitorLevel = () => (settings().monitoring ? settings().monitoringVolume : 0);
+
+  const connectInput = (stream: MediaStream) => {
+    const audioContext = getAudioContext();
+    inputSource = audioContext.createMediaStreamSource(stream);
+    if (settings().channelCount === 2) {
+      setInputAnalysers(createStereoAnalysers(inputSource));
+    } else {
+      const analyser = audioContext.createAnalyser();
+      analyser.fftSize = 2048;
+      inputSource.connect(analyser);
+      setInputAnalysers([analyser]);
+    }
+    monitorGain = audioContext.createGain();
+    monitorGain.gain.value = getMonitorLevel();
+    inputSource.connect(monitorGain);
+    monitorGain.connect(audioContext.destination);
+  };
+
+  const disconnectInput = () => {
+    inputSource?.disconnect();
+    inputSource = null;
+    monitorGain?.disconnect();
+    monitorGain = null;
+    setInputAnalysers(null);
+  };
+
+  createEffect(() => {
+    const level = getMonitorLevel();
+    monitorGain?.gain.setTargetAtTime(
+      level,
+      getAudioContext().currentTime,
+      MONITOR_SMOOTHING_SECONDS
+    );
+  });
+
+  const stopLevelTest = () => {
+    if (testStream) stopMediaStream(testStream);
+    testStream = null;
+    if (!isRecording()) disconnectInput();
+    setIsTestingLevels(false);
+  };
+
+  const startLevelTest = async () => {
+    if (isRecording() || isTestingLevels()) return;
+    try {
+      setError(null);
+      setInputClipped(false);
+      testStream = await openRecordingStream(settings());
+      const audioContext = getAudioContext();
+      if (audioContext.state === "suspended") {
+        await audioContext.resume();
+      }
+      connectInput(testStream);
+      setIsTestingLevels(true);
+    } catch (err) {
+      setError(getErrorMessage(err, "Failed to open the input device"));
+      stopLevelTest();
+    }
+  };
+
+  const getPunchRange = (): Selection | null => {
+    const range = settings().punchRange === "selection" ? store.selection : null;
+    return range && range.end - range.start >= MIN_CLIP_DURATION ? { ...range } : null;
+  };
+
+  const getLoopRegion = (): Selection | null => {
+    const region = store.repeatRegion;
+    return region && region.end - region.start >= MIN_TAKE_SECONDS ? { ...region } : null;
+  };
+
+  const trackSchedule = (take: OverdubTake) => {
+    const schedule = playbackEngine.getSchedule();
+    const last = take.schedules[take.schedules.length - 1];
+    if (
+      schedule &&
+      (schedule.contextTime !== last?.contextTime || schedule.offset !== last.offset)
+    ) {
+      take.schedules.push(schedule);
+    }
+  };
+
+  const commitOverdub = async (take: OverdubTake, audioBuffer: AudioBuffer) => {
+    const track = store.tracks.find((t) => t.id === take.trackId);
+    if (!track) {
+      setError("The armed track was removed during recording");
+      return;
+    }
+
+    const origin = take.start - take.latency;
+    const clip = {
+      ...createClip(audioBuffer, Math.max(0, origin)),
+      trimStart: Math.min(Math.max(0, -origin), audioBuffer.duration - MIN_CLIP_DURATION),
+    };
+    const range = take.punch
+      ? {
+          start: Math.max(take.punch.start, clip.start),
+          end: Math.min(take.punch.end, getClipEnd(clip)),
+        }
+      : { start: clip.start, end: getClipEnd(clip) };
+    if (range.end - range.start < MIN_CLIP_DURATION) {
+      setError("The take did not reach the punch range");
+      return;
+    }
+
+    await saveToHistory(`Record into ${track.name}`, [track.id]);
+    setTrackClips(track.id, [
+      ...clearClipRange(track.clips, range.start, range.end),
+      ...trimClipsToRange([clip], range.start, range.end),
+    ]);
+  };
+
+  const commitLoopTakes = async (
+    take: OverdubTake,
+    region: Selection,
+    audioBuffer: AudioBuffer,
+    startTime: number
+  ) => {
+    if (!store.tracks.some((t) => t.id === take.trackId)) {
+      setError("The armed track was removed during recording");
+      return;
+    }
+
+    const takes = take.schedules.flatMap((schedule, index) => {
+      const next = take.schedules[index + 1];
+      const passEnd = next ? schedule.offset + next.contextTime - schedule.contextTime : Infinity;
+      const bufferOffset = schedule.contextTime - schedule.offset - startTime + take.latency;
+      const from = Math.max(region.start, schedule.offset, -bufferOffset);
+      const to = Math.min(region.end, passEnd, audioBuffer.duration - bufferOffset);
+      if (to - from < MIN_TAKE_SECONDS) return [];
+      return [
+        {
+          ...createClip(audioBuffer, from),
+          trimStart: from + bufferOffset,
+          trimEnd: to + bufferOffset,
+        },
+      ];
+    });
+    if (takes.length === 0) {
+      setError("The recording did not cover a pass of the loop region");
+      return;
+    }
 
-  const startRecording = async () => {
+    await addTakes(take.trackId, region, takes);
+  };
+
+  const startRecording = async (transport?: RecordingTransport) => {
     try {
       setError(null);
 
@@ -29,93 +224,152 @@ export const useAudioRecorder = () => {
         );
       }
 
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      audioChunks = [];
-
-      const mimeTypes = ["audio/webm", "audio/webm;codecs=opus", "audio/ogg", "audio/mp4"];
-      let selectedMimeType = "";
-
-      for (const mimeType of mimeTypes) {
-        if (MediaRecorder.isTypeSupported(mimeType)) {
-          selectedMimeType = mimeType;
-          break;
-        }
-      }
+      stopLevelTest();
+      setInputClipped(false);
+      const stream = await openRecordingStream(settings());
+      activeStream = stream;
 
-      if (!selectedMimeType) {
-        throw new Error("No supported audio format found. Please try a different browser.");
+      const armedTrack = store.tracks.find((t) => t.id === store.armedTrackId);
+      let take: OverdubTake | null = null;
+      if (armedTrack && transport) {
+        const loop = getLoopRegion();
+        const punch = loop ?? getPunchRange();
+        take = {
+          trackId: armedTrack.id,
+          punch,
+          loop: loop !== null,
+          start: punch ? Math.min(store.currentTime, punch.start) : store.currentTime,
+          latency: getRecordingLatency(stream, settings()),
+          schedules: [],
+        };
       }
+      activeTake = take;
 
-      mediaRecorder = new MediaRecorder(stream, {
-        mimeType: selectedMimeType,
-      });
-
-      mediaRecorder.ondataavailable = (event) => {
-        if (event.data && event.data.size > 0) {
-          audioChunks.push(event.data);
+      setLivePeaks([]);
+      capture = await startPcmCapture(
+        stream,
+        settings().channelCount,
+        settings().sampleRate,
+        (peak) => {
+          if (peak >= CLIP_LEVEL) setInputClipped(true);
+          if (take) trackSchedule(take);
+          setLivePeaks(capture?.peaks ?? []);
         }
-      };
-
-      mediaRecorder.onerror = (event) => {
-        setError("Recording error occurred");
-        console.error("MediaRecorder error:", event);
-      };
-
-      mediaRecorder.onstop = async () => {
-        try {
-          if (audioChunks.length === 0) {
-            setError("No audio data recorded");
-            stopMediaStream(stream);
-            return;
-          }
-
-          const audioBlob = new Blob(audioChunks, { type: selectedMimeType });
-          const audioUrl = URL.createObjectURL(audioBlob);
-
-          const audioContext = getAudioContext();
-          const arrayBuffer = await audioBlob.arrayBuffer();
-          const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-
-          const track = await createTrackFromBuffer(
-            audioBuffer,
-            audioUrl,
-            `Recording ${formatDateForFilename()}`
-          );
-          await addTrack(track);
-
-          stopMediaStream(stream);
-        } catch (err) {
-          setError(getErrorMessage(err, "Failed to process recording"));
-          stopMediaStream(stream);
-        }
-      };
+      );
 
+      connectInput(stream);
+      if (take && transport) {
+        activeTransport = transport;
+        const projectDuration = Math.max(0, ...store.tracks.map((t) => t.duration));
+        if (take.start < projectDuration - MIN_CLIP_DURATION) {
+          await transport.play(take.start);
+          trackSchedule(take);
+        }
+      }
       setIsRecording(true);
       recordingStartTime = Date.now();
       setRecordingDuration(0);
       durationInterval = setInterval(() => {
         setRecordingDuration(Math.floor((Date.now() - recordingStartTime) / 1000));
+        if (
+          take?.punch &&
+          !take.loop &&
+          playbackEngine.isRunning() &&
+          playbackEngine.getPosition() >= take.punch.end + PUNCH_OUT_TAIL_SECONDS
+        ) {
+          stopRecording();
+        }
       }, 100);
-      mediaRecorder.start(10);
     } catch (err) {
       setError(getErrorMessage(err, "Failed to start recording"));
+      const failed = capture;
+      capture = null;
+      if (failed) {
+        failed
+          .stop()
+          .then(() => deleteRecordingSession(failed.sessionId))
+          .catch((error) => console.error("Failed to discard recording:", error));
+      }
+      if (activeStream) stopMediaStream(activeStream);
+      activeStream = null;
+      disconnectInput();
+      activeTransport?.stop();
+      activeTransport = null;
       setIsRecording(false);
       throw err;
     }
   };
 
-  const stopRecording = () => {
-    if (mediaRecorder && isRecording()) {
-      if (mediaRecorder.state === "recording") {
-        mediaRecorder.requestData();
+  const finishCapture = async (
+    finished: PcmCapture,
+    stream: MediaStream,
+    take: OverdubTake | null
+  ) => {
+    try {
+      const { buffer, startTime } = await finished.stop();
+      stopMediaStream(stream);
+      if (!buffer) {
+        setError("No audio data recorded");
+        await deleteRecordingSession(finished.sessionId);
+        return;
+      }
+
+      if (take?.loop && take.punch) {
+        await commitLoopTakes(take, take.punch, buffer, startTime);
+      } else if (take) {
+        const first = take.schedules[0];
+        if (first) {
+          take.start = first.offset + startTime - first.contextTime;
+        }
+        await commitOverdub(take, buffer);
+      } else {
+        const { track } = await createTrackFromBufferWithUrl(
+          buffer,
+          `Recording ${formatDateForFilename()}`
+        );
+        await addTrack(track);
       }
-      mediaRecorder.stop();
+      await deleteRecordingSession(finished.sessionId);
+    } catch (err) {
+      stopMediaStream(stream);
+      setError(getErrorMessage(err, "Failed to process recording"));
+    }
+  };
+
+  const stopRecording = () => {
+    if (capture && activeStream && isRecording()) {
+      void finishCapture(capture, activeStream, activeTake);
+      capture = null;
+      activeStream = null;
+      activeTake = null;
+      disconnectInput();
+      activeTransport?.stop();
+      activeTransport = null;
       setIsRecording(false);
       if (durationInterval) {
         clearInterval(durationInterval);
         durationInterval = null;
       }
       setRecordingDuration(0);
+      setLivePeaks([]);
+    }
+  };
+
+  const recoverRecordings = async (): Promise<number> => {
+    try {
+      const recordings = await loadUnfinishedRecordings();
+      for (const recording of recordings) {
+        const { track } = await createTrackFromBufferWithUrl(
+          recording.buffer,
+          `Recovered recording ${formatDateForFilename(new Date(recording.startedAt))}`
+        );
+        await addTrack(track);
+        await deleteRecordingSession(recording.sessionId);
+      }
+      return recordings.length;
+    } catch (err) {
+      console.error("Failed to recover recordings:", err);
+      return 0;
     }
   };
 
@@ -123,6 +377,9 @@ export const useAudioRecorder = () => {
     if (durationInterval) {
       clearInterval(durationInterval);
     }
+    if (activeStream) stopMediaStream(activeStream);
+    if (testStream) stopMediaStream(testStream);
+    disconnectInput();
   });
 
   const clearError = () => {
@@ -133,8 +390,15 @@ export const useAudioRecorder = () => {
     isRecording,
     error,
     recordingDuration,
+    inputAnalysers,
+    inputClipped,
+    livePeaks,
+    isTestingLevels,
+    startLevelTest,
+    stopLevelTest,
     startRecording,
     stopRecording,
+    recoverRecordings,
     clearError,
   };
 };
@@ -0,0 +1,56 @@
+import { createSignal } from "solid-js";
+import { isAudioFile, useFileImport } from "./useFileImport";
+import { audioOperations } from "../utils/audioOperations";
+import { applyEffectChain, formatBatchFilename, type EffectChain } from "../utils/effectChains";
+
+export interface BatchOptions {
+  format: "wav" | "mp3" | "ogg";
+  quality?: string;
+  filenamePattern: string;
+}
+
+export interface BatchProgress {
+  completed: number;
+  total: number;
+  currentFile: string | null;
+}
+
+export const useBatchProcessor = () => {
+  const fileImport = useFileImport();
+  const [progress, setProgress] = createSignal<BatchProgress | null>(null);
+
+  const runBatch = async (
+    files: FileList | File[],
+    chain: EffectChain,
+    options: BatchOptions
+  ): Promise<number> => {
+    const total = Array.from(files).filter(isAudioFile).length;
+    setProgress({ completed: 0, total, currentFile: null });
+    try {
+      return await fileImport.handleFiles(files, {
+        action: "process",
+        process: async (audioBuffer, file, index) => {
+          setProgress((prev) => prev && { ...prev, currentFile: file.name });
+          const processed = await applyEffectChain(audioBuffer, chain.steps);
+          const filename = formatBatchFilename(options.filenamePattern, {
+            name: file.name,
+            index,
+            chain: chain.name,
+            format: options.format,
+          });
+          await audioOperations.exportAudio(processed, options.format, filename, options.quality);
+        },
+        onProgress: (completed) =>
+          setProgress((prev) => prev && { ...prev, completed, currentFile: null }),
+      });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return {
+    progress,
+    isRunning: () => progress() !== null,
+    runBatch,
+  };
+};
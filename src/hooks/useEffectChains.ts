@@ -0,0 +1,58 @@
+import { createSignal } from "solid-js";
+import {
+  FACTORY_CHAINS,
+  createChainStep,
+  isFactoryChain,
+  loadChains,
+  saveChains,
+  type ChainStep,
+  type ChainStepType,
+  type EffectChain,
+} from "../utils/effectChains";
+
+const [userChains, setUserChains] = createSignal<EffectChain[]>(loadChains());
+const [recordedSteps, setRecordedSteps] = createSignal<ChainStep[] | null>(null);
+
+export const useEffectChains = () => {
+  const chains = () => [...FACTORY_CHAINS, ...userChains()];
+
+  const saveChain = (chain: EffectChain): EffectChain => {
+    const saved = isFactoryChain(chain.id) ? { ...chain, id: crypto.randomUUID() } : chain;
+    setUserChains((prev) =>
+      prev.some((c) => c.id === saved.id)
+        ? prev.map((c) => (c.id === saved.id ? saved : c))
+        : [...prev, saved]
+    );
+    saveChains(userChains());
+    return saved;
+  };
+
+  const deleteChain = (chainId: string) => {
+    setUserChains((prev) => prev.filter((c) => c.id !== chainId));
+    saveChains(userChains());
+  };
+
+  const startRecording = () => setRecordedSteps([]);
+
+  const stopRecording = (): ChainStep[] => {
+    const steps = recordedSteps() ?? [];
+    setRecordedSteps(null);
+    return steps;
+  };
+
+  const recordStep = (type: ChainStepType, params?: Record<string, number>) => {
+    if (recordedSteps() === null) return;
+    setRecordedSteps((prev) => [...(prev ?? []), createChainStep(type, params)]);
+  };
+
+  return {
+    chains,
+    saveChain,
+    deleteChain,
+    isRecording: () => recordedSteps() !== null,
+    recordedSteps: () => recordedSteps() ?? [],
+    startRecording,
+    stopRecording,
+    recordStep,
+  };
+};
@@ -0,0 +1,72 @@
+import { createSignal } from "solid-js";
+import {
+  FACTORY_PRESETS,
+  exportPresetPack,
+  importPresetPack,
+  loadUserPresets,
+  saveUserPresets,
+  type EffectPreset,
+  type PresetEffectType,
+} from "../utils/effectPresets";
+import { downloadProject } from "../utils/project";
+
+const [userPresets, setUserPresets] = createSignal<EffectPreset[]>(loadUserPresets());
+
+const updateUserPresets = (updater: (prev: EffectPreset[]) => EffectPreset[]) => {
+  setUserPresets(updater);
+  saveUserPresets(userPresets());
+};
+
+export const useEffectPresets = () => {
+  const getPresets = (effect: PresetEffectType) => [
+    ...FACTORY_PRESETS.filter((p) => p.effect === effect),
+    ...userPresets().filter((p) => p.effect === effect),
+  ];
+
+  const savePreset = (
+    effect: PresetEffectType,
+    name: string,
+    params: Record<string, number>
+  ): EffectPreset => {
+    const trimmed = name.trim();
+    const existing = userPresets().find((p) => p.effect === effect && p.name === trimmed);
+    const preset: EffectPreset = {
+      id: existing?.id ?? crypto.randomUUID(),
+      name: trimmed,
+      effect,
+      params: { ...params },
+    };
+    updateUserPresets((prev) =>
+      existing ? prev.map((p) => (p.id === existing.id ? preset : p)) : [...prev, preset]
+    );
+    return preset;
+  };
+
+  const deletePreset = (id: string) => {
+    updateUserPresets((prev) => prev.filter((p) => p.id !== id));
+  };
+
+  const importPack = async (file: File): Promise<number> => {
+    const imported = await importPresetPack(file);
+    updateUserPresets((prev) => {
+      const kept = prev.filter(
+        (p) => !imported.some((i) => i.effect === p.effect && i.name === p.name)
+      );
+      return [...kept, ...imported];
+    });
+    return imported.length;
+  };
+
+  const exportPack = () => {
+    downloadProject(exportPresetPack(userPresets()), "effect-presets.json");
+  };
+
+  return {
+    userPresets,
+    getPresets,
+    savePreset,
+    deletePreset,
+    importPack,
+    exportPack,
+  };
+};
@@ -0,0 +1,63 @@
+import { createSignal, onCleanup } from "solid-js";
+import { useAudioStore } from "../stores/audioStore";
+import {
+  effectPreview,
+  getPreviewSources,
+  getPreviewWindow,
+  type PreviewProcessor,
+} from "../utils/effectPreview";
+
+export const useEffectPreview = () => {
+  const { store, getCurrentTrack } = useAudioStore();
+  const [isPreviewing, setIsPreviewing] = createSignal(false);
+
+  const startPreview = async (
+    scope: "all" | "track" | "selection",
+    processor: PreviewProcessor
+  ) => {
+    const currentTrack = getCurrentTrack();
+    const tracks = scope === "all" ? store.tracks : currentTrack ? [currentTrack] : [];
+    const duration = Math.max(0, ...tracks.map((t) => t.duration));
+    const range =
+      scope === "selection" && store.selection
+        ? getPreviewWindow(store.selection.start, store.selection.end, duration)
+        : getPreviewWindow(store.currentTime, null, duration);
+    if (range.end <= range.start) return;
+
+    const sources = getPreviewSources(
+      tracks,
+      range.start,
+      range.end,
+      store.tracks.some((t) => t.soloed)
+    );
+    if (sources.length === 0) return;
+
+    setIsPreviewing(true);
+    try {
+      await effectPreview.start(sources, processor);
+    } catch (err) {
+      stopPreview();
+      throw err;
+    }
+  };
+
+  const updatePreview = (processor: PreviewProcessor) => {
+    if (isPreviewing()) {
+      effectPreview.update(processor);
+    }
+  };
+
+  const stopPreview = () => {
+    effectPreview.stop();
+    setIsPreviewing(false);
+  };
+
+  onCleanup(stopPreview);
+
+  return {
+    isPreviewing,
+    startPreview,
+    updatePreview,
+    stopPreview,
+  };
+};
@@ -3,16 +3,57 @@ import { useAudioStore } from "../stores/audioStore";
 import { getAudioContext } from "../utils/audioContext";
 import { createTrackFromBuffer } from "../utils/trackHelpers";
 
+interface HandleFilesOptions {
+  process?: (audioBuffer: AudioBuffer, file: File, index: number) => Promise<void>;
+  onProgress?: (completed: number, total: number, file: File) => void;
+  action?: "import" | "process";
+}
+
+const AUDIO_EXTENSIONS = [
+  "wav",
+  "mp3",
+  "ogg",
+  "oga",
+  "opus",
+  "flac",
+  "m4a",
+  "aac",
+  "mp4",
+  "webm",
+  "aif",
+  "aiff",
+];
+
+export const isAudioFile = (file: File) =>
+  file.type
+    ? file.type.startsWith("audio/")
+    : AUDIO_EXTENSIONS.includes(file.name.split(".").pop()?.toLowerCase() ?? "");
+
+const settleSequentially = async <T>(
+  items: T[],
+  fn: (item: T, index: number) => Promise<void>
+): Promise<PromiseSettledResult<void>[]> => {
+  const results: PromiseSettledResult<void>[] = [];
+  for (const [index, item] of items.entries()) {
+    try {
+      await fn(item, index);
+      results.push({ status: "fulfilled", value: undefined });
+    } catch (reason) {
+      results.push({ status: "rejected", reason });
+    }
+  }
+  return results;
+};
+
 export const useFileImport = () => {
   const { addTrack } = useAudioStore();
   const [isLoading, setIsLoading] = createSignal(false);
 
-  const processFile = async (file: File) => {
-    if (!file.type.startsWith("audio/")) {
-      throw new Error(`Invalid file type: ${file.type}. Please select an audio file.`);
+  const decodeFile = async (file: File): Promise<AudioBuffer> => {
+    if (!isAudioFile(file)) {
+      throw new Error(`Invalid file type: ${file.type || file.name}. Please select an audio file.`);
     }
 
-    const audioUrl = URL.createObjectURL(file);
     const audioContext = getAudioContext();
 
     if (audioContext.state === "suspended") {
@@ -21,7 +62,6 @@ export const useFileImport = () => {
 
     const arrayBuffer = await file.arrayBuffer();
     if (arrayBuffer.byteLength === 0) {
-      URL.revokeObjectURL(audioUrl);
       throw new Error(`File "${file.name}" is empty or corrupted.`);
     }
 
@@ -29,17 +69,21 @@ export const useFileImport = () => {
     try {
       audioBuffer = await audioContext.decodeAudioData(arrayBuffer.slice(0));
     } catch (error) {
-      URL.revokeObjectURL(audioUrl);
       throw new Error(
         `Failed to decode audio file "${file.name}": ${error instanceof Error ? error.message : String(error)}`
       );
     }
 
     if (!audioBuffer || audioBuffer.duration <= 0) {
-      URL.revokeObjectURL(audioUrl);
       throw new Error(`Invalid audio file "${file.name}": duration is ${audioBuffer.duration}`);
     }
 
+    return audioBuffer;
+  };
+
+  const processFile = async (file: File) => {
+    const audioBuffer = await decodeFile(file);
+    const audioUrl = URL.createObjectURL(file);
     const track = await createTrackFromBuffer(audioBuffer, audioUrl, file.name);
     await addTrack(track);
   };
@@ -56,16 +100,35 @@ export const useFileImport = () => {
     }
   };
 
-  const handleFiles = async (files: FileList | File[]) => {
-    const fileArray = Array.from(files).filter((file) => file.type.startsWith("audio/"));
+  const handleFiles = async (files: FileList | File[], options: HandleFilesOptions = {}) => {
+    const fileArray = Array.from(files).filter(isAudioFile);
     if (fileArray.length === 0) {
       throw new Error("No valid audio files selected");
     }
 
+    const { process, onProgress, action = "import" } = options;
+    const [pastTense, verb] =
+      action === "process" ? ["Processed", "process"] : ["Imported", "import"];
+
     setIsLoading(true);
     const errors: string[] = [];
     try {
-      const results = await Promise.allSettled(fileArray.map((file) => processFile(file)));
+      let completed = 0;
+      const run = async (file: File, index: number) => {
+        try {
+          if (process) {
+            await process(await decodeFile(file), file, index);
+          } else {
+            await processFile(file);
+          }
+        } finally {
+          onProgress?.(++completed, fileArray.length, file);
+        }
+      };
+
+      const results = process
+        ? await settleSequentially(fileArray, run)
+        : await Promise.allSettled(fileArray.map(run));
 
       results.forEach((result, index) => {
         if (result.status === "rejected") {
@@ -79,12 +142,14 @@ export const useFileImport = () => {
         const successCount = results.filter((r) => r.status === "fulfilled").length;
         if (successCount > 0) {
           throw new Error(
-            `Imported ${successCount} file(s), but ${errors.length} failed:\n${errors.join("\n")}`
+            `${pastTense} ${successCount} file(s), but ${errors.length} failed:\n${errors.join("\n")}`
           );
         } else {
-          throw new Error(`Failed to import all files:\n${errors.join("\n")}`);
+          throw new Error(`Failed to ${verb} all files:\n${errors.join("\n")}`);
         }
       }
+
+      return fileArray.length;
     } finally {
       setIsLoading(false);
     }
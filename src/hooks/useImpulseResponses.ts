@@ -0,0 +1,48 @@
+import { createSignal } from "solid-js";
+import {
+  BUILT_IN_IMPULSE_RESPONSES,
+  deleteImpulseResponse,
+  importImpulseResponse,
+  loadUserImpulseResponses,
+  type ImpulseResponseInfo,
+} from "../utils/impulseResponses";
+
+const [userImpulseResponses, setUserImpulseResponses] = createSignal<ImpulseResponseInfo[]>([]);
+let loadPromise: Promise<void> | null = null;
+
+const ensureLoaded = () => {
+  loadPromise ??= loadUserImpulseResponses()
+    .then((responses) => {
+      setUserImpulseResponses(responses);
+    })
+    .catch((error) => console.error("Failed to load impulse responses:", error));
+  return loadPromise;
+};
+
+export const useImpulseResponses = () => {
+  ensureLoaded();
+
+  const impulseResponses = (): ImpulseResponseInfo[] => [
+    ...BUILT_IN_IMPULSE_RESPONSES,
+    ...userImpulseResponses(),
+  ];
+
+  const importFile = async (file: File): Promise<ImpulseResponseInfo> => {
+    await ensureLoaded();
+    const imported = await importImpulseResponse(file);
+    setUserImpulseResponses((prev) => [...prev, imported]);
+    return imported;
+  };
+
+  const remove = async (id: number) => {
+    await deleteImpulseResponse(id);
+    setUserImpulseResponses((prev) => prev.filter((ir) => ir.id !== id));
+  };
+
+  return {
+    impulseResponses,
+    userImpulseResponses,
+    importFile,
+    remove,
+  };
+};
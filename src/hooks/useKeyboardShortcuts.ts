@@ -7,9 +7,12 @@ interface UseKeyboardShortcutsOptions {
   onCopy: () => void;
   onPaste: () => void;
   onDelete: () => void;
+  onSplit?: () => void;
+  onTrim?: () => void;
   onUndo: () => void;
   onRedo: () => void;
-  onPlayPause?: () => void;
+  onToggleHistory?: () => void;
+  onPlayPause: () => void;
   onToggleRepeat?: () => void;
   onClearAllSelections?: () => void;
   onAddMarker?: () => void;
@@ -28,22 +31,7 @@ export const useKeyboardShortcuts = (options: UseKeyboardShortcutsOptions) => {
       if (isInput) return;
 
       e.preventDefault();
-
-      if (options.onPlayPause) {
-        options.onPlayPause();
-      } else {
-        const waveform = options.waveform();
-        if (!waveform) return;
-
-        const currentTrack = store.tracks.find((t) => t.id === store.currentTrackId);
-        if (!currentTrack) return;
-
-        if (store.isPlaying) {
-          waveform.pause();
-        } else {
-          waveform.play();
-        }
-      }
+      options.onPlayPause();
       return;
     }
 
@@ -110,6 +98,30 @@ export const useKeyboardShortcuts = (options: UseKeyboardShortcutsOptions) => {
       return;
     }
 
+    if ((e.key === "s" || e.key === "S") && !e.ctrlKey && !e.metaKey && !e.altKey && !e.shiftKey) {
+      if (options.onSplit) {
+        e.preventDefault();
+        options.onSplit();
+      }
+      return;
+    }
+
+    if ((e.key === "t" || e.key === "T") && !e.ctrlKey && !e.metaKey && !e.altKey && !e.shiftKey) {
+      if (store.selection && options.onTrim) {
+        e.preventDefault();
+        options.onTrim();
+      }
+      return;
+    }
+
+    if ((e.key === "h" || e.key === "H") && !e.ctrlKey && !e.metaKey && !e.altKey && !e.shiftKey) {
+      if (options.onToggleHistory) {
+        e.preventDefault();
+        options.onToggleHistory();
+      }
+      return;
+    }
+
     if ((e.key === "m" || e.key === "M") && !e.ctrlKey && !e.metaKey && !e.altKey) {
       if (e.shiftKey) {
         if (options.onClearMarkers) {
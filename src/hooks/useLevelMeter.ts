@@ -0,0 +1,79 @@
+import { Accessor, createEffect, createSignal, onCleanup } from "solid-js";
+
+export interface ChannelLevel {
+  peak: number;
+  rms: number;
+  hold: number;
+}
+
+const PEAK_HOLD_MS = 1500;
+const SILENT: ChannelLevel = { peak: 0, rms: 0, hold: 0 };
+
+export const useLevelMeter = (
+  getAnalysers: () => readonly AnalyserNode[] | null,
+  active: Accessor<boolean>
+) => {
+  const [levels, setLevels] = createSignal<ChannelLevel[]>([SILENT, SILENT]);
+  const [clipped, setClipped] = createSignal(false);
+
+  let frameId: number | null = null;
+  let holds: Array<{ value: number; time: number }> = [];
+  let samples = new Float32Array(0);
+
+  const measure = () => {
+    frameId = requestAnimationFrame(measure);
+    const analysers = getAnalysers();
+    if (!analysers || analysers.length === 0) return;
+
+    const now = performance.now();
+    setLevels(
+      analysers.map((analyser, channel) => {
+        if (samples.length !== analyser.fftSize) {
+          samples = new Float32Array(analyser.fftSize);
+        }
+        analyser.getFloatTimeDomainData(samples);
+
+        let peak = 0;
+        let sumSquares = 0;
+        for (const sample of samples) {
+          const magnitude = Math.abs(sample);
+          if (magnitude > peak) peak = magnitude;
+          sumSquares += sample * sample;
+        }
+        if (peak >= 1) setClipped(true);
+
+        const hold = (holds[channel] ??= { value: 0, time: 0 });
+        if (peak >= hold.value || now - hold.time > PEAK_HOLD_MS) {
+          hold.value = peak;
+          hold.time = now;
+        }
+        return { peak, rms: Math.sqrt(sumSquares / samples.length), hold: hold.value };
+      })
+    );
+  };
+
+  const stop = () => {
+    if (frameId !== null) {
+      cancelAnimationFrame(frameId);
+      frameId = null;
+    }
+  };
+
+  createEffect(() => {
+    stop();
+    if (active()) {
+      frameId = requestAnimationFrame(measure);
+    } else {
+      holds = [];
+      setLevels((current) => current.map(() => SILENT));
+    }
+  });
+
+  onCleanup(stop);
+
+  return {
+    levels,
+    clipped,
+    resetClip: () => setClipped(false),
+  };
+};
@@ -0,0 +1,45 @@
+import { createSignal } from "solid-js";
+import {
+  listInputDevices,
+  loadRecordingSettings,
+  saveRecordingSettings,
+  type RecordingSettings,
+} from "../utils/recordingSettings";
+
+const [settings, setSettings] = createSignal<RecordingSettings>(loadRecordingSettings());
+const [devices, setDevices] = createSignal<MediaDeviceInfo[]>([]);
+let listening = false;
+
+const refreshDevices = async () => {
+  try {
+    setDevices(await listInputDevices());
+  } catch (error) {
+    console.error("Failed to list input devices:", error);
+  }
+};
+
+export const useRecordingSettings = () => {
+  if (!listening && navigator.mediaDevices?.addEventListener) {
+    listening = true;
+    navigator.mediaDevices.addEventListener("devicechange", refreshDevices);
+  }
+
+  const updateSettings = (changes: Partial<RecordingSettings>) => {
+    setSettings((prev) => ({ ...prev, ...changes }));
+    saveRecordingSettings(settings());
+  };
+
+  const requestDeviceLabels = async () => {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    stream.getTracks().forEach((track) => track.stop());
+    await refreshDevices();
+  };
+
+  return {
+    settings,
+    devices,
+    updateSettings,
+    refreshDevices,
+    requestDeviceLabels,
+  };
+};
@@ -0,0 +1,69 @@
+import { Accessor, createEffect, createSignal, onCleanup } from "solid-js";
+
+export interface Spectrum {
+  sampleRate: number;
+  magnitudes: Float32Array;
+}
+
+const SMOOTHING = 0.6;
+
+export const useSpectrum = (
+  getAnalysers: () => readonly AnalyserNode[] | null,
+  active: Accessor<boolean>
+) => {
+  const [spectrum, setSpectrum] = createSignal<Spectrum | null>(null, { equals: false });
+
+  let frameId: number | null = null;
+  let bins = new Float32Array(0);
+  let frame = new Float32Array(0);
+  let magnitudes = new Float32Array(0);
+
+  const measure = () => {
+    frameId = requestAnimationFrame(measure);
+    const analysers = getAnalysers();
+    if (!analysers || analysers.length === 0) return;
+
+    const binCount = analysers[0]!.frequencyBinCount;
+    if (magnitudes.length !== binCount) {
+      bins = new Float32Array(binCount);
+      frame = new Float32Array(binCount);
+      magnitudes = new Float32Array(binCount).fill(-Infinity);
+    }
+
+    frame.fill(-Infinity);
+    for (const analyser of analysers) {
+      analyser.getFloatFrequencyData(bins);
+      for (let i = 0; i < binCount; i++) {
+        frame[i] = Math.max(frame[i]!, bins[i]!);
+      }
+    }
+    for (let i = 0; i < binCount; i++) {
+      const previous = magnitudes[i]!;
+      magnitudes[i] = isFinite(previous)
+        ? previous * SMOOTHING + frame[i]! * (1 - SMOOTHING)
+        : frame[i]!;
+    }
+
+    setSpectrum({ sampleRate: analysers[0]!.context.sampleRate, magnitudes });
+  };
+
+  const stop = () => {
+    if (frameId !== null) {
+      cancelAnimationFrame(frameId);
+      frameId = null;
+    }
+  };
+
+  createEffect(() => {
+    stop();
+    if (active()) {
+      frameId = requestAnimationFrame(measure);
+    } else {
+      setSpectrum(null);
+    }
+  });
+
+  onCleanup(stop);
+
+  return { spectrum };
+};
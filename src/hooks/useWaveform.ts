@@ -84,30 +84,16 @@ export const useWaveform = (
   let regionsPlugin: RegionsPlugin | null = null;
   let spectrogramPlugin: any | null = null;
   let dragSelectionCleanup: (() => void) | null = null;
-  let isSeeking = false;
-  let seekingTimeoutId: ReturnType<typeof setTimeout> | null = null;
   let originalRegionWidth: number | null = null;
   let lastClampTime = 0;
   let isInitialized = false;
   let currentLoadAbortController: AbortController | null = null;
   let isAudioLoaded = false;
   let currentAudioUrl: string | null = null;
-  let volumeUpdateTimeout: ReturnType<typeof setTimeout> | null = null;
-  let lastEffectiveVolume: number | null = null;
-  let upMixerNode: GainNode | null = null;
-  let splitterNode: ChannelSplitterNode | null = null;
-  let mergerNode: ChannelMergerNode | null = null;
-  let leftGainNode: GainNode | null = null;
-  let rightGainNode: GainNode | null = null;
-  let lastPan: number | null = null;
-  let customAudioContext: AudioContext | null = null;
-  let customMediaSource: MediaElementAudioSourceNode | null = null;
-  let isSettingUpPanning = false;
   let mouseDownX = 0;
   let mouseDownY = 0;
   let mouseDownTime = 0;
   let isDragging = false;
-  let wasManuallyPaused = false;
   const getRenderer = (): WaveformRenderer => {
     const renderer = options?.renderer;
     return typeof renderer === "function" ? renderer() : (renderer ?? "bars");
@@ -116,170 +102,13 @@ export const useWaveform = (
 
   const { store, setSelection, setCurrentTime, setPlaying } = useAudioStore();
 
-  const handleTimeUpdate = (time: number) => {
-    if (isSeeking || !wavesurfer) return;
-    const isWaveformPlaying = wavesurfer.isPlaying();
-    if (!isWaveformPlaying && !store.isPlaying) return;
-    try {
-      const tracks = store.tracks;
-      if (tracks.length === 0) {
-        setCurrentTime(time);
-        return;
-      }
-      let maxDur = 0;
-      for (const track of tracks) {
-        if (track.duration > maxDur) maxDur = track.duration;
-      }
-      if (maxDur > 0) {
-        const clampedTime = Math.min(time, maxDur);
-        const timeToUse = isWaveformPlaying
-          ? Math.min(Math.max(clampedTime, store.currentTime), maxDur)
-          : Math.min(store.currentTime, maxDur);
-
-        if (store.repeatRegion && isWaveformPlaying) {
-          const { start, end } = store.repeatRegion;
-          const isWithinRepeatRegion = timeToUse >= start - 0.01 && timeToUse <= end + 0.01;
-          if (isWithinRepeatRegion && timeToUse >= end - 0.01) {
-            setCurrentTime(start);
-            const duration = wavesurfer.getDuration();
-            if (duration > 0) {
-              const seekPosition = start / duration;
-              try {
-                wavesurfer.seekTo(seekPosition);
-              } catch {}
-            }
-            return;
-          }
-        }
-
-        if (timeToUse >= maxDur - 0.01) {
-          setCurrentTime(maxDur);
-          if (isCurrent) {
-            setPlaying(false);
-          }
-        } else {
-          const finalTime = isWaveformPlaying
-            ? Math.min(clampedTime, maxDur)
-            : Math.min(timeToUse, maxDur);
-          setCurrentTime(finalTime);
-        }
-      } else {
-        setCurrentTime(time);
-      }
-    } catch {
-      setCurrentTime(time);
-    }
-  };
-
-  const disconnectNode = (node: AudioNode | null) => {
-    if (node) {
-      try {
-        node.disconnect();
-      } catch {}
-    }
-  };
-
-  const setupSplitterMergerPanning = (audioContext: AudioContext, gainNode: AudioNode) => {
-    try {
-      disconnectNode(upMixerNode);
-      upMixerNode = null;
-      disconnectNode(splitterNode);
-      splitterNode = null;
-      disconnectNode(mergerNode);
-      mergerNode = null;
-      disconnectNode(leftGainNode);
-      leftGainNode = null;
-      disconnectNode(rightGainNode);
-      rightGainNode = null;
-
-      const destination = audioContext.destination;
-
-      upMixerNode = audioContext.createGain();
-      upMixerNode.channelCount = 2;
-      upMixerNode.channelCountMode = "explicit";
-      upMixerNode.channelInterpretation = "speakers";
-
-      splitterNode = audioContext.createChannelSplitter(2);
-      mergerNode = audioContext.createChannelMerger(2);
-      leftGainNode = audioContext.createGain();
-      rightGainNode = audioContext.createGain();
-
-      if (gainNode.disconnect) {
-        try {
-          gainNode.disconnect();
-        } catch {}
-      }
-
-      gainNode.connect(upMixerNode);
-      upMixerNode.connect(splitterNode);
-      splitterNode.connect(leftGainNode, 0);
-      splitterNode.connect(rightGainNode, 1);
-      leftGainNode.connect(mergerNode, 0, 0);
-      rightGainNode.connect(mergerNode, 0, 1);
-      mergerNode.connect(destination);
-
-      if (trackId) {
-        const tracks = store.tracks;
-        const track = tracks.find((t) => t.id === trackId);
-        if (track) {
-          const pan = track.pan ?? 0;
-          const panValue = Math.max(-1, Math.min(1, isNaN(pan) || !isFinite(pan) ? 0 : pan));
-          leftGainNode.gain.value = panValue > 0 ? 1 - panValue : 1;
-          rightGainNode.gain.value = panValue > 0 ? 1 : 1 + panValue;
-        }
-      }
-    } catch (err) {}
-  };
-
-  const setupPanning = () => {
+  const renderProgress = (time: number) => {
+    if (!wavesurfer || !isAudioLoaded) return;
+    const duration = wavesurfer.getDuration() || 0;
+    if (duration <= 0) return;
     try {
-      if (isSettingUpPanning) {
-        return;
-      }
-      isSettingUpPanning = true;
-
-      if (!wavesurfer || !isAudioLoaded) {
-        isSettingUpPanning = false;
-        return;
-      }
-
-      const media = (wavesurfer as any).media;
-      const mediaElement = media instanceof HTMLAudioElement ? media : null;
-
-      if (!mediaElement) {
-        isSettingUpPanning = false;
-        return;
-      }
-
-      if (splitterNode && leftGainNode && rightGainNode && upMixerNode) {
-        isSettingUpPanning = false;
-        return;
-      }
-
-      if (!customAudioContext) {
-        customAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
-        if (customAudioContext.state === "suspended") {
-          customAudioContext.resume();
-        }
-      }
-
-      if (!customMediaSource) {
-        try {
-          customMediaSource = customAudioContext.createMediaElementSource(mediaElement);
-        } catch (sourceErr) {
-          if (sourceErr instanceof Error && sourceErr.message.includes("already connected")) {
-            isSettingUpPanning = false;
-            return;
-          }
-          throw sourceErr;
-        }
-      }
-
-      setupSplitterMergerPanning(customAudioContext, customMediaSource);
-      isSettingUpPanning = false;
-    } catch (err) {
-      isSettingUpPanning = false;
-    }
+      wavesurfer.seekTo(Math.max(0, Math.min(1, time / duration)));
+    } catch {}
   };
 
   const createWaveform = (
@@ -360,171 +189,14 @@ export const useWaveform = (
         });
       }
 
-      const duration = wavesurfer?.getDuration() || 0;
-      if (duration > 0 && wavesurfer) {
-        const currentTime = store.currentTime;
-        const progress = Math.max(0, Math.min(1, currentTime / duration));
-        try {
-          wavesurfer.seekTo(progress);
-        } catch (err) {}
-      }
-
-      requestAnimationFrame(() => {
-        setTimeout(() => {
-          if (isAudioLoaded && !isSettingUpPanning && splitterNode === null) {
-            setupPanning();
-          }
-        }, 200);
-      });
-
-      if (trackId && wavesurfer) {
-        const tracks = store.tracks;
-        const track = tracks.find((t) => t.id === trackId);
-        if (track) {
-          const volume = track.volume;
-          const muted = track.muted;
-          const pan = track.pan ?? 0;
-          if (!isNaN(volume) && isFinite(volume)) {
-            const effectiveVolume = muted ? 0 : Math.max(0, Math.min(1, volume));
-            const effectivePan = Math.max(-1, Math.min(1, isNaN(pan) || !isFinite(pan) ? 0 : pan));
-            wavesurfer.setVolume(effectiveVolume);
-            lastEffectiveVolume = effectiveVolume;
-            lastPan = effectivePan;
-
-            if (splitterNode && leftGainNode && rightGainNode) {
-              const panValue = effectivePan;
-              leftGainNode.gain.value = panValue > 0 ? 1 - panValue : 1;
-              rightGainNode.gain.value = panValue > 0 ? 1 : 1 + panValue;
-            }
-          }
-        }
-      }
-    });
-
-    wavesurfer.on("play", () => {
-      if (isCurrent) {
-        setPlaying(true);
-      }
-      setTimeout(() => {
-        if (isAudioLoaded && wavesurfer && !isSettingUpPanning && splitterNode === null) {
-          setupPanning();
-        }
-      }, 100);
-    });
-
-    wavesurfer.on("pause", () => {
-      if (isCurrent) {
-        setPlaying(false);
-        try {
-          const time = wavesurfer?.getCurrentTime() || 0;
-          setCurrentTime(time);
-        } catch {
-          setCurrentTime(0);
-        }
-      }
-    });
-
-    wavesurfer.on("finish", () => {
-      try {
-        const tracks = store.tracks;
-        const maxDur = tracks.length > 0 ? Math.max(...tracks.map((t) => t.duration), 0) : 0;
-        if (maxDur > 0) {
-          const trackDuration = wavesurfer?.getDuration() || 0;
-          setCurrentTime(Math.max(store.currentTime, trackDuration));
-          if (trackDuration >= maxDur - 0.01) {
-            setCurrentTime(maxDur);
-            if (isCurrent) {
-              setPlaying(false);
-            }
-          }
-        }
-      } catch {}
+      renderProgress(store.currentTime);
     });
 
-    wavesurfer.on("timeupdate", handleTimeUpdate);
-
     createEffect(() => {
-      if (!wavesurfer || !isAudioLoaded) return;
-
-      const duration = wavesurfer.getDuration() || 0;
-      if (duration <= 0) return;
-
       const currentTime = store.currentTime;
-      const isPlaying = store.isPlaying;
-      const progress = Math.max(0, Math.min(1, currentTime / duration));
-
-      const isWaveformPlaying = wavesurfer.isPlaying();
-      if (isWaveformPlaying && isPlaying && isCurrent) {
-        const waveformTime = wavesurfer.getCurrentTime() || 0;
-        const timeDiff = Math.abs(waveformTime - currentTime);
-        if (timeDiff < 0.1) {
-          return;
-        }
-      }
-
-      let rafId: number | null = null;
-      const updateSeek = () => {
-        if (rafId !== null) return;
-        rafId = requestAnimationFrame(() => {
-          if (!wavesurfer || !isAudioLoaded) {
-            rafId = null;
-            return;
-          }
-          try {
-            wavesurfer.seekTo(progress);
-          } catch (err) {}
-
-          if (!isCurrent) {
-            rafId = null;
-            return;
-          }
-
-          if (isPlaying && isCurrent && !wasManuallyPaused) {
-            try {
-              if (duration > 0) {
-                const clampedTime = Math.max(0, Math.min(duration, currentTime));
-                const seekPosition = clampedTime / duration;
-
-                const currentPos = wavesurfer.getCurrentTime() / duration;
-                if (Math.abs(currentPos - seekPosition) > 0.001) {
-                  wavesurfer.seekTo(seekPosition);
-                }
-
-                if (!wavesurfer.isPlaying() && clampedTime < duration) {
-                  wavesurfer.play();
-                }
-              }
-            } catch (err) {}
-          } else if (!isPlaying && isCurrent) {
-            try {
-              if (wavesurfer.isPlaying()) {
-                wavesurfer.pause();
-              }
-            } catch (err) {}
-          }
-          rafId = null;
-        });
-      };
-
-      updateSeek();
-
-      return () => {
-        if (rafId !== null) {
-          cancelAnimationFrame(rafId);
-        }
-      };
-    });
-
-    wavesurfer.on("seeking", (time) => {
-      if (seekingTimeoutId) {
-        clearTimeout(seekingTimeoutId);
-      }
-      isSeeking = true;
-      setCurrentTime(time);
-      seekingTimeoutId = setTimeout(() => {
-        isSeeking = false;
-        seekingTimeoutId = null;
-      }, 100);
+      if (!wavesurfer || !isAudioLoaded) return;
+      const rafId = requestAnimationFrame(() => renderProgress(currentTime));
+      onCleanup(() => cancelAnimationFrame(rafId));
     });
 
     if (regionsPlugin) {
@@ -717,8 +389,6 @@ export const useWaveform = (
     const container = containerRef();
     if (!container) return;
 
-    const wasPlaying = wavesurfer.isPlaying();
-    const currentTime = wavesurfer.getCurrentTime();
     const currentUrl = currentAudioUrl;
     const currentSelection = store.selection;
 
@@ -759,43 +429,6 @@ export const useWaveform = (
       }
     });
 
-    wavesurfer.on("play", () => {
-      if (isCurrent) {
-        setPlaying(true);
-      }
-      setTimeout(() => {
-        if (isAudioLoaded && wavesurfer && !isSettingUpPanning && splitterNode === null) {
-          setupPanning();
-        }
-      }, 100);
-    });
-
-    wavesurfer.on("pause", () => {
-      if (isCurrent) {
-        setPlaying(false);
-        try {
-          const time = wavesurfer?.getCurrentTime() || 0;
-          setCurrentTime(time);
-        } catch {
-          setCurrentTime(0);
-        }
-      }
-    });
-
-    wavesurfer.on("timeupdate", handleTimeUpdate);
-
-    wavesurfer.on("seeking", (time) => {
-      if (seekingTimeoutId) {
-        clearTimeout(seekingTimeoutId);
-      }
-      isSeeking = true;
-      setCurrentTime(time);
-      seekingTimeoutId = setTimeout(() => {
-        isSeeking = false;
-        seekingTimeoutId = null;
-      }, 100);
-    });
-
     if (newRegionsPlugin) {
       newRegionsPlugin.on("region-created", (region: any) => {
         if (!region) return;
@@ -893,14 +526,6 @@ export const useWaveform = (
 
     if (currentUrl) {
       loadAudio(currentUrl).then(() => {
-        if (wasPlaying) {
-          wavesurfer?.play();
-        } else if (currentTime > 0) {
-          const duration = wavesurfer?.getDuration() || 0;
-          if (duration > 0) {
-            wavesurfer?.seekTo(currentTime / duration);
-          }
-        }
         if (currentSelection && newRegionsPlugin) {
           newRegionsPlugin.addRegion({
             start: currentSelection.start,
@@ -915,10 +540,6 @@ export const useWaveform = (
   });
 
   onCleanup(() => {
-    if (seekingTimeoutId) {
-      clearTimeout(seekingTimeoutId);
-      seekingTimeoutId = null;
-    }
     if (dragSelectionCleanup) {
       dragSelectionCleanup();
       dragSelectionCleanup = null;
@@ -952,9 +573,6 @@ export const useWaveform = (
       currentLoadAbortController = null;
     }
 
-    const wasPlaying = store.isPlaying;
-    const previousUrl = currentAudioUrl;
-
     currentAudioUrl = url;
     const abortController = new AbortController();
     currentLoadAbortController = abortController;
@@ -969,32 +587,7 @@ export const useWaveform = (
         return;
       }
 
-      const duration = wavesurfer.getDuration();
-
-      if (previousUrl !== null && previousUrl !== url) {
-        setCurrentTime(0);
-        wavesurfer.seekTo(0);
-        if (wasPlaying) {
-          wavesurfer.play();
-        }
-      } else {
-        if (duration > 0) {
-          const progress = Math.max(0, Math.min(1, store.currentTime / duration));
-          wavesurfer.seekTo(progress);
-          if (wasPlaying) {
-            wavesurfer.play();
-          }
-        }
-      }
-
-      if (duration > 0) {
-        const progress = Math.max(0, Math.min(1, store.currentTime / duration));
-        requestAnimationFrame(() => {
-          try {
-            wavesurfer?.seekTo(progress);
-          } catch (err) {}
-        });
-      }
+      renderProgress(store.currentTime);
     } catch (err) {
       if (abortController.signal.aborted || isAbortError(err)) return;
       isAudioLoaded = false;
@@ -1006,68 +599,6 @@ export const useWaveform = (
     }
   };
 
-  const play = () => {
-    if (!wavesurfer || !isAudioLoaded) return;
-    try {
-      wasManuallyPaused = false;
-      if (customAudioContext && customAudioContext.state === "suspended") {
-        customAudioContext.resume();
-      }
-      const duration = wavesurfer.getDuration();
-      if (!duration || duration <= 0) return;
-
-      const tracks = store.tracks;
-      const maxDur = tracks.length > 0 ? Math.max(...tracks.map((t) => t.duration), 0) : 0;
-
-      let currentTime = store.currentTime;
-      if (maxDur > 0 && currentTime >= maxDur - 0.01) {
-        currentTime = 0;
-        setCurrentTime(0);
-      }
-
-      const clampedTime = Math.max(0, Math.min(duration, currentTime));
-      const seekPosition = clampedTime / duration;
-
-      wavesurfer.seekTo(seekPosition);
-      wavesurfer.play();
-
-      if (isCurrent) {
-        setCurrentTime(clampedTime);
-        setPlaying(true);
-      }
-    } catch {}
-  };
-
-  const pause = () => {
-    if (!wavesurfer) return;
-    try {
-      wasManuallyPaused = true;
-      wavesurfer.pause();
-      if (isCurrent) {
-        setPlaying(false);
-      }
-      setTimeout(() => {
-        wasManuallyPaused = false;
-      }, 100);
-    } catch {}
-  };
-
-  const stop = () => {
-    if (!wavesurfer) return;
-    try {
-      wavesurfer.stop();
-      if (isCurrent) {
-        setCurrentTime(0);
-        setPlaying(false);
-      }
-    } catch {
-      if (isCurrent) {
-        setCurrentTime(0);
-        setPlaying(false);
-      }
-    }
-  };
-
   const seekTo = (normalizedPosition: number) => {
     if (!wavesurfer) return;
     try {
@@ -1324,74 +855,11 @@ export const useWaveform = (
     }
   });
 
-  createEffect(() => {
-    if (!wavesurfer || !trackId || !isAudioLoaded) return;
-
-    const tracks = store.tracks;
-    const track = tracks.find((t) => t.id === trackId);
-    if (!track) return;
-
-    const volume = track.volume;
-    const muted = track.muted;
-    const pan = track.pan ?? 0;
-
-    if (isNaN(volume) || !isFinite(volume)) return;
-
-    const effectiveVolume = muted ? 0 : Math.max(0, Math.min(1, volume));
-    const effectivePan = Math.max(-1, Math.min(1, isNaN(pan) || !isFinite(pan) ? 0 : pan));
-
-    if (effectiveVolume === lastEffectiveVolume && effectivePan === lastPan) return;
-    lastEffectiveVolume = effectiveVolume;
-    lastPan = effectivePan;
-
-    if (volumeUpdateTimeout) {
-      clearTimeout(volumeUpdateTimeout);
-      volumeUpdateTimeout = null;
-    }
-
-    wavesurfer.setVolume(effectiveVolume);
-
-    if (splitterNode && leftGainNode && rightGainNode) {
-      const panValue = effectivePan;
-      leftGainNode.gain.value = panValue > 0 ? 1 - panValue : 1;
-      rightGainNode.gain.value = panValue > 0 ? 1 : 1 + panValue;
-    } else {
-      setTimeout(() => {
-        if (isAudioLoaded && wavesurfer && !isSettingUpPanning && splitterNode === null) {
-          setupPanning();
-        }
-      }, 100);
-    }
-  });
-
-  const getCurrentTime = () => {
-    if (!wavesurfer || !isAudioLoaded) return 0;
-    try {
-      return wavesurfer.getCurrentTime() || 0;
-    } catch {
-      return 0;
-    }
-  };
-
-  const isPlaying = () => {
-    if (!wavesurfer) return false;
-    try {
-      return wavesurfer.isPlaying();
-    } catch {
-      return false;
-    }
-  };
-
   return {
     loadAudio,
-    play,
-    pause,
-    stop,
     seekTo,
     setZoom,
     clearSelection,
     clearAudio,
-    getCurrentTime,
-    isPlaying,
   };
 };
@@ -1,72 +1,177 @@
-import { Accessor } from "solid-js";
+import { Accessor, createEffect, createMemo, on, onCleanup } from "solid-js";
 import { useAudioStore } from "../stores/audioStore";
+import { playbackEngine, type PlaybackLoop, type PlaybackTrack } from "../utils/playbackEngine";
+import { getProcessedClips } from "../utils/trackEffects";
 import type { useWaveform } from "./useWaveform";
 
 type WaveformRef = ReturnType<typeof useWaveform> | null;
 type WaveformMap = Map<string, WaveformRef>;
 
+const RESTART_DEBOUNCE_MS = 150;
+
+let frameId: number | null = null;
+let startToken = 0;
+let restartTimeout: ReturnType<typeof setTimeout> | null = null;
+
 export const useWaveformManager = (waveformMap: Accessor<WaveformMap>) => {
-  const { store, setPlaying } = useAudioStore();
-
-  const playAllTracks = () => {
-    const map = waveformMap();
-    const tracks = store.tracks;
-    const trackMap = new Map(tracks.map((t) => [t.id, t]));
-    const hasSoloedTracks = tracks.some((t) => t.soloed);
-    let hasAnyPlaying = false;
-
-    map.forEach((waveform, trackId) => {
-      const track = trackMap.get(trackId);
-      if (!track) return;
-
-      const shouldPlay = hasSoloedTracks ? track.soloed : !track.muted;
-
-      if (shouldPlay) {
-        waveform?.play();
-        hasAnyPlaying = true;
-      } else {
-        waveform?.pause();
-      }
-    });
-
-    if (hasAnyPlaying) {
-      setPlaying(true);
+  const { store, setPlaying, setCurrentTime } = useAudioStore();
+
+  const getProjectDuration = () => Math.max(0, ...store.tracks.map((t) => t.duration));
+
+  const stopTicking = () => {
+    if (frameId !== null) {
+      cancelAnimationFrame(frameId);
+      frameId = null;
+    }
+  };
+
+  const tick = () => {
+    const duration = getProjectDuration();
+    const time = playbackEngine.getPosition();
+    if (time >= duration) {
+      playbackEngine.stop();
+      frameId = null;
+      setCurrentTime(duration);
+      setPlaying(false);
+      return;
+    }
+    setCurrentTime(time);
+    frameId = requestAnimationFrame(tick);
+  };
+
+  const getPlaybackTracks = (): Promise<PlaybackTrack[]> =>
+    Promise.all(
+      store.tracks.map(async (t) => ({
+        id: t.id,
+        clips: await getProcessedClips(t),
+        volume: t.volume,
+        pan: t.pan,
+        muted: t.muted,
+        soloed: t.soloed,
+      }))
+    );
+
+  const getPlaybackLoop = (): PlaybackLoop | null => {
+    const region = store.repeatRegion;
+    return region ? { start: region.start, end: Math.min(region.end, getProjectDuration()) } : null;
+  };
+
+  const startEngine = async (offset?: number): Promise<boolean> => {
+    const token = ++startToken;
+    const tracks = await getPlaybackTracks();
+    if (token !== startToken) return false;
+    playbackEngine.start(tracks, offset ?? playbackEngine.getPosition(), getPlaybackLoop());
+    return true;
+  };
+
+  const cancelStart = () => {
+    startToken++;
+    if (restartTimeout !== null) {
+      clearTimeout(restartTimeout);
+      restartTimeout = null;
     }
   };
 
+  const playAllTracks = async () => {
+    const duration = getProjectDuration();
+    if (duration <= 0) return;
+
+    const offset = store.currentTime >= duration - 0.01 ? 0 : store.currentTime;
+    if (!(await startEngine(offset))) return;
+    setCurrentTime(offset);
+    setPlaying(true);
+
+    stopTicking();
+    frameId = requestAnimationFrame(tick);
+  };
+
   const pauseAllTracks = () => {
-    const map = waveformMap();
-    map.forEach((waveform) => {
-      waveform?.pause();
-    });
+    cancelStart();
+    const wasRunning = playbackEngine.isRunning();
+    const time = playbackEngine.stop();
+    stopTicking();
+    if (wasRunning) {
+      setCurrentTime(Math.min(time, getProjectDuration()));
+    }
     setPlaying(false);
   };
 
   const stopAllTracks = () => {
-    const map = waveformMap();
-    map.forEach((waveform) => {
-      waveform?.stop();
-    });
+    cancelStart();
+    playbackEngine.stop();
+    stopTicking();
+    setCurrentTime(0);
     setPlaying(false);
   };
 
   const seekAllTracks = (time: number) => {
-    const map = waveformMap();
-    const tracks = store.tracks;
-    const trackMap = new Map(tracks.map((t) => [t.id, t]));
-    map.forEach((waveform, trackId) => {
-      const track = trackMap.get(trackId);
-      if (track && track.duration > 0) {
-        const normalizedPosition = Math.max(0, Math.min(1, time / track.duration));
-        waveform?.seekTo(normalizedPosition);
-      }
-    });
+    setCurrentTime(time);
+    if (playbackEngine.isRunning()) {
+      startEngine(time).catch(console.error);
+    }
   };
 
   const clearAllSelections = () => {
     waveformMap().forEach((waveform) => waveform?.clearSelection());
   };
 
+  createEffect(() => {
+    const mix = store.tracks.map((t) => ({
+      id: t.id,
+      clips: t.clips,
+      volume: t.volume,
+      pan: t.pan,
+      muted: t.muted,
+      soloed: t.soloed,
+    }));
+    if (playbackEngine.isRunning()) {
+      playbackEngine.updateMix(mix);
+    }
+  });
+
+  createEffect(() => {
+    const { eq, limiter, ...master } = store.master;
+    playbackEngine.updateMaster({ ...master, eq: { ...eq }, limiter: { ...limiter } });
+  });
+
+  const playbackSources = createMemo(
+    () => store.tracks.map((t) => ({ clips: t.clips, effects: t.effects })),
+    [],
+    {
+      equals: (prev, next) =>
+        prev.length === next.length &&
+        prev.every(
+          (source, index) =>
+            source.clips === next[index]!.clips && source.effects === next[index]!.effects
+        ),
+    }
+  );
+
+  createEffect(
+    on(
+      [playbackSources, () => store.repeatRegion],
+      () => {
+        if (!playbackEngine.isRunning()) return;
+        if (restartTimeout !== null) {
+          clearTimeout(restartTimeout);
+        }
+        restartTimeout = setTimeout(() => {
+          restartTimeout = null;
+          if (playbackEngine.isRunning()) {
+            startEngine().catch(console.error);
+          }
+        }, RESTART_DEBOUNCE_MS);
+      },
+      { defer: true }
+    )
+  );
+
+  onCleanup(() => {
+    cancelStart();
+    playbackEngine.stop();
+    stopTicking();
+  });
+
   return {
     playAllTracks,
     pauseAllTracks,
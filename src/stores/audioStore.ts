@@ -1,14 +1,58 @@
+import { createSignal } from "solid-js";
 import { createStore } from "solid-js/store";
 import { audioOperations } from "../utils/audioOperations";
-import { cloneAudioBuffer } from "../utils/audioBuffer";
 import { exportProject, importProject, downloadProject } from "../utils/project";
 import { getAudioContext } from "../utils/audioContext";
+import { openDB, promisifyRequest } from "../utils/database";
 import { cloneTrackWithBuffer } from "../utils/trackHelpers";
+import {
+  clampClip,
+  clearClipRange,
+  createClip,
+  getClipEnd,
+  getClipsDuration,
+  MIN_CLIP_DURATION,
+  renderClips,
+} from "../utils/clips";
+import { DEFAULT_MASTER_BUS, type MasterBusSettings, withMasterDefaults } from "../utils/masterBus";
+import { encodeNoiseProfile, type NoiseProfile } from "../utils/spectralDsp";
+import { assignCompRange, createCompClip, isSameRegion } from "../utils/takes";
+import {
+  createTrackEffect,
+  hasActiveEffects,
+  renderTrackEffects,
+  TRACK_EFFECTS,
+  type TrackEffect,
+  type TrackEffectType,
+} from "../utils/trackEffects";
+
+export interface AudioClip {
+  id: string;
+  buffer: AudioBuffer | null;
+  start: number;
+  trimStart: number;
+  trimEnd: number;
+  gain: number;
+}
+
+export interface CompSegment {
+  start: number;
+  end: number;
+  takeId: string;
+}
+
+export interface TakeLane {
+  start: number;
+  end: number;
+  takes: AudioClip[];
+  comp: CompSegment[];
+}
 
 export interface AudioTrack {
   id: string;
   name: string;
   audioBuffer: AudioBuffer | null;
+  clips: AudioClip[];
   audioUrl: string;
   duration: number;
   backgroundColor: string | null;
@@ -17,6 +61,8 @@ export interface AudioTrack {
   muted: boolean;
   soloed: boolean;
   waveformRenderer: WaveformRenderer;
+  effects: TrackEffect[];
+  takeLane?: TakeLane;
 }
 
 export interface Selection {
@@ -29,107 +75,67 @@ export type WaveformRenderer = "bars" | "line" | "spectrogram";
 export interface AudioState {
   tracks: AudioTrack[];
   currentTrackId: string | null;
+  armedTrackId: string | null;
   selection: Selection | null;
   zoom: number;
   isPlaying: boolean;
   currentTime: number;
-  clipboard: AudioBuffer | null;
+  clipboard: AudioClip[] | null;
   undoStackLength: number;
   redoStackLength: number;
+  undoLabels: string[];
+  redoLabels: string[];
   repeatRegion: { start: number; end: number } | null;
   markers: number[];
   projectName: string;
+  master: MasterBusSettings;
+  noiseProfile: NoiseProfile | null;
 }
 
-interface ProjectSnapshot {
-  tracks: Array<{
-    id: string;
-    name: string;
-    audioBuffer: AudioBuffer | null;
-    audioUrl: string;
-    duration: number;
-    backgroundColor: string | null;
-    volume: number;
-    pan: number;
-    muted: boolean;
-    soloed: boolean;
-    waveformRenderer: WaveformRenderer;
-  }>;
+type HistoryTrackState = Omit<AudioTrack, "audioBuffer" | "audioUrl">;
+
+interface HistoryEntry {
+  label: string;
+  trackIds: string[];
+  tracks: HistoryTrackState[];
+  order: string[];
   currentTrackId: string | null;
 }
 
 const STORAGE_KEY = "auwebbity-state";
-const DB_NAME = "auwebbity-audio";
-const DB_VERSION = 1;
-
-interface PersistedSnapshot {
-  tracks: Array<{
-    id: string;
-    name: string;
-    audioUrl: string;
-    duration: number;
-    backgroundColor: string | null;
-    volume: number;
-    pan: number;
-    muted: boolean;
-    soloed: boolean;
-    waveformRenderer: WaveformRenderer;
-    bufferId: string | null;
-  }>;
+
+type PersistedClip = Omit<AudioClip, "buffer"> & { bufferId: string | null };
+
+type PersistedTakeLane = Omit<TakeLane, "takes"> & { takes: PersistedClip[] };
+
+interface PersistedHistoryEntry {
+  label: string;
+  trackIds: string[];
+  tracks: Array<
+    Omit<HistoryTrackState, "clips" | "takeLane"> & {
+      clips: PersistedClip[];
+      takeLane?: PersistedTakeLane;
+    }
+  >;
+  order: string[];
   currentTrackId: string | null;
 }
 
 interface PersistedState {
-  tracks: Omit<AudioTrack, "audioBuffer">[];
+  tracks: Array<
+    Omit<AudioTrack, "audioBuffer" | "clips" | "takeLane"> & {
+      clips?: PersistedClip[];
+      takeLane?: PersistedTakeLane;
+    }
+  >;
   currentTrackId: string | null;
-  undoStack?: PersistedSnapshot[];
-  redoStack?: PersistedSnapshot[];
+  undoStack?: PersistedHistoryEntry[];
+  redoStack?: PersistedHistoryEntry[];
   projectName?: string;
   markers?: number[];
-}
-
-let dbCache: IDBDatabase | null = null;
-let dbPromise: Promise<IDBDatabase> | null = null;
-
-async function openDB(): Promise<IDBDatabase> {
-  if (dbCache) return dbCache;
-  if (dbPromise) return dbPromise;
-
-  dbPromise = new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
-
-    request.onerror = () => {
-      dbPromise = null;
-      reject(request.error);
-    };
-    request.onsuccess = () => {
-      dbCache = request.result;
-      dbPromise = null;
-      dbCache.onclose = () => {
-        dbCache = null;
-      };
-      dbCache.onerror = () => {
-        dbCache = null;
-      };
-      resolve(dbCache);
-    };
-
-    request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains("audioBuffers")) {
-        db.createObjectStore("audioBuffers", { keyPath: "id" });
-      }
-    };
-  });
-
-  return dbPromise;
-}
-
-function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
-  return new Promise((resolve, reject) => {
-    request.onsuccess = () => resolve(request.result);
-    request.onerror = () => reject(request.error);
-  });
+  clipboard?: PersistedClip[];
+  master?: MasterBusSettings;
+  noiseProfile?: NoiseProfile | null;
 }
 
 function extractChannelData(audioBuffer: AudioBuffer): Float32Array[] {
@@ -185,57 +191,178 @@ async function loadAudioBuffer(id: string): Promise<AudioBuffer | null> {
   return audioBuffer;
 }
 
-async function saveState(
+const sourceBufferIds = new WeakMap<AudioBuffer, string>();
+const savedSourceBufferIds = new Set<string>();
+const loadingSourceBuffers = new Map<string, Promise<AudioBuffer | null>>();
+
+async function persistSourceBuffer(buffer: AudioBuffer): Promise<string> {
+  let bufferId = sourceBufferIds.get(buffer);
+  if (!bufferId) {
+    bufferId = `source-${crypto.randomUUID()}`;
+    sourceBufferIds.set(buffer, bufferId);
+  }
+  if (!savedSourceBufferIds.has(bufferId)) {
+    await saveAudioBuffer(bufferId, buffer);
+    savedSourceBufferIds.add(bufferId);
+  }
+  return bufferId;
+}
+
+function loadSourceBuffer(bufferId: string): Promise<AudioBuffer | null> {
+  let loading = loadingSourceBuffers.get(bufferId);
+  if (!loading) {
+    loading = loadAudioBuffer(bufferId).then((buffer) => {
+      if (buffer) {
+        sourceBufferIds.set(buffer, bufferId);
+        savedSourceBufferIds.add(bufferId);
+      }
+      return buffer;
+    });
+    loadingSourceBuffers.set(bufferId, loading);
+  }
+  return loading;
+}
+
+async function persistClips(
+  clips: AudioClip[],
+  trackBuffer: AudioBuffer | null,
+  trackBufferId: string | null
+): Promise<PersistedClip[]> {
+  return Promise.all(
+    clips.map(async ({ buffer, ...clip }) => {
+      if (!buffer) return { ...clip, bufferId: null };
+      if (buffer === trackBuffer) return { ...clip, bufferId: trackBufferId };
+      return { ...clip, bufferId: await persistSourceBuffer(buffer) };
+    })
+  );
+}
+
+async function restoreClips(
+  clips: PersistedClip[] | undefined,
+  trackBuffer: AudioBuffer | null,
+  trackBufferId: string | null
+): Promise<AudioClip[]> {
+  if (!clips) {
+    return trackBuffer ? [createClip(trackBuffer)] : [];
+  }
+  return Promise.all(
+    clips.map(async ({ bufferId, ...clip }) => ({
+      ...clip,
+      buffer: !bufferId
+        ? null
+        : bufferId === trackBufferId
+          ? trackBuffer
+          : await loadSourceBuffer(bufferId),
+    }))
+  );
+}
+
+async function persistTakeLane(lane?: TakeLane): Promise<PersistedTakeLane | undefined> {
+  return lane ? { ...lane, takes: await persistClips(lane.takes, null, null) } : undefined;
+}
+
+async function restoreTakeLane(lane?: PersistedTakeLane): Promise<TakeLane | undefined> {
+  return lane ? { ...lane, takes: await restoreClips(lane.takes, null, null) } : undefined;
+}
+
+async function persistHistoryEntry(entry: HistoryEntry): Promise<PersistedHistoryEntry> {
+  return {
+    ...entry,
+    tracks: await Promise.all(
+      entry.tracks.map(async (track) => ({
+        ...track,
+        clips: await persistClips(track.clips, null, null),
+        takeLane: await persistTakeLane(track.takeLane),
+      }))
+    ),
+  };
+}
+
+async function restoreHistoryEntry(entry: PersistedHistoryEntry): Promise<HistoryEntry> {
+  return {
+    ...entry,
+    tracks: await Promise.all(
+      entry.tracks.map(async (track) => ({
+        ...track,
+        clips: await restoreClips(track.clips, null, null),
+        takeLane: await restoreTakeLane(track.takeLane),
+        effects: track.effects ?? [],
+      }))
+    ),
+  };
+}
+
+const unloadedTrackClips = new Map<string, PersistedClip[] | undefined>();
+const unloadedTakeLanes = new Map<string, PersistedTakeLane | undefined>();
+let unrestoredHistory: Pick<PersistedState, "undoStack" | "redoStack"> | null = null;
+
+function getPersistedSourceIds(state: PersistedState): Set<string> {
+  const clips = [
+    ...state.tracks.flatMap((track) => [...(track.clips ?? []), ...(track.takeLane?.takes ?? [])]),
+    ...(state.clipboard ?? []),
+    ...[...(state.undoStack ?? []), ...(state.redoStack ?? [])].flatMap((entry) =>
+      entry.tracks.flatMap((track) => [...track.clips, ...(track.takeLane?.takes ?? [])])
+    ),
+  ];
+  return new Set(
+    clips.flatMap(({ bufferId }) => (bufferId?.startsWith("source-") ? [bufferId] : []))
+  );
+}
+
+async function deleteUnusedSourceBuffers(usedIds: Set<string>): Promise<void> {
+  const db = await openDB();
+  const store = db.transaction(["audioBuffers"], "readwrite").objectStore("audioBuffers");
+  const keys = await promisifyRequest(
+    store.getAllKeys(IDBKeyRange.bound("source-", "source-\uffff"))
+  );
+  const unused = keys.map(String).filter((bufferId) => !usedIds.has(bufferId));
+  unused.forEach((bufferId) => {
+    savedSourceBufferIds.delete(bufferId);
+    loadingSourceBuffers.delete(bufferId);
+  });
+  await Promise.all(unused.map((bufferId) => promisifyRequest(store.delete(bufferId))));
+}
+
+let savingState = Promise.resolve();
+
+function saveState(
   state: AudioState,
-  undoStack: ProjectSnapshot[] = [],
-  redoStack: ProjectSnapshot[] = []
+  undoStack: HistoryEntry[] = [],
+  redoStack: HistoryEntry[] = []
 ): Promise<void> {
-  try {
-    const persistSnapshot = async (
-      snapshot: ProjectSnapshot,
-      prefix: string
-    ): Promise<PersistedSnapshot> => {
-      return {
-        tracks: await Promise.all(
-          snapshot.tracks.map(async (track) => {
-            let bufferId: string | null = null;
-            if (track.audioBuffer) {
-              bufferId = `${prefix}-${track.id}-${Date.now()}-${Math.random()}`;
-              await saveAudioBuffer(bufferId, track.audioBuffer);
-            }
-            return {
-              id: track.id,
-              name: track.name,
-              audioUrl: track.audioUrl,
-              duration: track.duration,
-              backgroundColor: track.backgroundColor,
-              volume: track.volume,
-              pan: track.pan,
-              muted: track.muted,
-              soloed: track.soloed,
-              waveformRenderer: track.waveformRenderer,
-              bufferId,
-            };
-          })
-        ),
-        currentTrackId: snapshot.currentTrackId,
-      };
-    };
+  savingState = savingState.then(() => writeState(state, undoStack, redoStack));
+  return savingState;
+}
 
+async function writeState(
+  state: AudioState,
+  undoStack: HistoryEntry[],
+  redoStack: HistoryEntry[]
+): Promise<void> {
+  try {
     const persistedState: PersistedState = {
-      tracks: state.tracks.map(({ audioBuffer, ...track }) => ({
-        ...track,
-        backgroundColor: track.backgroundColor || null,
-      })),
+      tracks: await Promise.all(
+        state.tracks.map(async ({ audioBuffer, clips, takeLane, ...track }) => ({
+          ...track,
+          backgroundColor: track.backgroundColor || null,
+          clips: unloadedTrackClips.has(track.id)
+            ? unloadedTrackClips.get(track.id)
+            : await persistClips(clips, audioBuffer, track.id),
+          takeLane: unloadedTakeLanes.has(track.id)
+            ? unloadedTakeLanes.get(track.id)
+            : await persistTakeLane(takeLane),
+        }))
+      ),
       currentTrackId: state.currentTrackId,
       projectName: state.projectName,
       markers: state.markers,
-      undoStack: await Promise.all(
-        undoStack.map((snapshot, index) => persistSnapshot(snapshot, `undo-${index}`))
-      ),
-      redoStack: await Promise.all(
-        redoStack.map((snapshot, index) => persistSnapshot(snapshot, `redo-${index}`))
-      ),
+      master: state.master,
+      noiseProfile: state.noiseProfile,
+      clipboard: state.clipboard ? await persistClips(state.clipboard, null, null) : undefined,
+      undoStack:
+        unrestoredHistory?.undoStack ?? (await Promise.all(undoStack.map(persistHistoryEntry))),
+      redoStack:
+        unrestoredHistory?.redoStack ?? (await Promise.all(redoStack.map(persistHistoryEntry))),
     };
 
     localStorage.setItem(STORAGE_KEY, JSON.stringify(persistedState));
@@ -245,27 +372,7 @@ async function saveState(
         await saveAudioBuffer(track.id, track.audioBuffer);
       }
     }
-
-    const db = await openDB();
-    const transaction = db.transaction(["audioBuffers"], "readwrite");
-    const store = transaction.objectStore("audioBuffers");
-
-    if (state.clipboard) {
-      const clipboard = state.clipboard;
-      const channelData = extractChannelData(clipboard);
-
-      await promisifyRequest(
-        store.put({
-          id: "clipboard",
-          channelData: channelData.map((arr) => Array.from(arr)),
-          sampleRate: clipboard.sampleRate,
-          numberOfChannels: clipboard.numberOfChannels,
-          length: clipboard.length,
-        })
-      );
-    } else {
-      await promisifyRequest(store.delete("clipboard"));
-    }
+    await deleteUnusedSourceBuffers(getPersistedSourceIds(persistedState));
   } catch (error) {
     console.error("Failed to save state:", error);
   }
@@ -273,8 +380,8 @@ async function saveState(
 
 async function loadState(): Promise<
   | (Partial<AudioState> & {
-      undoStack?: ProjectSnapshot[];
-      redoStack?: ProjectSnapshot[];
+      undoStack?: HistoryEntry[];
+      redoStack?: HistoryEntry[];
     })
   | null
 > {
@@ -285,12 +392,22 @@ async function loadState(): Promise<
     const persistedState: PersistedState = JSON.parse(stored);
 
     const currentTrackId = persistedState.currentTrackId;
+    const getPersistedClips = (trackId: string) =>
+      persistedState.tracks.find((t) => t.id === trackId)?.clips;
+    const getPersistedTakeLane = (trackId: string) =>
+      persistedState.tracks.find((t) => t.id === trackId)?.takeLane;
+
     const loadTrackBuffer = async (trackId: string) => {
       try {
         const buffer = await loadAudioBuffer(trackId);
-        if (buffer) {
-          const blob = await audioOperations.audioBufferToBlob(buffer);
-          const audioUrl = URL.createObjectURL(blob);
+        if (buffer || getPersistedClips(trackId)?.length) {
+          const clips = await restoreClips(getPersistedClips(trackId), buffer, trackId);
+          const takeLane = await restoreTakeLane(getPersistedTakeLane(trackId));
+          unloadedTrackClips.delete(trackId);
+          unloadedTakeLanes.delete(trackId);
+          const audioUrl = buffer
+            ? URL.createObjectURL(await audioOperations.audioBufferToBlob(buffer))
+            : "";
           setAudioStore("tracks", (tracks) => {
             const newTracks = [...tracks];
             const trackIndex = newTracks.findIndex((t) => t.id === trackId);
@@ -298,20 +415,30 @@ async function loadState(): Promise<
               newTracks[trackIndex] = {
                 ...newTracks[trackIndex]!,
                 audioBuffer: buffer,
+                clips,
+                takeLane,
                 audioUrl,
               };
             }
             return newTracks;
           });
+          if (!buffer) setTrackStale(trackId, true);
         }
       } catch (error) {
         console.error(`Failed to load audio buffer for track ${trackId}:`, error);
       }
     };
 
+    persistedState.tracks.forEach((track) => {
+      unloadedTrackClips.set(track.id, track.clips);
+      unloadedTakeLanes.set(track.id, track.takeLane);
+    });
+
     const tracks: AudioTrack[] = persistedState.tracks.map((track) => ({
       ...track,
       audioBuffer: null,
+      clips: [],
+      takeLane: undefined,
       audioUrl: "",
       backgroundColor: track.backgroundColor || null,
       volume: track.volume ?? 1,
@@ -319,6 +446,7 @@ async function loadState(): Promise<
       muted: track.muted ?? false,
       soloed: track.soloed ?? false,
       waveformRenderer: track.waveformRenderer || "bars",
+      effects: track.effects ?? [],
     }));
 
     const loadCurrentTrack = async () => {
@@ -328,20 +456,32 @@ async function loadState(): Promise<
 
       try {
         const audioBuffer = await loadAudioBuffer(currentTrackId);
-        if (audioBuffer) {
-          const blob = await audioOperations.audioBufferToBlob(audioBuffer);
-          const audioUrl = URL.createObjectURL(blob);
+        if (audioBuffer || getPersistedClips(currentTrackId)?.length) {
+          const clips = await restoreClips(
+            getPersistedClips(currentTrackId),
+            audioBuffer,
+            currentTrackId
+          );
+          const takeLane = await restoreTakeLane(getPersistedTakeLane(currentTrackId));
+          unloadedTrackClips.delete(currentTrackId);
+          unloadedTakeLanes.delete(currentTrackId);
+          const audioUrl = audioBuffer
+            ? URL.createObjectURL(await audioOperations.audioBufferToBlob(audioBuffer))
+            : "";
           setAudioStore("tracks", (tracks) =>
             tracks.map((t) =>
               t.id === currentTrackId
                 ? {
                     ...t,
                     audioBuffer,
+                    clips,
+                    takeLane,
                     audioUrl,
                   }
                 : t
             )
           );
+          if (!audioBuffer) setTrackStale(currentTrackId, true);
         }
       } catch (error) {
         console.error(`Failed to load current track buffer:`, error);
@@ -370,117 +510,73 @@ async function loadState(): Promise<
       }
     });
 
+    const loadClipboard = async () => {
+      if (persistedState.clipboard) {
+        const clips = await restoreClips(persistedState.clipboard, null, null);
+        if (clips.length > 0) {
+          setAudioStore("clipboard", clips);
+        }
+        return;
+      }
+      const buffer = await loadAudioBuffer("clipboard");
+      if (buffer) {
+        setAudioStore("clipboard", [createClip(buffer)]);
+      }
+    };
+
     if (typeof requestIdleCallback !== "undefined") {
       requestIdleCallback(
         () => {
-          loadAudioBuffer("clipboard")
-            .then((buffer) => {
-              if (buffer) {
-                setAudioStore("clipboard", buffer);
-              }
-            })
-            .catch(() => {});
+          loadClipboard().catch(() => {});
         },
         { timeout: 3000 }
       );
     } else {
       setTimeout(() => {
-        loadAudioBuffer("clipboard")
-          .then((buffer) => {
-            if (buffer) {
-              setAudioStore("clipboard", buffer);
-            }
-          })
-          .catch(() => {});
+        loadClipboard().catch(() => {});
       }, 300);
     }
 
-    const restoreSnapshot = async (persisted: PersistedSnapshot): Promise<ProjectSnapshot> => {
-      const restoredTracks = await Promise.all(
-        persisted.tracks.map(async (track) => {
-          let audioBuffer: AudioBuffer | null = null;
-          let audioUrl = track.audioUrl;
-          if (track.bufferId) {
-            audioBuffer = await loadAudioBuffer(track.bufferId);
-            if (audioBuffer) {
-              const blob = await audioOperations.audioBufferToBlob(audioBuffer);
-              audioUrl = URL.createObjectURL(blob);
-            }
-          }
-          return {
-            id: track.id,
-            name: track.name,
-            audioBuffer,
-            audioUrl,
-            duration: track.duration,
-            backgroundColor: track.backgroundColor,
-            volume: track.volume,
-            pan: track.pan ?? 0,
-            muted: track.muted,
-            soloed: track.soloed,
-            waveformRenderer: track.waveformRenderer || "bars",
-          };
-        })
-      );
-      return {
-        tracks: restoredTracks,
-        currentTrackId: persisted.currentTrackId,
-      };
-    };
-
-    const undoStack: ProjectSnapshot[] = [];
-    const redoStack: ProjectSnapshot[] = [];
-
-    if (persistedState.undoStack && persistedState.undoStack.length > 0) {
-      if (typeof requestIdleCallback !== "undefined") {
-        requestIdleCallback(
-          () => {
-            Promise.all(persistedState.undoStack!.map(restoreSnapshot))
-              .then((stack) => {
-                undoStack.length = 0;
-                undoStack.push(...stack);
-                setAudioStore("undoStackLength", undoStack.length);
-              })
-              .catch(() => {});
-          },
-          { timeout: 5000 }
-        );
-      } else {
-        setTimeout(() => {
-          Promise.all(persistedState.undoStack!.map(restoreSnapshot))
-            .then((stack) => {
-              undoStack.length = 0;
-              undoStack.push(...stack);
-              setAudioStore("undoStackLength", undoStack.length);
-            })
-            .catch(console.error);
-        }, 500);
+    const undoStack: HistoryEntry[] = [];
+    const redoStack: HistoryEntry[] = [];
+    const isHistoryEntry = (entry: PersistedHistoryEntry) =>
+      Array.isArray(entry.order) && typeof entry.label === "string";
+    const persistedUndoStack = (persistedState.undoStack ?? []).filter(isHistoryEntry);
+    const persistedRedoStack = (persistedState.redoStack ?? []).filter(isHistoryEntry);
+
+    const restoreHistory = async () => {
+      const [restoredUndo, restoredRedo] = await Promise.all([
+        Promise.all(persistedUndoStack.map(restoreHistoryEntry)),
+        Promise.all(persistedRedoStack.map(restoreHistoryEntry)),
+      ]);
+      if (!unrestoredHistory) return;
+      unrestoredHistory = null;
+      const hasNewEntries = undoStack.length > 0;
+      undoStack.unshift(...restoredUndo);
+      undoStack.splice(0, Math.max(0, undoStack.length - MAX_HISTORY));
+      if (!hasNewEntries) {
+        redoStack.push(...restoredRedo);
       }
-    }
+      setAudioStore({
+        undoStackLength: undoStack.length,
+        redoStackLength: redoStack.length,
+        undoLabels: undoStack.map((entry) => entry.label),
+        redoLabels: redoStack.map((entry) => entry.label),
+      });
+    };
 
-    if (persistedState.redoStack && persistedState.redoStack.length > 0) {
+    if (persistedUndoStack.length > 0 || persistedRedoStack.length > 0) {
+      unrestoredHistory = { undoStack: persistedUndoStack, redoStack: persistedRedoStack };
       if (typeof requestIdleCallback !== "undefined") {
         requestIdleCallback(
           () => {
-            Promise.all(persistedState.redoStack!.map(restoreSnapshot))
-              .then((stack) => {
-                redoStack.length = 0;
-                redoStack.push(...stack);
-                setAudioStore("redoStackLength", redoStack.length);
-              })
-              .catch(() => {});
+            restoreHistory().catch(console.error);
           },
           { timeout: 5000 }
         );
       } else {
         setTimeout(() => {
-          Promise.all(persistedState.redoStack!.map(restoreSnapshot))
-            .then((stack) => {
-              redoStack.length = 0;
-              redoStack.push(...stack);
-              setAudioStore("redoStackLength", redoStack.length);
-            })
-            .catch(console.error);
+          restoreHistory().catch(console.error);
         }, 500);
       }
     }
@@ -494,6 +590,8 @@ async function loadState(): Promise<
       redoStack,
       markers: persistedState.markers || [],
       projectName: persistedState.projectName || "",
+      master: withMasterDefaults(persistedState.master),
+      noiseProfile: persistedState.noiseProfile ?? null,
     };
   } catch (error) {
     console.error("Failed to load state:", error);
@@ -516,6 +614,7 @@ async function clearState(): Promise<void> {
 const [audioStore, setAudioStore] = createStore<AudioState>({
   tracks: [],
   currentTrackId: null,
+  armedTrackId: null,
   selection: null,
   zoom: 100,
   isPlaying: false,
@@ -523,9 +622,13 @@ const [audioStore, setAudioStore] = createStore<AudioState>({
   clipboard: null,
   undoStackLength: 0,
   redoStackLength: 0,
+  undoLabels: [],
+  redoLabels: [],
   repeatRegion: null,
   markers: [],
   projectName: "",
+  master: DEFAULT_MASTER_BUS,
+  noiseProfile: null,
 });
 
 const SAVE_DEBOUNCE_MS = 1000;
@@ -541,13 +644,113 @@ const scheduleSave = () => {
   }
   saveTimeout = setTimeout(() => {
     saveScheduled = false;
-    saveState(audioStore).catch(() => {});
+    saveState(audioStore, undoStack, redoStack).catch(() => {});
   }, SAVE_DEBOUNCE_MS);
 };
 
+const TRACK_RENDER_DELAY_MS = 50;
+const trackRenderTimeouts = new Map<string, ReturnType<typeof setTimeout>>();
+const [staleTrackIds, setStaleTrackIds] = createSignal<ReadonlySet<string>>(new Set());
+
+const setTrackStale = (trackId: string, stale: boolean) => {
+  setStaleTrackIds((ids) => {
+    if (ids.has(trackId) === stale) return ids;
+    const next = new Set(ids);
+    if (stale) {
+      next.add(trackId);
+    } else {
+      next.delete(trackId);
+    }
+    return next;
+  });
+};
+
+export const isTrackStale = (trackId: string) => staleTrackIds().has(trackId);
+
+const trackRenders = new Map<string, Promise<void>>();
+
+const renderTrack = (trackId: string) => {
+  const render = renderTrackAudio(trackId).finally(() => {
+    if (trackRenders.get(trackId) === render) {
+      trackRenders.delete(trackId);
+    }
+  });
+  trackRenders.set(trackId, render);
+  return render;
+};
+
+const renderTrackAudio = async (trackId: string) => {
+  const track = audioStore.tracks.find((t) => t.id === trackId);
+  if (!track) return;
+
+  const clips = track.clips;
+  setTrackStale(trackId, false);
+  const audioBuffer = renderClips(clips);
+  let audioUrl = "";
+  if (audioBuffer) {
+    const blob = await audioOperations.audioBufferToBlob(audioBuffer);
+    audioUrl = URL.createObjectURL(blob);
+  }
+
+  const latest = audioStore.tracks.find((t) => t.id === trackId);
+  if (!latest || latest.clips !== clips) {
+    if (audioUrl) {
+      URL.revokeObjectURL(audioUrl);
+    }
+    return;
+  }
+
+  const oldUrl = latest.audioUrl;
+  setAudioStore("tracks", (tracks) =>
+    tracks.map((t) =>
+      t.id === trackId ? { ...t, audioBuffer, audioUrl, duration: audioBuffer?.duration ?? 0 } : t
+    )
+  );
+  if (oldUrl) {
+    URL.revokeObjectURL(oldUrl);
+  }
+  scheduleSave();
+};
+
+export const scheduleTrackRender = (trackId: string) => {
+  const existing = trackRenderTimeouts.get(trackId);
+  if (existing !== undefined) {
+    clearTimeout(existing);
+  }
+  trackRenderTimeouts.set(
+    trackId,
+    setTimeout(() => {
+      trackRenderTimeouts.delete(trackId);
+      if (isTrackStale(trackId)) {
+        renderTrack(trackId).catch(console.error);
+      }
+    }, TRACK_RENDER_DELAY_MS)
+  );
+};
+
+export const renderPendingTracks = async (trackIds: string[] = [...staleTrackIds()]) => {
+  for (const trackId of trackIds) {
+    clearTimeout(trackRenderTimeouts.get(trackId));
+    trackRenderTimeouts.delete(trackId);
+    await trackRenders.get(trackId);
+    if (isTrackStale(trackId)) {
+      await renderTrack(trackId);
+    }
+  }
+};
+
 const MAX_HISTORY = 50;
-let undoStack: ProjectSnapshot[] = [];
-let redoStack: ProjectSnapshot[] = [];
+let undoStack: HistoryEntry[] = [];
+let redoStack: HistoryEntry[] = [];
+
+const syncHistoryLabels = () => {
+  setAudioStore({
+    undoStackLength: undoStack.length,
+    redoStackLength: redoStack.length,
+    undoLabels: undoStack.map((entry) => entry.label),
+    redoLabels: redoStack.map((entry) => entry.label),
+  });
+};
 
 let isInitialized = false;
 export const initializeStore = async () => {
@@ -581,17 +784,16 @@ export const initializeStore = async () => {
     );
 
     if (savedState.undoStack) {
-      undoStack.length = 0;
-      undoStack.push(...savedState.undoStack);
+      undoStack = savedState.undoStack;
     }
     if (savedState.redoStack) {
-      redoStack.length = 0;
-      redoStack.push(...savedState.redoStack);
+      redoStack = savedState.redoStack;
     }
 
     setAudioStore({
       tracks: tracksWithUrls,
       currentTrackId: savedState.currentTrackId || null,
+      armedTrackId: null,
       selection: null,
       zoom: 100,
       isPlaying: false,
@@ -599,27 +801,46 @@ export const initializeStore = async () => {
       clipboard: savedState.clipboard || null,
       undoStackLength: undoStack.length,
       redoStackLength: redoStack.length,
+      undoLabels: undoStack.map((entry) => entry.label),
+      redoLabels: redoStack.map((entry) => entry.label),
       repeatRegion: null,
       markers: [],
       projectName: savedState.projectName || "",
+      master: savedState.master ?? DEFAULT_MASTER_BUS,
+      noiseProfile: savedState.noiseProfile ?? null,
     });
   }
 };
 
 export const useAudioStore = () => {
-  const addTrack = async (track: Omit<AudioTrack, "id">) => {
-    await saveToHistory();
-    const id = crypto.randomUUID();
-    setAudioStore("tracks", (tracks) => [...tracks, { ...track, id }]);
-    setAudioStore("currentTrackId", id);
+  const addTracks = async (tracks: Array<Omit<AudioTrack, "id">>, label: string) => {
+    const newTracks = tracks.map((track) => ({ ...track, id: crypto.randomUUID() }));
+    const ids = newTracks.map((track) => track.id);
+    if (ids.length === 0) return ids;
+
+    await saveToHistory(label, ids);
+    setAudioStore("tracks", (current) => [...current, ...newTracks]);
+    newTracks.forEach((track) => {
+      if (!track.audioBuffer) setTrackStale(track.id, true);
+    });
+    setAudioStore("currentTrackId", ids[0]!);
     scheduleSave();
-    return id;
+    return ids;
+  };
+
+  const addTrack = async (track: Omit<AudioTrack, "id">) => {
+    const [id] = await addTracks([track], `Add ${track.name}`);
+    return id!;
   };
 
   const setSelection = (selection: Selection | null) => {
     setAudioStore("selection", selection);
   };
 
+  const setArmedTrack = (trackId: string | null) => {
+    setAudioStore("armedTrackId", trackId);
+  };
+
   const zoomIn = () => {
     setAudioStore("zoom", (z) => Math.min(1000, z * 1.5));
   };
@@ -666,8 +887,8 @@ export const useAudioStore = () => {
     scheduleSave();
   };
 
-  const setClipboard = (buffer: AudioBuffer | null) => {
-    setAudioStore("clipboard", buffer);
+  const setClipboard = (clips: AudioClip[] | null) => {
+    setAudioStore("clipboard", clips);
     scheduleSave();
   };
 
@@ -691,10 +912,14 @@ export const useAudioStore = () => {
 
     undoStack = [];
     redoStack = [];
+    unrestoredHistory = null;
+    unloadedTrackClips.clear();
+    unloadedTakeLanes.clear();
 
     setAudioStore({
       tracks: [],
       currentTrackId: null,
+      armedTrackId: null,
       selection: null,
       zoom: 100,
       isPlaying: false,
@@ -702,9 +927,13 @@ export const useAudioStore = () => {
       clipboard: null,
       undoStackLength: 0,
       redoStackLength: 0,
+      undoLabels: [],
+      redoLabels: [],
       repeatRegion: null,
       markers: [],
       projectName: "",
+      master: DEFAULT_MASTER_BUS,
+      noiseProfile: null,
     });
   };
 
@@ -716,98 +945,96 @@ export const useAudioStore = () => {
     });
   };
 
-  const createSnapshot = async (): Promise<ProjectSnapshot> => {
-    const tracks = await Promise.all(
-      audioStore.tracks.map(async (track) => {
-        let audioBuffer: AudioBuffer | null = null;
-        let audioUrl = track.audioUrl;
-        if (track.audioBuffer) {
-          audioBuffer = cloneAudioBuffer(track.audioBuffer);
-          const blob = await audioOperations.audioBufferToBlob(audioBuffer);
-          audioUrl = URL.createObjectURL(blob);
-        }
-        return {
-          id: track.id,
-          name: track.name,
-          audioBuffer,
-          audioUrl,
-          duration: track.duration,
-          backgroundColor: track.backgroundColor,
-          volume: track.volume,
-          pan: track.pan,
-          muted: track.muted,
-          soloed: track.soloed,
-          waveformRenderer: track.waveformRenderer,
-        };
-      })
-    );
-    return {
-      tracks,
-      currentTrackId: audioStore.currentTrackId,
-    };
-  };
+  const captureHistoryEntry = (label: string, trackIds: string[]): HistoryEntry => ({
+    label,
+    trackIds,
+    tracks: audioStore.tracks
+      .filter((track) => trackIds.includes(track.id))
+      .map(({ audioBuffer, audioUrl, ...track }) => ({
+        ...track,
+        clips: track.clips.map((clip) => ({ ...clip })),
+      })),
+    order: audioStore.tracks.map((track) => track.id),
+    currentTrackId: audioStore.currentTrackId,
+  });
 
-  const saveToHistory = async () => {
-    const snapshot = await createSnapshot();
-    undoStack.push(snapshot);
+  const saveToHistory = async (
+    label: string,
+    trackIds: string[] = audioStore.tracks.map((t) => t.id)
+  ) => {
+    const entry = captureHistoryEntry(label, trackIds);
+    undoStack.push(entry);
     if (undoStack.length > MAX_HISTORY) {
-      const old = undoStack.shift();
-      if (old) {
-        revokeTrackUrls(old.tracks);
-      }
+      undoStack.shift();
     }
-    redoStack.forEach((snapshot) => revokeTrackUrls(snapshot.tracks));
     redoStack = [];
-    setAudioStore("undoStackLength", undoStack.length);
-    setAudioStore("redoStackLength", 0);
+    syncHistoryLabels();
   };
 
-  const restoreSnapshot = async (snapshot: ProjectSnapshot) => {
-    revokeTrackUrls(audioStore.tracks);
-    const restoredTracks = await Promise.all(
-      snapshot.tracks.map(async (track) => {
-        let audioUrl = track.audioUrl;
-        if (track.audioBuffer) {
-          const blob = await audioOperations.audioBufferToBlob(track.audioBuffer);
-          audioUrl = URL.createObjectURL(blob);
-        }
-        return {
-          ...track,
-          audioBuffer: track.audioBuffer ? cloneAudioBuffer(track.audioBuffer) : null,
-          audioUrl,
-        };
+  const applyHistoryEntry = (entry: HistoryEntry) => {
+    const currentTracks = new Map(audioStore.tracks.map((t) => [t.id, t]));
+    const restoredTracks = new Map<string, AudioTrack>(
+      entry.tracks.map((track) => {
+        const current = currentTracks.get(track.id);
+        return [
+          track.id,
+          {
+            ...track,
+            audioBuffer: current?.audioBuffer ?? renderClips(track.clips),
+            audioUrl: current?.audioUrl ?? "",
+          },
+        ];
       })
     );
+
+    const removedTracks = audioStore.tracks.filter(
+      (t) => entry.trackIds.includes(t.id) && !restoredTracks.has(t.id)
+    );
+    const tracks = entry.order.flatMap((id) => {
+      const track = restoredTracks.get(id) ?? currentTracks.get(id);
+      return track ? [track] : [];
+    });
+
     setAudioStore({
-      tracks: restoredTracks,
-      currentTrackId: snapshot.currentTrackId,
+      tracks,
+      currentTrackId: entry.currentTrackId,
       selection: null,
     });
+    restoredTracks.forEach((_, trackId) => setTrackStale(trackId, true));
+    revokeTrackUrls(removedTracks);
     scheduleSave();
   };
 
   const undo = async (): Promise<boolean> => {
     if (undoStack.length === 0) return false;
-    const currentSnapshot = await createSnapshot();
-    redoStack.push(currentSnapshot);
-    setAudioStore("redoStackLength", redoStack.length);
-    const snapshotToRestore = undoStack.pop()!;
-    setAudioStore("undoStackLength", undoStack.length);
-    await restoreSnapshot(snapshotToRestore);
+    const entry = undoStack.pop()!;
+    redoStack.push(captureHistoryEntry(entry.label, entry.trackIds));
+    syncHistoryLabels();
+    applyHistoryEntry(entry);
     return true;
   };
 
   const redo = async (): Promise<boolean> => {
     if (redoStack.length === 0) return false;
-    const currentSnapshot = await createSnapshot();
-    undoStack.push(currentSnapshot);
-    setAudioStore("undoStackLength", undoStack.length);
-    const snapshotToRestore = redoStack.pop()!;
-    setAudioStore("redoStackLength", redoStack.length);
-    await restoreSnapshot(snapshotToRestore);
+    const entry = redoStack.pop()!;
+    undoStack.push(captureHistoryEntry(entry.label, entry.trackIds));
+    syncHistoryLabels();
+    applyHistoryEntry(entry);
     return true;
   };
 
+  const jumpToHistory = async (position: number): Promise<boolean> => {
+    const target = Math.max(0, Math.min(position, undoStack.length + redoStack.length));
+    let changed = false;
+    while (undoStack.length > target && (await undo())) {
+      changed = true;
+    }
+    while (undoStack.length < target && (await redo())) {
+      changed = true;
+    }
+    return changed;
+  };
+
   const canUndo = () => audioStore.undoStackLength > 0;
   const canRedo = () => audioStore.redoStackLength > 0;
 
@@ -821,7 +1048,7 @@ export const useAudioStore = () => {
     const track = audioStore.tracks.find((t) => t.id === trackId);
     if (!track) return;
 
-    await saveToHistory();
+    await saveToHistory(`Delete ${track.name}`, [trackId]);
 
     if (track.audioUrl) {
       URL.revokeObjectURL(track.audioUrl);
@@ -839,7 +1066,7 @@ export const useAudioStore = () => {
   };
 
   const reorderTracks = async (fromIndex: number, toIndex: number) => {
-    await saveToHistory();
+    await saveToHistory("Reorder tracks", []);
     setAudioStore("tracks", (tracks) => {
       const newTracks = [...tracks];
       const [movedTrack] = newTracks.splice(fromIndex, 1);
@@ -852,17 +1079,18 @@ export const useAudioStore = () => {
   };
 
   const duplicateTrack = async (trackId: string) => {
+    await renderPendingTracks([trackId]);
     const track = audioStore.tracks.find((t) => t.id === trackId);
     if (!track || !track.audioBuffer) return;
 
-    await saveToHistory();
+    const newId = crypto.randomUUID();
+    await saveToHistory(`Duplicate ${track.name}`, [newId]);
 
     const { track: newTrackData, audioUrl } = await cloneTrackWithBuffer(
       track,
       `${track.name} Copy`
     );
 
-    const newId = crypto.randomUUID();
     const newTrack: AudioTrack = {
       ...newTrackData,
       id: newId,
@@ -879,6 +1107,245 @@ export const useAudioStore = () => {
     scheduleSave();
   };
 
+  const setTrackClips = (trackId: string, clips: AudioClip[]) => {
+    setAudioStore("tracks", (tracks) =>
+      tracks.map((t) => (t.id === trackId ? { ...t, clips, duration: getClipsDuration(clips) } : t))
+    );
+    setTrackStale(trackId, true);
+    scheduleSave();
+  };
+
+  const addClip = async (trackId: string, buffer: AudioBuffer, start: number) => {
+    const track = audioStore.tracks.find((t) => t.id === trackId);
+    if (!track) return;
+
+    await saveToHistory(`Add clip to ${track.name}`, [trackId]);
+    setTrackClips(trackId, [...track.clips, createClip(buffer, Math.max(0, start))]);
+  };
+
+  const updateClip = async (
+    trackId: string,
+    clipId: string,
+    changes: Partial<Pick<AudioClip, "start" | "trimStart" | "trimEnd" | "gain">>
+  ) => {
+    const track = audioStore.tracks.find((t) => t.id === trackId);
+    const clip = track?.clips.find((c) => c.id === clipId);
+    if (!track || !clip) return;
+
+    const updated = clampClip({ ...clip, ...changes });
+    const action =
+      updated.trimStart !== clip.trimStart || updated.trimEnd !== clip.trimEnd
+        ? "Trim clip"
+        : updated.start !== clip.start
+          ? "Move clip"
+          : "Change clip gain";
+
+    await saveToHistory(`${action} on ${track.name}`, [trackId]);
+    setTrackClips(
+      trackId,
+      track.clips.map((c) => (c.id === clipId ? updated : c))
+    );
+  };
+
+  const removeClip = async (trackId: string, clipId: string) => {
+    const track = audioStore.tracks.find((t) => t.id === trackId);
+    if (!track || !track.clips.some((c) => c.id === clipId)) return;
+
+    await saveToHistory(`Remove clip from ${track.name}`, [trackId]);
+    setTrackClips(
+      trackId,
+      track.clips.filter((c) => c.id !== clipId)
+    );
+  };
+
+  const applyTakeLane = (track: AudioTrack, lane: TakeLane) => {
+    const compClip = createCompClip(lane);
+    setAudioStore("tracks", (tracks) =>
+      tracks.map((t) => (t.id === track.id ? { ...t, takeLane: lane } : t))
+    );
+    setTrackClips(track.id, [
+      ...clearClipRange(track.clips, lane.start, lane.end),
+      ...(compClip ? [compClip] : []),
+    ]);
+  };
+
+  const addTakes = async (trackId: string, region: Selection, takes: AudioClip[]) => {
+    const track = audioStore.tracks.find((t) => t.id === trackId);
+    if (!track || takes.length === 0) return;
+
+    await saveToHistory(
+      `Record ${takes.length} take${takes.length > 1 ? "s" : ""} into ${track.name}`,
+      [trackId]
+    );
+    const existing =
+      track.takeLane && isSameRegion(track.takeLane, region.start, region.end)
+        ? track.takeLane.takes
+        : [];
+    const complete = takes.filter(
+      (take) => take.start <= region.start + MIN_CLIP_DURATION && getClipEnd(take) >= region.end
+    );
+    const chosen = complete[complete.length - 1] ?? takes[takes.length - 1]!;
+    applyTakeLane(track, {
+      start: region.start,
+      end: region.end,
+      takes: [...existing, ...takes],
+      comp: [{ start: region.start, end: region.end, takeId: chosen.id }],
+    });
+  };
+
+  const setCompTake = async (trackId: string, takeId: string, start: number, end: number) => {
+    const track = audioStore.tracks.find((t) => t.id === trackId);
+    const lane = track?.takeLane;
+    const index = lane?.takes.findIndex((take) => take.id === takeId) ?? -1;
+    if (!track || !lane || index === -1) return;
+
+    const from = Math.max(lane.start, start);
+    const to = Math.min(lane.end, end);
+    if (to - from < MIN_CLIP_DURATION) return;
+
+    await saveToHistory(`Comp take ${index + 1} on ${track.name}`, [trackId]);
+    applyTakeLane(track, { ...lane, comp: assignCompRange(lane.comp, takeId, from, to) });
+  };
+
+  const deleteTake = async (trackId: string, takeId: string) => {
+    const track = audioStore.tracks.find((t) => t.id === trackId);
+    const lane = track?.takeLane;
+    const index = lane?.takes.findIndex((take) => take.id === takeId) ?? -1;
+    if (!track || !lane || index === -1) return;
+
+    await saveToHistory(`Delete take ${index + 1} from ${track.name}`, [trackId]);
+    const takes = lane.takes.filter((take) => take.id !== takeId);
+    const fallback = takes[takes.length - 1];
+    if (!fallback) {
+      setAudioStore("tracks", (tracks) =>
+        tracks.map((t) => (t.id === trackId ? { ...t, takeLane: undefined } : t))
+      );
+      setTrackClips(trackId, clearClipRange(track.clips, lane.start, lane.end));
+      return;
+    }
+
+    applyTakeLane(track, {
+      ...lane,
+      takes,
+      comp: lane.comp.reduce<CompSegment[]>(
+        (comp, segment) =>
+          assignCompRange(
+            comp,
+            segment.takeId === takeId ? fallback.id : segment.takeId,
+            segment.start,
+            segment.end
+          ),
+        []
+      ),
+    });
+  };
+
+  const flattenTakes = async (trackId: string) => {
+    const track = audioStore.tracks.find((t) => t.id === trackId);
+    if (!track?.takeLane) return;
+
+    await saveToHistory(`Flatten takes on ${track.name}`, [trackId]);
+    setAudioStore("tracks", (tracks) =>
+      tracks.map((t) => (t.id === trackId ? { ...t, takeLane: undefined } : t))
+    );
+    scheduleSave();
+  };
+
+  const setTrackEffects = (trackId: string, effects: TrackEffect[]) => {
+    setAudioStore("tracks", (tracks) =>
+      tracks.map((t) => (t.id === trackId ? { ...t, effects } : t))
+    );
+    scheduleSave();
+  };
+
+  const addTrackEffect = async (trackId: string, type: TrackEffectType) => {
+    const track = audioStore.tracks.find((t) => t.id === trackId);
+    if (!track) return;
+
+    await saveToHistory(`Add ${TRACK_EFFECTS[type].label} to ${track.name}`, [trackId]);
+    const params =
+      type === "noiseReduction" && audioStore.noiseProfile
+        ? encodeNoiseProfile(audioStore.noiseProfile)
+        : undefined;
+    setTrackEffects(trackId, [...track.effects, createTrackEffect(type, params)]);
+  };
+
+  const updateTrackEffect = (
+    trackId: string,
+    effectId: string,
+    changes: Partial<Pick<TrackEffect, "params" | "bypass">>
+  ) => {
+    const track = audioStore.tracks.find((t) => t.id === trackId);
+    if (!track) return;
+
+    setTrackEffects(
+      trackId,
+      track.effects.map((effect) =>
+        effect.id === effectId
+          ? { ...effect, ...changes, params: { ...effect.params, ...changes.params } }
+          : effect
+      )
+    );
+  };
+
+  const removeTrackEffect = async (trackId: string, effectId: string) => {
+    const track = audioStore.tracks.find((t) => t.id === trackId);
+    const effect = track?.effects.find((e) => e.id === effectId);
+    if (!track || !effect) return;
+
+    await saveToHistory(`Remove ${TRACK_EFFECTS[effect.type].label} from ${track.name}`, [trackId]);
+    setTrackEffects(
+      trackId,
+      track.effects.filter((e) => e.id !== effectId)
+    );
+  };
+
+  const moveTrackEffect = async (trackId: string, fromIndex: number, toIndex: number) => {
+    const track = audioStore.tracks.find((t) => t.id === trackId);
+    if (!track || toIndex < 0 || toIndex >= track.effects.length || fromIndex === toIndex) return;
+
+    await saveToHistory(`Reorder effects on ${track.name}`, [trackId]);
+    const effects = [...track.effects];
+    const [moved] = effects.splice(fromIndex, 1);
+    if (!moved) return;
+    effects.splice(toIndex, 0, moved);
+    setTrackEffects(trackId, effects);
+  };
+
+  const freezeTrackEffects = async (trackId: string) => {
+    const track = audioStore.tracks.find((t) => t.id === trackId);
+    if (!track || !hasActiveEffects(track.effects)) return;
+
+    const frozen = await renderTrackEffects(track);
+    if (!frozen) return;
+
+    await saveToHistory(`Freeze effects on ${track.name}`, [trackId]);
+    setAudioStore("tracks", (tracks) =>
+      tracks.map((t) =>
+        t.id === trackId
+          ? {
+              ...t,
+              clips: [createClip(frozen)],
+              effects: t.effects.filter((e) => e.bypass),
+              duration: frozen.duration,
+            }
+          : t
+      )
+    );
+    setTrackStale(trackId, true);
+    scheduleSave();
+  };
+
+  const updateMaster = (changes: Partial<MasterBusSettings>) => {
+    setAudioStore("master", (master) => ({ ...master, ...changes }));
+    scheduleSave();
+  };
+
+  const setNoiseProfile = (profile: NoiseProfile | null) => {
+    setAudioStore("noiseProfile", profile);
+    scheduleSave();
+  };
+
   const saveProject = async (): Promise<void> => {
     const projectName = audioStore.projectName.trim();
     if (!projectName) {
@@ -895,6 +1362,7 @@ export const useAudioStore = () => {
     setAudioStore({
       tracks: loadedState.tracks,
       currentTrackId: loadedState.currentTrackId,
+      armedTrackId: null,
       selection: null,
       zoom: loadedState.zoom,
       isPlaying: false,
@@ -902,15 +1370,20 @@ export const useAudioStore = () => {
       clipboard: null,
       undoStackLength: 0,
       redoStackLength: 0,
+      undoLabels: [],
+      redoLabels: [],
       repeatRegion: loadedState.repeatRegion,
       markers: loadedState.markers || [],
       projectName: loadedState.projectName,
+      master: loadedState.master ?? DEFAULT_MASTER_BUS,
+      noiseProfile: loadedState.noiseProfile ?? null,
     });
 
-    undoStack.forEach((snapshot) => revokeTrackUrls(snapshot.tracks));
-    redoStack.forEach((snapshot) => revokeTrackUrls(snapshot.tracks));
     undoStack = [];
     redoStack = [];
+    unrestoredHistory = null;
+    unloadedTrackClips.clear();
+    unloadedTakeLanes.clear();
 
     scheduleSave();
   };
@@ -919,7 +1392,9 @@ export const useAudioStore = () => {
     store: audioStore,
     setAudioStore: updateAudioStore,
     addTrack,
+    addTracks,
     setSelection,
+    setArmedTrack,
     zoomIn,
     zoomOut,
     resetZoom,
@@ -935,12 +1410,28 @@ export const useAudioStore = () => {
     saveToHistory,
     undo,
     redo,
+    jumpToHistory,
     canUndo,
     canRedo,
     setCurrentTrackId,
     deleteTrack,
     reorderTracks,
     duplicateTrack,
+    setTrackClips,
+    addClip,
+    updateClip,
+    removeClip,
+    addTakes,
+    setCompTake,
+    deleteTake,
+    flattenTakes,
+    addTrackEffect,
+    updateTrackEffect,
+    removeTrackEffect,
+    moveTrackEffect,
+    freezeTrackEffects,
+    updateMaster,
+    setNoiseProfile,
     saveProject,
     loadProject,
   };
@@ -0,0 +1,215 @@
+import type { ProgressReporter, SampleBuffer } from "./effectsDsp";
+import { fft } from "./spectralDsp";
+
+export type SpectrumWindow = "hann" | "hamming" | "blackman" | "rectangular";
+
+export interface ClippedRegion {
+  start: number;
+  end: number;
+  channels: number[];
+  samples: number;
+}
+
+export interface SilentRegion {
+  start: number;
+  end: number;
+}
+
+export interface ClippingReport {
+  regions: ClippedRegion[];
+  clippedSamples: number;
+  truncated: boolean;
+}
+
+export const SPECTRUM_WINDOWS: Record<SpectrumWindow, string> = {
+  hann: "Hann",
+  hamming: "Hamming",
+  blackman: "Blackman",
+  rectangular: "Rectangular",
+};
+
+export const SPECTRUM_SIZES = [256, 512, 1024, 2048, 4096, 8192, 16384];
+
+const MAX_SPECTRUM_FRAMES = 2000;
+const SPECTRUM_FLOOR_DB = -160;
+const CLIP_THRESHOLD = 32767 / 32768;
+const MIN_CLIPPED_RUN = 3;
+const CLIP_MERGE_SECONDS = 0.01;
+const MAX_CLIPPED_REGIONS = 500;
+const SILENCE_WINDOW_SECONDS = 0.01;
+const PROGRESS_INTERVAL = 0xffff;
+
+function createWindow(type: SpectrumWindow, size: number): Float64Array {
+  const window = new Float64Array(size);
+  for (let i = 0; i < size; i++) {
+    const phase = (2 * Math.PI * i) / size;
+    switch (type) {
+      case "hann":
+        window[i] = 0.5 - 0.5 * Math.cos(phase);
+        break;
+      case "hamming":
+        window[i] = 0.54 - 0.46 * Math.cos(phase);
+        break;
+      case "blackman":
+        window[i] = 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+        break;
+      case "rectangular":
+        window[i] = 1;
+        break;
+    }
+  }
+  return window;
+}
+
+export function averageSpectrum(
+  buffer: SampleBuffer,
+  size: number,
+  windowType: SpectrumWindow,
+  progress: ProgressReporter
+): Float32Array {
+  const window = createWindow(windowType, size);
+  const windowSum = window.reduce((sum, value) => sum + value, 0);
+  const bins = size / 2 + 1;
+  const power = new Float64Array(bins);
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+
+  const hop = size / 2;
+  const available = Math.max(1, Math.floor(Math.max(0, buffer.length - size) / hop) + 1);
+  const frames = Math.min(available, MAX_SPECTRUM_FRAMES);
+  const stride = available / frames;
+  const total = frames * buffer.numberOfChannels;
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let frame = 0; frame < frames; frame++) {
+      const offset = Math.floor(frame * stride) * hop;
+      im.fill(0);
+      for (let i = 0; i < size; i++) {
+        re[i] = (data[offset + i] ?? 0) * window[i]!;
+      }
+      fft(re, im);
+      for (let k = 0; k < bins; k++) {
+        power[k] = power[k]! + re[k]! * re[k]! + im[k]! * im[k]!;
+      }
+      progress((channel * frames + frame + 1) / total);
+    }
+  }
+
+  const scale = Math.pow(2 / windowSum, 2) / Math.max(1, total);
+  const spectrum = new Float32Array(bins);
+  for (let k = 0; k < bins; k++) {
+    const value = power[k]! * scale;
+    spectrum[k] =
+      value > 0 ? Math.max(SPECTRUM_FLOOR_DB, 10 * Math.log10(value)) : SPECTRUM_FLOOR_DB;
+  }
+  return spectrum;
+}
+
+export function findClipping(buffer: SampleBuffer, progress: ProgressReporter): ClippingReport {
+  const runs: Array<{ start: number; end: number; channel: number }> = [];
+  let clippedSamples = 0;
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    let runStart = -1;
+    for (let i = 0; i <= data.length; i++) {
+      if ((i & PROGRESS_INTERVAL) === 0) {
+        progress((channel + i / data.length) / buffer.numberOfChannels);
+      }
+      const clipped = i < data.length && Math.abs(data[i]!) >= CLIP_THRESHOLD;
+      if (clipped) {
+        if (runStart === -1) runStart = i;
+      } else if (runStart !== -1) {
+        if (i - runStart >= MIN_CLIPPED_RUN) {
+          runs.push({ start: runStart, end: i, channel });
+          clippedSamples += i - runStart;
+        }
+        runStart = -1;
+      }
+    }
+  }
+
+  runs.sort((a, b) => a.start - b.start);
+  const mergeGap = Math.round(CLIP_MERGE_SECONDS * buffer.sampleRate);
+  const merged: Array<{ start: number; end: number; channels: Set<number>; samples: number }> = [];
+  for (const run of runs) {
+    const last = merged[merged.length - 1];
+    if (last && run.start - last.end <= mergeGap) {
+      last.end = Math.max(last.end, run.end);
+      last.channels.add(run.channel);
+      last.samples += run.end - run.start;
+    } else {
+      merged.push({
+        start: run.start,
+        end: run.end,
+        channels: new Set([run.channel]),
+        samples: run.end - run.start,
+      });
+    }
+  }
+  progress(1);
+
+  return {
+    regions: merged.slice(0, MAX_CLIPPED_REGIONS).map((region) => ({
+      start: region.start / buffer.sampleRate,
+      end: region.end / buffer.sampleRate,
+      channels: [...region.channels].sort((a, b) => a - b),
+      samples: region.samples,
+    })),
+    clippedSamples,
+    truncated: merged.length > MAX_CLIPPED_REGIONS,
+  };
+}
+
+export function detectSilence(
+  buffer: SampleBuffer,
+  thresholdDb: number,
+  minDuration: number,
+  progress: ProgressReporter
+): SilentRegion[] {
+  const threshold = Math.pow(10, thresholdDb / 20);
+  const windowSize = Math.max(1, Math.round(SILENCE_WINDOW_SECONDS * buffer.sampleRate));
+  const windows = Math.ceil(buffer.length / windowSize);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, channel) =>
+    buffer.getChannelData(channel)
+  );
+  const regions: SilentRegion[] = [];
+  let runStart = -1;
+
+  const closeRun = (endSample: number) => {
+    if (runStart !== -1 && (endSample - runStart) / buffer.sampleRate >= minDuration) {
+      regions.push({
+        start: runStart / buffer.sampleRate,
+        end: endSample / buffer.sampleRate,
+      });
+    }
+    runStart = -1;
+  };
+
+  for (let window = 0; window < windows; window++) {
+    const from = window * windowSize;
+    const to = Math.min(buffer.length, from + windowSize);
+    let level = 0;
+    for (const data of channels) {
+      let sumSquares = 0;
+      for (let i = from; i < to; i++) {
+        sumSquares += data[i]! * data[i]!;
+      }
+      level = Math.max(level, Math.sqrt(sumSquares / (to - from)));
+    }
+
+    if (level < threshold) {
+      if (runStart === -1) runStart = from;
+    } else {
+      closeRun(from);
+    }
+    if ((window & 0xff) === 0) {
+      progress(window / windows);
+    }
+  }
+  closeRun(buffer.length);
+  progress(1);
+
+  return regions;
+}
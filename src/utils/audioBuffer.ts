@@ -1,6 +1,15 @@
+import type { AudioClip } from "../stores/audioStore";
 import { createAudioBuffer } from "./audioContext";
-import { audioWorkerClient } from "./audioWorkerClient";
+import {
+  averageSpectrum,
+  findClipping,
+  type ClippingReport,
+  type SpectrumWindow,
+} from "./analysisDsp";
+import { getClipsDuration } from "./clips";
+import { audioWorkerClient, type WorkerTaskOptions } from "./audioWorkerClient";
 import { withWorkerFallback } from "./workerFallback";
+import { measureLevels, mixTracksInto, type ChannelLevels } from "./mixDsp";
 
 const USE_WORKER = typeof Worker !== "undefined";
 
@@ -51,17 +60,20 @@ export async function mergeAudioBuffers(
   );
 }
 
-export function mixTracksWithVolume(
-  tracks: Array<{
-    audioBuffer: AudioBuffer | null;
-    volume: number;
-    pan: number;
-    muted: boolean;
-    soloed: boolean;
-  }>,
-  sampleRate?: number
-): AudioBuffer | null {
-  const validTracks = tracks.filter((t) => t.audioBuffer !== null);
+type MixableTrack = {
+  clips: AudioClip[];
+  volume: number;
+  pan: number;
+  muted: boolean;
+  soloed: boolean;
+};
+
+type MixPlan =
+  | { silent: AudioBuffer }
+  | { tracks: MixableTrack[]; numberOfChannels: number; length: number; sampleRate: number };
+
+function planMix(tracks: MixableTrack[], sampleRate?: number): MixPlan | null {
+  const validTracks = tracks.filter((t) => t.clips.some((clip) => clip.buffer !== null));
   if (validTracks.length === 0) return null;
 
   const hasSoloedTracks = validTracks.some((t) => t.soloed);
@@ -69,79 +81,88 @@ export function mixTracksWithVolume(
     ? validTracks.filter((t) => t.soloed && !t.muted)
     : validTracks.filter((t) => !t.muted);
 
+  const getBuffers = (track: { clips: AudioClip[] }) =>
+    track.clips.flatMap((clip) => (clip.buffer ? [clip.buffer] : []));
+
   if (tracksToMix.length === 0) {
-    const firstTrack = validTracks[0];
-    if (!firstTrack?.audioBuffer) return null;
-    const sr = sampleRate ?? firstTrack.audioBuffer.sampleRate;
-    return createAudioBuffer(2, Math.floor(sr * 0.1), sr);
+    const firstBuffer = getBuffers(validTracks[0]!)[0];
+    if (!firstBuffer) return null;
+    const sr = sampleRate ?? firstBuffer.sampleRate;
+    return { silent: createAudioBuffer(2, Math.floor(sr * 0.1), sr) };
   }
 
-  const firstTrack = tracksToMix[0]?.audioBuffer;
-  if (!firstTrack) return null;
-  const sr = sampleRate ?? firstTrack.sampleRate;
-  const maxDuration = Math.max(...tracksToMix.map((t) => t.audioBuffer!.duration));
-  const maxLength = Math.floor(maxDuration * sr);
-  const maxChannels = Math.max(...tracksToMix.map((t) => t.audioBuffer!.numberOfChannels));
-
-  const mixedBuffer = createAudioBuffer(maxChannels, maxLength, sr);
-
-  for (const track of tracksToMix) {
-    const buffer = track.audioBuffer!;
-    const volume = track.volume;
-    const pan = track.pan ?? 0;
-    const trackChannels = buffer.numberOfChannels;
-    const trackSampleRate = buffer.sampleRate;
-    const trackDuration = buffer.duration;
-    const trackLength = Math.floor(Math.min(trackDuration, maxDuration) * sr);
-
-    const panValue = Math.max(-1, Math.min(1, pan));
-    const leftGain = Math.cos((panValue + 1) * (Math.PI / 4));
-    const rightGain = Math.sin((panValue + 1) * (Math.PI / 4));
-
-    for (let channel = 0; channel < maxChannels; channel++) {
-      const mixedData = mixedBuffer.getChannelData(channel);
-      const sourceChannel = channel < trackChannels ? channel : trackChannels - 1;
-      const sourceData = buffer.getChannelData(sourceChannel);
-
-      let channelGain = volume;
-      if (maxChannels >= 2) {
-        if (channel === 0) {
-          channelGain = volume * leftGain;
-        } else if (channel === 1) {
-          channelGain = volume * rightGain;
-        }
-        if (trackChannels === 1 && maxChannels >= 2) {
-          if (channel === 0) {
-            channelGain = volume * leftGain;
-          } else if (channel === 1) {
-            channelGain = volume * rightGain;
-          }
-        }
-      }
+  const firstBuffer = getBuffers(tracksToMix[0]!)[0];
+  if (!firstBuffer) return null;
+  const sr = sampleRate ?? firstBuffer.sampleRate;
+  const maxDuration = Math.max(...tracksToMix.map((t) => getClipsDuration(t.clips)));
+
+  return {
+    tracks: tracksToMix,
+    numberOfChannels: Math.max(
+      ...tracksToMix.flatMap((t) => getBuffers(t).map((buffer) => buffer.numberOfChannels))
+    ),
+    length: Math.max(1, Math.floor(maxDuration * sr)),
+    sampleRate: sr,
+  };
+}
 
-      if (trackSampleRate === sr) {
-        const sourceLength = Math.min(sourceData.length, trackLength);
-        for (let i = 0; i < sourceLength; i++) {
-          mixedData[i] = (mixedData[i] ?? 0) + (sourceData[i] ?? 0) * channelGain;
-        }
-      } else {
-        const ratio = trackSampleRate / sr;
-        for (let i = 0; i < trackLength; i++) {
-          const sourceIndex = Math.floor(i * ratio);
-          if (sourceIndex < sourceData.length) {
-            mixedData[i] = (mixedData[i] ?? 0) + (sourceData[sourceIndex] ?? 0) * channelGain;
-          }
-        }
-      }
-    }
-  }
+export function mixTracksWithVolume(
+  tracks: MixableTrack[],
+  sampleRate?: number
+): AudioBuffer | null {
+  const plan = planMix(tracks, sampleRate);
+  if (!plan) return null;
+  if ("silent" in plan) return plan.silent;
 
-  for (let channel = 0; channel < maxChannels; channel++) {
-    const mixedData = mixedBuffer.getChannelData(channel);
-    for (let i = 0; i < maxLength; i++) {
-      mixedData[i] = Math.max(-1.0, Math.min(1.0, mixedData[i] ?? 0));
+  const mixedBuffer = createAudioBuffer(plan.numberOfChannels, plan.length, plan.sampleRate);
+  mixTracksInto(mixedBuffer, plan.tracks);
+  return mixedBuffer;
+}
+
+export async function renderMixdown(
+  tracks: MixableTrack[],
+  sampleRate?: number
+): Promise<AudioBuffer | null> {
+  const plan = planMix(tracks, sampleRate);
+  if (!plan) return null;
+  if ("silent" in plan) return plan.silent;
+
+  return withWorkerFallback(
+    USE_WORKER,
+    () => audioWorkerClient.mix(plan.tracks, plan.numberOfChannels, plan.length, plan.sampleRate),
+    () => {
+      const mixedBuffer = createAudioBuffer(plan.numberOfChannels, plan.length, plan.sampleRate);
+      mixTracksInto(mixedBuffer, plan.tracks);
+      return mixedBuffer;
     }
-  }
+  );
+}
 
-  return mixedBuffer;
+export async function analyzeLevels(buffer: AudioBuffer): Promise<ChannelLevels> {
+  return withWorkerFallback(
+    USE_WORKER,
+    () => audioWorkerClient.analyze(buffer),
+    () => measureLevels(buffer)
+  );
+}
+
+export async function analyzeSpectrum(
+  buffer: AudioBuffer,
+  size: number,
+  window: SpectrumWindow,
+  options: WorkerTaskOptions = {}
+): Promise<Float32Array> {
+  return withWorkerFallback(
+    USE_WORKER,
+    () => audioWorkerClient.spectrum(buffer, size, window, options),
+    () => averageSpectrum(buffer, size, window, options.onProgress ?? (() => {}))
+  );
+}
+
+export async function analyzeClipping(buffer: AudioBuffer): Promise<ClippingReport> {
+  return withWorkerFallback(
+    USE_WORKER,
+    () => audioWorkerClient.findClipping(buffer),
+    () => findClipping(buffer, () => {})
+  );
 }
@@ -1,48 +1,164 @@
 import { createAudioBuffer } from "./audioContext";
-import type { AudioWorkerMessage, AudioWorkerResponse } from "../workers/audioWorker";
+import {
+  LINKED_CHANNEL_EFFECTS,
+  type EffectArgs,
+  type EffectName,
+  type SampleBuffer,
+} from "./effectsDsp";
+import type { ClippingReport, SilentRegion, SpectrumWindow } from "./analysisDsp";
+import type { LoudnessStats } from "./loudnessDsp";
+import type { ChannelLevels, MixTrack } from "./mixDsp";
+import type { NoiseProfile } from "./spectralDsp";
+import type {
+  AudioWorkerMessage,
+  AudioWorkerProgress,
+  AudioWorkerResponse,
+  SerializedMixTrack,
+} from "../workers/audioWorker";
 
-const WORKER_TIMEOUT_MS = 30000;
+const WORKER_IDLE_TIMEOUT_MS = 15000;
+const MAX_POOL_SIZE = 8;
+const PARALLEL_CHANNELS_MIN_SECONDS = 10;
+const POOL_SIZE = Math.max(1, Math.min(MAX_POOL_SIZE, navigator.hardwareConcurrency || 2));
+
+export interface WorkerTaskOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void;
+}
+
+interface PooledWorker {
+  worker: Worker;
+  taskId: string | null;
+}
+
+interface PendingMessage {
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: number) => void;
+  owner: PooledWorker | null;
+  start: (owner: PooledWorker) => void;
+  cleanup: () => void;
+}
+
+interface QueuedTask {
+  id: string;
+  message: AudioWorkerMessage;
+  transfer: Transferable[];
+}
 
-let worker: Worker | null = null;
 let messageIdCounter = 0;
-const pendingMessages = new Map<
-  string,
-  {
-    resolve: (value: any) => void;
-    reject: (error: Error) => void;
+const pool: PooledWorker[] = [];
+const queue: QueuedTask[] = [];
+const pendingMessages = new Map<string, PendingMessage>();
+
+function settle(id: string): PendingMessage | undefined {
+  const pending = pendingMessages.get(id);
+  if (!pending) return undefined;
+
+  pendingMessages.delete(id);
+  pending.cleanup();
+  const queuedIndex = queue.findIndex((task) => task.id === id);
+  if (queuedIndex !== -1) {
+    queue.splice(queuedIndex, 1);
   }
->();
+  if (pending.owner?.taskId === id) {
+    pending.owner.taskId = null;
+  }
+  drainQueue();
+  return pending;
+}
 
-function getWorker(): Worker {
-  if (!worker) {
-    worker = new Worker(new URL("../workers/audioWorker.ts", import.meta.url), {
+function createWorker(): PooledWorker {
+  const owner: PooledWorker = {
+    worker: new Worker(new URL("../workers/audioWorker.ts", import.meta.url), {
       type: "module",
-    });
+    }),
+    taskId: null,
+  };
 
-    worker.onmessage = (e: MessageEvent<AudioWorkerResponse>) => {
-      const { id, success, data, error } = e.data;
-      const pending = pendingMessages.get(id);
-      if (pending) {
-        pendingMessages.delete(id);
-        if (success) {
-          pending.resolve(data);
-        } else {
-          pending.reject(new Error(error || "Unknown error"));
-        }
+  owner.worker.onmessage = (e: MessageEvent<AudioWorkerResponse | AudioWorkerProgress>) => {
+    if ("progress" in e.data) {
+      const pending = pendingMessages.get(e.data.id);
+      if (pending?.owner) {
+        pending.start(pending.owner);
       }
-    };
+      pending?.onProgress?.(e.data.progress);
+      return;
+    }
 
-    worker.onerror = () => {
-      for (const [id, pending] of pendingMessages.entries()) {
-        pendingMessages.delete(id);
-        pending.reject(new Error("Worker error"));
+    const { id, success, data, error } = e.data;
+    const pending = settle(id);
+    if (pending) {
+      if (success) {
+        pending.onProgress?.(1);
+        pending.resolve(data);
+      } else {
+        pending.reject(new Error(error || "Unknown error"));
       }
-    };
+    }
+  };
+
+  owner.worker.onerror = () => {
+    terminateWorker(owner, new Error("Worker error"));
+  };
+
+  pool.push(owner);
+  return owner;
+}
+
+function acquireWorker(): PooledWorker | null {
+  return (
+    pool.find((owner) => owner.taskId === null) ?? (pool.length < POOL_SIZE ? createWorker() : null)
+  );
+}
+
+function drainQueue(): void {
+  while (queue.length > 0) {
+    const owner = acquireWorker();
+    if (!owner) return;
+
+    const task = queue.shift()!;
+    const pending = pendingMessages.get(task.id);
+    if (!pending) continue;
+
+    owner.taskId = task.id;
+    pending.owner = owner;
+    owner.worker.postMessage(task.message, task.transfer);
+    pending.start(owner);
+  }
+}
+
+function terminateWorker(owner: PooledWorker, error: Error): void {
+  owner.worker.terminate();
+  const index = pool.indexOf(owner);
+  if (index !== -1) {
+    pool.splice(index, 1);
+  }
+  if (owner.taskId !== null) {
+    settle(owner.taskId)?.reject(error);
   }
-  return worker;
+  drainQueue();
 }
 
-function serializeAudioBuffer(buffer: AudioBuffer): {
+function collectTransferables(data: any): Transferable[] {
+  const buffers = new Set<ArrayBufferLike>();
+  const serializedBuffers = [
+    data.buffer,
+    data.originalBuffer,
+    data.clipboardBuffer,
+    data.beforeBuffer,
+    data.afterBuffer,
+    ...(data.sources ?? []),
+  ];
+  for (const serialized of serializedBuffers) {
+    serialized?.channelData?.forEach((arr: Float32Array) => {
+      buffers.add(arr.buffer);
+    });
+  }
+  return [...buffers] as Transferable[];
+}
+
+function serializeAudioBuffer(buffer: SampleBuffer): {
   channelData: Float32Array[];
   sampleRate: number;
   numberOfChannels: number;
@@ -50,7 +166,7 @@ function serializeAudioBuffer(buffer: AudioBuffer): {
 } {
   const channelData: Float32Array[] = [];
   for (let i = 0; i < buffer.numberOfChannels; i++) {
-    channelData.push(buffer.getChannelData(i));
+    channelData.push(buffer.getChannelData(i).slice());
   }
   return {
     channelData,
@@ -80,57 +196,101 @@ function deserializeAudioBuffer(serialized: {
   return buffer;
 }
 
-function sendMessage<T>(type: AudioWorkerMessage["type"], data: any): Promise<T> {
+function sendMessage<T>(
+  type: AudioWorkerMessage["type"],
+  data: any,
+  options: WorkerTaskOptions = {}
+): Promise<T> {
   return new Promise((resolve, reject) => {
-    const id = `msg-${++messageIdCounter}`;
-    const worker = getWorker();
+    const { signal, onProgress } = options;
+    if (signal?.aborted) {
+      reject(new DOMException("Operation cancelled", "AbortError"));
+      return;
+    }
 
-    pendingMessages.set(id, { resolve, reject });
+    const id = `msg-${++messageIdCounter}`;
 
-    const message: AudioWorkerMessage = {
-      id,
-      type,
-      data,
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    const start = (owner: PooledWorker) => {
+      clearTimeout(timeout);
+      timeout = setTimeout(() => {
+        terminateWorker(owner, new Error("Operation timeout"));
+      }, WORKER_IDLE_TIMEOUT_MS);
     };
 
-    const transferables: Transferable[] = [];
-    if (data.buffer?.channelData) {
-      data.buffer.channelData.forEach((arr: Float32Array) => {
-        transferables.push(arr.buffer);
-      });
-    }
-    if (data.originalBuffer?.channelData) {
-      data.originalBuffer.channelData.forEach((arr: Float32Array) => {
-        transferables.push(arr.buffer);
-      });
-    }
-    if (data.clipboardBuffer?.channelData) {
-      data.clipboardBuffer.channelData.forEach((arr: Float32Array) => {
-        transferables.push(arr.buffer);
-      });
-    }
-    if (data.beforeBuffer?.channelData) {
-      data.beforeBuffer.channelData.forEach((arr: Float32Array) => {
-        transferables.push(arr.buffer);
-      });
-    }
-    if (data.afterBuffer?.channelData) {
-      data.afterBuffer.channelData.forEach((arr: Float32Array) => {
-        transferables.push(arr.buffer);
-      });
-    }
+    const handleAbort = () => {
+      const error = new DOMException("Operation cancelled", "AbortError");
+      const owner = pendingMessages.get(id)?.owner;
+      if (owner) {
+        terminateWorker(owner, error);
+      } else {
+        settle(id)?.reject(error);
+      }
+    };
 
-    worker.postMessage(message, transferables);
+    pendingMessages.set(id, {
+      resolve,
+      reject,
+      onProgress,
+      owner: null,
+      start,
+      cleanup: () => {
+        clearTimeout(timeout);
+        signal?.removeEventListener("abort", handleAbort);
+      },
+    });
+    signal?.addEventListener("abort", handleAbort);
 
-    setTimeout(() => {
-      if (pendingMessages.has(id)) {
-        pendingMessages.delete(id);
-        reject(new Error("Operation timeout"));
-      }
-    }, WORKER_TIMEOUT_MS);
+    queue.push({ id, message: { id, type, data }, transfer: collectTransferables(data) });
+    drainQueue();
   });
 }
 
+function shouldSplitChannels(buffer: AudioBuffer): boolean {
+  return (
+    POOL_SIZE > 1 && buffer.numberOfChannels > 1 && buffer.duration >= PARALLEL_CHANNELS_MIN_SECONDS
+  );
+}
+
+function serializeChannel(buffer: AudioBuffer, channel: number) {
+  return {
+    channelData: [buffer.getChannelData(channel).slice()],
+    sampleRate: buffer.sampleRate,
+    numberOfChannels: 1,
+    length: buffer.length,
+  };
+}
+
+function trackProgress(count: number, onProgress?: (progress: number) => void) {
+  const progress = new Array<number>(count).fill(0);
+  return (index: number) => (value: number) => {
+    progress[index] = value;
+    onProgress?.(progress.reduce((sum, p) => sum + p, 0) / count);
+  };
+}
+
+function runSiblingTasks<T>(
+  count: number,
+  signal: AbortSignal | undefined,
+  run: (index: number, signal: AbortSignal) => Promise<T>
+): Promise<T[]> {
+  const controller = new AbortController();
+  const cancel = () => controller.abort();
+  if (signal?.aborted) {
+    cancel();
+  }
+  signal?.addEventListener("abort", cancel);
+
+  return Promise.all(
+    Array.from({ length: count }, (_, index) =>
+      run(index, controller.signal).catch((error) => {
+        cancel();
+        throw error;
+      })
+    )
+  ).finally(() => signal?.removeEventListener("abort", cancel));
+}
+
 export const audioWorkerClient = {
   async copy(audioBuffer: AudioBuffer, startTime: number, endTime: number): Promise<AudioBuffer> {
     const serialized = serializeAudioBuffer(audioBuffer);
@@ -194,11 +354,190 @@ export const audioWorkerClient = {
     return deserializeAudioBuffer(result);
   },
 
+  async applyEffect<T extends EffectName>(
+    audioBuffer: AudioBuffer,
+    effect: T,
+    args: EffectArgs<T>,
+    options: WorkerTaskOptions = {}
+  ): Promise<AudioBuffer> {
+    if (!shouldSplitChannels(audioBuffer) || LINKED_CHANNEL_EFFECTS.has(effect)) {
+      const serialized = serializeAudioBuffer(audioBuffer);
+      const result = await sendMessage<ReturnType<typeof serializeAudioBuffer>>(
+        "effect",
+        { buffer: serialized, effect, args },
+        options
+      );
+      return deserializeAudioBuffer(result);
+    }
+
+    const reportChannel = trackProgress(audioBuffer.numberOfChannels, options.onProgress);
+    const results = await runSiblingTasks(
+      audioBuffer.numberOfChannels,
+      options.signal,
+      (channel, signal) =>
+        sendMessage<ReturnType<typeof serializeAudioBuffer>>(
+          "effect",
+          { buffer: serializeChannel(audioBuffer, channel), effect, args },
+          { signal, onProgress: reportChannel(channel) }
+        )
+    );
+    const first = results[0]!;
+    return deserializeAudioBuffer({
+      channelData: results.flatMap((result) => result.channelData),
+      sampleRate: first.sampleRate,
+      numberOfChannels: results.length,
+      length: first.length,
+    });
+  },
+
+  async mix(
+    tracks: MixTrack[],
+    numberOfChannels: number,
+    length: number,
+    sampleRate: number,
+    options: WorkerTaskOptions = {}
+  ): Promise<AudioBuffer> {
+    const groupCount = Math.max(1, Math.min(POOL_SIZE, tracks.length));
+    const groups = Array.from({ length: groupCount }, (_, group) =>
+      tracks.filter((_, index) => index % groupCount === group)
+    );
+
+    const reportGroup = trackProgress(groupCount, options.onProgress);
+    const partials = await runSiblingTasks(groupCount, options.signal, (index, signal) => {
+      const group = groups[index]!;
+      const sources: SampleBuffer[] = [];
+      const serializedTracks: SerializedMixTrack[] = group.map((track) => ({
+        volume: track.volume,
+        pan: track.pan,
+        clips: track.clips.flatMap((clip) => {
+          if (!clip.buffer) return [];
+          let source = sources.indexOf(clip.buffer);
+          if (source === -1) {
+            source = sources.push(clip.buffer) - 1;
+          }
+          return [
+            {
+              source,
+              start: clip.start,
+              trimStart: clip.trimStart,
+              trimEnd: clip.trimEnd,
+              gain: clip.gain,
+            },
+          ];
+        }),
+      }));
+
+      return sendMessage<ReturnType<typeof serializeAudioBuffer>>(
+        "mix",
+        {
+          sources: sources.map(serializeAudioBuffer),
+          tracks: serializedTracks,
+          numberOfChannels,
+          length,
+          sampleRate,
+        },
+        { signal, onProgress: reportGroup(index) }
+      );
+    });
+
+    const mixed = createAudioBuffer(numberOfChannels, length, sampleRate);
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      const destData = mixed.getChannelData(channel);
+      for (const partial of partials) {
+        const sourceData = partial.channelData[channel];
+        if (!sourceData) continue;
+        for (let i = 0; i < length; i++) {
+          destData[i] = (destData[i] ?? 0) + (sourceData[i] ?? 0);
+        }
+      }
+    }
+    return mixed;
+  },
+
+  async analyze(audioBuffer: AudioBuffer, options: WorkerTaskOptions = {}): Promise<ChannelLevels> {
+    const reportChannel = trackProgress(audioBuffer.numberOfChannels, options.onProgress);
+    const results = await runSiblingTasks(
+      audioBuffer.numberOfChannels,
+      options.signal,
+      (channel, signal) =>
+        sendMessage<ChannelLevels>(
+          "analyze",
+          { buffer: serializeChannel(audioBuffer, channel) },
+          { signal, onProgress: reportChannel(channel) }
+        )
+    );
+    return {
+      peak: results.flatMap((result) => result.peak),
+      rms: results.flatMap((result) => result.rms),
+      dcOffset: results.flatMap((result) => result.dcOffset),
+    };
+  },
+
+  async measureLoudness(
+    audioBuffer: AudioBuffer,
+    options: WorkerTaskOptions = {}
+  ): Promise<LoudnessStats> {
+    return sendMessage<LoudnessStats>(
+      "loudness",
+      { buffer: serializeAudioBuffer(audioBuffer) },
+      options
+    );
+  },
+
+  async spectrum(
+    audioBuffer: AudioBuffer,
+    size: number,
+    window: SpectrumWindow,
+    options: WorkerTaskOptions = {}
+  ): Promise<Float32Array> {
+    return sendMessage<Float32Array>(
+      "spectrum",
+      { buffer: serializeAudioBuffer(audioBuffer), size, window },
+      options
+    );
+  },
+
+  async findClipping(
+    audioBuffer: AudioBuffer,
+    options: WorkerTaskOptions = {}
+  ): Promise<ClippingReport> {
+    return sendMessage<ClippingReport>(
+      "clipping",
+      { buffer: serializeAudioBuffer(audioBuffer) },
+      options
+    );
+  },
+
+  async detectSilence(
+    audioBuffer: AudioBuffer,
+    threshold: number,
+    minDuration: number,
+    options: WorkerTaskOptions = {}
+  ): Promise<SilentRegion[]> {
+    return sendMessage<SilentRegion[]>(
+      "silence",
+      { buffer: serializeAudioBuffer(audioBuffer), threshold, minDuration },
+      options
+    );
+  },
+
+  async learnNoiseProfile(
+    audioBuffer: AudioBuffer,
+    options: WorkerTaskOptions = {}
+  ): Promise<NoiseProfile> {
+    return sendMessage<NoiseProfile>(
+      "noiseProfile",
+      { buffer: serializeAudioBuffer(audioBuffer) },
+      options
+    );
+  },
+
   terminate(): void {
-    if (worker) {
-      worker.terminate();
-      worker = null;
-      pendingMessages.clear();
+    for (const { id } of queue.splice(0)) {
+      settle(id)?.reject(new Error("Worker terminated"));
+    }
+    for (const owner of [...pool]) {
+      terminateWorker(owner, new Error("Worker terminated"));
     }
   },
 };
@@ -0,0 +1,198 @@
+import type { AudioClip } from "../stores/audioStore";
+import { createAudioBuffer } from "./audioContext";
+import { addClipToSamples } from "./mixDsp";
+
+export const MIN_CLIP_DURATION = 0.01;
+
+export function createClip(buffer: AudioBuffer, start = 0): AudioClip {
+  return {
+    id: crypto.randomUUID(),
+    buffer,
+    start,
+    trimStart: 0,
+    trimEnd: buffer.duration,
+    gain: 1,
+  };
+}
+
+export function getClipDuration(clip: AudioClip): number {
+  return Math.max(0, clip.trimEnd - clip.trimStart);
+}
+
+export function getClipEnd(clip: AudioClip): number {
+  return clip.start + getClipDuration(clip);
+}
+
+export function getClipsDuration(clips: AudioClip[]): number {
+  return clips.reduce((max, clip) => Math.max(max, getClipEnd(clip)), 0);
+}
+
+export function clampClip(clip: AudioClip): AudioClip {
+  const sourceDuration = clip.buffer?.duration ?? clip.trimEnd;
+  const trimStart = Math.max(0, Math.min(clip.trimStart, sourceDuration - MIN_CLIP_DURATION));
+  const trimEnd = Math.max(trimStart + MIN_CLIP_DURATION, Math.min(clip.trimEnd, sourceDuration));
+  return {
+    ...clip,
+    start: Math.max(0, clip.start),
+    trimStart,
+    trimEnd,
+    gain: Math.max(0, clip.gain),
+  };
+}
+
+const isUntouchedClip = (clip: AudioClip): boolean =>
+  !!clip.buffer &&
+  clip.start === 0 &&
+  clip.trimStart === 0 &&
+  clip.trimEnd === clip.buffer.duration &&
+  clip.gain === 1;
+
+export function renderClips(
+  clips: AudioClip[],
+  sampleRate?: number,
+  clamp = true
+): AudioBuffer | null {
+  const clipsWithAudio = clips.filter((clip) => clip.buffer !== null);
+  const firstBuffer = clipsWithAudio[0]?.buffer;
+  if (!firstBuffer) return null;
+
+  if (
+    clipsWithAudio.length === 1 &&
+    isUntouchedClip(clipsWithAudio[0]!) &&
+    (sampleRate === undefined || sampleRate === firstBuffer.sampleRate)
+  ) {
+    return firstBuffer;
+  }
+
+  const sr = sampleRate ?? firstBuffer.sampleRate;
+  const numberOfChannels = Math.max(...clipsWithAudio.map((clip) => clip.buffer!.numberOfChannels));
+  const length = Math.max(1, Math.ceil(getClipsDuration(clipsWithAudio) * sr));
+  const rendered = createAudioBuffer(numberOfChannels, length, sr);
+
+  for (const clip of clipsWithAudio) {
+    addClipToSamples(rendered, clip);
+  }
+  if (!clamp) return rendered;
+
+  for (let channel = 0; channel < numberOfChannels; channel++) {
+    const data = rendered.getChannelData(channel);
+    for (let i = 0; i < length; i++) {
+      data[i] = Math.max(-1.0, Math.min(1.0, data[i] ?? 0));
+    }
+  }
+
+  return rendered;
+}
+
+export function sliceClips(clips: AudioClip[], start: number, end: number): AudioClip[] {
+  return clips.flatMap((clip) => {
+    const clipEnd = getClipEnd(clip);
+    if (clipEnd <= start || clip.start >= end) return [];
+
+    const from = Math.max(start, clip.start);
+    const to = Math.min(end, clipEnd);
+    return [
+      {
+        ...clip,
+        start: from - start,
+        trimStart: clip.trimStart + (from - clip.start),
+        trimEnd: clip.trimStart + (to - clip.start),
+      },
+    ];
+  });
+}
+
+export function layoutClipsOnBuffer(clips: AudioClip[], buffer: AudioBuffer): AudioClip[] {
+  const sorted = clips.filter((clip) => clip.buffer !== null).sort((a, b) => a.start - b.start);
+  return sorted.reduce<AudioClip[]>((laidOut, clip) => {
+    const end = Math.min(getClipEnd(clip), buffer.duration);
+    const last = laidOut[laidOut.length - 1];
+    if (last && clip.start <= last.trimEnd) {
+      laidOut[laidOut.length - 1] = { ...last, trimEnd: Math.max(last.trimEnd, end) };
+    } else if (end - clip.start >= MIN_CLIP_DURATION) {
+      laidOut.push({
+        id: clip.id,
+        buffer,
+        start: clip.start,
+        trimStart: clip.start,
+        trimEnd: end,
+        gain: 1,
+      });
+    }
+    return laidOut;
+  }, []);
+}
+
+export function remapClipBuffers(
+  clips: AudioClip[],
+  from: AudioBuffer | null,
+  to: AudioBuffer | null
+): AudioClip[] {
+  return clips.map((clip) =>
+    from && clip.buffer === from ? { ...clip, buffer: to } : { ...clip }
+  );
+}
+
+export function splitClipsAt(clips: AudioClip[], time: number): AudioClip[] {
+  return clips.flatMap((clip) => {
+    const offset = time - clip.start;
+    if (offset < MIN_CLIP_DURATION || offset > getClipDuration(clip) - MIN_CLIP_DURATION) {
+      return [clip];
+    }
+    const splitPoint = clip.trimStart + offset;
+    return [
+      { ...clip, trimEnd: splitPoint },
+      { ...clip, id: crypto.randomUUID(), start: time, trimStart: splitPoint },
+    ];
+  });
+}
+
+export function clearClipRange(clips: AudioClip[], start: number, end: number): AudioClip[] {
+  if (end <= start) return clips;
+
+  return splitClipsAt(splitClipsAt(clips, start), end).filter(
+    (clip) =>
+      clip.start < start - MIN_CLIP_DURATION / 2 || getClipEnd(clip) > end + MIN_CLIP_DURATION / 2
+  );
+}
+
+export function removeClipRange(clips: AudioClip[], start: number, end: number): AudioClip[] {
+  const length = end - start;
+  if (length <= 0) return clips;
+
+  return clearClipRange(clips, start, end).map((clip) =>
+    clip.start >= end - MIN_CLIP_DURATION / 2 ? { ...clip, start: clip.start - length } : clip
+  );
+}
+
+export function insertClips(clips: AudioClip[], inserted: AudioClip[], time: number): AudioClip[] {
+  const length = getClipsDuration(inserted);
+  if (length <= 0) return clips;
+
+  const shifted = splitClipsAt(clips, time).map((clip) =>
+    clip.start >= time - MIN_CLIP_DURATION / 2 ? { ...clip, start: clip.start + length } : clip
+  );
+  return [
+    ...shifted,
+    ...inserted.map((clip) => ({ ...clip, id: crypto.randomUUID(), start: clip.start + time })),
+  ];
+}
+
+export function trimClipsToRange(clips: AudioClip[], start: number, end: number): AudioClip[] {
+  return sliceClips(clips, start, end).map((clip) => ({ ...clip, start: clip.start + start }));
+}
+
+export function invertRanges(
+  ranges: Array<{ start: number; end: number }>,
+  duration: number
+): Array<{ start: number; end: number }> {
+  const gaps: Array<{ start: number; end: number }> = [];
+  let position = 0;
+  for (const { start, end } of [...ranges, { start: duration, end: duration }]) {
+    if (Math.min(start, duration) - position >= MIN_CLIP_DURATION) {
+      gaps.push({ start: position, end: Math.min(start, duration) });
+    }
+    position = Math.max(position, end);
+  }
+  return gaps;
+}
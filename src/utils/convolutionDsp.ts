@@ -0,0 +1,149 @@
+import type { ProgressReporter } from "./effectsDsp";
+import { fft, resample } from "./spectralDsp";
+
+export interface ImpulseResponseData {
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+export interface ImpulseShape {
+  decayTime: number;
+  damping: number;
+  brightness: number;
+  earlyReflections: number;
+  roomSize: number;
+}
+
+const TAIL_FACTOR = 1.2;
+const DECAY_FADE_FRACTION = 0.3;
+
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function generateImpulseResponse(
+  shape: ImpulseShape,
+  sampleRate: number,
+  seed = 1
+): ImpulseResponseData {
+  const length = Math.ceil(shape.decayTime * TAIL_FACTOR * sampleRate);
+  const buildUp = Math.max(1, Math.round(shape.roomSize * sampleRate));
+
+  const channels = [0, 1].map((channel) => {
+    const random = createRandom(seed * 7919 + channel * 104729);
+    const data = new Float32Array(length);
+    let filtered = 0;
+
+    for (let i = 0; i < length; i++) {
+      const t = i / sampleRate;
+      const envelope = Math.pow(10, (-3 * t) / shape.decayTime) * Math.min(1, i / buildUp);
+      const coefficient = shape.brightness * Math.exp((-3 * shape.damping * t) / shape.decayTime);
+      filtered += Math.max(0.01, coefficient) * (random() * 2 - 1 - filtered);
+      data[i] = filtered * envelope;
+    }
+
+    for (let r = 0; r < shape.earlyReflections; r++) {
+      const time = shape.roomSize * (0.1 + 0.9 * random());
+      const index = Math.min(length - 1, Math.round(time * sampleRate));
+      const amplitude = (1 - (0.5 * time) / Math.max(shape.roomSize, 1e-3)) * 0.5;
+      data[index] = (data[index] ?? 0) + (random() < 0.5 ? -amplitude : amplitude);
+    }
+
+    return data;
+  });
+
+  return { sampleRate, channels };
+}
+
+export function prepareImpulse(
+  impulse: ImpulseResponseData,
+  sampleRate: number,
+  decay: number
+): Float32Array[] {
+  const fraction = Math.max(0.1, Math.min(1, decay));
+
+  const kernels = impulse.channels.map((channel) => {
+    const resampled =
+      impulse.sampleRate === sampleRate
+        ? channel
+        : resample(
+            channel,
+            Math.max(1, Math.round((channel.length * sampleRate) / impulse.sampleRate)),
+            () => {}
+          );
+    const length = Math.max(1, Math.round(resampled.length * fraction));
+    const kernel = resampled.slice(0, length);
+
+    if (fraction < 1) {
+      const fadeLength = Math.max(1, Math.round(length * DECAY_FADE_FRACTION));
+      for (let i = 0; i < fadeLength; i++) {
+        const index = length - fadeLength + i;
+        kernel[index] = kernel[index]! * (0.5 + 0.5 * Math.cos((Math.PI * (i + 1)) / fadeLength));
+      }
+    }
+    return kernel;
+  });
+
+  const energy =
+    kernels.reduce((sum, kernel) => sum + kernel.reduce((s, x) => s + x * x, 0), 0) /
+    Math.max(1, kernels.length);
+  const scale = energy > 0 ? 1 / Math.sqrt(energy) : 0;
+  kernels.forEach((kernel) => {
+    for (let i = 0; i < kernel.length; i++) {
+      kernel[i] = kernel[i]! * scale;
+    }
+  });
+
+  return kernels;
+}
+
+export function convolve(
+  data: Float32Array,
+  kernel: Float32Array,
+  outputLength: number,
+  progress: ProgressReporter
+): Float32Array {
+  let blockSize = 1;
+  while (blockSize < kernel.length) blockSize <<= 1;
+  const fftSize = blockSize * 2;
+
+  const kernelRe = new Float64Array(fftSize);
+  const kernelIm = new Float64Array(fftSize);
+  kernelRe.set(kernel);
+  fft(kernelRe, kernelIm);
+
+  const output = new Float32Array(outputLength);
+  const re = new Float64Array(fftSize);
+  const im = new Float64Array(fftSize);
+  const blocks = Math.ceil(data.length / blockSize);
+
+  for (let block = 0; block < blocks; block++) {
+    const offset = block * blockSize;
+    re.fill(0);
+    im.fill(0);
+    re.set(data.subarray(offset, Math.min(data.length, offset + blockSize)));
+    fft(re, im);
+
+    for (let k = 0; k < fftSize; k++) {
+      const real = re[k]! * kernelRe[k]! - im[k]! * kernelIm[k]!;
+      im[k] = re[k]! * kernelIm[k]! + im[k]! * kernelRe[k]!;
+      re[k] = real;
+    }
+    fft(re, im, true);
+
+    const end = Math.min(outputLength - offset, fftSize);
+    for (let i = 0; i < end; i++) {
+      output[offset + i] = output[offset + i]! + re[i]!;
+    }
+    progress((block + 1) / blocks);
+  }
+
+  return output;
+}
@@ -0,0 +1,49 @@
+const DB_NAME = "auwebbity-audio";
+const DB_VERSION = 3;
+const OBJECT_STORES = ["audioBuffers", "impulseResponses", "recordingChunks"];
+
+let dbCache: IDBDatabase | null = null;
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export async function openDB(): Promise<IDBDatabase> {
+  if (dbCache) return dbCache;
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+    request.onsuccess = () => {
+      dbCache = request.result;
+      dbPromise = null;
+      dbCache.onclose = () => {
+        dbCache = null;
+      };
+      dbCache.onerror = () => {
+        dbCache = null;
+      };
+      resolve(dbCache);
+    };
+
+    request.onupgradeneeded = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      for (const name of OBJECT_STORES) {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath: "id" });
+        }
+      }
+    };
+  });
+
+  return dbPromise;
+}
+
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
@@ -1,4 +1,3 @@
-export function formatDateForFilename(): string {
-  const now = new Date();
-  return now.toISOString().replace(/[:.]/g, "-").slice(0, -5);
+export function formatDateForFilename(date = new Date()): string {
+  return date.toISOString().replace(/[:.]/g, "-").slice(0, -5);
 }
@@ -0,0 +1,268 @@
+import { audioEffects } from "./audioEffects";
+import { upgradeLegacyEffect, type PresetEffectType } from "./effectPresets";
+import { DEFAULT_IMPULSE_RESPONSE_ID } from "./impulseResponses";
+import { TRACK_EFFECTS, type EffectParamDefinition } from "./trackEffects";
+
+export type ChainStepType = PresetEffectType | "normalize" | "reverse" | "fadeIn" | "fadeOut";
+
+export interface ChainStep {
+  id: string;
+  type: ChainStepType;
+  params: Record<string, number>;
+}
+
+export interface EffectChain {
+  id: string;
+  name: string;
+  steps: ChainStep[];
+}
+
+interface ChainStepDefinition {
+  label: string;
+  params: EffectParamDefinition[];
+  process: (buffer: AudioBuffer, param: (key: string) => number) => Promise<AudioBuffer>;
+}
+
+const STORAGE_KEY = "auwebbity-effect-chains";
+
+export const DEFAULT_FILENAME_PATTERN = "{name}-processed";
+
+const factorParam = (label: string): EffectParamDefinition => ({
+  key: "factor",
+  label,
+  min: 0.25,
+  max: 4,
+  step: 0.01,
+  defaultValue: 1,
+  unit: "x",
+});
+
+const fadeParam: EffectParamDefinition = {
+  key: "duration",
+  label: "Duration",
+  min: 0.01,
+  max: 10,
+  step: 0.01,
+  defaultValue: 0.5,
+  unit: "s",
+};
+
+export const CONVOLUTION_REVERB_PARAMS: EffectParamDefinition[] = [
+  {
+    key: "impulse",
+    label: "Impulse Response",
+    min: 1,
+    max: Number.MAX_SAFE_INTEGER,
+    step: 1,
+    defaultValue: DEFAULT_IMPULSE_RESPONSE_ID,
+    kind: "impulseResponse",
+  },
+  {
+    key: "preDelay",
+    label: "Pre-delay",
+    min: 0,
+    max: 0.5,
+    step: 0.001,
+    defaultValue: 0.02,
+    unit: "s",
+  },
+  { key: "decay", label: "Decay", min: 10, max: 100, step: 1, defaultValue: 100, unit: "%" },
+  {
+    key: "lowCut",
+    label: "Wet Low Cut",
+    min: 20,
+    max: 2000,
+    step: 1,
+    defaultValue: 20,
+    unit: "Hz",
+  },
+  {
+    key: "highCut",
+    label: "Wet High Cut",
+    min: 1000,
+    max: 20000,
+    step: 1,
+    defaultValue: 20000,
+    unit: "Hz",
+  },
+  { key: "mix", label: "Mix", min: 0, max: 1, step: 0.01, defaultValue: 0.3 },
+];
+
+export const LOUDNESS_NORMALIZE_PARAMS: EffectParamDefinition[] = [
+  { key: "target", label: "Target", min: -40, max: -5, step: 0.5, defaultValue: -16, unit: "LUFS" },
+  {
+    key: "truePeak",
+    label: "True Peak Ceiling",
+    min: -9,
+    max: 0,
+    step: 0.1,
+    defaultValue: -1,
+    unit: "dBTP",
+  },
+];
+
+export const CHAIN_STEPS: Record<ChainStepType, ChainStepDefinition> = {
+  normalize: {
+    label: "Normalize",
+    params: [],
+    process: (buffer) => audioEffects.normalizeFull(buffer),
+  },
+  loudnessNormalize: {
+    label: "Loudness Normalize",
+    params: LOUDNESS_NORMALIZE_PARAMS,
+    process: (buffer, param) =>
+      audioEffects.loudnessNormalizeFull(buffer, param("target"), param("truePeak")),
+  },
+  reverse: {
+    label: "Reverse",
+    params: [],
+    process: (buffer) => audioEffects.reverseFull(buffer),
+  },
+  fadeIn: {
+    label: "Fade In",
+    params: [fadeParam],
+    process: (buffer, param) =>
+      audioEffects.fadeInFull(buffer, Math.min(param("duration"), buffer.duration)),
+  },
+  fadeOut: {
+    label: "Fade Out",
+    params: [fadeParam],
+    process: (buffer, param) =>
+      audioEffects.fadeOutFull(buffer, Math.min(param("duration"), buffer.duration)),
+  },
+  changeSpeed: {
+    label: "Change Speed",
+    params: [factorParam("Speed")],
+    process: (buffer, param) => audioEffects.changeSpeedFull(buffer, param("factor")),
+  },
+  convolutionReverb: {
+    label: "Convolution Reverb",
+    params: CONVOLUTION_REVERB_PARAMS,
+    process: (buffer, param) =>
+      audioEffects.convolutionReverbFull(
+        buffer,
+        param("impulse"),
+        param("preDelay"),
+        param("decay"),
+        param("lowCut"),
+        param("highCut"),
+        param("mix")
+      ),
+  },
+  timeStretch: {
+    label: "Time Stretch",
+    params: [factorParam("Tempo")],
+    process: (buffer, param) => audioEffects.timeStretchFull(buffer, param("factor")),
+  },
+  ...TRACK_EFFECTS,
+};
+
+export const FACTORY_CHAINS: EffectChain[] = [
+  {
+    id: "factory-podcast-cleanup",
+    name: "Podcast cleanup",
+    steps: [
+      { id: "factory-podcast-cleanup-1", type: "highPassFilter", params: { cutoff: 80 } },
+      {
+        id: "factory-podcast-cleanup-2",
+        type: "noiseReduction",
+        params: { reduction: 12, sensitivity: 6, smoothing: 3 },
+      },
+      {
+        id: "factory-podcast-cleanup-3",
+        type: "compressor",
+        params: { threshold: -18, ratio: 3, attack: 0.005, release: 0.15, knee: 6 },
+      },
+      {
+        id: "factory-podcast-cleanup-4",
+        type: "loudnessNormalize",
+        params: { target: -16, truePeak: -1 },
+      },
+    ],
+  },
+];
+
+export function isFactoryChain(chainId: string): boolean {
+  return FACTORY_CHAINS.some((chain) => chain.id === chainId);
+}
+
+export function createChainStep(type: ChainStepType, params?: Record<string, number>): ChainStep {
+  return {
+    id: crypto.randomUUID(),
+    type,
+    params: {
+      ...Object.fromEntries(CHAIN_STEPS[type].params.map((p) => [p.key, p.defaultValue])),
+      ...params,
+    },
+  };
+}
+
+export async function applyEffectChain(
+  buffer: AudioBuffer,
+  steps: ChainStep[]
+): Promise<AudioBuffer> {
+  let result = buffer;
+  for (const step of steps) {
+    const definition = CHAIN_STEPS[step.type];
+    if (!definition) continue;
+    const param = (key: string) =>
+      step.params[key] ?? definition.params.find((p) => p.key === key)?.defaultValue ?? 0;
+    result = await definition.process(result, param);
+  }
+  return result;
+}
+
+export function formatBatchFilename(
+  pattern: string,
+  values: { name: string; index: number; chain: string; format: string }
+): string {
+  const baseName = values.name.replace(/\.[^.]+$/, "");
+  const filename =
+    (pattern.trim() || DEFAULT_FILENAME_PATTERN)
+      .replace(/\{name\}/g, baseName)
+      .replace(/\{index\}/g, String(values.index + 1).padStart(3, "0"))
+      .replace(/\{chain\}/g, values.chain)
+      .replace(/\{date\}/g, new Date().toISOString().slice(0, 10))
+      .replace(/[\\/:*?"<>|]/g, "_")
+      .trim() || baseName;
+  return `${filename}.${values.format}`;
+}
+
+export function loadChains(): EffectChain[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+    const parsed: unknown = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .map((chain) =>
+        Array.isArray(chain?.steps)
+          ? {
+              ...chain,
+              steps: chain.steps.map((step: ChainStep) => {
+                const { effect, ...upgraded } = upgradeLegacyEffect(step.type, step);
+                return { ...upgraded, type: effect };
+              }),
+            }
+          : chain
+      )
+      .filter(
+        (chain): chain is EffectChain =>
+          typeof chain?.id === "string" &&
+          typeof chain?.name === "string" &&
+          Array.isArray(chain?.steps) &&
+          chain.steps.every((step: ChainStep) => step.type in CHAIN_STEPS)
+      );
+  } catch (error) {
+    console.error("Failed to load effect chains:", error);
+    return [];
+  }
+}
+
+export function saveChains(chains: EffectChain[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(chains));
+  } catch (error) {
+    console.error("Failed to save effect chains:", error);
+  }
+}
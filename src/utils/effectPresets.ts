@@ -0,0 +1,255 @@
+import {
+  createEqBand,
+  decodeEqBands,
+  encodeEqBands,
+  isEqBandParams,
+  type EqBand,
+} from "./parametricEq";
+import { TRACK_EFFECTS, type TrackEffectType } from "./trackEffects";
+
+export type PresetEffectType =
+  | TrackEffectType
+  | "convolutionReverb"
+  | "changeSpeed"
+  | "timeStretch"
+  | "loudnessNormalize";
+
+export interface EffectPreset {
+  id: string;
+  name: string;
+  effect: PresetEffectType;
+  params: Record<string, number>;
+  builtIn?: boolean;
+}
+
+interface PresetPack {
+  format: typeof PACK_FORMAT;
+  version: number;
+  presets: Array<Omit<EffectPreset, "id" | "builtIn">>;
+}
+
+const STORAGE_KEY = "auwebbity-effect-presets";
+const PACK_FORMAT = "auwebbity-effect-presets";
+const PACK_VERSION = 1;
+
+const PRESET_EFFECT_TYPES: PresetEffectType[] = [
+  ...(Object.keys(TRACK_EFFECTS) as TrackEffectType[]),
+  "convolutionReverb",
+  "changeSpeed",
+  "timeStretch",
+  "loudnessNormalize",
+];
+
+const factory = (
+  effect: PresetEffectType,
+  name: string,
+  params: Record<string, number>
+): EffectPreset => ({
+  id: `factory-${effect}-${name.toLowerCase().replace(/[^a-z0-9]+/g, "-")}`,
+  name,
+  effect,
+  params,
+  builtIn: true,
+});
+
+const eqPreset = (name: string, bands: EqBand[]) => factory("eq", name, encodeEqBands(bands));
+
+export const FACTORY_PRESETS: EffectPreset[] = [
+  factory("amplify", "Boost +6 dB", { gain: 2 }),
+  factory("amplify", "Cut -6 dB", { gain: 0.5 }),
+  factory("reverb", "Small room", { roomSize: 0.4, wetLevel: 0.2 }),
+  factory("reverb", "Subtle ambience", { roomSize: 0.8, wetLevel: 0.1 }),
+  factory("reverb", "Concert hall", { roomSize: 2.5, wetLevel: 0.4 }),
+  factory("convolutionReverb", "Vocal room", {
+    impulse: 2,
+    preDelay: 0.01,
+    decay: 100,
+    lowCut: 150,
+    highCut: 8000,
+    mix: 0.2,
+  }),
+  factory("convolutionReverb", "Big hall", {
+    impulse: 3,
+    preDelay: 0.03,
+    decay: 100,
+    lowCut: 100,
+    highCut: 10000,
+    mix: 0.3,
+  }),
+  factory("convolutionReverb", "Bright plate", {
+    impulse: 4,
+    preDelay: 0,
+    decay: 80,
+    lowCut: 200,
+    highCut: 16000,
+    mix: 0.25,
+  }),
+  factory("convolutionReverb", "Cathedral wash", {
+    impulse: 5,
+    preDelay: 0.04,
+    decay: 100,
+    lowCut: 80,
+    highCut: 6000,
+    mix: 0.4,
+  }),
+  factory("delay", "Slapback", { delayTime: 0.12, feedback: 0.1, wetLevel: 0.3 }),
+  factory("delay", "Echo", { delayTime: 0.35, feedback: 0.45, wetLevel: 0.4 }),
+  factory("noiseReduction", "Light hiss removal", { reduction: 6, sensitivity: 6, smoothing: 3 }),
+  factory("noiseReduction", "Strong cleanup", { reduction: 18, sensitivity: 9, smoothing: 5 }),
+  factory("changeSpeed", "Half speed", { factor: 0.5 }),
+  factory("changeSpeed", "Double speed", { factor: 2 }),
+  factory("timeStretch", "Practice tempo", { factor: 0.75 }),
+  factory("timeStretch", "Quick listen", { factor: 1.25 }),
+  factory("loudnessNormalize", "Podcast", { target: -16, truePeak: -1 }),
+  factory("loudnessNormalize", "Streaming", { target: -14, truePeak: -1 }),
+  factory("loudnessNormalize", "Broadcast EBU R128", { target: -23, truePeak: -1 }),
+  factory("loudnessNormalize", "Broadcast ATSC A/85", { target: -24, truePeak: -2 }),
+  factory("pitchShift", "Octave down", { semitones: -12, cents: 0 }),
+  factory("pitchShift", "Octave up", { semitones: 12, cents: 0 }),
+  factory("pitchShift", "Up a whole tone", { semitones: 2, cents: 0 }),
+  factory("compressor", "Podcast voice", {
+    threshold: -18,
+    ratio: 3,
+    attack: 0.005,
+    release: 0.15,
+    knee: 6,
+  }),
+  factory("compressor", "Gentle glue", {
+    threshold: -10,
+    ratio: 2,
+    attack: 0.01,
+    release: 0.2,
+    knee: 6,
+  }),
+  factory("compressor", "Heavy squash", {
+    threshold: -30,
+    ratio: 8,
+    attack: 0.001,
+    release: 0.05,
+    knee: 2,
+  }),
+  factory("limiter", "Broadcast ceiling", { threshold: -1, release: 0.01 }),
+  factory("limiter", "Safe peaks", { threshold: -3, release: 0.05 }),
+  eqPreset("Voice presence", [
+    { ...createEqBand("highPass", 80), slope: 24 },
+    createEqBand("bell", 3000, 4),
+    createEqBand("highShelf", 10000, 2),
+  ]),
+  eqPreset("Remove mud", [{ ...createEqBand("bell", 300, -4), q: 1.4 }]),
+  eqPreset("Tame sibilance", [{ ...createEqBand("bell", 6500, -6), q: 3 }]),
+  eqPreset("Warmth", [createEqBand("lowShelf", 200, 3), createEqBand("highShelf", 8000, -2)]),
+  eqPreset("Mains hum removal", [
+    { ...createEqBand("notch", 50), q: 10 },
+    { ...createEqBand("notch", 60), q: 10 },
+    { ...createEqBand("notch", 100), q: 10 },
+    { ...createEqBand("notch", 120), q: 10 },
+  ]),
+  eqPreset("Radio voice", [
+    { ...createEqBand("highPass", 300), slope: 24 },
+    createEqBand("bell", 1500, 5),
+    { ...createEqBand("lowPass", 4000), slope: 24 },
+  ]),
+  factory("highPassFilter", "Rumble cut", { cutoff: 80 }),
+  factory("highPassFilter", "Voice cleanup", { cutoff: 100 }),
+  factory("lowPassFilter", "Telephone", { cutoff: 3400 }),
+  factory("lowPassFilter", "Soften highs", { cutoff: 8000 }),
+];
+
+export function upgradeLegacyEffect<T extends { params?: Record<string, number> }>(
+  effect: string,
+  value: T
+): { effect: string } & T {
+  const params = value.params;
+  if (effect === "eq" && params && !isEqBandParams(params)) {
+    return { ...value, effect, params: encodeEqBands(decodeEqBands((key) => params[key])) };
+  }
+  if (effect !== "changePitch") return { ...value, effect };
+  const shift = 12 * Math.log2(value.params?.["factor"] ?? 1);
+  const semitones = Math.round(shift);
+  return {
+    ...value,
+    effect: "pitchShift",
+    params: { semitones, cents: Math.round((shift - semitones) * 100) },
+  };
+}
+
+function upgradePreset(value: unknown): unknown {
+  if (!value || typeof value !== "object") return value;
+  const preset = value as Partial<EffectPreset>;
+  return typeof preset.effect === "string" ? upgradeLegacyEffect(preset.effect, preset) : value;
+}
+
+function isPresetLike(value: unknown): value is Omit<EffectPreset, "id" | "builtIn"> {
+  if (!value || typeof value !== "object") return false;
+  const preset = value as Partial<EffectPreset>;
+  return (
+    typeof preset.name === "string" &&
+    preset.name.trim().length > 0 &&
+    PRESET_EFFECT_TYPES.includes(preset.effect as PresetEffectType) &&
+    !!preset.params &&
+    typeof preset.params === "object" &&
+    Object.values(preset.params).every((v) => typeof v === "number" && isFinite(v))
+  );
+}
+
+export function loadUserPresets(): EffectPreset[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+    const parsed: unknown = JSON.parse(stored);
+    return Array.isArray(parsed)
+      ? parsed
+          .map(upgradePreset)
+          .filter(
+            (p): p is EffectPreset => isPresetLike(p) && typeof (p as EffectPreset).id === "string"
+          )
+          .map(({ id, name, effect, params }) => ({ id, name, effect, params }))
+      : [];
+  } catch (error) {
+    console.error("Failed to load effect presets:", error);
+    return [];
+  }
+}
+
+export function saveUserPresets(presets: EffectPreset[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+  } catch (error) {
+    console.error("Failed to save effect presets:", error);
+  }
+}
+
+export function exportPresetPack(presets: EffectPreset[]): Blob {
+  const pack: PresetPack = {
+    format: PACK_FORMAT,
+    version: PACK_VERSION,
+    presets: presets.map(({ name, effect, params }) => ({ name, effect, params })),
+  };
+  return new Blob([JSON.stringify(pack, null, 2)], { type: "application/json" });
+}
+
+export async function importPresetPack(file: File): Promise<EffectPreset[]> {
+  let pack: Partial<PresetPack>;
+  try {
+    pack = JSON.parse(await file.text());
+  } catch {
+    throw new Error("Preset file is not valid JSON");
+  }
+
+  if (pack.format !== PACK_FORMAT || !Array.isArray(pack.presets)) {
+    throw new Error("File is not an effect preset pack");
+  }
+  if ((pack.version ?? 0) > PACK_VERSION) {
+    throw new Error(`Unsupported preset pack version: ${pack.version}`);
+  }
+
+  return pack.presets
+    .map(upgradePreset)
+    .filter(isPresetLike)
+    .map(({ name, effect, params }) => ({
+      id: crypto.randomUUID(),
+      name: name.trim(),
+      effect,
+      params: { ...params },
+    }));
+}
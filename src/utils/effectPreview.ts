@@ -0,0 +1,125 @@
+import type { AudioTrack } from "../stores/audioStore";
+import { mixTracksWithVolume } from "./audioBuffer";
+import { getAudioContext } from "./audioContext";
+import { createClip, renderClips, sliceClips } from "./clips";
+import { playbackEngine } from "./playbackEngine";
+import { applyTrackEffects, type TrackEffect } from "./trackEffects";
+
+export type PreviewProcessor = (buffer: AudioBuffer) => Promise<AudioBuffer>;
+
+interface PreviewSource {
+  buffer: AudioBuffer;
+  volume: number;
+  pan: number;
+  effects: TrackEffect[];
+}
+
+const PREVIEW_WINDOW_SECONDS = 10;
+const UPDATE_DEBOUNCE_MS = 150;
+
+let sources: PreviewSource[] = [];
+let player: AudioBufferSourceNode | null = null;
+let loopStartTime = 0;
+let renderToken = 0;
+let updateTimeout: ReturnType<typeof setTimeout> | null = null;
+
+export function getPreviewWindow(
+  start: number,
+  end: number | null,
+  duration: number
+): { start: number; end: number } {
+  const from = start >= duration - 0.01 ? 0 : Math.max(0, start);
+  const to = Math.min(end ?? duration, from + PREVIEW_WINDOW_SECONDS, duration);
+  return { start: from, end: to };
+}
+
+export function getPreviewSources(
+  tracks: AudioTrack[],
+  start: number,
+  end: number,
+  soloActive: boolean
+): PreviewSource[] {
+  return tracks.flatMap((track) => {
+    if (track.muted || (soloActive && !track.soloed)) return [];
+    const buffer = renderClips(sliceClips(track.clips, start, end));
+    return buffer ? [{ buffer, volume: track.volume, pan: track.pan, effects: track.effects }] : [];
+  });
+}
+
+function stopPlayer(): void {
+  if (!player) return;
+  try {
+    player.stop();
+  } catch {}
+  player.disconnect();
+  player = null;
+}
+
+function play(buffer: AudioBuffer): void {
+  const audioContext = getAudioContext();
+  const previous = player?.buffer;
+  const offset = previous
+    ? ((audioContext.currentTime - loopStartTime) % previous.duration) % buffer.duration
+    : 0;
+
+  stopPlayer();
+  player = audioContext.createBufferSource();
+  player.buffer = buffer;
+  player.loop = true;
+  player.connect(playbackEngine.getMasterBus());
+  player.start(0, offset);
+  loopStartTime = audioContext.currentTime - offset;
+}
+
+async function render(processor: PreviewProcessor): Promise<void> {
+  const token = ++renderToken;
+  const processed = await Promise.all(
+    sources.map(async (source) => ({
+      clips: [createClip(await applyTrackEffects(await processor(source.buffer), source.effects))],
+      volume: source.volume,
+      pan: source.pan,
+      muted: false,
+      soloed: false,
+    }))
+  );
+  if (token !== renderToken) return;
+
+  const mix = mixTracksWithVolume(processed);
+  if (mix) play(mix);
+}
+
+function cancelUpdate(): void {
+  if (updateTimeout !== null) {
+    clearTimeout(updateTimeout);
+    updateTimeout = null;
+  }
+}
+
+async function start(previewSources: PreviewSource[], processor: PreviewProcessor): Promise<void> {
+  stop();
+  sources = previewSources;
+  await render(processor);
+}
+
+function update(processor: PreviewProcessor): void {
+  if (sources.length === 0) return;
+  cancelUpdate();
+  updateTimeout = setTimeout(() => {
+    updateTimeout = null;
+    render(processor).catch(console.error);
+  }, UPDATE_DEBOUNCE_MS);
+}
+
+function stop(): void {
+  renderToken++;
+  cancelUpdate();
+  stopPlayer();
+  sources = [];
+}
+
+export const effectPreview = {
+  start,
+  update,
+  stop,
+  isActive: () => sources.length > 0,
+};
@@ -0,0 +1,736 @@
+import { convolve, prepareImpulse, type ImpulseResponseData } from "./convolutionDsp";
+import { normalizeLoudness } from "./loudnessDsp";
+import {
+  EQ_MAX_FREQUENCY,
+  EQ_MIN_FREQUENCY,
+  getBandCoefficients,
+  type BiquadCoefficients,
+  type EqBand,
+} from "./parametricEq";
+import {
+  phaseVocoderStretch,
+  resample,
+  spectralNoiseReduction,
+  type NoiseProfile,
+} from "./spectralDsp";
+
+export interface SampleBuffer {
+  readonly numberOfChannels: number;
+  readonly length: number;
+  readonly sampleRate: number;
+  readonly duration: number;
+  getChannelData(channel: number): Float32Array;
+}
+
+export type ProgressReporter = (fraction: number) => void;
+
+const PROGRESS_INTERVAL = 0xffff;
+
+export function createSampleBuffer(
+  numberOfChannels: number,
+  length: number,
+  sampleRate: number,
+  channelData: Float32Array[] = Array.from(
+    { length: numberOfChannels },
+    () => new Float32Array(length)
+  )
+): SampleBuffer {
+  return {
+    numberOfChannels,
+    length,
+    sampleRate,
+    duration: length / sampleRate,
+    getChannelData: (channel) => {
+      const data = channelData[channel];
+      if (!data) throw new RangeError(`Channel ${channel} does not exist`);
+      return data;
+    },
+  };
+}
+
+function scaleProgress(progress: ProgressReporter, from: number, to: number): ProgressReporter {
+  return (fraction) => progress(from + (to - from) * fraction);
+}
+
+function channelProgress(progress: ProgressReporter, buffer: SampleBuffer, passes = 1) {
+  return (channel: number, index: number, length: number, pass = 0) => {
+    if ((index & PROGRESS_INTERVAL) === 0) {
+      progress((channel * passes + pass + index / length) / (buffer.numberOfChannels * passes));
+    }
+  };
+}
+
+function biquad(
+  buffer: SampleBuffer,
+  progress: ProgressReporter,
+  sections: BiquadCoefficients[],
+  clip = true
+): SampleBuffer {
+  const newBuffer = createSampleBuffer(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+  const report = channelProgress(progress, buffer);
+  const coefficients = new Float64Array(
+    sections.flatMap(([b0, b1, b2, a0, a1, a2]) => [b0 / a0, b1 / a0, b2 / a0, a1 / a0, a2 / a0])
+  );
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const sourceData = buffer.getChannelData(channel);
+    const destData = newBuffer.getChannelData(channel);
+    const state = new Float64Array(sections.length * 4);
+
+    for (let i = 0; i < sourceData.length; i++) {
+      report(channel, i, sourceData.length);
+      let sample = sourceData[i] ?? 0;
+
+      for (let section = 0; section < sections.length; section++) {
+        const c = section * 5;
+        const z = section * 4;
+        const y0 =
+          coefficients[c]! * sample +
+          coefficients[c + 1]! * state[z]! +
+          coefficients[c + 2]! * state[z + 1]! -
+          coefficients[c + 3]! * state[z + 2]! -
+          coefficients[c + 4]! * state[z + 3]!;
+        state[z + 1] = state[z]!;
+        state[z] = sample;
+        state[z + 3] = state[z + 2]!;
+        state[z + 2] = y0;
+        sample = y0;
+      }
+
+      destData[i] = clip ? Math.max(-1.0, Math.min(1.0, sample)) : sample;
+    }
+  }
+
+  return newBuffer;
+}
+
+function changeSpeed(
+  buffer: SampleBuffer,
+  progress: ProgressReporter,
+  speedFactor: number
+): SampleBuffer {
+  if (!buffer || buffer.length === 0 || speedFactor <= 0 || speedFactor > 4) {
+    return buffer;
+  }
+
+  const clampedSpeed = Math.max(0.25, Math.min(4, speedFactor));
+  const newLength = Math.floor(buffer.length / clampedSpeed);
+  const newBuffer = createSampleBuffer(buffer.numberOfChannels, newLength, buffer.sampleRate);
+  const report = channelProgress(progress, buffer);
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const sourceData = buffer.getChannelData(channel);
+    const destData = newBuffer.getChannelData(channel);
+
+    for (let i = 0; i < newLength; i++) {
+      report(channel, i, newLength);
+      const sourceIndex = i * clampedSpeed;
+      const index1 = Math.floor(sourceIndex);
+      const index2 = Math.min(index1 + 1, sourceData.length - 1);
+      const fraction = sourceIndex - index1;
+
+      const sample1 = sourceData[index1] ?? 0;
+      const sample2 = sourceData[index2] ?? 0;
+      destData[i] = sample1 + (sample2 - sample1) * fraction;
+    }
+  }
+
+  return newBuffer;
+}
+
+export const effectsDsp = {
+  normalize(buffer: SampleBuffer, progress: ProgressReporter): SampleBuffer {
+    const newBuffer = createSampleBuffer(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+    const report = channelProgress(progress, buffer, 2);
+
+    let peak = 0;
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const data = buffer.getChannelData(channel);
+      for (let i = 0; i < data.length; i++) {
+        report(channel, i, data.length);
+        const abs = Math.abs(data[i] ?? 0);
+        if (abs > peak) {
+          peak = abs;
+        }
+      }
+    }
+
+    if (peak === 0 || peak >= 1.0) {
+      for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+        newBuffer.getChannelData(channel).set(buffer.getChannelData(channel));
+      }
+      return newBuffer;
+    }
+
+    const factor = 1.0 / peak;
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const sourceData = buffer.getChannelData(channel);
+      const destData = newBuffer.getChannelData(channel);
+      for (let i = 0; i < sourceData.length; i++) {
+        report(channel, i, sourceData.length, 1);
+        destData[i] = Math.max(-1.0, Math.min(1.0, (sourceData[i] ?? 0) * factor));
+      }
+    }
+
+    return newBuffer;
+  },
+
+  loudnessNormalize(
+    buffer: SampleBuffer,
+    progress: ProgressReporter,
+    targetLufs: number,
+    truePeakCeiling: number
+  ): SampleBuffer {
+    if (!buffer || buffer.length === 0) {
+      return buffer;
+    }
+
+    return normalizeLoudness(
+      buffer,
+      Math.max(-40, Math.min(-5, targetLufs)),
+      Math.max(-9, Math.min(0, truePeakCeiling)),
+      progress
+    );
+  },
+
+  amplify(buffer: SampleBuffer, progress: ProgressReporter, gain: number): SampleBuffer {
+    const newBuffer = createSampleBuffer(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+    const report = channelProgress(progress, buffer);
+
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const sourceData = buffer.getChannelData(channel);
+      const destData = newBuffer.getChannelData(channel);
+      for (let i = 0; i < sourceData.length; i++) {
+        report(channel, i, sourceData.length);
+        destData[i] = Math.max(-1.0, Math.min(1.0, (sourceData[i] ?? 0) * gain));
+      }
+    }
+
+    return newBuffer;
+  },
+
+  reverse(buffer: SampleBuffer, progress: ProgressReporter): SampleBuffer {
+    const newBuffer = createSampleBuffer(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+    const report = channelProgress(progress, buffer);
+
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const sourceData = buffer.getChannelData(channel);
+      const destData = newBuffer.getChannelData(channel);
+      for (let i = 0; i < sourceData.length; i++) {
+        report(channel, i, sourceData.length);
+        destData[i] = sourceData[sourceData.length - 1 - i] ?? 0;
+      }
+    }
+
+    return newBuffer;
+  },
+
+  fadeIn(buffer: SampleBuffer, progress: ProgressReporter, fadeDuration: number): SampleBuffer {
+    const newBuffer = createSampleBuffer(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+    const report = channelProgress(progress, buffer);
+
+    const fadeSamples = Math.floor(fadeDuration * buffer.sampleRate);
+    const fadeLength = Math.min(fadeSamples, buffer.length);
+
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const sourceData = buffer.getChannelData(channel);
+      const destData = newBuffer.getChannelData(channel);
+      for (let i = 0; i < buffer.length; i++) {
+        report(channel, i, buffer.length);
+        if (i < fadeLength) {
+          const fadeFactor = i / fadeLength;
+          destData[i] = (sourceData[i] ?? 0) * fadeFactor;
+        } else {
+          destData[i] = sourceData[i] ?? 0;
+        }
+      }
+    }
+
+    return newBuffer;
+  },
+
+  fadeOut(buffer: SampleBuffer, progress: ProgressReporter, fadeDuration: number): SampleBuffer {
+    const newBuffer = createSampleBuffer(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+    const report = channelProgress(progress, buffer);
+
+    const fadeSamples = Math.floor(fadeDuration * buffer.sampleRate);
+    const fadeLength = Math.min(fadeSamples, buffer.length);
+    const fadeStart = buffer.length - fadeLength;
+
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const sourceData = buffer.getChannelData(channel);
+      const destData = newBuffer.getChannelData(channel);
+      for (let i = 0; i < buffer.length; i++) {
+        report(channel, i, buffer.length);
+        if (i >= fadeStart) {
+          const fadeFactor = (buffer.length - i) / fadeLength;
+          destData[i] = (sourceData[i] ?? 0) * fadeFactor;
+        } else {
+          destData[i] = sourceData[i] ?? 0;
+        }
+      }
+    }
+
+    return newBuffer;
+  },
+
+  reverb(
+    buffer: SampleBuffer,
+    progress: ProgressReporter,
+    roomSize: number,
+    wetLevel: number
+  ): SampleBuffer {
+    if (!buffer || buffer.length === 0 || buffer.sampleRate <= 0) {
+      return buffer;
+    }
+
+    const clampedRoomSize = Math.max(0.1, Math.min(3, roomSize));
+    const clampedWetLevel = Math.max(0, Math.min(1, wetLevel));
+    const dryLevel = 1.0 - clampedWetLevel;
+
+    const reverbTime = Math.min(clampedRoomSize, 2.0);
+    const impulseLength = Math.min(Math.floor(reverbTime * buffer.sampleRate), buffer.length * 2);
+
+    if (impulseLength <= 0 || impulseLength > buffer.length * 2) {
+      return buffer;
+    }
+
+    const totalLength = buffer.length + impulseLength;
+    const newBuffer = createSampleBuffer(buffer.numberOfChannels, totalLength, buffer.sampleRate);
+    const report = channelProgress(progress, buffer);
+
+    const delays = [
+      Math.floor(0.03 * buffer.sampleRate),
+      Math.floor(0.037 * buffer.sampleRate),
+      Math.floor(0.041 * buffer.sampleRate),
+      Math.floor(0.043 * buffer.sampleRate),
+    ].map((d) => Math.min(d, buffer.length));
+
+    const feedbacks = [0.3, 0.25, 0.2, 0.15];
+
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const sourceData = buffer.getChannelData(channel);
+      const destData = newBuffer.getChannelData(channel);
+      const delayLines = delays.map(() => new Float32Array(impulseLength));
+      const delayIndices: number[] = delays.map(() => 0);
+
+      for (let i = 0; i < totalLength; i++) {
+        report(channel, i, totalLength);
+        const input = i < buffer.length ? (sourceData[i] ?? 0) : 0;
+        let reverbSum = 0;
+
+        for (let d = 0; d < delays.length; d++) {
+          const line = delayLines[d]!;
+          const idx = delayIndices[d]!;
+          const delayed = line[idx] ?? 0;
+          reverbSum += delayed * feedbacks[d]!;
+          line[idx] = input + delayed * feedbacks[d]! * 0.5;
+          delayIndices[d] = (idx + 1) % impulseLength;
+        }
+
+        const output =
+          i < buffer.length
+            ? input * dryLevel + reverbSum * clampedWetLevel
+            : reverbSum * clampedWetLevel;
+        destData[i] = Math.max(-1.0, Math.min(1.0, output));
+      }
+    }
+
+    return newBuffer;
+  },
+
+  convolutionReverb(
+    buffer: SampleBuffer,
+    progress: ProgressReporter,
+    impulse: ImpulseResponseData,
+    preDelay: number,
+    decay: number,
+    lowCut: number,
+    highCut: number,
+    mix: number
+  ): SampleBuffer {
+    if (!buffer || buffer.length === 0 || buffer.sampleRate <= 0 || !impulse.channels.length) {
+      return buffer;
+    }
+
+    const kernels = prepareImpulse(impulse, buffer.sampleRate, decay / 100);
+    const delaySamples = Math.round(Math.max(0, Math.min(0.5, preDelay)) * buffer.sampleRate);
+    const totalLength = buffer.length + delaySamples + kernels[0]!.length - 1;
+    const wet = createSampleBuffer(buffer.numberOfChannels, totalLength, buffer.sampleRate);
+
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const kernel = kernels[Math.min(channel, kernels.length - 1)]!;
+      const convolved = convolve(
+        buffer.getChannelData(channel),
+        kernel,
+        totalLength - delaySamples,
+        scaleProgress(
+          progress,
+          (0.85 * channel) / buffer.numberOfChannels,
+          (0.85 * (channel + 1)) / buffer.numberOfChannels
+        )
+      );
+      wet.getChannelData(channel).set(convolved, delaySamples);
+    }
+
+    const wetFilter = (type: "highPass" | "lowPass", frequency: number) =>
+      getBandCoefficients({ type, frequency, gain: 0, q: 0.71, slope: 12 }, buffer.sampleRate);
+    const sections = [
+      ...(lowCut > EQ_MIN_FREQUENCY ? wetFilter("highPass", lowCut) : []),
+      ...(highCut < EQ_MAX_FREQUENCY ? wetFilter("lowPass", highCut) : []),
+    ];
+    const output =
+      sections.length > 0 ? biquad(wet, scaleProgress(progress, 0.85, 0.95), sections, false) : wet;
+
+    const wetLevel = Math.max(0, Math.min(1, mix));
+    const dryLevel = 1 - wetLevel;
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const sourceData = buffer.getChannelData(channel);
+      const destData = output.getChannelData(channel);
+      for (let i = 0; i < totalLength; i++) {
+        const dry = i < buffer.length ? (sourceData[i] ?? 0) : 0;
+        destData[i] = Math.max(-1.0, Math.min(1.0, dry * dryLevel + destData[i]! * wetLevel));
+      }
+    }
+
+    return output;
+  },
+
+  delay(
+    buffer: SampleBuffer,
+    progress: ProgressReporter,
+    delayTime: number,
+    feedback: number,
+    wetLevel: number
+  ): SampleBuffer {
+    if (!buffer || buffer.length === 0 || buffer.sampleRate <= 0) {
+      return buffer;
+    }
+
+    const clampedDelayTime = Math.max(0.01, Math.min(2, delayTime));
+    const clampedFeedback = Math.max(0, Math.min(0.95, feedback));
+    const clampedWetLevel = Math.max(0, Math.min(1, wetLevel));
+    const dryLevel = 1.0 - clampedWetLevel;
+
+    const delaySamples = Math.min(
+      Math.max(1, Math.floor(clampedDelayTime * buffer.sampleRate)),
+      buffer.length
+    );
+
+    const maxTailSamples = Math.min(Math.floor(buffer.sampleRate * 2), buffer.length);
+    const totalLength = Math.min(buffer.length + maxTailSamples, buffer.length * 3);
+
+    if (totalLength <= 0 || delaySamples <= 0 || delaySamples > buffer.length) {
+      return buffer;
+    }
+
+    const newBuffer = createSampleBuffer(buffer.numberOfChannels, totalLength, buffer.sampleRate);
+    const report = channelProgress(progress, buffer);
+
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const sourceData = buffer.getChannelData(channel);
+      const destData = newBuffer.getChannelData(channel);
+      const delayLine = new Float32Array(delaySamples);
+      let delayIndex = 0;
+
+      for (let i = 0; i < buffer.length; i++) {
+        report(channel, i, totalLength);
+        const input = sourceData[i] ?? 0;
+        const delayed = delayLine[delayIndex] ?? 0;
+
+        destData[i] = Math.max(-1.0, Math.min(1.0, input * dryLevel + delayed * clampedWetLevel));
+
+        delayLine[delayIndex] = input + delayed * clampedFeedback;
+        delayIndex = (delayIndex + 1) % delaySamples;
+      }
+
+      let decayFactor = 1.0;
+      const decayRate = Math.pow(0.001, 1.0 / maxTailSamples);
+
+      for (let i = buffer.length; i < totalLength; i++) {
+        report(channel, i, totalLength);
+        const delayed = delayLine[delayIndex] ?? 0;
+        destData[i] = Math.max(-1.0, Math.min(1.0, delayed * clampedWetLevel * decayFactor));
+
+        delayLine[delayIndex] = delayed * clampedFeedback;
+        delayIndex = (delayIndex + 1) % delaySamples;
+        decayFactor *= decayRate;
+      }
+    }
+
+    return newBuffer;
+  },
+
+  noiseReduction(
+    buffer: SampleBuffer,
+    progress: ProgressReporter,
+    reductionDb: number,
+    sensitivityDb: number,
+    smoothingBands: number,
+    profile: NoiseProfile | null = null
+  ): SampleBuffer {
+    return spectralNoiseReduction(
+      buffer,
+      progress,
+      reductionDb,
+      sensitivityDb,
+      smoothingBands,
+      profile
+    );
+  },
+
+  changeSpeed,
+
+  timeStretch(buffer: SampleBuffer, progress: ProgressReporter, tempo: number): SampleBuffer {
+    if (!buffer || buffer.length === 0 || tempo <= 0) {
+      return buffer;
+    }
+
+    const clampedTempo = Math.max(0.25, Math.min(4, tempo));
+    if (clampedTempo === 1) {
+      return buffer;
+    }
+
+    const channelData = Array.from({ length: buffer.numberOfChannels }, (_, channel) =>
+      phaseVocoderStretch(buffer.getChannelData(channel), 1 / clampedTempo, (fraction) =>
+        progress((channel + fraction) / buffer.numberOfChannels)
+      ).map((sample) => Math.max(-1.0, Math.min(1.0, sample)))
+    );
+    return createSampleBuffer(
+      buffer.numberOfChannels,
+      channelData[0]!.length,
+      buffer.sampleRate,
+      channelData
+    );
+  },
+
+  pitchShift(
+    buffer: SampleBuffer,
+    progress: ProgressReporter,
+    semitones: number,
+    cents: number
+  ): SampleBuffer {
+    if (!buffer || buffer.length === 0) {
+      return buffer;
+    }
+
+    const shift =
+      Math.max(-24, Math.min(24, semitones)) + Math.max(-100, Math.min(100, cents)) / 100;
+    if (shift === 0) {
+      return buffer;
+    }
+
+    const factor = Math.pow(2, shift / 12);
+    const channelData = Array.from({ length: buffer.numberOfChannels }, (_, channel) => {
+      const channelProgress = scaleProgress(
+        progress,
+        channel / buffer.numberOfChannels,
+        (channel + 1) / buffer.numberOfChannels
+      );
+      const stretched = phaseVocoderStretch(
+        buffer.getChannelData(channel),
+        factor,
+        scaleProgress(channelProgress, 0, 0.8)
+      );
+      return resample(stretched, buffer.length, scaleProgress(channelProgress, 0.8, 1)).map(
+        (sample) => Math.max(-1.0, Math.min(1.0, sample))
+      );
+    });
+    return createSampleBuffer(
+      buffer.numberOfChannels,
+      buffer.length,
+      buffer.sampleRate,
+      channelData
+    );
+  },
+
+  compressor(
+    buffer: SampleBuffer,
+    progress: ProgressReporter,
+    threshold: number,
+    ratio: number,
+    attack: number,
+    release: number,
+    knee: number
+  ): SampleBuffer {
+    if (!buffer || buffer.length === 0) {
+      return buffer;
+    }
+
+    const clampedThreshold = Math.max(-60, Math.min(0, threshold));
+    const clampedRatio = Math.max(1, Math.min(20, ratio));
+    const clampedAttack = Math.max(0.0001, Math.min(1, attack));
+    const clampedRelease = Math.max(0.01, Math.min(5, release));
+    const clampedKnee = Math.max(0, Math.min(12, knee));
+
+    const thresholdLinear = Math.pow(10, clampedThreshold / 20);
+    const kneeStart = thresholdLinear * Math.pow(10, -clampedKnee / 20);
+    const kneeEnd = thresholdLinear * Math.pow(10, clampedKnee / 20);
+
+    const attackCoeff = Math.exp(-1 / (clampedAttack * buffer.sampleRate));
+    const releaseCoeff = Math.exp(-1 / (clampedRelease * buffer.sampleRate));
+
+    const newBuffer = createSampleBuffer(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+    const report = channelProgress(progress, buffer);
+
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const sourceData = buffer.getChannelData(channel);
+      const destData = newBuffer.getChannelData(channel);
+      let envelope = 0;
+
+      for (let i = 0; i < sourceData.length; i++) {
+        report(channel, i, sourceData.length);
+        const input = sourceData[i] ?? 0;
+        const absInput = Math.abs(input);
+
+        let targetGain = 1.0;
+
+        if (absInput > kneeStart) {
+          if (absInput < kneeEnd) {
+            const overshoot = absInput - kneeStart;
+            const compressedOvershoot = overshoot / clampedRatio;
+            const compressedLevel = kneeStart + compressedOvershoot;
+            targetGain = compressedLevel / absInput;
+          } else {
+            const overshoot = absInput - thresholdLinear;
+            const compressedOvershoot = overshoot / clampedRatio;
+            const compressedLevel = thresholdLinear + compressedOvershoot;
+            targetGain = compressedLevel / absInput;
+          }
+        }
+
+        if (targetGain < envelope) {
+          envelope = targetGain + (envelope - targetGain) * attackCoeff;
+        } else {
+          envelope = targetGain + (envelope - targetGain) * releaseCoeff;
+        }
+
+        destData[i] = Math.max(-1.0, Math.min(1.0, input * envelope));
+      }
+    }
+
+    return newBuffer;
+  },
+
+  limiter(
+    buffer: SampleBuffer,
+    progress: ProgressReporter,
+    threshold: number,
+    release: number
+  ): SampleBuffer {
+    if (!buffer || buffer.length === 0) {
+      return buffer;
+    }
+
+    const clampedThreshold = Math.max(-60, Math.min(0, threshold));
+    const clampedRelease = Math.max(0.001, Math.min(1, release));
+
+    const thresholdLinear = Math.pow(10, clampedThreshold / 20);
+    const releaseCoeff = Math.exp(-1 / (clampedRelease * buffer.sampleRate));
+    const attackCoeff = Math.exp(-1 / (0.0001 * buffer.sampleRate));
+
+    const newBuffer = createSampleBuffer(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+    const report = channelProgress(progress, buffer);
+
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const sourceData = buffer.getChannelData(channel);
+      const destData = newBuffer.getChannelData(channel);
+      let envelope = 1.0;
+
+      for (let i = 0; i < sourceData.length; i++) {
+        report(channel, i, sourceData.length);
+        const input = sourceData[i] ?? 0;
+        const absInput = Math.abs(input);
+
+        let targetGain = 1.0;
+        if (absInput > thresholdLinear) {
+          targetGain = thresholdLinear / absInput;
+        }
+
+        if (targetGain < envelope) {
+          envelope = targetGain + (envelope - targetGain) * attackCoeff;
+        } else {
+          envelope = targetGain + (envelope - targetGain) * releaseCoeff;
+        }
+
+        destData[i] = Math.max(-1.0, Math.min(1.0, input * envelope));
+      }
+    }
+
+    return newBuffer;
+  },
+
+  eq(buffer: SampleBuffer, progress: ProgressReporter, bands: EqBand[]): SampleBuffer {
+    if (!buffer || buffer.length === 0 || buffer.sampleRate <= 0) {
+      return buffer;
+    }
+
+    const sections = bands.flatMap((band) => getBandCoefficients(band, buffer.sampleRate));
+    return sections.length > 0 ? biquad(buffer, progress, sections) : buffer;
+  },
+
+  highPassFilter(
+    buffer: SampleBuffer,
+    progress: ProgressReporter,
+    cutoffFrequency: number
+  ): SampleBuffer {
+    if (!buffer || buffer.length === 0 || buffer.sampleRate <= 0) {
+      return buffer;
+    }
+
+    return biquad(
+      buffer,
+      progress,
+      getBandCoefficients(
+        { type: "highPass", frequency: cutoffFrequency, gain: 0, q: 1, slope: 12 },
+        buffer.sampleRate
+      )
+    );
+  },
+
+  lowPassFilter(
+    buffer: SampleBuffer,
+    progress: ProgressReporter,
+    cutoffFrequency: number
+  ): SampleBuffer {
+    if (!buffer || buffer.length === 0 || buffer.sampleRate <= 0) {
+      return buffer;
+    }
+
+    return biquad(
+      buffer,
+      progress,
+      getBandCoefficients(
+        { type: "lowPass", frequency: cutoffFrequency, gain: 0, q: 1, slope: 12 },
+        buffer.sampleRate
+      )
+    );
+  },
+};
+
+export type EffectName = keyof typeof effectsDsp;
+
+export const LINKED_CHANNEL_EFFECTS: ReadonlySet<EffectName> = new Set<EffectName>([
+  "normalize",
+  "loudnessNormalize",
+  "convolutionReverb",
+]);
+
+export type EffectArgs<T extends EffectName> =
+  Parameters<(typeof effectsDsp)[T]> extends [SampleBuffer, ProgressReporter, ...infer A]
+    ? A
+    : never;
+
+export function runEffectDsp<T extends EffectName>(
+  effect: T,
+  buffer: SampleBuffer,
+  args: EffectArgs<T>,
+  progress: ProgressReporter = () => {}
+): SampleBuffer {
+  const process = effectsDsp[effect] as unknown as (
+    buffer: SampleBuffer,
+    progress: ProgressReporter,
+    ...args: EffectArgs<T>
+  ) => SampleBuffer;
+  return process(buffer, progress, ...args);
+}
@@ -1,25 +1,39 @@
 import { AudioTrack, Selection } from "../stores/audioStore";
-import { mixTracksWithVolume } from "./audioBuffer";
-import { createAudioBuffer } from "./audioContext";
+import { audioEffects } from "./audioEffects";
+import { renderMixdown } from "./audioBuffer";
+import { renderClips, sliceClips } from "./clips";
+import { MasterBusSettings, renderMasterBus } from "./masterBus";
+import { getProcessedClips } from "./trackEffects";
 
 const DEFAULT_SAMPLE_RATE = 44100;
 
-export async function prepareExportBuffer(
-  scope: "all" | "current" | "selection",
+export type ExportScope = "all" | "current" | "selection";
+
+export interface LoudnessTarget {
+  label: string;
+  integrated: number;
+  truePeak: number;
+}
+
+export const LOUDNESS_TARGETS: LoudnessTarget[] = [
+  { label: "Podcast", integrated: -16, truePeak: -1 },
+  { label: "Streaming", integrated: -14, truePeak: -1 },
+  { label: "Broadcast (EBU R128)", integrated: -23, truePeak: -1 },
+];
+
+export async function renderExportBuffer(
+  scope: ExportScope,
   tracks: AudioTrack[],
   currentTrack: AudioTrack | null,
   selection: Selection | null,
-  projectName: string,
-  format: "wav" | "mp3" | "ogg"
-): Promise<{ buffer: AudioBuffer; filename: string } | null> {
+  master: MasterBusSettings
+): Promise<AudioBuffer | null> {
   if (scope === "current") {
-    if (!currentTrack?.audioBuffer) {
+    if (!currentTrack) {
       return null;
     }
-    return {
-      buffer: currentTrack.audioBuffer,
-      filename: `${projectName}_${currentTrack.name}.${format}`,
-    };
+    const buffer = renderClips(await getProcessedClips(currentTrack), undefined, false);
+    return buffer ? renderMasterBus(buffer, master) : null;
   }
 
   if (scope === "selection") {
@@ -31,46 +45,18 @@ export async function prepareExportBuffer(
     const sampleRate =
       tracks.find((t) => t.audioBuffer)?.audioBuffer?.sampleRate ?? DEFAULT_SAMPLE_RATE;
 
-    const tracksToMix = tracks
-      .filter((t) => t.audioBuffer !== null)
-      .map((t) => {
-        const buffer = t.audioBuffer!;
-        const startSample = Math.floor(start * buffer.sampleRate);
-        const endSample = Math.floor(end * buffer.sampleRate);
-        const length = Math.max(1, endSample - startSample);
-
-        const selectionBuffer = createAudioBuffer(
-          buffer.numberOfChannels,
-          length,
-          buffer.sampleRate
-        );
-
-        for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
-          const sourceData = buffer.getChannelData(channel);
-          const destData = selectionBuffer.getChannelData(channel);
-          for (let i = 0; i < length && startSample + i < sourceData.length; i++) {
-            destData[i] = sourceData[startSample + i] ?? 0;
-          }
-        }
-
-        return {
-          audioBuffer: selectionBuffer,
-          volume: t.volume,
-          pan: t.pan,
-          muted: t.muted,
-          soloed: t.soloed,
-        };
-      });
-
-    const buffer = mixTracksWithVolume(tracksToMix, sampleRate);
-    if (!buffer) {
-      return null;
-    }
+    const tracksToMix = await Promise.all(
+      tracks.map(async (t) => ({
+        clips: sliceClips(await getProcessedClips(t), start, end),
+        volume: t.volume,
+        pan: t.pan,
+        muted: t.muted,
+        soloed: t.soloed,
+      }))
+    );
 
-    return {
-      buffer,
-      filename: `${projectName}_selection.${format}`,
-    };
+    const buffer = await renderMixdown(tracksToMix, sampleRate);
+    return buffer ? renderMasterBus(buffer, master) : null;
   }
 
   if (tracks.length === 0) {
@@ -79,23 +65,42 @@ export async function prepareExportBuffer(
 
   const sampleRate =
     tracks.find((t) => t.audioBuffer)?.audioBuffer?.sampleRate ?? DEFAULT_SAMPLE_RATE;
-  const buffer = mixTracksWithVolume(
-    tracks.map((t) => ({
-      audioBuffer: t.audioBuffer,
-      volume: t.volume,
-      pan: t.pan,
-      muted: t.muted,
-      soloed: t.soloed,
-    })),
+  const buffer = await renderMixdown(
+    await Promise.all(
+      tracks.map(async (t) => ({
+        clips: await getProcessedClips(t),
+        volume: t.volume,
+        pan: t.pan,
+        muted: t.muted,
+        soloed: t.soloed,
+      }))
+    ),
     sampleRate
   );
 
-  if (!buffer) {
+  return buffer ? renderMasterBus(buffer, master) : null;
+}
+
+export async function prepareExportBuffer(
+  scope: ExportScope,
+  tracks: AudioTrack[],
+  currentTrack: AudioTrack | null,
+  selection: Selection | null,
+  projectName: string,
+  format: "wav" | "mp3" | "ogg",
+  master: MasterBusSettings,
+  loudness: LoudnessTarget | null = null
+): Promise<{ buffer: AudioBuffer; filename: string } | null> {
+  const rendered = await renderExportBuffer(scope, tracks, currentTrack, selection, master);
+  if (!rendered) {
     return null;
   }
 
-  return {
-    buffer,
-    filename: `${projectName}.${format}`,
-  };
+  const buffer = loudness
+    ? await audioEffects.loudnessNormalizeFull(rendered, loudness.integrated, loudness.truePeak)
+    : rendered;
+  const suffix =
+    scope === "current" ? `_${currentTrack!.name}` : scope === "selection" ? "_selection" : "";
+
+  return { buffer, filename: `${projectName}${suffix}.${format}` };
 }
@@ -0,0 +1,146 @@
+import { getAudioContext } from "./audioContext";
+import {
+  generateImpulseResponse,
+  type ImpulseResponseData,
+  type ImpulseShape,
+} from "./convolutionDsp";
+import { openDB, promisifyRequest } from "./database";
+
+export interface ImpulseResponseInfo {
+  id: number;
+  name: string;
+  duration: number;
+  builtIn?: boolean;
+}
+
+interface StoredImpulseResponse {
+  id: number;
+  name: string;
+  sampleRate: number;
+  channelData: Float32Array[];
+}
+
+const STORE_NAME = "impulseResponses";
+const MAX_IMPULSE_SECONDS = 20;
+
+const builtIn = (id: number, name: string, shape: ImpulseShape) => ({
+  id,
+  name,
+  duration: shape.decayTime * 1.2,
+  builtIn: true,
+  shape,
+});
+
+export const BUILT_IN_IMPULSE_RESPONSES = [
+  builtIn(1, "Small Room", {
+    decayTime: 0.5,
+    damping: 0.6,
+    brightness: 0.7,
+    earlyReflections: 12,
+    roomSize: 0.02,
+  }),
+  builtIn(2, "Live Room", {
+    decayTime: 0.9,
+    damping: 0.5,
+    brightness: 0.6,
+    earlyReflections: 16,
+    roomSize: 0.035,
+  }),
+  builtIn(3, "Concert Hall", {
+    decayTime: 2.4,
+    damping: 0.5,
+    brightness: 0.6,
+    earlyReflections: 24,
+    roomSize: 0.06,
+  }),
+  builtIn(4, "Plate", {
+    decayTime: 1.8,
+    damping: 0.2,
+    brightness: 0.95,
+    earlyReflections: 0,
+    roomSize: 0.005,
+  }),
+  builtIn(5, "Cathedral", {
+    decayTime: 5.5,
+    damping: 0.7,
+    brightness: 0.5,
+    earlyReflections: 32,
+    roomSize: 0.12,
+  }),
+];
+
+export const DEFAULT_IMPULSE_RESPONSE_ID = 3;
+
+const cache = new Map<string, ImpulseResponseData>();
+
+export async function loadUserImpulseResponses(): Promise<ImpulseResponseInfo[]> {
+  const db = await openDB();
+  const store = db.transaction([STORE_NAME], "readonly").objectStore(STORE_NAME);
+  const records: StoredImpulseResponse[] = await promisifyRequest(store.getAll());
+  return records.map((record) => ({
+    id: record.id,
+    name: record.name,
+    duration: (record.channelData[0]?.length ?? 0) / record.sampleRate,
+  }));
+}
+
+export async function importImpulseResponse(file: File): Promise<ImpulseResponseInfo> {
+  let audioBuffer: AudioBuffer;
+  try {
+    audioBuffer = await getAudioContext().decodeAudioData(await file.arrayBuffer());
+  } catch {
+    throw new Error(`Could not decode ${file.name} as audio`);
+  }
+  if (audioBuffer.duration > MAX_IMPULSE_SECONDS) {
+    throw new Error(`Impulse responses can be at most ${MAX_IMPULSE_SECONDS} seconds long`);
+  }
+
+  const record: StoredImpulseResponse = {
+    id: Date.now(),
+    name: file.name.replace(/\.[^.]+$/, ""),
+    sampleRate: audioBuffer.sampleRate,
+    channelData: Array.from({ length: Math.min(2, audioBuffer.numberOfChannels) }, (_, i) =>
+      audioBuffer.getChannelData(i).slice()
+    ),
+  };
+
+  const db = await openDB();
+  const store = db.transaction([STORE_NAME], "readwrite").objectStore(STORE_NAME);
+  await promisifyRequest(store.put(record));
+  cache.set(`${record.id}`, { sampleRate: record.sampleRate, channels: record.channelData });
+
+  return { id: record.id, name: record.name, duration: audioBuffer.duration };
+}
+
+export async function deleteImpulseResponse(id: number): Promise<void> {
+  const db = await openDB();
+  const store = db.transaction([STORE_NAME], "readwrite").objectStore(STORE_NAME);
+  await promisifyRequest(store.delete(id));
+  cache.delete(`${id}`);
+}
+
+export async function getImpulseResponse(
+  id: number,
+  sampleRate: number
+): Promise<ImpulseResponseData> {
+  const preset = BUILT_IN_IMPULSE_RESPONSES.find((ir) => ir.id === id);
+  const key = preset ? `${id}:${sampleRate}` : `${id}`;
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  let impulse: ImpulseResponseData;
+  if (preset) {
+    impulse = generateImpulseResponse(preset.shape, sampleRate, preset.id);
+  } else {
+    const db = await openDB();
+    const store = db.transaction([STORE_NAME], "readonly").objectStore(STORE_NAME);
+    const record: StoredImpulseResponse | undefined = await promisifyRequest(store.get(id));
+    if (!record) {
+      throw new Error("Impulse response not found. It may have been deleted.");
+    }
+    impulse = { sampleRate: record.sampleRate, channels: record.channelData };
+  }
+
+  cache.set(key, impulse);
+  return impulse;
+}
@@ -0,0 +1,343 @@
+import { createSampleBuffer, type ProgressReporter, type SampleBuffer } from "./effectsDsp";
+
+export interface LoudnessStats {
+  integrated: number;
+  momentaryMax: number;
+  shortTermMax: number;
+  loudnessRange: number;
+  truePeak: number;
+}
+
+const BLOCK_SECONDS = 0.1;
+const MOMENTARY_BLOCKS = 4;
+const SHORT_TERM_BLOCKS = 30;
+const LOUDNESS_OFFSET = -0.691;
+const ABSOLUTE_GATE = -70;
+const RELATIVE_GATE = -10;
+const RANGE_RELATIVE_GATE = -20;
+const RANGE_LOW_PERCENTILE = 0.1;
+const RANGE_HIGH_PERCENTILE = 0.95;
+const INTERPOLATION_TAPS = 12;
+const INTERSAMPLE_HEADROOM = 2;
+const LIMITER_LOOKAHEAD_SECONDS = 0.005;
+const LIMITER_RELEASE_SECONDS = 0.05;
+const NORMALIZE_PASSES = 5;
+const NORMALIZE_TOLERANCE = 0.1;
+const PROGRESS_INTERVAL = 0xffff;
+
+type Section = [b0: number, b1: number, b2: number, a1: number, a2: number];
+
+function kWeighting(sampleRate: number): Section[] {
+  const shelfK = Math.tan((Math.PI * 1681.974450955533) / sampleRate);
+  const shelfQ = 0.7071752369554196;
+  const vh = Math.pow(10, 3.999843853973347 / 20);
+  const vb = Math.pow(vh, 0.4996667741545416);
+  const shelfA0 = 1 + shelfK / shelfQ + shelfK * shelfK;
+
+  const highPassK = Math.tan((Math.PI * 38.13547087602444) / sampleRate);
+  const highPassQ = 0.5003270373238773;
+  const highPassA0 = 1 + highPassK / highPassQ + highPassK * highPassK;
+
+  return [
+    [
+      (vh + (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0,
+      (2 * (shelfK * shelfK - vh)) / shelfA0,
+      (vh - (vb * shelfK) / shelfQ + shelfK * shelfK) / shelfA0,
+      (2 * (shelfK * shelfK - 1)) / shelfA0,
+      (1 - shelfK / shelfQ + shelfK * shelfK) / shelfA0,
+    ],
+    [
+      1,
+      -2,
+      1,
+      (2 * (highPassK * highPassK - 1)) / highPassA0,
+      (1 - highPassK / highPassQ + highPassK * highPassK) / highPassA0,
+    ],
+  ];
+}
+
+function energyToLoudness(meanSquare: number): number {
+  return meanSquare > 0 ? LOUDNESS_OFFSET + 10 * Math.log10(meanSquare) : -Infinity;
+}
+
+function windowLoudness(prefix: Float64Array, blocks: number, blockLength: number): Float64Array {
+  const count = Math.max(0, prefix.length - blocks);
+  const loudness = new Float64Array(count);
+  for (let i = 0; i < count; i++) {
+    loudness[i] = energyToLoudness((prefix[i + blocks]! - prefix[i]!) / (blocks * blockLength));
+  }
+  return loudness;
+}
+
+function gatedMeanEnergy(loudness: Float64Array, threshold: number): number {
+  let sum = 0;
+  let count = 0;
+  for (const value of loudness) {
+    if (value > threshold) {
+      sum += Math.pow(10, (value - LOUDNESS_OFFSET) / 10);
+      count++;
+    }
+  }
+  return count > 0 ? sum / count : 0;
+}
+
+function integratedLoudness(momentary: Float64Array): number {
+  const relativeGate = energyToLoudness(gatedMeanEnergy(momentary, ABSOLUTE_GATE)) + RELATIVE_GATE;
+  return energyToLoudness(gatedMeanEnergy(momentary, Math.max(ABSOLUTE_GATE, relativeGate)));
+}
+
+function loudnessRange(shortTerm: Float64Array): number {
+  const relativeGate =
+    energyToLoudness(gatedMeanEnergy(shortTerm, ABSOLUTE_GATE)) + RANGE_RELATIVE_GATE;
+  const gate = Math.max(ABSOLUTE_GATE, relativeGate);
+  const values = Array.from(shortTerm)
+    .filter((value) => value > gate)
+    .sort((a, b) => a - b);
+  if (values.length < 2) return 0;
+  const percentile = (p: number) => values[Math.round((values.length - 1) * p)]!;
+  return percentile(RANGE_HIGH_PERCENTILE) - percentile(RANGE_LOW_PERCENTILE);
+}
+
+function maxOf(values: Float64Array): number {
+  let max = -Infinity;
+  for (const value of values) {
+    if (value > max) max = value;
+  }
+  return max;
+}
+
+function oversamplingFactor(sampleRate: number): number {
+  if (sampleRate >= 176400) return 1;
+  return sampleRate >= 88200 ? 2 : 4;
+}
+
+function createInterpolator(factor: number): Float64Array[] {
+  const half = INTERPOLATION_TAPS / 2;
+  return Array.from({ length: factor - 1 }, (_, phase) => {
+    const fraction = (phase + 1) / factor;
+    const taps = new Float64Array(INTERPOLATION_TAPS);
+    let sum = 0;
+    for (let k = 0; k < INTERPOLATION_TAPS; k++) {
+      const t = k - half + 1 - fraction;
+      const sinc = Math.sin(Math.PI * t) / (Math.PI * t);
+      const window = 0.5 + 0.5 * Math.cos((Math.PI * t) / half);
+      taps[k] = sinc * window;
+      sum += taps[k]!;
+    }
+    return taps.map((tap) => tap / sum);
+  });
+}
+
+function intervalPeak(
+  data: Float32Array,
+  index: number,
+  phases: Float64Array[],
+  floor: number
+): number {
+  let peak = Math.abs(data[index]!);
+  if (Math.max(peak, Math.abs(data[index + 1] ?? 0)) * INTERSAMPLE_HEADROOM <= floor) {
+    return peak;
+  }
+  const offset = index - INTERPOLATION_TAPS / 2 + 1;
+  for (const taps of phases) {
+    let value = 0;
+    for (let k = 0; k < INTERPOLATION_TAPS; k++) {
+      const position = offset + k;
+      if (position >= 0 && position < data.length) {
+        value += data[position]! * taps[k]!;
+      }
+    }
+    peak = Math.max(peak, Math.abs(value));
+  }
+  return peak;
+}
+
+function measurePeak(buffer: SampleBuffer, gain: number, phases: Float64Array[]): number {
+  let peak = 0;
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      peak = Math.max(peak, intervalPeak(data, i, phases, peak));
+    }
+  }
+  return peak * gain;
+}
+
+export function measureLoudness(buffer: SampleBuffer, progress: ProgressReporter): LoudnessStats {
+  const blockLength = Math.max(1, Math.round(buffer.sampleRate * BLOCK_SECONDS));
+  const blockCount = Math.floor(buffer.length / blockLength);
+  const blockEnergy = new Float64Array(blockCount);
+  const sections = kWeighting(buffer.sampleRate);
+  const phases = createInterpolator(oversamplingFactor(buffer.sampleRate));
+  let peak = 0;
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    const state = new Float64Array(sections.length * 4);
+
+    for (let i = 0; i < data.length; i++) {
+      if ((i & PROGRESS_INTERVAL) === 0) {
+        progress((channel + i / data.length) / buffer.numberOfChannels);
+      }
+      peak = Math.max(peak, intervalPeak(data, i, phases, peak));
+
+      let sample = data[i]!;
+      for (let s = 0; s < sections.length; s++) {
+        const [b0, b1, b2, a1, a2] = sections[s]!;
+        const o = s * 4;
+        const output =
+          b0 * sample +
+          b1 * state[o]! +
+          b2 * state[o + 1]! -
+          a1 * state[o + 2]! -
+          a2 * state[o + 3]!;
+        state[o + 1] = state[o]!;
+        state[o] = sample;
+        state[o + 3] = state[o + 2]!;
+        state[o + 2] = output;
+        sample = output;
+      }
+
+      const block = Math.floor(i / blockLength);
+      if (block < blockCount) {
+        blockEnergy[block] = blockEnergy[block]! + sample * sample;
+      }
+    }
+  }
+
+  const prefix = new Float64Array(blockCount + 1);
+  for (let i = 0; i < blockCount; i++) {
+    prefix[i + 1] = prefix[i]! + blockEnergy[i]!;
+  }
+  const momentary = windowLoudness(prefix, MOMENTARY_BLOCKS, blockLength);
+  const shortTerm = windowLoudness(prefix, SHORT_TERM_BLOCKS, blockLength);
+  progress(1);
+
+  return {
+    integrated: integratedLoudness(momentary),
+    momentaryMax: maxOf(momentary),
+    shortTermMax: maxOf(shortTerm),
+    loudnessRange: loudnessRange(shortTerm),
+    truePeak: peak > 0 ? 20 * Math.log10(peak) : -Infinity,
+  };
+}
+
+export function limitTruePeak(
+  buffer: SampleBuffer,
+  gain: number,
+  ceilingDb: number,
+  progress: ProgressReporter
+): SampleBuffer {
+  const ceiling = Math.pow(10, ceilingDb / 20);
+  const length = buffer.length;
+  const phases = createInterpolator(oversamplingFactor(buffer.sampleRate));
+  const lookahead = Math.max(1, Math.round(buffer.sampleRate * LIMITER_LOOKAHEAD_SECONDS));
+  const release = 1 - Math.exp(-1 / (LIMITER_RELEASE_SECONDS * buffer.sampleRate));
+
+  const required = new Float32Array(length).fill(1);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < length; i++) {
+      if ((i & PROGRESS_INTERVAL) === 0) {
+        progress((0.6 * (channel + i / length)) / buffer.numberOfChannels);
+      }
+      const peak = intervalPeak(data, i, phases, ceiling / gain) * gain;
+      if (peak > ceiling) {
+        const reduction = ceiling / peak;
+        required[i] = Math.min(required[i]!, reduction);
+        if (i + 1 < length) required[i + 1] = Math.min(required[i + 1]!, reduction);
+      }
+    }
+  }
+
+  const held = new Float32Array(length);
+  const window = new Int32Array(length);
+  let head = 0;
+  let tail = 0;
+  let previous = 1;
+  for (let i = 1 - lookahead; i < length; i++) {
+    const incoming = i + lookahead - 1;
+    if (incoming < length) {
+      while (tail > head && required[window[tail - 1]!]! >= required[incoming]!) tail--;
+      window[tail++] = incoming;
+    }
+    if (i < 0) continue;
+    while (window[head]! < i) head++;
+    previous = Math.min(required[window[head]!]!, previous + (1 - previous) * release);
+    held[i] = previous;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < length; i++) {
+    sum += held[i]!;
+    if (i >= lookahead) sum -= held[i - lookahead]!;
+    required[i] = sum / Math.min(i + 1, lookahead);
+  }
+  progress(0.7);
+
+  const result = createSampleBuffer(buffer.numberOfChannels, length, buffer.sampleRate);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const source = buffer.getChannelData(channel);
+    const dest = result.getChannelData(channel);
+    for (let i = 0; i < length; i++) {
+      dest[i] = source[i]! * gain * required[i]!;
+    }
+  }
+  progress(0.8);
+
+  const overshoot = measurePeak(result, 1, phases) / ceiling;
+  if (overshoot > 1) {
+    for (let channel = 0; channel < result.numberOfChannels; channel++) {
+      const data = result.getChannelData(channel);
+      for (let i = 0; i < length; i++) {
+        data[i] = data[i]! / overshoot;
+      }
+    }
+  }
+  progress(1);
+
+  return result;
+}
+
+export function normalizeLoudness(
+  buffer: SampleBuffer,
+  targetLufs: number,
+  ceilingDb: number,
+  progress: ProgressReporter
+): SampleBuffer {
+  const measured = measureLoudness(buffer, (fraction) => progress(fraction * 0.2));
+  if (!isFinite(measured.integrated)) {
+    return buffer;
+  }
+
+  let gainDb = targetLufs - measured.integrated;
+  if (measured.truePeak + gainDb <= ceilingDb) {
+    return limitTruePeak(buffer, Math.pow(10, gainDb / 20), 0, progress);
+  }
+
+  let result = buffer;
+  let below: { gainDb: number; achieved: number } | null = null;
+  let above: { gainDb: number; achieved: number } | null = null;
+  for (let pass = 0; pass < NORMALIZE_PASSES; pass++) {
+    const passProgress = (from: number, to: number) => (fraction: number) =>
+      progress(0.2 + (0.8 * (pass + from + (to - from) * fraction)) / NORMALIZE_PASSES);
+    result = limitTruePeak(buffer, Math.pow(10, gainDb / 20), ceilingDb, passProgress(0, 0.7));
+    const achieved = measureLoudness(result, passProgress(0.7, 1)).integrated;
+    if (Math.abs(targetLufs - achieved) < NORMALIZE_TOLERANCE) break;
+
+    if (achieved < targetLufs) {
+      below = { gainDb, achieved };
+    } else {
+      above = { gainDb, achieved };
+    }
+    gainDb =
+      below && above
+        ? below.gainDb +
+          ((targetLufs - below.achieved) * (above.gainDb - below.gainDb)) /
+            (above.achieved - below.achieved)
+        : gainDb + 2 * (targetLufs - achieved);
+  }
+  progress(1);
+
+  return result;
+}
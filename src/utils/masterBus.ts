@@ -0,0 +1,91 @@
+export interface MasterBusSettings {
+  volume: number;
+  muted: boolean;
+  eq: { enabled: boolean; frequency: number; gain: number; q: number };
+  limiter: { enabled: boolean; threshold: number; release: number };
+}
+
+export interface MasterChain {
+  input: GainNode;
+  output: GainNode;
+  update: (settings: MasterBusSettings) => void;
+}
+
+export const DEFAULT_MASTER_BUS: MasterBusSettings = {
+  volume: 1,
+  muted: false,
+  eq: { enabled: false, frequency: 1000, gain: 0, q: 1 },
+  limiter: { enabled: false, threshold: -1, release: 0.05 },
+};
+
+export function withMasterDefaults(settings?: Partial<MasterBusSettings>): MasterBusSettings {
+  return {
+    ...DEFAULT_MASTER_BUS,
+    ...settings,
+    eq: { ...DEFAULT_MASTER_BUS.eq, ...settings?.eq },
+    limiter: { ...DEFAULT_MASTER_BUS.limiter, ...settings?.limiter },
+  };
+}
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.max(min, Math.min(max, isFinite(value) ? value : min));
+
+export function createMasterChain(
+  context: BaseAudioContext,
+  settings: MasterBusSettings
+): MasterChain {
+  const input = context.createGain();
+  const eq = context.createBiquadFilter();
+  const limiter = context.createDynamicsCompressor();
+  const output = context.createGain();
+
+  eq.type = "peaking";
+  limiter.knee.value = 0;
+  limiter.attack.value = 0.001;
+
+  input.connect(eq);
+  eq.connect(limiter);
+  limiter.connect(output);
+
+  const update = (next: MasterBusSettings) => {
+    eq.frequency.value = clamp(next.eq.frequency, 20, context.sampleRate / 2 - 1);
+    eq.Q.value = clamp(next.eq.q, 0.1, 30);
+    eq.gain.value = next.eq.enabled ? clamp(next.eq.gain, -20, 20) : 0;
+
+    limiter.threshold.value = next.limiter.enabled ? clamp(next.limiter.threshold, -60, 0) : 0;
+    limiter.ratio.value = next.limiter.enabled ? 20 : 1;
+    limiter.release.value = clamp(next.limiter.release, 0.01, 1);
+
+    output.gain.value = next.muted ? 0 : clamp(next.volume, 0, 1);
+  };
+
+  update(settings);
+  return { input, output, update };
+}
+
+export async function renderMasterBus(
+  buffer: AudioBuffer,
+  settings: MasterBusSettings
+): Promise<AudioBuffer> {
+  const context = new OfflineAudioContext(
+    buffer.numberOfChannels,
+    buffer.length,
+    buffer.sampleRate
+  );
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+
+  const chain = createMasterChain(context, settings);
+  source.connect(chain.input);
+  chain.output.connect(context.destination);
+  source.start();
+
+  const rendered = await context.startRendering();
+  for (let channel = 0; channel < rendered.numberOfChannels; channel++) {
+    const data = rendered.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = Math.max(-1.0, Math.min(1.0, data[i] ?? 0));
+    }
+  }
+  return rendered;
+}
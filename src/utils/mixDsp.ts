@@ -0,0 +1,134 @@
+import { createSampleBuffer, type ProgressReporter, type SampleBuffer } from "./effectsDsp";
+
+const PROGRESS_INTERVAL = 0xffff;
+
+export interface MixClip {
+  buffer: SampleBuffer | null;
+  start: number;
+  trimStart: number;
+  trimEnd: number;
+  gain: number;
+}
+
+export interface MixTrack {
+  clips: MixClip[];
+  volume: number;
+  pan: number;
+}
+
+export function addClipToSamples(
+  target: SampleBuffer,
+  clip: MixClip,
+  getChannelGain: (channel: number) => number = () => 1,
+  progress: ProgressReporter = () => {}
+): void {
+  const source = clip.buffer;
+  if (!source) return;
+
+  const sampleRate = target.sampleRate;
+  const ratio = source.sampleRate / sampleRate;
+  const startSample = Math.round(clip.start * sampleRate);
+  const length = Math.floor(Math.max(0, clip.trimEnd - clip.trimStart) * sampleRate);
+  const sourceOffset = clip.trimStart * source.sampleRate;
+
+  for (let channel = 0; channel < target.numberOfChannels; channel++) {
+    const targetData = target.getChannelData(channel);
+    const sourceChannel = Math.min(channel, source.numberOfChannels - 1);
+    const sourceData = source.getChannelData(sourceChannel);
+    const gain = clip.gain * getChannelGain(channel);
+
+    for (let i = 0; i < length; i++) {
+      if ((i & PROGRESS_INTERVAL) === 0) {
+        progress((channel + i / length) / target.numberOfChannels);
+      }
+      const targetIndex = startSample + i;
+      if (targetIndex >= targetData.length) break;
+      const sourceIndex = Math.floor(sourceOffset + i * ratio);
+      if (sourceIndex >= sourceData.length) break;
+      targetData[targetIndex] =
+        (targetData[targetIndex] ?? 0) + (sourceData[sourceIndex] ?? 0) * gain;
+    }
+  }
+}
+
+export function getTrackChannelGain(track: MixTrack, numberOfChannels: number) {
+  const panValue = Math.max(-1, Math.min(1, track.pan ?? 0));
+  const leftGain = Math.cos((panValue + 1) * (Math.PI / 4));
+  const rightGain = Math.sin((panValue + 1) * (Math.PI / 4));
+
+  return (channel: number) => {
+    if (numberOfChannels >= 2) {
+      if (channel === 0) return track.volume * leftGain;
+      if (channel === 1) return track.volume * rightGain;
+    }
+    return track.volume;
+  };
+}
+
+export function mixTracksInto(
+  target: SampleBuffer,
+  tracks: MixTrack[],
+  progress: ProgressReporter = () => {}
+): SampleBuffer {
+  const clipCount = tracks.reduce((count, track) => count + track.clips.length, 0);
+  let mixed = 0;
+  for (const track of tracks) {
+    const getChannelGain = getTrackChannelGain(track, target.numberOfChannels);
+    for (const clip of track.clips) {
+      addClipToSamples(target, clip, getChannelGain, (fraction) =>
+        progress((mixed + fraction) / clipCount)
+      );
+      mixed++;
+    }
+  }
+  return target;
+}
+
+export function mixTracks(
+  tracks: MixTrack[],
+  numberOfChannels: number,
+  length: number,
+  sampleRate: number,
+  progress: ProgressReporter = () => {}
+): SampleBuffer {
+  return mixTracksInto(createSampleBuffer(numberOfChannels, length, sampleRate), tracks, progress);
+}
+
+export interface ChannelLevels {
+  peak: number[];
+  rms: number[];
+  dcOffset: number[];
+}
+
+export function measureLevels(
+  buffer: SampleBuffer,
+  progress: ProgressReporter = () => {}
+): ChannelLevels {
+  const peak: number[] = [];
+  const rms: number[] = [];
+  const dcOffset: number[] = [];
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    let channelPeak = 0;
+    let sumSquares = 0;
+    let sum = 0;
+    for (let i = 0; i < data.length; i++) {
+      if ((i & PROGRESS_INTERVAL) === 0) {
+        progress((channel + i / data.length) / buffer.numberOfChannels);
+      }
+      const sample = data[i] ?? 0;
+      const abs = Math.abs(sample);
+      if (abs > channelPeak) {
+        channelPeak = abs;
+      }
+      sumSquares += sample * sample;
+      sum += sample;
+    }
+    peak.push(channelPeak);
+    rms.push(data.length > 0 ? Math.sqrt(sumSquares / data.length) : 0);
+    dcOffset.push(data.length > 0 ? sum / data.length : 0);
+  }
+
+  return { peak, rms, dcOffset };
+}
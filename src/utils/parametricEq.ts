@@ -0,0 +1,183 @@
+export type EqBandType = "bell" | "lowShelf" | "highShelf" | "notch" | "highPass" | "lowPass";
+
+export interface EqBand {
+  type: EqBandType;
+  frequency: number;
+  gain: number;
+  q: number;
+  slope: number;
+}
+
+export type BiquadCoefficients = [number, number, number, number, number, number];
+
+export const EQ_BAND_TYPES: EqBandType[] = [
+  "bell",
+  "lowShelf",
+  "highShelf",
+  "notch",
+  "highPass",
+  "lowPass",
+];
+
+export const EQ_BAND_LABELS: Record<EqBandType, string> = {
+  bell: "Bell",
+  lowShelf: "Low Shelf",
+  highShelf: "High Shelf",
+  notch: "Notch",
+  highPass: "High-Pass",
+  lowPass: "Low-Pass",
+};
+
+export const EQ_SLOPES = [12, 24, 36, 48];
+export const MAX_EQ_BANDS = 8;
+export const EQ_MIN_FREQUENCY = 20;
+export const EQ_MAX_FREQUENCY = 20000;
+export const EQ_MAX_GAIN = 24;
+export const EQ_MIN_Q = 0.1;
+export const EQ_MAX_Q = 30;
+
+export function bandHasGain(type: EqBandType): boolean {
+  return type === "bell" || type === "lowShelf" || type === "highShelf";
+}
+
+export function bandHasSlope(type: EqBandType): boolean {
+  return type === "highPass" || type === "lowPass";
+}
+
+export function createEqBand(type: EqBandType, frequency: number, gain = 0): EqBand {
+  return {
+    type,
+    frequency,
+    gain: bandHasGain(type) ? gain : 0,
+    q: type === "bell" || type === "notch" ? 1 : 0.71,
+    slope: 12,
+  };
+}
+
+function butterworthQs(order: number): number[] {
+  return Array.from(
+    { length: order / 2 },
+    (_, i) => 1 / (2 * Math.cos((Math.PI * (2 * i + 1)) / (2 * order)))
+  );
+}
+
+export function getBandCoefficients(band: EqBand, sampleRate: number): BiquadCoefficients[] {
+  const frequency = Math.max(EQ_MIN_FREQUENCY, Math.min(sampleRate / 2 - 1, band.frequency));
+  const gain = Math.max(-EQ_MAX_GAIN, Math.min(EQ_MAX_GAIN, band.gain));
+  const q = Math.max(EQ_MIN_Q, Math.min(EQ_MAX_Q, band.q));
+
+  const w0 = (2 * Math.PI * frequency) / sampleRate;
+  const cosW0 = Math.cos(w0);
+  const sinW0 = Math.sin(w0);
+  const A = Math.pow(10, gain / 40);
+  const alphaFor = (sectionQ: number) => sinW0 / (2 * sectionQ);
+  const alpha = alphaFor(q);
+  const shelfAlpha = 2 * Math.sqrt(A) * alpha;
+
+  switch (band.type) {
+    case "bell":
+      return [[1 + alpha * A, -2 * cosW0, 1 - alpha * A, 1 + alpha / A, -2 * cosW0, 1 - alpha / A]];
+    case "lowShelf":
+      return [
+        [
+          A * (A + 1 - (A - 1) * cosW0 + shelfAlpha),
+          2 * A * (A - 1 - (A + 1) * cosW0),
+          A * (A + 1 - (A - 1) * cosW0 - shelfAlpha),
+          A + 1 + (A - 1) * cosW0 + shelfAlpha,
+          -2 * (A - 1 + (A + 1) * cosW0),
+          A + 1 + (A - 1) * cosW0 - shelfAlpha,
+        ],
+      ];
+    case "highShelf":
+      return [
+        [
+          A * (A + 1 + (A - 1) * cosW0 + shelfAlpha),
+          -2 * A * (A - 1 + (A + 1) * cosW0),
+          A * (A + 1 + (A - 1) * cosW0 - shelfAlpha),
+          A + 1 - (A - 1) * cosW0 + shelfAlpha,
+          2 * (A - 1 - (A + 1) * cosW0),
+          A + 1 - (A - 1) * cosW0 - shelfAlpha,
+        ],
+      ];
+    case "notch":
+      return [[1, -2 * cosW0, 1, 1 + alpha, -2 * cosW0, 1 - alpha]];
+    case "highPass":
+    case "lowPass": {
+      const sections = Math.max(1, Math.min(4, Math.round(band.slope / 12)));
+      const sign = band.type === "highPass" ? 1 : -1;
+      return butterworthQs(sections * 2).map((butterworthQ) => {
+        const sectionAlpha = alphaFor(butterworthQ * q * Math.SQRT2);
+        const b = (1 + sign * cosW0) / 2;
+        return [b, -sign * 2 * b, b, 1 + sectionAlpha, -2 * cosW0, 1 - sectionAlpha];
+      });
+    }
+  }
+}
+
+function sectionMagnitude([b0, b1, b2, a0, a1, a2]: BiquadCoefficients, w: number): number {
+  const cos1 = Math.cos(w);
+  const sin1 = Math.sin(w);
+  const cos2 = Math.cos(2 * w);
+  const sin2 = Math.sin(2 * w);
+  const numerator = (b0 + b1 * cos1 + b2 * cos2) ** 2 + (b1 * sin1 + b2 * sin2) ** 2;
+  const denominator = (a0 + a1 * cos1 + a2 * cos2) ** 2 + (a1 * sin1 + a2 * sin2) ** 2;
+  return denominator > 0 ? numerator / denominator : 1;
+}
+
+export function getEqResponse(
+  bands: EqBand[],
+  sampleRate: number,
+  frequencies: number[]
+): number[] {
+  const sections = bands.flatMap((band) => getBandCoefficients(band, sampleRate));
+  return frequencies.map((frequency) => {
+    const w = (2 * Math.PI * Math.min(frequency, sampleRate / 2)) / sampleRate;
+    const power = sections.reduce((total, section) => total * sectionMagnitude(section, w), 1);
+    return 10 * Math.log10(Math.max(power, 1e-12));
+  });
+}
+
+export function encodeEqBands(bands: EqBand[]): Record<string, number> {
+  const params: Record<string, number> = { bands: bands.length };
+  bands.forEach((band, index) => {
+    const prefix = `band${index + 1}`;
+    params[`${prefix}Type`] = Math.max(0, EQ_BAND_TYPES.indexOf(band.type));
+    params[`${prefix}Frequency`] = band.frequency;
+    params[`${prefix}Gain`] = band.gain;
+    params[`${prefix}Q`] = band.q;
+    params[`${prefix}Slope`] = band.slope;
+  });
+  return params;
+}
+
+export function decodeEqBands(param: (key: string) => number | undefined): EqBand[] {
+  const count = Math.min(MAX_EQ_BANDS, Math.floor(param("bands") ?? 0));
+  if (count <= 0) {
+    return [
+      {
+        type: "bell",
+        frequency: param("frequency") ?? 1000,
+        gain: param("gain") ?? 0,
+        q: param("q") ?? 1,
+        slope: 12,
+      },
+    ];
+  }
+
+  return Array.from({ length: count }, (_, index) => {
+    const prefix = `band${index + 1}`;
+    const type = EQ_BAND_TYPES[param(`${prefix}Type`) ?? 0] ?? "bell";
+    const defaults = createEqBand(type, 1000);
+    return {
+      type,
+      frequency: param(`${prefix}Frequency`) ?? defaults.frequency,
+      gain: param(`${prefix}Gain`) ?? defaults.gain,
+      q: param(`${prefix}Q`) ?? defaults.q,
+      slope: param(`${prefix}Slope`) ?? defaults.slope,
+    };
+  });
+}
+
+export function isEqBandParams(params: Record<string, number>): boolean {
+  return (params["bands"] ?? 0) > 0;
+}
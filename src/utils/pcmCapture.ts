@@ -0,0 +1,225 @@
+import captureProcessorUrl from "../worklets/captureProcessor.ts?worker&url";
+import type { CaptureChunkMessage, CaptureStoppedMessage } from "../worklets/captureProcessor";
+import { createAudioBuffer, getAudioContext } from "./audioContext";
+import { openDB, promisifyRequest } from "./database";
+import { resample } from "./spectralDsp";
+
+const STORE_NAME = "recordingChunks";
+const PERSIST_INTERVAL_SECONDS = 1;
+const STOP_TIMEOUT_MS = 1000;
+
+export const PEAK_FRAMES = 1024;
+
+interface StoredRecordingChunk {
+  id: string;
+  sessionId: string;
+  startedAt: number;
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+export interface PcmCapture {
+  sessionId: string;
+  sampleRate: number;
+  peaks: number[];
+  stop: () => Promise<{ buffer: AudioBuffer | null; startTime: number }>;
+}
+
+export interface RecoveredRecording {
+  sessionId: string;
+  startedAt: number;
+  buffer: AudioBuffer;
+}
+
+let modulePromise: Promise<void> | null = null;
+
+const loadCaptureModule = (audioContext: AudioContext) => {
+  modulePromise ??= audioContext.audioWorklet.addModule(captureProcessorUrl).catch((error) => {
+    modulePromise = null;
+    throw error;
+  });
+  return modulePromise;
+};
+
+const chunkId = (sessionId: string, index: number) =>
+  `${sessionId}:${String(index).padStart(8, "0")}`;
+
+function joinChunks(chunks: Float32Array[][], channelCount: number): Float32Array<ArrayBuffer>[] {
+  const length = chunks.reduce((sum, chunk) => sum + (chunk[0]?.length ?? 0), 0);
+  return Array.from({ length: channelCount }, (_, channel) => {
+    const data = new Float32Array(length);
+    let offset = 0;
+    for (const chunk of chunks) {
+      const source = chunk[Math.min(channel, chunk.length - 1)]!;
+      data.set(source, offset);
+      offset += source.length;
+    }
+    return data;
+  });
+}
+
+function buildBuffer(
+  channels: Float32Array<ArrayBuffer>[],
+  sampleRate: number
+): AudioBuffer | null {
+  const length = channels[0]?.length ?? 0;
+  if (length === 0) return null;
+  const buffer = createAudioBuffer(channels.length, length, sampleRate);
+  channels.forEach((data, channel) => buffer.copyToChannel(data, channel));
+  return buffer;
+}
+
+function resampleChannels(
+  channels: Float32Array<ArrayBuffer>[],
+  fromRate: number,
+  toRate: number
+): Float32Array<ArrayBuffer>[] {
+  if (fromRate === toRate) return channels;
+  const length = Math.round(((channels[0]?.length ?? 0) * toRate) / fromRate);
+  return channels.map((data) => resample(data, length, () => {}) as Float32Array<ArrayBuffer>);
+}
+
+async function saveChunk(chunk: StoredRecordingChunk): Promise<void> {
+  const db = await openDB();
+  const store = db.transaction([STORE_NAME], "readwrite").objectStore(STORE_NAME);
+  await promisifyRequest(store.put(chunk));
+}
+
+export async function deleteRecordingSession(sessionId: string): Promise<void> {
+  const db = await openDB();
+  const store = db.transaction([STORE_NAME], "readwrite").objectStore(STORE_NAME);
+  await promisifyRequest(store.delete(IDBKeyRange.bound(`${sessionId}:`, `${sessionId}:\uffff`)));
+}
+
+export async function loadUnfinishedRecordings(): Promise<RecoveredRecording[]> {
+  const db = await openDB();
+  const store = db.transaction([STORE_NAME], "readonly").objectStore(STORE_NAME);
+  const records: StoredRecordingChunk[] = await promisifyRequest(store.getAll());
+
+  const sessions = new Map<string, StoredRecordingChunk[]>();
+  for (const record of records) {
+    sessions.set(record.sessionId, [...(sessions.get(record.sessionId) ?? []), record]);
+  }
+
+  return [...sessions.entries()].flatMap(([sessionId, chunks]) => {
+    const first = chunks[0]!;
+    const channelCount = Math.max(...chunks.map((chunk) => chunk.channels.length));
+    const buffer = buildBuffer(
+      joinChunks(
+        chunks.map((chunk) => chunk.channels),
+        channelCount
+      ),
+      first.sampleRate
+    );
+    return buffer ? [{ sessionId, startedAt: first.startedAt, buffer }] : [];
+  });
+}
+
+export async function startPcmCapture(
+  stream: MediaStream,
+  channelCount: number,
+  targetSampleRate: number | null,
+  onChunk: (peak: number) => void
+): Promise<PcmCapture> {
+  const audioContext = getAudioContext();
+  if (audioContext.state === "suspended") {
+    await audioContext.resume();
+  }
+  await loadCaptureModule(audioContext);
+
+  const source = audioContext.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(audioContext, "pcm-capture", {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount,
+    channelCountMode: "explicit",
+    processorOptions: { channelCount },
+  });
+
+  const sessionId = crypto.randomUUID();
+  const startedAt = Date.now();
+  const sampleRate = audioContext.sampleRate;
+  const chunks: Float32Array[][] = [];
+  const peaks: number[] = [];
+  let pending: Float32Array[][] = [];
+  let pendingFrames = 0;
+  let persistedChunks = 0;
+  let persisting = Promise.resolve();
+  let startTime: number | null = null;
+  let peak = 0;
+  let peakFrames = 0;
+  let markStopped = () => {};
+  const stopped = new Promise<void>((resolve) => {
+    markStopped = resolve;
+  });
+
+  const persist = () => {
+    if (pendingFrames === 0) return;
+    const chunk: StoredRecordingChunk = {
+      id: chunkId(sessionId, persistedChunks++),
+      sessionId,
+      startedAt,
+      sampleRate,
+      channels: joinChunks(pending, channelCount),
+    };
+    pending = [];
+    pendingFrames = 0;
+    persisting = persisting
+      .then(() => saveChunk(chunk))
+      .catch((error) => console.error("Failed to persist recording chunk:", error));
+  };
+
+  node.port.onmessage = (event: MessageEvent<CaptureChunkMessage | CaptureStoppedMessage>) => {
+    const message = event.data;
+    if (message.type === "stopped") {
+      markStopped();
+      return;
+    }
+
+    startTime ??= message.time;
+    chunks.push(message.channels);
+    pending.push(message.channels);
+    const frames = message.channels[0]?.length ?? 0;
+    pendingFrames += frames;
+    let chunkPeak = 0;
+    for (let i = 0; i < frames; i++) {
+      for (const data of message.channels) {
+        const magnitude = Math.abs(data[i]!);
+        peak = Math.max(peak, magnitude);
+        chunkPeak = Math.max(chunkPeak, magnitude);
+      }
+      if (++peakFrames === PEAK_FRAMES) {
+        peaks.push(peak);
+        peak = 0;
+        peakFrames = 0;
+      }
+    }
+    if (pendingFrames >= PERSIST_INTERVAL_SECONDS * sampleRate) {
+      persist();
+    }
+    onChunk(chunkPeak);
+  };
+  source.connect(node);
+
+  return {
+    sessionId,
+    sampleRate,
+    peaks,
+    stop: async () => {
+      node.port.postMessage("stop");
+      await Promise.race([stopped, new Promise((resolve) => setTimeout(resolve, STOP_TIMEOUT_MS))]);
+      node.port.onmessage = null;
+      source.disconnect();
+      persist();
+      await persisting;
+      const outputRate = targetSampleRate ?? sampleRate;
+      return {
+        buffer: buildBuffer(
+          resampleChannels(joinChunks(chunks, channelCount), sampleRate, outputRate),
+          outputRate
+        ),
+        startTime: startTime ?? audioContext.currentTime,
+      };
+    },
+  };
+}
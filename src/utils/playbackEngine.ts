@@ -0,0 +1,258 @@
+import type { AudioClip } from "../stores/audioStore";
+import { getAudioContext } from "./audioContext";
+import { getClipEnd } from "./clips";
+import { createMasterChain, DEFAULT_MASTER_BUS, type MasterBusSettings } from "./masterBus";
+
+export interface PlaybackTrack {
+  id: string;
+  clips: AudioClip[];
+  volume: number;
+  pan: number;
+  muted: boolean;
+  soloed: boolean;
+}
+
+export interface PlaybackSchedule {
+  contextTime: number;
+  offset: number;
+}
+
+export interface PlaybackLoop {
+  start: number;
+  end: number;
+}
+
+type StereoAnalysers = [AnalyserNode, AnalyserNode];
+
+interface TrackChannel {
+  gain: GainNode;
+  panner: StereoPannerNode;
+  analysers: StereoAnalysers;
+}
+
+interface MasterOutput {
+  chain: ReturnType<typeof createMasterChain>;
+  analysers: StereoAnalysers;
+}
+
+const SCHEDULE_AHEAD_SECONDS = 0.05;
+const PARAM_SMOOTHING_SECONDS = 0.01;
+const LOOP_LOOKAHEAD_SECONDS = 0.5;
+const LOOP_TIMER_MS = 100;
+const MIN_LOOP_SECONDS = 0.05;
+
+let masterOutput: MasterOutput | null = null;
+let masterSettings: MasterBusSettings = DEFAULT_MASTER_BUS;
+const channels = new Map<string, TrackChannel>();
+let activeSources: AudioBufferSourceNode[] = [];
+let startContextTime = 0;
+let startOffset = 0;
+let running = false;
+let activeLoop: PlaybackLoop | null = null;
+let loopTracks: PlaybackTrack[] = [];
+let loopScheduledUntil = 0;
+let loopTimer: ReturnType<typeof setTimeout> | null = null;
+
+const toFinite = (value: number, fallback: number) =>
+  isNaN(value) || !isFinite(value) ? fallback : value;
+
+export function createStereoAnalysers(source: AudioNode): StereoAnalysers {
+  const audioContext = source.context;
+  const splitter = audioContext.createChannelSplitter(2);
+  const analysers: StereoAnalysers = [audioContext.createAnalyser(), audioContext.createAnalyser()];
+  source.connect(splitter);
+  analysers.forEach((analyser, channel) => {
+    analyser.fftSize = 2048;
+    splitter.connect(analyser, channel);
+  });
+  return analysers;
+}
+
+function getMasterOutput(): MasterOutput {
+  if (!masterOutput) {
+    const audioContext = getAudioContext();
+    const chain = createMasterChain(audioContext, masterSettings);
+    chain.output.connect(audioContext.destination);
+    masterOutput = { chain, analysers: createStereoAnalysers(chain.output) };
+  }
+  return masterOutput;
+}
+
+function getMasterBus(): GainNode {
+  return getMasterOutput().chain.input;
+}
+
+function updateMaster(settings: MasterBusSettings): void {
+  masterSettings = settings;
+  masterOutput?.chain.update(settings);
+}
+
+function getMasterAnalysers(): StereoAnalysers | null {
+  return masterOutput?.analysers ?? null;
+}
+
+function getTrackAnalysers(trackId: string): StereoAnalysers | null {
+  return channels.get(trackId)?.analysers ?? null;
+}
+
+function getChannel(trackId: string): TrackChannel {
+  let channel = channels.get(trackId);
+  if (!channel) {
+    const audioContext = getAudioContext();
+    const gain = audioContext.createGain();
+    const panner = audioContext.createStereoPanner();
+    gain.connect(panner);
+    panner.connect(getMasterBus());
+    channel = { gain, panner, analysers: createStereoAnalysers(panner) };
+    channels.set(trackId, channel);
+  }
+  return channel;
+}
+
+function updateMix(tracks: PlaybackTrack[]): void {
+  const audioContext = getAudioContext();
+  const hasSoloedTracks = tracks.some((t) => t.soloed);
+  const trackIds = new Set(tracks.map((t) => t.id));
+
+  for (const track of tracks) {
+    const { gain, panner } = getChannel(track.id);
+    const audible = !track.muted && (!hasSoloedTracks || track.soloed);
+    const volume = audible ? Math.max(0, Math.min(1, toFinite(track.volume, 1))) : 0;
+    const pan = Math.max(-1, Math.min(1, toFinite(track.pan, 0)));
+    gain.gain.setTargetAtTime(volume, audioContext.currentTime, PARAM_SMOOTHING_SECONDS);
+    panner.pan.setTargetAtTime(pan, audioContext.currentTime, PARAM_SMOOTHING_SECONDS);
+  }
+
+  channels.forEach((channel, trackId) => {
+    if (trackIds.has(trackId)) return;
+    channel.gain.disconnect();
+    channel.panner.disconnect();
+    channel.analysers.forEach((analyser) => analyser.disconnect());
+    channels.delete(trackId);
+  });
+}
+
+function getLoopPass(elapsed: number): { contextTime: number; offset: number; elapsed: number } {
+  const firstPass = activeLoop ? activeLoop.end - startOffset : Infinity;
+  if (!activeLoop || elapsed < firstPass) {
+    return { contextTime: startContextTime, offset: startOffset, elapsed };
+  }
+  const length = activeLoop.end - activeLoop.start;
+  const pass = Math.floor((elapsed - firstPass) / length);
+  const passStart = firstPass + pass * length;
+  return {
+    contextTime: startContextTime + passStart,
+    offset: activeLoop.start,
+    elapsed: elapsed - passStart,
+  };
+}
+
+function getSchedule(): PlaybackSchedule | null {
+  if (!running) return null;
+  const { contextTime, offset } = getLoopPass(
+    Math.max(0, getAudioContext().currentTime - startContextTime)
+  );
+  return { contextTime, offset };
+}
+
+function getPosition(): number {
+  if (!running) return startOffset;
+  const pass = getLoopPass(Math.max(0, getAudioContext().currentTime - startContextTime));
+  return pass.offset + pass.elapsed;
+}
+
+function stop(): number {
+  const position = getPosition();
+  if (loopTimer !== null) {
+    clearTimeout(loopTimer);
+    loopTimer = null;
+  }
+  for (const source of activeSources) {
+    try {
+      source.stop();
+    } catch {}
+    source.disconnect();
+  }
+  activeSources = [];
+  activeLoop = null;
+  loopTracks = [];
+  running = false;
+  startOffset = position;
+  return position;
+}
+
+function scheduleRange(tracks: PlaybackTrack[], from: number, to: number, when: number): void {
+  const audioContext = getAudioContext();
+  for (const track of tracks) {
+    const channel = getChannel(track.id);
+    for (const clip of track.clips) {
+      const clipEnd = Math.min(getClipEnd(clip), to);
+      if (!clip.buffer || clipEnd <= from || clip.start >= to) continue;
+
+      const skipped = Math.max(0, from - clip.start);
+      const source = audioContext.createBufferSource();
+      source.buffer = clip.buffer;
+      const clipGain = audioContext.createGain();
+      clipGain.gain.value = clip.gain;
+      source.connect(clipGain);
+      clipGain.connect(channel.gain);
+      source.onended = () => {
+        clipGain.disconnect();
+        activeSources = activeSources.filter((active) => active !== source);
+      };
+      source.start(
+        when + Math.max(0, clip.start - from),
+        clip.trimStart + skipped,
+        clipEnd - clip.start - skipped
+      );
+      activeSources.push(source);
+    }
+  }
+}
+
+function scheduleLoopPasses(): void {
+  loopTimer = null;
+  if (!running || !activeLoop) return;
+
+  const horizon = getAudioContext().currentTime + LOOP_LOOKAHEAD_SECONDS;
+  while (loopScheduledUntil < horizon) {
+    scheduleRange(loopTracks, activeLoop.start, activeLoop.end, loopScheduledUntil);
+    loopScheduledUntil += activeLoop.end - activeLoop.start;
+  }
+  loopTimer = setTimeout(scheduleLoopPasses, LOOP_TIMER_MS);
+}
+
+function start(tracks: PlaybackTrack[], offset: number, loop: PlaybackLoop | null = null): void {
+  stop();
+
+  const audioContext = getAudioContext();
+  updateMix(tracks);
+  const when = audioContext.currentTime + SCHEDULE_AHEAD_SECONDS;
+  const loops = !!loop && loop.end - loop.start >= MIN_LOOP_SECONDS && offset < loop.end;
+
+  scheduleRange(tracks, offset, loops ? loop.end : Infinity, when);
+
+  startContextTime = when;
+  startOffset = offset;
+  running = true;
+
+  if (loops) {
+    activeLoop = { ...loop };
+    loopTracks = tracks;
+    loopScheduledUntil = when + loop.end - offset;
+    scheduleLoopPasses();
+  }
+}
+
+export const playbackEngine = {
+  getMasterBus,
+  getMasterAnalysers,
+  getTrackAnalysers,
+  updateMaster,
+  updateMix,
+  start,
+  stop,
+  getPosition,
+  getSchedule,
+  isRunning: () => running,
+};
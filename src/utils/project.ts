@@ -1,5 +1,11 @@
-import { AudioTrack, AudioState } from "../stores/audioStore";
+import { AudioClip, AudioTrack, AudioState, TakeLane } from "../stores/audioStore";
 import { audioOperations } from "./audioOperations";
+import { createClip, renderClips } from "./clips";
+import { type MasterBusSettings, withMasterDefaults } from "./masterBus";
+import type { NoiseProfile } from "./spectralDsp";
+import type { TrackEffect } from "./trackEffects";
+
+type ProjectClip = Omit<AudioClip, "buffer"> & { sourceId: string | null };
 
 export interface ProjectFile {
   version: string;
@@ -14,56 +20,102 @@ export interface ProjectFile {
     muted: boolean;
     soloed: boolean;
     waveformRenderer: "bars" | "line" | "spectrogram";
-    audioData: string;
+    audioData?: string;
+    clips?: ProjectClip[];
+    effects?: TrackEffect[];
+    takeLane?: Omit<TakeLane, "takes"> & { takes: ProjectClip[] };
   }>;
+  sources?: Array<{ id: string; audioData: string }>;
   currentTrackId: string | null;
   zoom: number;
   repeatRegion: { start: number; end: number } | null;
   markers?: number[];
+  master?: MasterBusSettings;
+  noiseProfile?: NoiseProfile;
 }
 
-const PROJECT_VERSION = "1.0.0";
+const PROJECT_VERSION = "1.1.0";
+const SUPPORTED_VERSIONS = ["1.0.0", PROJECT_VERSION];
 const CHUNK_SIZE = 8192;
 
+async function encodeAudioData(buffer: AudioBuffer): Promise<string> {
+  const blob = await audioOperations.audioBufferToBlob(buffer);
+  const arrayBuffer = await blob.arrayBuffer();
+  const uint8Array = new Uint8Array(arrayBuffer);
+  const chunks: string[] = [];
+  for (let i = 0; i < uint8Array.length; i += CHUNK_SIZE) {
+    const chunk = uint8Array.slice(i, i + CHUNK_SIZE);
+    chunks.push(String.fromCharCode(...chunk));
+  }
+  return btoa(chunks.join(""));
+}
+
+async function decodeAudioData(audioContext: AudioContext, audioData: string) {
+  const binaryString = atob(audioData);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return audioContext.decodeAudioData(bytes.buffer);
+}
+
 export async function exportProject(state: AudioState): Promise<Blob> {
-  const tracks = await Promise.all(
-    state.tracks.map(async (track) => {
-      let audioData = "";
-      if (track.audioBuffer) {
-        const blob = await audioOperations.audioBufferToBlob(track.audioBuffer);
-        const arrayBuffer = await blob.arrayBuffer();
-        const uint8Array = new Uint8Array(arrayBuffer);
-        const chunks: string[] = [];
-        for (let i = 0; i < uint8Array.length; i += CHUNK_SIZE) {
-          const chunk = uint8Array.slice(i, i + CHUNK_SIZE);
-          chunks.push(String.fromCharCode(...chunk));
-        }
-        audioData = btoa(chunks.join(""));
-      }
+  const sourceIds = new Map<AudioBuffer, string>();
+  const sources: NonNullable<ProjectFile["sources"]> = [];
 
-      return {
-        id: track.id,
-        name: track.name,
-        duration: track.duration,
-        backgroundColor: track.backgroundColor,
-        volume: track.volume,
-        pan: track.pan,
-        muted: track.muted,
-        soloed: track.soloed,
-        waveformRenderer: track.waveformRenderer,
-        audioData,
-      };
-    })
-  );
+  const getSourceId = async (buffer: AudioBuffer | null): Promise<string | null> => {
+    if (!buffer) return null;
+    const existingId = sourceIds.get(buffer);
+    if (existingId) return existingId;
+
+    const id = crypto.randomUUID();
+    sourceIds.set(buffer, id);
+    sources.push({ id, audioData: await encodeAudioData(buffer) });
+    return id;
+  };
+
+  const toProjectClips = async (clips: AudioClip[]) => {
+    const projectClips: ProjectClip[] = [];
+    for (const { buffer, ...clip } of clips) {
+      projectClips.push({ ...clip, sourceId: await getSourceId(buffer) });
+    }
+    return projectClips;
+  };
+
+  const tracks: ProjectFile["tracks"] = [];
+  for (const track of state.tracks) {
+    const clips = await toProjectClips(track.clips);
+    const takeLane = track.takeLane
+      ? { ...track.takeLane, takes: await toProjectClips(track.takeLane.takes) }
+      : undefined;
+
+    tracks.push({
+      id: track.id,
+      name: track.name,
+      duration: track.duration,
+      backgroundColor: track.backgroundColor,
+      volume: track.volume,
+      pan: track.pan,
+      muted: track.muted,
+      soloed: track.soloed,
+      waveformRenderer: track.waveformRenderer,
+      clips,
+      effects: track.effects,
+      takeLane,
+    });
+  }
 
   const project: ProjectFile = {
     version: PROJECT_VERSION,
     projectName: state.projectName || "Untitled Project",
     tracks,
+    sources,
     currentTrackId: state.currentTrackId,
     zoom: state.zoom,
     repeatRegion: state.repeatRegion,
     markers: state.markers,
+    master: state.master,
+    noiseProfile: state.noiseProfile ?? undefined,
   };
 
   const json = JSON.stringify(project, null, 2);
@@ -76,47 +128,68 @@ export async function importProject(
   const text = await file.text();
   const project: ProjectFile = JSON.parse(text);
 
-  if (project.version !== PROJECT_VERSION) {
+  if (!SUPPORTED_VERSIONS.includes(project.version)) {
     throw new Error(
       `Unsupported project version: ${project.version}. Expected: ${PROJECT_VERSION}`
     );
   }
 
   const audioContext = new AudioContext();
+  const sourceBuffers = new Map<string, AudioBuffer>();
+  for (const source of project.sources ?? []) {
+    try {
+      sourceBuffers.set(source.id, await decodeAudioData(audioContext, source.audioData));
+    } catch (error) {
+      console.error("Failed to decode audio source:", source.id, error);
+      throw new Error(`Failed to decode audio source: ${source.id}`);
+    }
+  }
+
+  const fromProjectClips = (clips: ProjectClip[]): AudioClip[] =>
+    clips.map(({ sourceId, ...clip }) => ({
+      ...clip,
+      buffer: sourceId ? (sourceBuffers.get(sourceId) ?? null) : null,
+    }));
+
   const tracks: AudioTrack[] = await Promise.all(
     project.tracks.map(async (trackData) => {
-      let audioBuffer: AudioBuffer | null = null;
-      let audioUrl = "";
+      let clips: AudioClip[] = [];
 
-      if (trackData.audioData) {
+      if (trackData.clips) {
+        clips = fromProjectClips(trackData.clips);
+      } else if (trackData.audioData) {
         try {
-          const binaryString = atob(trackData.audioData);
-          const bytes = new Uint8Array(binaryString.length);
-          for (let i = 0; i < binaryString.length; i++) {
-            bytes[i] = binaryString.charCodeAt(i);
-          }
-
-          audioBuffer = await audioContext.decodeAudioData(bytes.buffer);
-          const blob = await audioOperations.audioBufferToBlob(audioBuffer);
-          audioUrl = URL.createObjectURL(blob);
+          clips = [createClip(await decodeAudioData(audioContext, trackData.audioData))];
         } catch (error) {
           console.error("Failed to decode audio data for track:", trackData.name, error);
           throw new Error(`Failed to decode audio data for track: ${trackData.name}`);
         }
       }
 
+      const audioBuffer = renderClips(clips);
+      let audioUrl = "";
+      if (audioBuffer) {
+        const blob = await audioOperations.audioBufferToBlob(audioBuffer);
+        audioUrl = URL.createObjectURL(blob);
+      }
+
       return {
         id: trackData.id,
         name: trackData.name,
         audioBuffer,
+        clips,
         audioUrl,
-        duration: trackData.duration,
+        duration: audioBuffer?.duration ?? trackData.duration,
         backgroundColor: trackData.backgroundColor,
         volume: trackData.volume ?? 1,
         pan: trackData.pan ?? 0,
         muted: trackData.muted ?? false,
         soloed: trackData.soloed ?? false,
         waveformRenderer: trackData.waveformRenderer || "bars",
+        effects: trackData.effects ?? [],
+        takeLane: trackData.takeLane
+          ? { ...trackData.takeLane, takes: fromProjectClips(trackData.takeLane.takes) }
+          : undefined,
       };
     })
   );
@@ -128,12 +201,16 @@ export async function importProject(
     repeatRegion: project.repeatRegion ?? null,
     markers: project.markers || [],
     projectName: project.projectName || "",
+    master: withMasterDefaults(project.master),
+    noiseProfile: project.noiseProfile ?? null,
     isPlaying: false,
     currentTime: 0,
     selection: null,
     clipboard: null,
     undoStackLength: 0,
     redoStackLength: 0,
+    undoLabels: [],
+    redoLabels: [],
   };
 }
 
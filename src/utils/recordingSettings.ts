@@ -0,0 +1,130 @@
+import { getAudioContext } from "./audioContext";
+
+export type PunchRange = "off" | "selection";
+
+export interface RecordingSettings {
+  deviceId: string | null;
+  channelCount: 1 | 2;
+  sampleRate: number | null;
+  echoCancellation: boolean;
+  autoGainControl: boolean;
+  noiseSuppression: boolean;
+  punchRange: PunchRange;
+  latencyOffsetMs: number;
+  monitoring: boolean;
+  monitoringVolume: number;
+}
+
+const STORAGE_KEY = "auwebbity-recording-settings";
+
+export const RECORDING_SAMPLE_RATES = [44100, 48000, 96000];
+
+export const PUNCH_RANGES: Record<PunchRange, string> = {
+  off: "Off",
+  selection: "Selection",
+};
+
+export const MAX_LATENCY_OFFSET_MS = 500;
+
+export const DEFAULT_RECORDING_SETTINGS: RecordingSettings = {
+  deviceId: null,
+  channelCount: 1,
+  sampleRate: null,
+  echoCancellation: true,
+  autoGainControl: true,
+  noiseSuppression: true,
+  punchRange: "off",
+  latencyOffsetMs: 0,
+  monitoring: false,
+  monitoringVolume: 0.8,
+};
+
+export function loadRecordingSettings(): RecordingSettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return { ...DEFAULT_RECORDING_SETTINGS };
+    const parsed = JSON.parse(stored) as Partial<RecordingSettings>;
+    return {
+      deviceId: typeof parsed.deviceId === "string" ? parsed.deviceId : null,
+      channelCount: parsed.channelCount === 2 ? 2 : 1,
+      sampleRate: RECORDING_SAMPLE_RATES.includes(parsed.sampleRate as number)
+        ? (parsed.sampleRate as number)
+        : null,
+      echoCancellation: parsed.echoCancellation ?? DEFAULT_RECORDING_SETTINGS.echoCancellation,
+      autoGainControl: parsed.autoGainControl ?? DEFAULT_RECORDING_SETTINGS.autoGainControl,
+      noiseSuppression: parsed.noiseSuppression ?? DEFAULT_RECORDING_SETTINGS.noiseSuppression,
+      punchRange:
+        parsed.punchRange && parsed.punchRange in PUNCH_RANGES ? parsed.punchRange : "off",
+      latencyOffsetMs:
+        typeof parsed.latencyOffsetMs === "number" &&
+        Math.abs(parsed.latencyOffsetMs) <= MAX_LATENCY_OFFSET_MS
+          ? parsed.latencyOffsetMs
+          : 0,
+      monitoring: parsed.monitoring ?? DEFAULT_RECORDING_SETTINGS.monitoring,
+      monitoringVolume:
+        typeof parsed.monitoringVolume === "number" &&
+        parsed.monitoringVolume >= 0 &&
+        parsed.monitoringVolume <= 1
+          ? parsed.monitoringVolume
+          : DEFAULT_RECORDING_SETTINGS.monitoringVolume,
+    };
+  } catch (error) {
+    console.error("Failed to load recording settings:", error);
+    return { ...DEFAULT_RECORDING_SETTINGS };
+  }
+}
+
+export function saveRecordingSettings(settings: RecordingSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Failed to save recording settings:", error);
+  }
+}
+
+export function getRecordingConstraints(
+  settings: RecordingSettings,
+  useDevice = true
+): MediaTrackConstraints {
+  return {
+    ...(useDevice && settings.deviceId ? { deviceId: { exact: settings.deviceId } } : {}),
+    ...(settings.sampleRate ? { sampleRate: { ideal: settings.sampleRate } } : {}),
+    channelCount: { ideal: settings.channelCount },
+    echoCancellation: settings.echoCancellation,
+    autoGainControl: settings.autoGainControl,
+    noiseSuppression: settings.noiseSuppression,
+  };
+}
+
+export async function listInputDevices(): Promise<MediaDeviceInfo[]> {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter((device) => device.kind === "audioinput" && device.deviceId !== "");
+}
+
+export async function openRecordingStream(settings: RecordingSettings): Promise<MediaStream> {
+  try {
+    return await navigator.mediaDevices.getUserMedia({
+      audio: getRecordingConstraints(settings),
+    });
+  } catch (error) {
+    if (settings.deviceId && error instanceof Error && error.name === "OverconstrainedError") {
+      return navigator.mediaDevices.getUserMedia({
+        audio: getRecordingConstraints(settings, false),
+      });
+    }
+    throw error;
+  }
+}
+
+export function getRecordingLatency(stream: MediaStream, settings: RecordingSettings): number {
+  const audioContext = getAudioContext();
+  const trackSettings: MediaTrackSettings & { latency?: number } =
+    stream.getAudioTracks()[0]?.getSettings() ?? {};
+  return (
+    audioContext.baseLatency +
+    (audioContext.outputLatency ?? 0) +
+    (trackSettings.latency ?? 0) +
+    settings.latencyOffsetMs / 1000
+  );
+}
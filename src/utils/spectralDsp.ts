@@ -0,0 +1,473 @@
+import { createSampleBuffer, type ProgressReporter, type SampleBuffer } from "./effectsDsp";
+
+export const NOISE_FFT_SIZE = 2048;
+const NOISE_HOP_SIZE = NOISE_FFT_SIZE / 4;
+const QUIET_FRAME_FRACTION = 0.1;
+const GAIN_RELEASE = 0.5;
+
+export interface NoiseProfile {
+  sampleRate: number;
+  fftSize: number;
+  duration: number;
+  power: number[];
+}
+
+export function fft(re: Float64Array, im: Float64Array, inverse = false): void {
+  const n = re.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j]!, re[i]!];
+      [im[i], im[j]] = [im[j]!, im[i]!];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = ((inverse ? 2 : -2) * Math.PI) / size;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+    const half = size >> 1;
+
+    for (let start = 0; start < n; start += size) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < half; k++) {
+        const a = start + k;
+        const b = a + half;
+        const tRe = re[b]! * wRe - im[b]! * wIm;
+        const tIm = re[b]! * wIm + im[b]! * wRe;
+        re[b] = re[a]! - tRe;
+        im[b] = im[a]! - tIm;
+        re[a] = re[a]! + tRe;
+        im[a] = im[a]! + tIm;
+        const nextWRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextWRe;
+      }
+    }
+  }
+
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      re[i] = re[i]! / n;
+      im[i] = im[i]! / n;
+    }
+  }
+}
+
+export function hannWindow(size: number): Float64Array {
+  const window = new Float64Array(size);
+  for (let i = 0; i < size; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size);
+  }
+  return window;
+}
+
+function getFrameOffset(frame: number, size: number): number {
+  return frame * NOISE_HOP_SIZE - size + NOISE_HOP_SIZE;
+}
+
+function getFrameCount(length: number, size: number): number {
+  return Math.ceil((length + size) / NOISE_HOP_SIZE);
+}
+
+function forEachFrame(
+  data: Float32Array,
+  window: Float64Array,
+  onFrame: (re: Float64Array, im: Float64Array, offset: number) => void,
+  progress: ProgressReporter,
+  shouldProcess: (frame: number) => boolean = () => true
+): void {
+  const size = window.length;
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  const frameCount = getFrameCount(data.length, size);
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    if ((frame & 0x3f) === 0) {
+      progress(frame / frameCount);
+    }
+    if (!shouldProcess(frame)) continue;
+
+    const offset = getFrameOffset(frame, size);
+    for (let i = 0; i < size; i++) {
+      re[i] = (data[offset + i] ?? 0) * window[i]!;
+      im[i] = 0;
+    }
+    fft(re, im);
+    onFrame(re, im, offset);
+  }
+}
+
+function accumulatePower(
+  buffer: SampleBuffer,
+  window: Float64Array,
+  progress: ProgressReporter,
+  shouldProcess: (channel: number, frame: number) => boolean = () => true
+): number[] {
+  const binCount = window.length / 2 + 1;
+  const power = new Float64Array(binCount);
+  let frames = 0;
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    forEachFrame(
+      buffer.getChannelData(channel),
+      window,
+      (re, im) => {
+        for (let k = 0; k < binCount; k++) {
+          power[k]! += re[k]! * re[k]! + im[k]! * im[k]!;
+        }
+        frames++;
+      },
+      (fraction) => progress((channel + fraction) / buffer.numberOfChannels),
+      (frame) => shouldProcess(channel, frame)
+    );
+  }
+
+  return Array.from(power, (p) => (frames > 0 ? p / frames : 0));
+}
+
+function measureFrameEnergies(buffer: SampleBuffer, window: Float64Array): Float64Array[] {
+  const size = window.length;
+  return Array.from({ length: buffer.numberOfChannels }, (_, channel) => {
+    const data = buffer.getChannelData(channel);
+    const energies = new Float64Array(getFrameCount(data.length, size));
+    for (let frame = 0; frame < energies.length; frame++) {
+      const offset = getFrameOffset(frame, size);
+      let energy = 0;
+      for (let i = 0; i < size; i++) {
+        const sample = (data[offset + i] ?? 0) * window[i]!;
+        energy += sample * sample;
+      }
+      energies[frame] = energy;
+    }
+    return energies;
+  });
+}
+
+export function encodeNoiseProfile(profile: NoiseProfile): Record<string, number> {
+  const params: Record<string, number> = {
+    profileBins: profile.power.length,
+    profileSampleRate: profile.sampleRate,
+    profileFftSize: profile.fftSize,
+    profileDuration: profile.duration,
+  };
+  profile.power.forEach((power, index) => {
+    params[`profileBin${index}`] = power;
+  });
+  return params;
+}
+
+export function decodeNoiseProfile(
+  param: (key: string) => number | undefined
+): NoiseProfile | null {
+  const bins = Math.floor(param("profileBins") ?? 0);
+  if (bins <= 0) return null;
+  return {
+    sampleRate: param("profileSampleRate") ?? 0,
+    fftSize: param("profileFftSize") ?? 0,
+    duration: param("profileDuration") ?? 0,
+    power: Array.from({ length: bins }, (_, index) => param(`profileBin${index}`) ?? 0),
+  };
+}
+
+export function learnNoiseProfile(buffer: SampleBuffer, progress: ProgressReporter): NoiseProfile {
+  return {
+    sampleRate: buffer.sampleRate,
+    fftSize: NOISE_FFT_SIZE,
+    duration: buffer.duration,
+    power: accumulatePower(buffer, hannWindow(NOISE_FFT_SIZE), progress),
+  };
+}
+
+function estimateNoiseProfile(buffer: SampleBuffer, progress: ProgressReporter): NoiseProfile {
+  const window = hannWindow(NOISE_FFT_SIZE);
+  const energies = measureFrameEnergies(buffer, window);
+  const audible = energies.flatMap((channel) => Array.from(channel).filter((e) => e > 0));
+  audible.sort((a, b) => a - b);
+  const cutoff =
+    audible[Math.max(0, Math.floor(audible.length * QUIET_FRAME_FRACTION) - 1)] ?? Infinity;
+
+  return {
+    sampleRate: buffer.sampleRate,
+    fftSize: NOISE_FFT_SIZE,
+    duration: 0,
+    power: accumulatePower(buffer, window, progress, (channel, frame) => {
+      const energy = energies[channel]?.[frame] ?? 0;
+      return energy > 0 && energy <= cutoff;
+    }),
+  };
+}
+
+export function resampleNoiseProfile(profile: NoiseProfile, sampleRate: number): NoiseProfile {
+  if (profile.sampleRate === sampleRate || profile.sampleRate <= 0) return profile;
+  const lastBin = profile.power.length - 1;
+  const ratio = sampleRate / profile.sampleRate;
+  return {
+    ...profile,
+    sampleRate,
+    power: profile.power.map((_, k) => {
+      const position = Math.min(k * ratio, lastBin);
+      const index = Math.floor(position);
+      const fraction = position - index;
+      const next = profile.power[Math.min(index + 1, lastBin)]!;
+      return profile.power[index]! * (1 - fraction) + next * fraction;
+    }),
+  };
+}
+
+function smoothGains(gainsDb: Float64Array, bands: number): Float64Array {
+  if (bands <= 0) return gainsDb;
+  const smoothed = new Float64Array(gainsDb.length);
+  for (let k = 0; k < gainsDb.length; k++) {
+    let sum = 0;
+    let count = 0;
+    for (let j = Math.max(0, k - bands); j <= Math.min(gainsDb.length - 1, k + bands); j++) {
+      sum += gainsDb[j]!;
+      count++;
+    }
+    smoothed[k] = sum / count;
+  }
+  return smoothed;
+}
+
+export function spectralNoiseReduction(
+  buffer: SampleBuffer,
+  progress: ProgressReporter,
+  reductionDb: number,
+  sensitivityDb: number,
+  smoothingBands: number,
+  profile: NoiseProfile | null
+): SampleBuffer {
+  if (!buffer || buffer.length === 0) {
+    return buffer;
+  }
+
+  const usableProfile = profile && profile.fftSize === NOISE_FFT_SIZE;
+  const noise = usableProfile
+    ? resampleNoiseProfile(profile, buffer.sampleRate)
+    : estimateNoiseProfile(buffer, (fraction) => progress(fraction * 0.3));
+  const reportFrom = usableProfile ? 0 : 0.3;
+
+  const floorDb = -Math.max(0, Math.min(48, reductionDb));
+  const sensitivity = Math.pow(10, Math.max(0, Math.min(24, sensitivityDb)) / 10);
+  const bands = Math.max(0, Math.min(12, Math.round(smoothingBands)));
+  const threshold = noise.power.map((p) => p * sensitivity);
+
+  const size = NOISE_FFT_SIZE;
+  const binCount = size / 2 + 1;
+  const window = hannWindow(size);
+  const overlapGain = window.reduce((sum, w) => sum + w * w, 0) / NOISE_HOP_SIZE;
+  const newBuffer = createSampleBuffer(buffer.numberOfChannels, buffer.length, buffer.sampleRate);
+
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const destData = newBuffer.getChannelData(channel);
+    const previousGains = new Float64Array(binCount).fill(1);
+    const gainsDb = new Float64Array(binCount);
+
+    forEachFrame(
+      buffer.getChannelData(channel),
+      window,
+      (re, im, offset) => {
+        for (let k = 0; k < binCount; k++) {
+          const power = re[k]! * re[k]! + im[k]! * im[k]!;
+          gainsDb[k] = power > (threshold[k] ?? 0) ? 0 : floorDb;
+        }
+
+        const smoothed = smoothGains(gainsDb, bands);
+        for (let k = 0; k < binCount; k++) {
+          const target = Math.pow(10, smoothed[k]! / 20);
+          const previous = previousGains[k]!;
+          const gain = target >= previous ? target : previous + (target - previous) * GAIN_RELEASE;
+          previousGains[k] = gain;
+
+          re[k] = re[k]! * gain;
+          im[k] = im[k]! * gain;
+          if (k > 0 && k < size / 2) {
+            re[size - k] = re[k]!;
+            im[size - k] = -im[k]!;
+          }
+        }
+
+        fft(re, im, true);
+        for (let i = 0; i < size; i++) {
+          const index = offset + i;
+          if (index < 0 || index >= destData.length) continue;
+          destData[index]! += (re[i]! * window[i]!) / overlapGain;
+        }
+      },
+      (fraction) =>
+        progress(reportFrom + ((1 - reportFrom) * (channel + fraction)) / buffer.numberOfChannels)
+    );
+
+    for (let i = 0; i < destData.length; i++) {
+      destData[i] = Math.max(-1.0, Math.min(1.0, destData[i]!));
+    }
+  }
+
+  return newBuffer;
+}
+
+const STRETCH_FFT_SIZE = 2048;
+const STRETCH_HOP_SIZE = STRETCH_FFT_SIZE / 4;
+const RESAMPLE_LOBES = 6;
+
+function wrapPhase(phase: number): number {
+  return phase - 2 * Math.PI * Math.round(phase / (2 * Math.PI));
+}
+
+function findPeaks(magnitudes: Float64Array, binCount: number): Int32Array {
+  const nearestPeak = new Int32Array(binCount);
+  const peaks: number[] = [];
+  for (let k = 0; k < binCount; k++) {
+    const m = magnitudes[k]!;
+    if (
+      m > (magnitudes[k - 1] ?? -1) &&
+      m >= (magnitudes[k + 1] ?? -1) &&
+      m > (magnitudes[k - 2] ?? -1) &&
+      m >= (magnitudes[k + 2] ?? -1)
+    ) {
+      peaks.push(k);
+    }
+  }
+  if (peaks.length === 0) {
+    return nearestPeak.map((_, k) => k);
+  }
+
+  let peakIndex = 0;
+  for (let k = 0; k < binCount; k++) {
+    while (
+      peakIndex < peaks.length - 1 &&
+      Math.abs(peaks[peakIndex + 1]! - k) <= Math.abs(peaks[peakIndex]! - k)
+    ) {
+      peakIndex++;
+    }
+    nearestPeak[k] = peaks[peakIndex]!;
+  }
+  return nearestPeak;
+}
+
+export function phaseVocoderStretch(
+  data: Float32Array,
+  ratio: number,
+  progress: ProgressReporter
+): Float32Array {
+  const size = STRETCH_FFT_SIZE;
+  const hop = STRETCH_HOP_SIZE;
+  const binCount = size / 2 + 1;
+  const window = hannWindow(size);
+  const overlapGain = window.reduce((sum, w) => sum + w * w, 0) / hop;
+  const outputLength = Math.max(1, Math.round(data.length * ratio));
+  const output = new Float32Array(outputLength);
+
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  const magnitudes = new Float64Array(binCount);
+  const phases = new Float64Array(binCount);
+  const previousPhases = new Float64Array(binCount);
+  const synthesisPhases = new Float64Array(binCount);
+  const frameCount = Math.ceil((outputLength + size) / hop);
+  let previousOffset = 0;
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    if ((frame & 0x3f) === 0) {
+      progress(frame / frameCount);
+    }
+
+    const synthesisOffset = frame * hop - size + hop;
+    const analysisOffset = Math.round((synthesisOffset + size / 2) / ratio - size / 2);
+    for (let i = 0; i < size; i++) {
+      re[i] = (data[analysisOffset + i] ?? 0) * window[i]!;
+      im[i] = 0;
+    }
+    fft(re, im);
+
+    for (let k = 0; k < binCount; k++) {
+      magnitudes[k] = Math.hypot(re[k]!, im[k]!);
+      phases[k] = Math.atan2(im[k]!, re[k]!);
+    }
+
+    if (frame === 0) {
+      synthesisPhases.set(phases);
+    } else {
+      const analysisHop = analysisOffset - previousOffset;
+      const nearestPeak = findPeaks(magnitudes, binCount);
+      for (let k = 0; k < binCount; k++) {
+        if (nearestPeak[k] !== k) continue;
+        const binFrequency = (2 * Math.PI * k) / size;
+        const deviation = wrapPhase(phases[k]! - previousPhases[k]! - binFrequency * analysisHop);
+        const frequency = analysisHop > 0 ? binFrequency + deviation / analysisHop : binFrequency;
+        synthesisPhases[k] = wrapPhase(synthesisPhases[k]! + frequency * hop);
+      }
+      for (let k = 0; k < binCount; k++) {
+        const peak = nearestPeak[k]!;
+        if (peak === k) continue;
+        synthesisPhases[k] = synthesisPhases[peak]! + phases[k]! - phases[peak]!;
+      }
+    }
+    previousPhases.set(phases);
+    previousOffset = analysisOffset;
+
+    for (let k = 0; k < binCount; k++) {
+      re[k] = magnitudes[k]! * Math.cos(synthesisPhases[k]!);
+      im[k] = magnitudes[k]! * Math.sin(synthesisPhases[k]!);
+      if (k > 0 && k < size / 2) {
+        re[size - k] = re[k]!;
+        im[size - k] = -im[k]!;
+      }
+    }
+    im[0] = 0;
+    im[size / 2] = 0;
+    fft(re, im, true);
+
+    for (let i = 0; i < size; i++) {
+      const index = synthesisOffset + i;
+      if (index < 0 || index >= outputLength) continue;
+      output[index]! += (re[i]! * window[i]!) / overlapGain;
+    }
+  }
+
+  return output;
+}
+
+export function resample(
+  data: Float32Array,
+  outputLength: number,
+  progress: ProgressReporter
+): Float32Array {
+  const output = new Float32Array(outputLength);
+  const step = data.length / outputLength;
+  const cutoff = Math.min(1, 1 / step);
+  const radius = Math.ceil(RESAMPLE_LOBES / cutoff);
+
+  for (let i = 0; i < outputLength; i++) {
+    if ((i & 0xffff) === 0) {
+      progress(i / outputLength);
+    }
+    const position = i * step;
+    const center = Math.floor(position);
+    let sum = 0;
+    let weightSum = 0;
+    for (let j = center - radius + 1; j <= center + radius; j++) {
+      const x = (position - j) * cutoff;
+      const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+      const lanczos =
+        Math.abs(x) < RESAMPLE_LOBES
+          ? x === 0
+            ? 1
+            : Math.sin((Math.PI * x) / RESAMPLE_LOBES) / ((Math.PI * x) / RESAMPLE_LOBES)
+          : 0;
+      const weight = sinc * lanczos;
+      sum += (data[j] ?? 0) * weight;
+      weightSum += weight;
+    }
+    output[i] = weightSum !== 0 ? sum / weightSum : 0;
+  }
+
+  return output;
+}
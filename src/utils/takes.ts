@@ -0,0 +1,97 @@
+import type { AudioClip, CompSegment, TakeLane } from "../stores/audioStore";
+import { createAudioBuffer } from "./audioContext";
+import { createClip, getClipEnd } from "./clips";
+
+export const COMP_CROSSFADE_SECONDS = 0.01;
+export const MIN_TAKE_SECONDS = 0.5;
+
+const REGION_EPSILON = 0.001;
+
+export function isSameRegion(lane: TakeLane, start: number, end: number): boolean {
+  return Math.abs(lane.start - start) < REGION_EPSILON && Math.abs(lane.end - end) < REGION_EPSILON;
+}
+
+export function assignCompRange(
+  comp: CompSegment[],
+  takeId: string,
+  start: number,
+  end: number
+): CompSegment[] {
+  const kept = comp.flatMap((segment) => {
+    if (segment.end <= start || segment.start >= end) return [segment];
+    return [
+      ...(segment.start < start ? [{ ...segment, end: start }] : []),
+      ...(segment.end > end ? [{ ...segment, start: end }] : []),
+    ];
+  });
+
+  return [...kept, { start, end, takeId }]
+    .sort((a, b) => a.start - b.start)
+    .reduce<CompSegment[]>((merged, segment) => {
+      const last = merged[merged.length - 1];
+      if (last && last.takeId === segment.takeId && Math.abs(last.end - segment.start) < 1e-9) {
+        merged[merged.length - 1] = { ...last, end: segment.end };
+      } else {
+        merged.push(segment);
+      }
+      return merged;
+    }, []);
+}
+
+function crossfadeGain(time: number, segment: CompSegment, lane: TakeLane): number {
+  const half = COMP_CROSSFADE_SECONDS / 2;
+  let position = 1;
+  if (segment.start > lane.start && time < segment.start + half) {
+    position = Math.min(position, (time - segment.start + half) / COMP_CROSSFADE_SECONDS);
+  }
+  if (segment.end < lane.end && time > segment.end - half) {
+    position = Math.min(position, (segment.end + half - time) / COMP_CROSSFADE_SECONDS);
+  }
+  return Math.sin((Math.max(0, Math.min(1, position)) * Math.PI) / 2);
+}
+
+export function renderComp(lane: TakeLane): AudioBuffer | null {
+  const takes = new Map(lane.takes.map((take) => [take.id, take]));
+  const withAudio = lane.takes.filter((take) => take.buffer !== null);
+  const first = withAudio[0]?.buffer;
+  if (!first) return null;
+
+  const sampleRate = first.sampleRate;
+  const numberOfChannels = Math.max(...withAudio.map((take) => take.buffer!.numberOfChannels));
+  const length = Math.max(1, Math.ceil((lane.end - lane.start) * sampleRate));
+  const rendered = createAudioBuffer(numberOfChannels, length, sampleRate);
+  const half = COMP_CROSSFADE_SECONDS / 2;
+
+  for (const segment of lane.comp) {
+    const take = takes.get(segment.takeId);
+    if (!take?.buffer) continue;
+
+    const from = Math.max(lane.start, take.start, segment.start - half);
+    const to = Math.min(lane.end, getClipEnd(take), segment.end + half);
+    const firstIndex = Math.max(0, Math.floor((from - lane.start) * sampleRate));
+    const lastIndex = Math.min(length, Math.ceil((to - lane.start) * sampleRate));
+
+    for (let channel = 0; channel < numberOfChannels; channel++) {
+      const source = take.buffer.getChannelData(
+        Math.min(channel, take.buffer.numberOfChannels - 1)
+      );
+      const data = rendered.getChannelData(channel);
+      for (let i = firstIndex; i < lastIndex; i++) {
+        const time = lane.start + i / sampleRate;
+        const sourceIndex = Math.floor(
+          (time - take.start + take.trimStart) * take.buffer.sampleRate
+        );
+        const sample = source[sourceIndex];
+        if (sample === undefined) continue;
+        data[i] = data[i]! + sample * take.gain * crossfadeGain(time, segment, lane);
+      }
+    }
+  }
+
+  return rendered;
+}
+
+export function createCompClip(lane: TakeLane): AudioClip | null {
+  const buffer = renderComp(lane);
+  return buffer ? createClip(buffer, lane.start) : null;
+}
@@ -3,3 +3,7 @@ export function formatTime(seconds: number): string {
   const secs = Math.floor(seconds % 60);
   return `${mins}:${secs.toString().padStart(2, "0")}`;
 }
+
+export function formatDuration(seconds: number): string {
+  return seconds < 60 ? `${seconds.toFixed(1)}s` : formatTime(seconds);
+}
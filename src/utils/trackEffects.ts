@@ -0,0 +1,426 @@
+import type { AudioClip } from "../stores/audioStore";
+import { audioEffects } from "./audioEffects";
+import { createClip, renderClips } from "./clips";
+import {
+  EQ_BAND_LABELS,
+  EQ_MAX_FREQUENCY,
+  EQ_MAX_GAIN,
+  EQ_MAX_Q,
+  EQ_MIN_FREQUENCY,
+  EQ_MIN_Q,
+  bandHasGain,
+  bandHasSlope,
+  decodeEqBands,
+  isEqBandParams,
+} from "./parametricEq";
+import { decodeNoiseProfile } from "./spectralDsp";
+
+export type TrackEffectType =
+  | "amplify"
+  | "reverb"
+  | "delay"
+  | "noiseReduction"
+  | "pitchShift"
+  | "compressor"
+  | "limiter"
+  | "eq"
+  | "highPassFilter"
+  | "lowPassFilter";
+
+export interface TrackEffect {
+  id: string;
+  type: TrackEffectType;
+  params: Record<string, number>;
+  bypass: boolean;
+}
+
+export interface EffectParamDefinition {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  defaultValue: number;
+  unit?: string;
+  kind?: "impulseResponse";
+}
+
+interface EffectDefinition {
+  label: string;
+  params: EffectParamDefinition[];
+  process: (buffer: AudioBuffer, param: (key: string) => number) => Promise<AudioBuffer>;
+}
+
+export const TRACK_EFFECTS: Record<TrackEffectType, EffectDefinition> = {
+  amplify: {
+    label: "Amplify",
+    params: [{ key: "gain", label: "Gain", min: 0.1, max: 10, step: 0.1, defaultValue: 1.5 }],
+    process: (buffer, param) => audioEffects.amplifyFull(buffer, param("gain")),
+  },
+  reverb: {
+    label: "Reverb",
+    params: [
+      {
+        key: "roomSize",
+        label: "Room Size",
+        min: 0.1,
+        max: 3,
+        step: 0.1,
+        defaultValue: 2,
+        unit: "s",
+      },
+      { key: "wetLevel", label: "Wet Level", min: 0, max: 1, step: 0.01, defaultValue: 0.5 },
+    ],
+    process: (buffer, param) =>
+      audioEffects.reverbFull(buffer, param("roomSize"), param("wetLevel")),
+  },
+  delay: {
+    label: "Delay",
+    params: [
+      {
+        key: "delayTime",
+        label: "Time",
+        min: 0.01,
+        max: 2,
+        step: 0.01,
+        defaultValue: 0.3,
+        unit: "s",
+      },
+      { key: "feedback", label: "Feedback", min: 0, max: 0.95, step: 0.01, defaultValue: 0.4 },
+      { key: "wetLevel", label: "Wet Level", min: 0, max: 1, step: 0.01, defaultValue: 0.5 },
+    ],
+    process: (buffer, param) =>
+      audioEffects.delayFull(buffer, param("delayTime"), param("feedback"), param("wetLevel")),
+  },
+  noiseReduction: {
+    label: "Noise Reduction",
+    params: [
+      {
+        key: "reduction",
+        label: "Reduction",
+        min: 0,
+        max: 48,
+        step: 1,
+        defaultValue: 12,
+        unit: "dB",
+      },
+      {
+        key: "sensitivity",
+        label: "Sensitivity",
+        min: 0,
+        max: 24,
+        step: 0.5,
+        defaultValue: 6,
+        unit: "dB",
+      },
+      { key: "smoothing", label: "Smoothing", min: 0, max: 12, step: 1, defaultValue: 3 },
+    ],
+    process: (buffer, param) =>
+      audioEffects.noiseReductionFull(
+        buffer,
+        param("reduction"),
+        param("sensitivity"),
+        param("smoothing"),
+        decodeNoiseProfile(param)
+      ),
+  },
+  pitchShift: {
+    label: "Pitch Shift",
+    params: [
+      { key: "semitones", label: "Semitones", min: -24, max: 24, step: 1, defaultValue: 0 },
+      { key: "cents", label: "Cents", min: -100, max: 100, step: 1, defaultValue: 0 },
+    ],
+    process: (buffer, param) =>
+      audioEffects.pitchShiftFull(buffer, param("semitones"), param("cents")),
+  },
+  compressor: {
+    label: "Compressor",
+    params: [
+      {
+        key: "threshold",
+        label: "Threshold",
+        min: -60,
+        max: 0,
+        step: 0.5,
+        defaultValue: -12,
+        unit: "dB",
+      },
+      { key: "ratio", label: "Ratio", min: 1, max: 20, step: 0.1, defaultValue: 4 },
+      {
+        key: "attack",
+        label: "Attack",
+        min: 0.0001,
+        max: 1,
+        step: 0.0001,
+        defaultValue: 0.003,
+        unit: "s",
+      },
+      {
+        key: "release",
+        label: "Release",
+        min: 0.01,
+        max: 5,
+        step: 0.01,
+        defaultValue: 0.1,
+        unit: "s",
+      },
+      { key: "knee", label: "Knee", min: 0, max: 12, step: 0.5, defaultValue: 2, unit: "dB" },
+    ],
+    process: (buffer, param) =>
+      audioEffects.compressorFull(
+        buffer,
+        param("threshold"),
+        param("ratio"),
+        param("attack"),
+        param("release"),
+        param("knee")
+      ),
+  },
+  limiter: {
+    label: "Limiter",
+    params: [
+      {
+        key: "threshold",
+        label: "Threshold",
+        min: -60,
+        max: 0,
+        step: 0.5,
+        defaultValue: -1,
+        unit: "dB",
+      },
+      {
+        key: "release",
+        label: "Release",
+        min: 0.001,
+        max: 1,
+        step: 0.001,
+        defaultValue: 0.01,
+        unit: "s",
+      },
+    ],
+    process: (buffer, param) =>
+      audioEffects.limiterFull(buffer, param("threshold"), param("release")),
+  },
+  eq: {
+    label: "EQ",
+    params: [
+      {
+        key: "frequency",
+        label: "Frequency",
+        min: 20,
+        max: 20000,
+        step: 1,
+        defaultValue: 1000,
+        unit: "Hz",
+      },
+      { key: "gain", label: "Gain", min: -20, max: 20, step: 0.1, defaultValue: 0, unit: "dB" },
+      { key: "q", label: "Q", min: 0.1, max: 30, step: 0.1, defaultValue: 1 },
+    ],
+    process: (buffer, param) => audioEffects.eqFull(buffer, decodeEqBands(param)),
+  },
+  highPassFilter: {
+    label: "High-Pass Filter",
+    params: [
+      {
+        key: "cutoff",
+        label: "Cutoff",
+        min: 20,
+        max: 20000,
+        step: 1,
+        defaultValue: 200,
+        unit: "Hz",
+      },
+    ],
+    process: (buffer, param) => audioEffects.highPassFilterFull(buffer, param("cutoff")),
+  },
+  lowPassFilter: {
+    label: "Low-Pass Filter",
+    params: [
+      {
+        key: "cutoff",
+        label: "Cutoff",
+        min: 20,
+        max: 20000,
+        step: 1,
+        defaultValue: 5000,
+        unit: "Hz",
+      },
+    ],
+    process: (buffer, param) => audioEffects.lowPassFilterFull(buffer, param("cutoff")),
+  },
+};
+
+export function createTrackEffect(
+  type: TrackEffectType,
+  params?: Record<string, number>
+): TrackEffect {
+  return {
+    id: crypto.randomUUID(),
+    type,
+    params: {
+      ...Object.fromEntries(TRACK_EFFECTS[type].params.map((p) => [p.key, p.defaultValue])),
+      ...params,
+    },
+    bypass: false,
+  };
+}
+
+const eqBandParamDefinitions = new Map<string, EffectParamDefinition[]>();
+
+function getEqBandParamDefinitions(params: Record<string, number>): EffectParamDefinition[] {
+  const bands = decodeEqBands((key) => params[key]);
+  const layout = bands.map((band) => band.type).join(",");
+  const cached = eqBandParamDefinitions.get(layout);
+  if (cached) return cached;
+
+  const definitions = bands.flatMap((band, index): EffectParamDefinition[] => {
+    const prefix = `band${index + 1}`;
+    const label = `${index + 1}. ${EQ_BAND_LABELS[band.type]}`;
+    return [
+      {
+        key: `${prefix}Frequency`,
+        label: `${label} Frequency`,
+        min: EQ_MIN_FREQUENCY,
+        max: EQ_MAX_FREQUENCY,
+        step: 1,
+        defaultValue: 1000,
+        unit: "Hz",
+      },
+      ...(bandHasGain(band.type)
+        ? [
+            {
+              key: `${prefix}Gain`,
+              label: `${label} Gain`,
+              min: -EQ_MAX_GAIN,
+              max: EQ_MAX_GAIN,
+              step: 0.1,
+              defaultValue: 0,
+              unit: "dB",
+            },
+          ]
+        : []),
+      {
+        key: `${prefix}Q`,
+        label: `${label} Q`,
+        min: EQ_MIN_Q,
+        max: EQ_MAX_Q,
+        step: 0.01,
+        defaultValue: 1,
+      },
+      ...(bandHasSlope(band.type)
+        ? [
+            {
+              key: `${prefix}Slope`,
+              label: `${label} Slope`,
+              min: 12,
+              max: 48,
+              step: 12,
+              defaultValue: 12,
+              unit: "dB/oct",
+            },
+          ]
+        : []),
+    ];
+  });
+  eqBandParamDefinitions.set(layout, definitions);
+  return definitions;
+}
+
+export function getEffectParamDefinitions(
+  type: string,
+  params: Record<string, number>,
+  definitions: EffectParamDefinition[]
+): EffectParamDefinition[] {
+  return type === "eq" && isEqBandParams(params) ? getEqBandParamDefinitions(params) : definitions;
+}
+
+export function formatEffectParam(definition: EffectParamDefinition, value: number): string {
+  const decimals =
+    definition.step >= 1 ? 0 : Math.min(4, `${definition.step}`.split(".")[1]!.length);
+  return `${value.toFixed(decimals)}${definition.unit ? ` ${definition.unit}` : ""}`;
+}
+
+export function hasActiveEffects(effects: TrackEffect[] | undefined): boolean {
+  return !!effects?.some((effect) => !effect.bypass && TRACK_EFFECTS[effect.type]);
+}
+
+function applyTrackEffect(buffer: AudioBuffer, effect: TrackEffect): Promise<AudioBuffer> {
+  const definition = TRACK_EFFECTS[effect.type]!;
+  const param = (key: string) =>
+    effect.params[key] ?? definition.params.find((p) => p.key === key)?.defaultValue ?? 0;
+  return definition.process(buffer, param);
+}
+
+export async function applyTrackEffects(
+  buffer: AudioBuffer,
+  effects: TrackEffect[]
+): Promise<AudioBuffer> {
+  let result = buffer;
+  for (const effect of effects) {
+    if (effect.bypass || !TRACK_EFFECTS[effect.type]) continue;
+    result = await applyTrackEffect(result, effect);
+  }
+  return result;
+}
+
+interface ProcessedStage {
+  key: string;
+  buffer: Promise<AudioBuffer | null>;
+}
+
+interface ProcessedTrack {
+  clips: AudioClip[];
+  stages: ProcessedStage[];
+  buffer: Promise<AudioBuffer | null>;
+}
+
+const processedTracks = new Map<string, ProcessedTrack>();
+
+export function renderTrackEffects(track: {
+  id: string;
+  clips: AudioClip[];
+  effects: TrackEffect[];
+}): Promise<AudioBuffer | null> {
+  const cached = processedTracks.get(track.id);
+  const reusable = cached?.clips === track.clips ? cached.stages : [];
+  const active = track.effects.filter((effect) => !effect.bypass && TRACK_EFFECTS[effect.type]);
+
+  const stages: ProcessedStage[] = [];
+  let buffer: Promise<AudioBuffer | null> | null = null;
+  let reusing = true;
+  for (const [index, effect] of active.entries()) {
+    const key = JSON.stringify(effect);
+    const previous = reusable[index];
+    reusing = reusing && previous?.key === key;
+    if (reusing && previous) {
+      stages.push(previous);
+      buffer = previous.buffer;
+      continue;
+    }
+    const input: Promise<AudioBuffer | null> =
+      buffer ?? Promise.resolve(renderClips(track.clips, undefined, false));
+    buffer = input.then((result) => (result ? applyTrackEffect(result, effect) : null));
+    stages.push({ key, buffer });
+  }
+
+  const result: Promise<AudioBuffer | null> =
+    buffer ?? Promise.resolve(renderClips(track.clips, undefined, false));
+  if (cached?.buffer === result) return result;
+  processedTracks.set(track.id, { clips: track.clips, stages, buffer: result });
+  result.catch(() => {
+    if (processedTracks.get(track.id)?.buffer === result) {
+      processedTracks.delete(track.id);
+    }
+  });
+  return result;
+}
+
+export async function getProcessedClips(track: {
+  id: string;
+  clips: AudioClip[];
+  effects: TrackEffect[];
+}): Promise<AudioClip[]> {
+  if (!hasActiveEffects(track.effects)) return track.clips;
+  const buffer = await renderTrackEffects(track);
+  return buffer ? [createClip(buffer)] : [];
+}
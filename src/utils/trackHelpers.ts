@@ -1,6 +1,7 @@
-import { AudioTrack, WaveformRenderer } from "../stores/audioStore";
+import { AudioClip, AudioTrack, WaveformRenderer } from "../stores/audioStore";
 import { audioOperations } from "./audioOperations";
 import { cloneAudioBuffer } from "./audioBuffer";
+import { createClip, getClipsDuration, remapClipBuffers } from "./clips";
 
 export const DEFAULT_TRACK_VALUES = {
   backgroundColor: null,
@@ -11,23 +12,38 @@ export const DEFAULT_TRACK_VALUES = {
   waveformRenderer: "bars" as WaveformRenderer,
 } as const;
 
-export async function createTrackFromBuffer(
-  audioBuffer: AudioBuffer,
-  audioUrl: string,
+export function createTrackFromClips(
+  clips: AudioClip[],
   name: string,
   baseTrack?: Partial<AudioTrack>
-): Promise<Omit<AudioTrack, "id">> {
+): Omit<AudioTrack, "id"> {
   return {
     name,
-    audioBuffer,
-    audioUrl,
-    duration: audioBuffer.duration,
+    audioBuffer: null,
+    clips,
+    audioUrl: "",
+    duration: getClipsDuration(clips),
     backgroundColor: baseTrack?.backgroundColor ?? DEFAULT_TRACK_VALUES.backgroundColor,
     volume: baseTrack?.volume ?? DEFAULT_TRACK_VALUES.volume,
     pan: baseTrack?.pan ?? DEFAULT_TRACK_VALUES.pan,
     muted: baseTrack?.muted ?? DEFAULT_TRACK_VALUES.muted,
     soloed: baseTrack?.soloed ?? DEFAULT_TRACK_VALUES.soloed,
     waveformRenderer: baseTrack?.waveformRenderer ?? DEFAULT_TRACK_VALUES.waveformRenderer,
+    effects: baseTrack?.effects?.map((effect) => ({ ...effect, id: crypto.randomUUID() })) ?? [],
+  };
+}
+
+export async function createTrackFromBuffer(
+  audioBuffer: AudioBuffer,
+  audioUrl: string,
+  name: string,
+  baseTrack?: Partial<AudioTrack>
+): Promise<Omit<AudioTrack, "id">> {
+  return {
+    ...createTrackFromClips([createClip(audioBuffer)], name, baseTrack),
+    audioBuffer,
+    audioUrl,
+    duration: audioBuffer.duration,
   };
 }
 
@@ -50,5 +66,13 @@ export async function cloneTrackWithBuffer(
     throw new Error("Source track has no audio buffer");
   }
   const clonedBuffer = cloneAudioBuffer(sourceTrack.audioBuffer);
-  return createTrackFromBufferWithUrl(clonedBuffer, newName, sourceTrack);
+  const { track, audioUrl } = await createTrackFromBufferWithUrl(
+    clonedBuffer,
+    newName,
+    sourceTrack
+  );
+  const clips = remapClipBuffers(sourceTrack.clips, sourceTrack.audioBuffer, clonedBuffer).map(
+    (clip) => ({ ...clip, id: crypto.randomUUID() })
+  );
+  return { track: { ...track, clips }, audioUrl };
 }
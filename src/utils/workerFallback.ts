@@ -1,3 +1,5 @@
+import { isAbortError } from "./error";
+
 type WorkerOperation<T> = () => Promise<T>;
 type FallbackOperation<T> = () => T;
 
@@ -9,7 +11,8 @@ export async function withWorkerFallback<T>(
   if (useWorker) {
     try {
       return await workerOp();
-    } catch {
+    } catch (error) {
+      if (isAbortError(error)) throw error;
       return fallbackOp();
     }
   }
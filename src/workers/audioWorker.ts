@@ -1,6 +1,36 @@
+import {
+  averageSpectrum,
+  detectSilence,
+  findClipping,
+  type ClippingReport,
+  type SilentRegion,
+  type SpectrumWindow,
+} from "../utils/analysisDsp";
+import {
+  createSampleBuffer,
+  runEffectDsp,
+  type EffectName,
+  type ProgressReporter,
+} from "../utils/effectsDsp";
+import { measureLoudness, type LoudnessStats } from "../utils/loudnessDsp";
+import { measureLevels, mixTracks, type ChannelLevels } from "../utils/mixDsp";
+import { learnNoiseProfile, type NoiseProfile } from "../utils/spectralDsp";
+
 export interface AudioWorkerMessage {
   id: string;
-  type: "copy" | "cut" | "paste" | "merge";
+  type:
+    | "copy"
+    | "cut"
+    | "paste"
+    | "merge"
+    | "effect"
+    | "mix"
+    | "analyze"
+    | "loudness"
+    | "spectrum"
+    | "clipping"
+    | "silence"
+    | "noiseProfile";
   data: any;
 }
 
@@ -11,6 +41,25 @@ export interface AudioWorkerResponse {
   error?: string;
 }
 
+export interface AudioWorkerProgress {
+  id: string;
+  progress: number;
+}
+
+export interface SerializedMixTrack {
+  volume: number;
+  pan: number;
+  clips: Array<{
+    source: number;
+    start: number;
+    trimStart: number;
+    trimEnd: number;
+    gain: number;
+  }>;
+}
+
+const PROGRESS_THROTTLE_MS = 100;
+
 function serializeAudioBuffer(buffer: AudioBuffer): {
   channelData: Float32Array[];
   sampleRate: number;
@@ -29,10 +78,22 @@ function serializeAudioBuffer(buffer: AudioBuffer): {
   };
 }
 
+function createProgressReporter(id: string): ProgressReporter {
+  let lastReport = 0;
+  return (progress) => {
+    const now = performance.now();
+    if (now - lastReport < PROGRESS_THROTTLE_MS) return;
+    lastReport = now;
+    const message: AudioWorkerProgress = { id, progress: Math.max(0, Math.min(1, progress)) };
+    self.postMessage(message);
+  };
+}
+
 function copy(
   serializedBuffer: ReturnType<typeof serializeAudioBuffer>,
   startTime: number,
-  endTime: number
+  endTime: number,
+  progress: ProgressReporter
 ): ReturnType<typeof serializeAudioBuffer> {
   const { channelData, sampleRate, numberOfChannels } = serializedBuffer;
   const startSample = Math.floor(startTime * sampleRate);
@@ -49,6 +110,7 @@ function copy(
       }
     }
     newChannelData.push(newData);
+    progress((channel + 1) / numberOfChannels);
   }
 
   return {
@@ -62,7 +124,8 @@ function copy(
 function cut(
   serializedBuffer: ReturnType<typeof serializeAudioBuffer>,
   startTime: number,
-  endTime: number
+  endTime: number,
+  progress: ProgressReporter
 ): {
   before: ReturnType<typeof serializeAudioBuffer>;
   after: ReturnType<typeof serializeAudioBuffer>;
@@ -96,6 +159,7 @@ function cut(
       afterData[i] = sourceData[endSample + i] ?? 0;
     }
     afterChannelData.push(afterData);
+    progress((channel + 1) / numberOfChannels);
   }
 
   return {
@@ -117,7 +181,8 @@ function cut(
 function paste(
   originalSerialized: ReturnType<typeof serializeAudioBuffer>,
   clipboardSerialized: ReturnType<typeof serializeAudioBuffer>,
-  insertTime: number
+  insertTime: number,
+  progress: ProgressReporter
 ): ReturnType<typeof serializeAudioBuffer> {
   const {
     channelData: origData,
@@ -161,6 +226,7 @@ function paste(
     }
 
     newChannelData.push(newData);
+    progress((channel + 1) / maxChannels);
   }
 
   return {
@@ -175,7 +241,8 @@ function merge(
   beforeSerialized: ReturnType<typeof serializeAudioBuffer>,
   afterSerialized: ReturnType<typeof serializeAudioBuffer>,
   numberOfChannels: number,
-  sampleRate: number
+  sampleRate: number,
+  progress: ProgressReporter
 ): ReturnType<typeof serializeAudioBuffer> {
   const { channelData: beforeData, length: beforeLength } = beforeSerialized;
   const { channelData: afterData, length: afterLength } = afterSerialized;
@@ -202,6 +269,7 @@ function merge(
     }
 
     newChannelData.push(newData);
+    progress((channel + 1) / numberOfChannels);
   }
 
   return {
@@ -212,6 +280,119 @@ function merge(
   };
 }
 
+function effect(
+  id: string,
+  serializedBuffer: ReturnType<typeof serializeAudioBuffer>,
+  effectName: EffectName,
+  args: unknown[]
+): ReturnType<typeof serializeAudioBuffer> {
+  const input = toSampleBuffer(serializedBuffer);
+
+  const result = runEffectDsp(effectName, input, args as never, createProgressReporter(id));
+
+  const resultChannels: Float32Array[] = [];
+  for (let channel = 0; channel < result.numberOfChannels; channel++) {
+    resultChannels.push(result.getChannelData(channel));
+  }
+
+  return {
+    channelData: resultChannels,
+    sampleRate: result.sampleRate,
+    numberOfChannels: result.numberOfChannels,
+    length: result.length,
+  };
+}
+
+function toSampleBuffer(serializedBuffer: ReturnType<typeof serializeAudioBuffer>) {
+  const { channelData, sampleRate, numberOfChannels, length } = serializedBuffer;
+  return createSampleBuffer(numberOfChannels, length, sampleRate, channelData);
+}
+
+function mix(
+  id: string,
+  sources: ReturnType<typeof serializeAudioBuffer>[],
+  tracks: SerializedMixTrack[],
+  numberOfChannels: number,
+  length: number,
+  sampleRate: number
+): ReturnType<typeof serializeAudioBuffer> {
+  const sourceBuffers = sources.map(toSampleBuffer);
+  const result = mixTracks(
+    tracks.map((track) => ({
+      volume: track.volume,
+      pan: track.pan,
+      clips: track.clips.map((clip) => ({ ...clip, buffer: sourceBuffers[clip.source] ?? null })),
+    })),
+    numberOfChannels,
+    length,
+    sampleRate,
+    createProgressReporter(id)
+  );
+
+  const resultChannels: Float32Array[] = [];
+  for (let channel = 0; channel < numberOfChannels; channel++) {
+    resultChannels.push(result.getChannelData(channel));
+  }
+
+  return { channelData: resultChannels, sampleRate, numberOfChannels, length };
+}
+
+function analyze(
+  id: string,
+  serializedBuffer: ReturnType<typeof serializeAudioBuffer>
+): ChannelLevels {
+  return measureLevels(toSampleBuffer(serializedBuffer), createProgressReporter(id));
+}
+
+function loudness(
+  id: string,
+  serializedBuffer: ReturnType<typeof serializeAudioBuffer>
+): LoudnessStats {
+  return measureLoudness(toSampleBuffer(serializedBuffer), createProgressReporter(id));
+}
+
+function spectrum(
+  id: string,
+  serializedBuffer: ReturnType<typeof serializeAudioBuffer>,
+  size: number,
+  window: SpectrumWindow
+): Float32Array {
+  return averageSpectrum(
+    toSampleBuffer(serializedBuffer),
+    size,
+    window,
+    createProgressReporter(id)
+  );
+}
+
+function clipping(
+  id: string,
+  serializedBuffer: ReturnType<typeof serializeAudioBuffer>
+): ClippingReport {
+  return findClipping(toSampleBuffer(serializedBuffer), createProgressReporter(id));
+}
+
+function silence(
+  id: string,
+  serializedBuffer: ReturnType<typeof serializeAudioBuffer>,
+  threshold: number,
+  minDuration: number
+): SilentRegion[] {
+  return detectSilence(
+    toSampleBuffer(serializedBuffer),
+    threshold,
+    minDuration,
+    createProgressReporter(id)
+  );
+}
+
+function noiseProfile(
+  id: string,
+  serializedBuffer: ReturnType<typeof serializeAudioBuffer>
+): NoiseProfile {
+  return learnNoiseProfile(toSampleBuffer(serializedBuffer), createProgressReporter(id));
+}
+
 self.onmessage = (e: MessageEvent<AudioWorkerMessage>) => {
   const { id, type, data } = e.data;
 
@@ -220,16 +401,58 @@ self.onmessage = (e: MessageEvent<AudioWorkerMessage>) => {
 
     switch (type) {
       case "copy":
-        result = copy(data.buffer, data.startTime, data.endTime);
+        result = copy(data.buffer, data.startTime, data.endTime, createProgressReporter(id));
         break;
       case "cut":
-        result = cut(data.buffer, data.startTime, data.endTime);
+        result = cut(data.buffer, data.startTime, data.endTime, createProgressReporter(id));
         break;
       case "paste":
-        result = paste(data.originalBuffer, data.clipboardBuffer, data.insertTime);
+        result = paste(
+          data.originalBuffer,
+          data.clipboardBuffer,
+          data.insertTime,
+          createProgressReporter(id)
+        );
         break;
       case "merge":
-        result = merge(data.beforeBuffer, data.afterBuffer, data.numberOfChannels, data.sampleRate);
+        result = merge(
+          data.beforeBuffer,
+          data.afterBuffer,
+          data.numberOfChannels,
+          data.sampleRate,
+          createProgressReporter(id)
+        );
+        break;
+      case "effect":
+        result = effect(id, data.buffer, data.effect, data.args);
+        break;
+      case "mix":
+        result = mix(
+          id,
+          data.sources,
+          data.tracks,
+          data.numberOfChannels,
+          data.length,
+          data.sampleRate
+        );
+        break;
+      case "analyze":
+        result = analyze(id, data.buffer);
+        break;
+      case "loudness":
+        result = loudness(id, data.buffer);
+        break;
+      case "spectrum":
+        result = spectrum(id, data.buffer, data.size, data.window);
+        break;
+      case "clipping":
+        result = clipping(id, data.buffer);
+        break;
+      case "silence":
+        result = silence(id, data.buffer, data.threshold, data.minDuration);
+        break;
+      case "noiseProfile":
+        result = noiseProfile(id, data.buffer);
         break;
       default:
         throw new Error(`Unknown operation type: ${type}`);
@@ -0,0 +1,85 @@
+declare const currentTime: number;
+declare const sampleRate: number;
+declare function registerProcessor(name: string, processorCtor: unknown): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor();
+}
+
+export interface CaptureChunkMessage {
+  type: "chunk";
+  time: number;
+  channels: Float32Array[];
+}
+
+export interface CaptureStoppedMessage {
+  type: "stopped";
+}
+
+const CHUNK_FRAMES = 4096;
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  private readonly channelCount: number;
+  private chunk: Float32Array[];
+  private filled = 0;
+  private chunkTime = 0;
+  private stopped = false;
+
+  constructor(options: { processorOptions: { channelCount: number } }) {
+    super();
+    this.channelCount = options.processorOptions.channelCount;
+    this.chunk = this.createChunk();
+    this.port.onmessage = (event: MessageEvent) => {
+      if (event.data === "stop" && !this.stopped) {
+        this.flush();
+        this.stopped = true;
+        this.port.postMessage({ type: "stopped" } satisfies CaptureStoppedMessage);
+      }
+    };
+  }
+
+  private createChunk(): Float32Array[] {
+    return Array.from({ length: this.channelCount }, () => new Float32Array(CHUNK_FRAMES));
+  }
+
+  private flush() {
+    if (this.filled === 0) return;
+    const channels =
+      this.filled === CHUNK_FRAMES
+        ? this.chunk
+        : this.chunk.map((data) => data.slice(0, this.filled));
+    this.port.postMessage(
+      { type: "chunk", time: this.chunkTime, channels } satisfies CaptureChunkMessage,
+      channels.map((data) => data.buffer)
+    );
+    this.chunk = this.createChunk();
+    this.filled = 0;
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    if (this.stopped) return false;
+    const input = inputs[0];
+    if (!input || input.length === 0) return true;
+
+    const frames = input[0]!.length;
+    let offset = 0;
+    while (offset < frames) {
+      if (this.filled === 0) {
+        this.chunkTime = currentTime + offset / sampleRate;
+      }
+      const count = Math.min(frames - offset, CHUNK_FRAMES - this.filled);
+      for (let channel = 0; channel < this.channelCount; channel++) {
+        const source = input[Math.min(channel, input.length - 1)]!;
+        this.chunk[channel]!.set(source.subarray(offset, offset + count), this.filled);
+      }
+      this.filled += count;
+      offset += count;
+      if (this.filled === CHUNK_FRAMES) {
+        this.flush();
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor("pcm-capture", PcmCaptureProcessor);